@@ -12,13 +12,22 @@ import {
   Loader2,
   Zap,
   Search,
+  Star,
+  BookOpen,
+  Ban,
+  RotateCcw,
+  AlertTriangle,
+  CalendarClock,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import { ScraperSchedules, type ScheduleRow } from "@/components/actors/ScraperSchedules";
 import { createClient } from "@/lib/supabase/client";
 import { cn, formatNumber } from "@/lib/utils";
+import { SCHEDULABLE_SCRAPER_TYPES, SCHEDULE_FREQUENCIES } from "@/lib/scraper-jobs/schedules";
+import type { ScraperErrorEntry } from "@/types";
 
 interface Actor {
   id: string;
@@ -30,12 +39,20 @@ interface Actor {
 
 interface Run {
   id: string;
-  actor_type: string;
+  scraper_type: string;
   search_query: string;
   status: string;
   total_results: number | null;
   processed_count: number;
   leads_created: number;
+  leads_enriched: number | null;
+  companies_found: number | null;
+  errors_count: number;
+  requests_made: number | null;
+  last_error: string | null;
+  error_log: ScraperErrorEntry[] | null;
+  max_results: number | null;
+  schedule_id: string | null;
   started_at: string | null;
   completed_at: string | null;
 }
@@ -55,27 +72,59 @@ const actors: Actor[] = [
     icon: Search,
     category: "Lead Generation",
   },
+  {
+    id: "yelp",
+    name: "Yelp Scraper",
+    description: "Extract local businesses with categories, ratings, and review counts from Yelp search results",
+    icon: Star,
+    category: "Lead Generation",
+  },
+  {
+    id: "yellowpages",
+    name: "YellowPages Scraper",
+    description: "Extract business listings with phone numbers, websites, and addresses from YellowPages",
+    icon: BookOpen,
+    category: "Lead Generation",
+  },
   {
     id: "apollo",
     name: "Apollo.io Extractor",
-    description: "Get verified B2B contacts with emails, job titles, and company data from Apollo",
+    description: "Search Apollo for B2B contacts with verified emails, job titles, seniority, and company data",
     icon: Database,
     category: "B2B Data",
   },
   {
     id: "linkedin_sales_nav",
     name: "LinkedIn Sales Navigator",
-    description: "Scrape decision makers and company info from LinkedIn Sales Navigator searches",
+    description: "Import decision makers from a Sales Navigator export and find their work emails",
     icon: Linkedin,
     category: "B2B Data",
   },
 ];
 
+const RUN_COLUMNS =
+  "id, scraper_type, search_query, status, total_results, processed_count, leads_created, leads_enriched, companies_found, errors_count, requests_made, last_error, error_log, max_results:search_parameters->max_results, schedule_id, started_at, completed_at";
+
+// Realtime payloads and the start endpoint return whole rows, including
+// search parameters that can hold a whole uploaded export
+function toRun(row: Record<string, unknown>): Run {
+  const { search_parameters, ...run } = row as Record<string, unknown> & {
+    search_parameters?: { max_results?: number };
+  };
+  return { ...run, max_results: search_parameters?.max_results ?? null } as Run;
+}
+
+const SCHEDULE_COLUMNS = "*, segment:segments(name), campaign:campaigns(name)";
+
+const selectClassName =
+  "flex h-10 w-full rounded-lg border border-input bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring";
+
 const statusConfig = {
   pending: { label: "Queued", variant: "secondary" as const, icon: Clock },
   running: { label: "Running", variant: "info" as const, icon: Loader2 },
   completed: { label: "Completed", variant: "success" as const, icon: CheckCircle2 },
   failed: { label: "Failed", variant: "destructive" as const, icon: XCircle },
+  cancelled: { label: "Cancelled", variant: "secondary" as const, icon: Ban },
 };
 
 export default function ActorsPage() {
@@ -85,51 +134,192 @@ export default function ActorsPage() {
   const [runs, setRuns] = useState<Run[]>([]);
   const [loading, setLoading] = useState(true);
   const [starting, setStarting] = useState(false);
+  const [exportFile, setExportFile] = useState<File | null>(null);
+  const [runError, setRunError] = useState<string | null>(null);
+  const [updatingRun, setUpdatingRun] = useState<string | null>(null);
+  const [maxResults, setMaxResults] = useState("100");
+  // Empty to run once, otherwise the cron to repeat on
+  const [repeatCron, setRepeatCron] = useState("");
+  const [segmentId, setSegmentId] = useState("");
+  const [campaignId, setCampaignId] = useState("");
+  const [schedules, setSchedules] = useState<ScheduleRow[]>([]);
+  const [segments, setSegments] = useState<{ id: string; name: string }[]>([]);
+  const [campaigns, setCampaigns] = useState<{ id: string; name: string }[]>([]);
+  const [expandedRun, setExpandedRun] = useState<string | null>(null);
 
   useEffect(() => {
     async function fetchRuns() {
       const supabase = createClient();
       const { data } = await supabase
         .from("scraper_jobs")
-        .select("*")
+        .select(RUN_COLUMNS)
         .order("created_at", { ascending: false })
         .limit(10);
 
-      setRuns(data || []);
+      setRuns((data as Run[]) || []);
       setLoading(false);
     }
 
     fetchRuns();
   }, []);
 
+  useEffect(() => {
+    async function fetchSchedules() {
+      const supabase = createClient();
+      const [schedulesResult, segmentsResult, campaignsResult] = await Promise.all([
+        supabase
+          .from("scraper_schedules")
+          .select(SCHEDULE_COLUMNS)
+          .order("created_at", { ascending: false }),
+        supabase.from("segments").select("id, name").order("name"),
+        supabase
+          .from("campaigns")
+          .select("id, name")
+          .in("status", ["draft", "scheduled", "active", "paused"])
+          .order("name"),
+      ]);
+
+      setSchedules(schedulesResult.data || []);
+      setSegments(segmentsResult.data || []);
+      setCampaigns(campaignsResult.data || []);
+    }
+
+    fetchSchedules();
+  }, []);
+
+  // Follow new runs and their progress live
+  useEffect(() => {
+    const supabase = createClient();
+    const channel = supabase
+      .channel("scraper-jobs")
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "scraper_jobs" },
+        (payload) => {
+          const run = toRun(payload.new);
+          setRuns((prev) =>
+            prev.some((r) => r.id === run.id) ? prev : [run, ...prev].slice(0, 10)
+          );
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "scraper_jobs" },
+        (payload) => {
+          const run = toRun(payload.new);
+          setRuns((prev) => prev.map((r) => (r.id === run.id ? run : r)));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  const isSalesNavImport = selectedActor === "linkedin_sales_nav";
+  const canRepeat = (SCHEDULABLE_SCRAPER_TYPES as readonly string[]).includes(selectedActor || "");
+  const isSchedule = canRepeat && !!repeatCron;
+
+  const resetRunForm = () => {
+    setSearchQuery("");
+    setLocation("");
+    setMaxResults("100");
+    setRepeatCron("");
+    setSegmentId("");
+    setCampaignId("");
+    setExportFile(null);
+    setSelectedActor(null);
+  };
+
   const handleRunActor = async () => {
-    if (!selectedActor || !searchQuery) return;
+    if (!selectedActor || (isSalesNavImport ? !exportFile : !searchQuery)) return;
 
     setStarting(true);
-    const supabase = createClient();
+    setRunError(null);
 
-    const { data, error } = await supabase
-      .from("scraper_jobs")
-      .insert({
-        scraper_type: selectedActor,
-        search_query: searchQuery,
-        location: location || null,
-        status: "pending",
-      })
-      .select()
-      .single();
-
-    if (!error && data) {
-      setRuns((prev) => [data, ...prev]);
-      setSearchQuery("");
-      setLocation("");
-      setSelectedActor(null);
+    try {
+      let response: Response;
+      if (isSchedule) {
+        response = await fetch("/api/scraper-schedules", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            scraperType: selectedActor,
+            query: searchQuery,
+            location: location || undefined,
+            maxResults: Number(maxResults) || undefined,
+            cron: repeatCron,
+            segmentId: segmentId || null,
+            campaignId: campaignId || null,
+          }),
+        });
+      } else if (isSalesNavImport) {
+        const formData = new FormData();
+        formData.append("file", exportFile!);
+        response = await fetch("/api/scraper-jobs/linkedin-import", {
+          method: "POST",
+          body: formData,
+        });
+      } else {
+        response = await fetch("/api/scraper-jobs", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            scraperType: selectedActor,
+            query: searchQuery,
+            location: location || undefined,
+            maxResults: Number(maxResults) || undefined,
+          }),
+        });
+      }
+
+      const result = await response.json();
+      if (!response.ok) {
+        setRunError(
+          result.error || (isSchedule ? "Failed to save the schedule" : "Failed to start the run")
+        );
+      } else if (isSchedule) {
+        const schedule: ScheduleRow = {
+          ...result.data,
+          segment: segments.find((s) => s.id === segmentId) || null,
+          campaign: campaigns.find((c) => c.id === campaignId) || null,
+        };
+        setSchedules((prev) => [schedule, ...prev]);
+        resetRunForm();
+      } else {
+        const run = toRun(result.data);
+        setRuns((prev) => [run, ...prev.filter((r) => r.id !== run.id)]);
+        resetRunForm();
+      }
+    } catch (error) {
+      console.error("Failed to start run:", error);
+      setRunError("Failed to start the run");
     }
 
     setStarting(false);
   };
 
+  const handleRunAction = async (runId: string, action: "cancel" | "retry") => {
+    setUpdatingRun(runId);
+    try {
+      const response = await fetch(`/api/scraper-jobs/${runId}/${action}`, { method: "POST" });
+      const data = await response.json();
+
+      if (!response.ok) {
+        alert(data.error || `Failed to ${action} the run`);
+      } else {
+        const status = action === "cancel" ? "cancelled" : "pending";
+        setRuns((prev) => prev.map((r) => (r.id === runId ? { ...r, status } : r)));
+      }
+    } catch (error) {
+      console.error(`Failed to ${action} run:`, error);
+    }
+    setUpdatingRun(null);
+  };
+
   const getActorInfo = (type: string) => actors.find((a) => a.id === type);
+  const getActorName = (type: string) => getActorInfo(type)?.name || type;
 
   return (
     <div className="space-y-8">
@@ -189,41 +379,157 @@ export default function ActorsPage() {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="grid gap-4 md:grid-cols-2">
+            {isSalesNavImport ? (
               <div>
                 <label className="mb-2 block text-sm font-medium text-foreground">
-                  Search Query
+                  Sales Navigator Export
                 </label>
                 <Input
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  placeholder="e.g., IT services, marketing agencies..."
+                  type="file"
+                  accept=".csv,.xlsx"
+                  onChange={(e) => setExportFile(e.target.files?.[0] || null)}
                 />
+                <p className="mt-1 text-xs text-muted-foreground">
+                  A CSV or XLSX of contacts with name, title, company and website columns.
+                  Contacts without an email are sent to the email finder.
+                </p>
               </div>
-              <div>
-                <label className="mb-2 block text-sm font-medium text-foreground">
-                  Location (optional)
-                </label>
-                <Input
-                  value={location}
-                  onChange={(e) => setLocation(e.target.value)}
-                  placeholder="e.g., Austin TX, New York..."
-                />
+            ) : (
+              <div className="grid gap-4 md:grid-cols-2">
+                <div>
+                  <label className="mb-2 block text-sm font-medium text-foreground">
+                    Search Query
+                  </label>
+                  <Input
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    placeholder="e.g., IT services, marketing agencies..."
+                  />
+                </div>
+                <div>
+                  <label className="mb-2 block text-sm font-medium text-foreground">
+                    Location (optional)
+                  </label>
+                  <Input
+                    value={location}
+                    onChange={(e) => setLocation(e.target.value)}
+                    placeholder="e.g., Austin TX, New York..."
+                  />
+                </div>
+                <div>
+                  <label className="mb-2 block text-sm font-medium text-foreground">
+                    Max Results
+                  </label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={1000}
+                    value={maxResults}
+                    onChange={(e) => setMaxResults(e.target.value)}
+                  />
+                </div>
+                {canRepeat && (
+                  <div>
+                    <label className="mb-2 block text-sm font-medium text-foreground">
+                      Repeat
+                    </label>
+                    <select
+                      value={repeatCron}
+                      onChange={(e) => setRepeatCron(e.target.value)}
+                      className={selectClassName}
+                    >
+                      <option value="">Run once</option>
+                      {SCHEDULE_FREQUENCIES.map((frequency) => (
+                        <option key={frequency.cron} value={frequency.cron}>
+                          {frequency.label} (6 AM UTC)
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                {isSchedule && (
+                  <>
+                    <div>
+                      <label className="mb-2 block text-sm font-medium text-foreground">
+                        Add New Leads to Segment (optional)
+                      </label>
+                      <select
+                        value={segmentId}
+                        onChange={(e) => setSegmentId(e.target.value)}
+                        className={selectClassName}
+                      >
+                        <option value="">None</option>
+                        {segments.map((segment) => (
+                          <option key={segment.id} value={segment.id}>
+                            {segment.name}
+                          </option>
+                        ))}
+                      </select>
+                      <p className="mt-1 text-xs text-muted-foreground">
+                        New leads get the tags the segment filters on.
+                      </p>
+                    </div>
+                    <div>
+                      <label className="mb-2 block text-sm font-medium text-foreground">
+                        Add New Leads to Campaign (optional)
+                      </label>
+                      <select
+                        value={campaignId}
+                        onChange={(e) => setCampaignId(e.target.value)}
+                        className={selectClassName}
+                      >
+                        <option value="">None</option>
+                        {campaigns.map((campaign) => (
+                          <option key={campaign.id} value={campaign.id}>
+                            {campaign.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </>
+                )}
               </div>
-            </div>
+            )}
+
+            {runError && (
+              <div className="rounded-lg bg-destructive/10 p-3 text-sm text-destructive">
+                {runError}
+              </div>
+            )}
 
-            <Button onClick={handleRunActor} disabled={!searchQuery || starting}>
+            <Button
+              onClick={handleRunActor}
+              disabled={(isSalesNavImport ? !exportFile : !searchQuery) || starting}
+            >
               {starting ? (
                 <Loader2 className="h-4 w-4 animate-spin" />
+              ) : isSchedule ? (
+                <CalendarClock className="h-4 w-4" />
               ) : (
                 <Play className="h-4 w-4" />
               )}
-              Start Run
+              {isSchedule ? "Save Schedule" : "Start Run"}
             </Button>
           </CardContent>
         </Card>
       )}
 
+      {/* Schedules */}
+      {schedules.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Schedules</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ScraperSchedules
+              schedules={schedules}
+              onSchedulesChange={setSchedules}
+              getActorName={getActorName}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Recent Runs */}
       <Card>
         <CardHeader>
@@ -247,12 +553,15 @@ export default function ActorsPage() {
           ) : (
             <div className="space-y-3">
               {runs.map((run) => {
-                const actor = getActorInfo(run.actor_type);
+                const actor = getActorInfo(run.scraper_type);
                 const status = statusConfig[run.status as keyof typeof statusConfig] || statusConfig.pending;
                 const StatusIcon = status.icon;
-                const progress = run.total_results && run.total_results > 0
-                  ? (run.processed_count / run.total_results) * 100
+                const leadsFound = run.leads_created + (run.leads_enriched || 0);
+                const expected = run.total_results || run.max_results;
+                const progress = expected && expected > 0
+                  ? Math.min((run.processed_count / expected) * 100, 100)
                   : 0;
+                const errorLog = run.error_log || [];
 
                 return (
                   <div
@@ -278,26 +587,36 @@ export default function ActorsPage() {
                             </Badge>
                           </div>
                           <p className="mt-0.5 text-sm text-muted-foreground">
-                            {actor?.name || run.actor_type}
+                            {actor?.name || run.scraper_type}
+                            {run.schedule_id && " · Scheduled"}
+                            {(run.requests_made || 0) > 0 &&
+                              ` · ${formatNumber(run.requests_made || 0)} requests`}
                           </p>
+                          {run.status === "failed" && run.last_error && (
+                            <p className="mt-1 text-sm text-destructive">{run.last_error}</p>
+                          )}
                         </div>
                       </div>
 
-                      {run.leads_created > 0 && (
+                      {(leadsFound > 0 || (run.companies_found || 0) > 0) && (
                         <div className="text-right">
                           <p className="text-lg font-semibold text-[#039855]">
-                            +{formatNumber(run.leads_created)}
+                            +{formatNumber(leadsFound)}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            leads
+                            {(run.companies_found || 0) > 0 &&
+                              ` · ${formatNumber(run.companies_found || 0)} companies`}
                           </p>
-                          <p className="text-xs text-muted-foreground">leads</p>
                         </div>
                       )}
                     </div>
 
-                    {run.status === "running" && run.total_results && (
+                    {run.status === "running" && expected && (
                       <div className="mt-3">
                         <div className="mb-1 flex justify-between text-xs text-muted-foreground">
                           <span>Progress</span>
-                          <span>{run.processed_count} / {run.total_results}</span>
+                          <span>{run.processed_count} / {expected}</span>
                         </div>
                         <div className="h-1.5 overflow-hidden rounded-full bg-background">
                           <div
@@ -307,6 +626,67 @@ export default function ActorsPage() {
                         </div>
                       </div>
                     )}
+
+                    {(["pending", "running", "failed", "cancelled"].includes(run.status) ||
+                      errorLog.length > 0) && (
+                      <div className="mt-3 flex items-center gap-2">
+                        {(run.status === "pending" || run.status === "running") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleRunAction(run.id, "cancel")}
+                            disabled={updatingRun === run.id}
+                          >
+                            <Ban className="mr-2 h-4 w-4" />
+                            Cancel
+                          </Button>
+                        )}
+                        {(run.status === "failed" || run.status === "cancelled") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleRunAction(run.id, "retry")}
+                            disabled={updatingRun === run.id}
+                          >
+                            <RotateCcw className="mr-2 h-4 w-4" />
+                            Retry
+                          </Button>
+                        )}
+                        {errorLog.length > 0 && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setExpandedRun(expandedRun === run.id ? null : run.id)}
+                          >
+                            <AlertTriangle className="mr-2 h-4 w-4" />
+                            {run.errors_count} {run.errors_count === 1 ? "error" : "errors"}
+                          </Button>
+                        )}
+                      </div>
+                    )}
+
+                    {expandedRun === run.id && errorLog.length > 0 && (
+                      <div className="mt-3 space-y-2 rounded-lg bg-background p-3">
+                        {errorLog.map((entry, index) => (
+                          <div key={index} className="text-sm">
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="font-medium text-foreground">
+                                {entry.listing || (entry.fatal ? "Run" : "Request")}
+                              </span>
+                              <span className="text-xs text-muted-foreground">
+                                {new Date(entry.timestamp).toLocaleTimeString()}
+                              </span>
+                            </div>
+                            <p className="text-muted-foreground">{entry.message}</p>
+                          </div>
+                        ))}
+                        {run.errors_count > errorLog.length && (
+                          <p className="text-xs text-muted-foreground">
+                            Showing the last {errorLog.length} of {run.errors_count} errors
+                          </p>
+                        )}
+                      </div>
+                    )}
                   </div>
                 );
               })}
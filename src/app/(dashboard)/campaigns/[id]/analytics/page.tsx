@@ -16,6 +16,8 @@ import {
   Users,
   BarChart3,
   Clock,
+  FlaskConical,
+  Trophy,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -30,6 +32,15 @@ import {
 } from "@/components/ui/table";
 import { createClient } from "@/lib/supabase/client";
 import { formatNumber, formatPercentage, formatDate } from "@/lib/utils";
+import {
+  AB_WINNER_METRICS,
+  getVariantRate,
+  getVariantStats,
+  parseAbTestConfig,
+  rankVariants,
+  type VariantStats,
+} from "@/lib/ab-testing";
+import type { AbTestConfig } from "@/types";
 
 interface Campaign {
   id: string;
@@ -42,6 +53,8 @@ interface Campaign {
   clicked_count: number;
   bounced_count: number;
   unsubscribed_count: number;
+  is_ab_test: boolean;
+  ab_variants: AbTestConfig | null;
   started_at: string | null;
   created_at: string;
 }
@@ -91,6 +104,8 @@ export default function CampaignAnalyticsPage({
   const campaignId = resolvedParams.id;
   const [campaign, setCampaign] = useState<Campaign | null>(null);
   const [campaignLeads, setCampaignLeads] = useState<CampaignLead[]>([]);
+  const [abTest, setAbTest] = useState<AbTestConfig | null>(null);
+  const [variantStats, setVariantStats] = useState<VariantStats[]>([]);
   const [loading, setLoading] = useState(true);
 
   const fetchData = useCallback(async () => {
@@ -105,6 +120,15 @@ export default function CampaignAnalyticsPage({
 
     if (campaignData) {
       setCampaign(campaignData);
+
+      // Per-variant stats for A/B tests
+      const config = campaignData.is_ab_test
+        ? parseAbTestConfig(campaignData.ab_variants)
+        : null;
+      setAbTest(config);
+      if (config) {
+        setVariantStats(await getVariantStats(supabase, campaignId, config));
+      }
     }
 
     // Fetch campaign leads with engagement data
@@ -176,6 +200,11 @@ export default function CampaignAnalyticsPage({
     ? (campaign.unsubscribed_count / campaign.delivered_count) * 100
     : 0;
 
+  // A/B test significance of the current leader over the runner-up
+  const abMetric = abTest?.winner_metric || "open";
+  const abLeader = rankVariants(variantStats, abMetric);
+  const abSignificant = abLeader.confidence >= 95;
+
   // Engagement breakdown
   const engaged = campaign.opened_count;
   const notEngaged = campaign.delivered_count - campaign.opened_count;
@@ -426,6 +455,98 @@ export default function CampaignAnalyticsPage({
         </Card>
       </div>
 
+      {/* A/B Test Results */}
+      {abTest && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <FlaskConical className="h-5 w-5 text-muted-foreground" />
+                <CardTitle>A/B Test Results</CardTitle>
+              </div>
+              {abTest.winner_variant ? (
+                <Badge variant="success">
+                  <Trophy className="mr-1 h-3 w-3" />
+                  Variant {abTest.winner_variant} won
+                </Badge>
+              ) : (
+                <Badge variant="info">Testing</Badge>
+              )}
+            </div>
+            <CardDescription>
+              Winner chosen by{" "}
+              {AB_WINNER_METRICS.find((m) => m.value === abMetric)?.label.toLowerCase()} after{" "}
+              {formatNumber(abTest.sample_size)} sends per variant ({abTest.test_percentage}% of
+              leads in the test group)
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4 p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Variant</TableHead>
+                  <TableHead>Subject</TableHead>
+                  <TableHead>Sent</TableHead>
+                  <TableHead>Open Rate</TableHead>
+                  <TableHead>Click Rate</TableHead>
+                  <TableHead>Reply Rate</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {variantStats.map((stats) => {
+                  const variant = abTest.variants.find((v) => v.id === stats.variant);
+                  const isLeader = abLeader.leader?.variant === stats.variant;
+
+                  return (
+                    <TableRow key={stats.variant}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-foreground">{stats.variant}</span>
+                          {abTest.winner_variant === stats.variant ? (
+                            <Badge variant="success">Winner</Badge>
+                          ) : (
+                            !abTest.winner_variant &&
+                            isLeader &&
+                            stats.sent > 0 && <Badge variant="secondary">Leading</Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-sm text-muted-foreground">
+                          {variant?.subject || "-"}
+                        </span>
+                      </TableCell>
+                      <TableCell>{formatNumber(stats.sent)}</TableCell>
+                      <TableCell>{formatPercentage(getVariantRate(stats, "open"))}</TableCell>
+                      <TableCell>{formatPercentage(getVariantRate(stats, "click"))}</TableCell>
+                      <TableCell>{formatPercentage(getVariantRate(stats, "reply"))}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            <div className="flex items-center gap-2 px-6 pb-6 text-sm">
+              {abSignificant ? (
+                <>
+                  <CheckCircle2 className="h-4 w-4 text-[#039855]" />
+                  <span className="text-[#039855]">
+                    Statistically significant ({formatPercentage(abLeader.confidence)} confidence)
+                  </span>
+                </>
+              ) : (
+                <>
+                  <AlertTriangle className="h-4 w-4 text-[#dc6803]" />
+                  <span className="text-[#dc6803]">
+                    Not yet significant ({formatPercentage(abLeader.confidence)} confidence, 95%
+                    needed)
+                  </span>
+                </>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Recent Engagement */}
       <Card>
         <CardHeader>
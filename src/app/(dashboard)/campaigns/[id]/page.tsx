@@ -21,6 +21,8 @@ import {
   Settings,
   Plus,
   UserPlus,
+  Download,
+  Filter,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -35,18 +37,27 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { AddLeadsToCampaignDialog } from "@/components/campaigns/AddLeadsToCampaignDialog";
+import { ExportDialog } from "@/components/shared/export-dialog";
+import {
+  CAMPAIGN_LEAD_EXPORT_COLUMNS,
+  CUSTOM_FIELD_COLUMN_PREFIX,
+  DEFAULT_CAMPAIGN_LEAD_EXPORT_COLUMNS,
+} from "@/lib/export";
 
 interface Campaign {
   id: string;
   name: string;
   status: string;
   template_id: string | null;
+  segment_id: string | null;
   from_name: string;
   from_email: string;
   reply_to: string | null;
   daily_limit: number;
   send_window_start: string;
   send_window_end: string;
+  timezone: string | null;
+  timezone_mode: string;
   sent_count: number;
   delivered_count: number;
   opened_count: number;
@@ -54,11 +65,15 @@ interface Campaign {
   bounced_count: number;
   created_at: string;
   email_templates?: { name: string; subject: string } | null;
+  segments?: { name: string } | null;
+  campaign_steps?: { step_number: number }[];
 }
 
 interface CampaignLead {
   id: string;
   status: string;
+  current_step: number;
+  next_send_at: string | null;
   sent_at: string | null;
   opened_at: string | null;
   clicked_at: string | null;
@@ -89,6 +104,7 @@ export default function CampaignDetailPage() {
   const [loading, setLoading] = useState(true);
   const [updating, setUpdating] = useState(false);
   const [addLeadsOpen, setAddLeadsOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
   const [totalLeads, setTotalLeads] = useState(0);
 
   const fetchCampaign = useCallback(async () => {
@@ -98,7 +114,9 @@ export default function CampaignDetailPage() {
       .from("campaigns")
       .select(`
         *,
-        email_templates (name, subject)
+        email_templates (name, subject),
+        segments (name),
+        campaign_steps (step_number)
       `)
       .eq("id", campaignId)
       .single();
@@ -112,6 +130,8 @@ export default function CampaignDetailPage() {
         .select(`
           id,
           status,
+          current_step,
+          next_send_at,
           sent_at,
           opened_at,
           clicked_at,
@@ -135,8 +155,8 @@ export default function CampaignDetailPage() {
   const handleStartCampaign = async () => {
     if (!campaign) return;
 
-    // Validate campaign has leads
-    if (totalLeads === 0) {
+    // Validate campaign has leads (an audience segment enrolls them on start)
+    if (totalLeads === 0 && !campaign.segment_id) {
       alert("Please add leads to this campaign before starting.");
       return;
     }
@@ -165,6 +185,22 @@ export default function CampaignDetailPage() {
     setUpdating(false);
   };
 
+  const handleStopAutoEnroll = async () => {
+    if (!campaign) return;
+
+    try {
+      const response = await fetch(`/api/campaigns/${campaignId}/segment`, {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        setCampaign({ ...campaign, segment_id: null, segments: null });
+      }
+    } catch (error) {
+      console.error("Error removing campaign segment:", error);
+    }
+  };
+
   const handlePauseCampaign = async () => {
     if (!campaign) return;
     setUpdating(true);
@@ -258,6 +294,7 @@ export default function CampaignDetailPage() {
     );
   }
 
+  const sequenceLength = Math.max(campaign.campaign_steps?.length || 0, 1);
   const statsSent = campaign.sent_count || 0;
   const statsDelivered = campaign.delivered_count || 0;
   const statsOpened = campaign.opened_count || 0;
@@ -462,10 +499,24 @@ export default function CampaignDetailPage() {
                 {campaign.send_window_start} - {campaign.send_window_end}
               </span>
             </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Timezone</span>
+              <span className="font-medium">
+                {campaign.timezone_mode === "recipient"
+                  ? "Recipient's local time"
+                  : campaign.timezone || "Default"}
+              </span>
+            </div>
             <div className="flex justify-between">
               <span className="text-muted-foreground">Template</span>
               <span className="font-medium">{campaign.email_templates?.name || "None"}</span>
             </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Sequence</span>
+              <span className="font-medium">
+                {sequenceLength} step{sequenceLength !== 1 ? "s" : ""}
+              </span>
+            </div>
           </CardContent>
         </Card>
       </div>
@@ -478,13 +529,33 @@ export default function CampaignDetailPage() {
             <p className="text-sm text-muted-foreground mt-1">
               {totalLeads} lead{totalLeads !== 1 ? "s" : ""} assigned
             </p>
+            {campaign.segment_id && (
+              <p className="text-sm text-muted-foreground mt-1 flex items-center gap-2">
+                <Filter className="h-3 w-3" />
+                Auto-enrolling leads from {campaign.segments?.name || "a segment"}
+                <button
+                  onClick={handleStopAutoEnroll}
+                  className="text-primary hover:underline"
+                >
+                  Stop
+                </button>
+              </p>
+            )}
+          </div>
+          <div className="flex gap-2">
+            {totalLeads > 0 && (
+              <Button variant="outline" onClick={() => setExportOpen(true)}>
+                <Download className="h-4 w-4" />
+                Export
+              </Button>
+            )}
+            {(campaign.status === "draft" || campaign.status === "paused") && (
+              <Button onClick={() => setAddLeadsOpen(true)}>
+                <UserPlus className="h-4 w-4" />
+                Add Leads
+              </Button>
+            )}
           </div>
-          {(campaign.status === "draft" || campaign.status === "paused") && (
-            <Button onClick={() => setAddLeadsOpen(true)}>
-              <UserPlus className="h-4 w-4" />
-              Add Leads
-            </Button>
-          )}
         </CardHeader>
         <CardContent>
           {campaignLeads.length === 0 ? (
@@ -516,6 +587,17 @@ export default function CampaignDetailPage() {
                     </p>
                   </div>
                   <div className="flex items-center gap-4 text-sm">
+                    {sequenceLength > 1 && cl.current_step > 0 && (
+                      <Badge variant="secondary">
+                        Step {cl.current_step}/{sequenceLength}
+                      </Badge>
+                    )}
+                    {cl.next_send_at && (
+                      <div className="flex items-center gap-1 text-muted-foreground">
+                        <Clock className="h-3.5 w-3.5" />
+                        <span>Next {formatDate(cl.next_send_at)}</span>
+                      </div>
+                    )}
                     {cl.sent_at && (
                       <div className="flex items-center gap-1 text-muted-foreground">
                         <Mail className="h-3.5 w-3.5" />
@@ -555,6 +637,18 @@ export default function CampaignDetailPage() {
         campaignId={campaignId}
         onLeadsAdded={fetchCampaign}
       />
+
+      {/* Export Dialog */}
+      <ExportDialog
+        open={exportOpen}
+        onOpenChange={setExportOpen}
+        title="Export Recipients"
+        description="Download this campaign's recipients with their engagement timestamps."
+        endpoint={`/api/campaigns/${campaignId}/leads/export`}
+        columns={CAMPAIGN_LEAD_EXPORT_COLUMNS}
+        defaultColumns={DEFAULT_CAMPAIGN_LEAD_EXPORT_COLUMNS}
+        customFieldColumnPrefix={`lead.${CUSTOM_FIELD_COLUMN_PREFIX}`}
+      />
     </div>
   );
 }
@@ -3,11 +3,20 @@
 import { useEffect, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import Link from "next/link";
-import { ArrowLeft, Save, Loader2, Mail, Clock, Users } from "lucide-react";
+import { ArrowLeft, Save, Loader2, Mail, Clock, Users, ListOrdered, FlaskConical } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
 import { createClient } from "@/lib/supabase/client";
+import { TIMEZONES, TIMEZONE_MODES } from "@/lib/scheduling";
+import { createAbTestConfig, parseAbTestConfig } from "@/lib/ab-testing";
+import type { AbTestConfig, SendTimezoneMode, SenderAccount } from "@/types";
+import {
+  SequenceStepsEditor,
+  type FollowUpStep,
+} from "@/components/campaigns/SequenceStepsEditor";
+import { AbVariantsEditor } from "@/components/campaigns/AbVariantsEditor";
+import { MailboxSelector } from "@/components/campaigns/MailboxSelector";
 
 interface Campaign {
   id: string;
@@ -19,6 +28,8 @@ interface Campaign {
   daily_limit: number;
   send_window_start: string | null;
   send_window_end: string | null;
+  timezone: string | null;
+  timezone_mode: SendTimezoneMode;
   status: string;
 }
 
@@ -38,22 +49,56 @@ export default function CampaignSettingsPage() {
   const [saved, setSaved] = useState(false);
   const [campaign, setCampaign] = useState<Campaign | null>(null);
   const [templates, setTemplates] = useState<Template[]>([]);
+  const [followUps, setFollowUps] = useState<FollowUpStep[]>([]);
+  const [abTest, setAbTest] = useState<AbTestConfig | null>(null);
+  const [senders, setSenders] = useState<SenderAccount[]>([]);
+  const [senderIds, setSenderIds] = useState<string[]>([]);
 
   useEffect(() => {
     async function fetchData() {
       const supabase = createClient();
 
-      const [campaignResult, templatesResult] = await Promise.all([
+      const [campaignResult, templatesResult, stepsResult, sendersResult, campaignSendersResult] =
+        await Promise.all([
         supabase.from("campaigns").select("*").eq("id", campaignId).single(),
         supabase.from("email_templates").select("id, name, subject").eq("is_active", true),
+        supabase
+          .from("campaign_steps")
+          .select("step_number, template_id, wait_days, condition")
+          .eq("campaign_id", campaignId)
+          .gt("step_number", 1)
+          .order("step_number", { ascending: true }),
+        supabase.from("sender_accounts").select("*").order("created_at", { ascending: true }),
+        supabase
+          .from("campaign_senders")
+          .select("sender_account_id")
+          .eq("campaign_id", campaignId),
       ]);
 
       if (campaignResult.data) {
         setCampaign(campaignResult.data);
+        if (campaignResult.data.is_ab_test) {
+          setAbTest(parseAbTestConfig(campaignResult.data.ab_variants));
+        }
       }
       if (templatesResult.data) {
         setTemplates(templatesResult.data);
       }
+      if (sendersResult.data) {
+        setSenders(sendersResult.data);
+      }
+      if (campaignSendersResult.data) {
+        setSenderIds(campaignSendersResult.data.map((s) => s.sender_account_id));
+      }
+      if (stepsResult.data) {
+        setFollowUps(
+          stepsResult.data.map((step) => ({
+            template_id: step.template_id,
+            wait_days: step.wait_days,
+            condition: step.condition,
+          }))
+        );
+      }
 
       setLoading(false);
     }
@@ -79,9 +124,45 @@ export default function CampaignSettingsPage() {
         daily_limit: campaign.daily_limit,
         send_window_start: campaign.send_window_start,
         send_window_end: campaign.send_window_end,
+        timezone: campaign.timezone || null,
+        timezone_mode: campaign.timezone_mode,
+        is_ab_test: !!abTest,
+        ab_variants: abTest,
       })
       .eq("id", campaignId);
 
+    // Replace the mailboxes this campaign rotates across
+    await supabase.from("campaign_senders").delete().eq("campaign_id", campaignId);
+    if (senderIds.length > 0) {
+      await supabase.from("campaign_senders").insert(
+        senderIds.map((senderAccountId) => ({
+          campaign_id: campaignId,
+          sender_account_id: senderAccountId,
+        }))
+      );
+    }
+
+    // Replace sequence steps (initial email + follow-ups)
+    if (campaign.template_id) {
+      await supabase.from("campaign_steps").delete().eq("campaign_id", campaignId);
+      await supabase.from("campaign_steps").insert([
+        {
+          campaign_id: campaignId,
+          step_number: 1,
+          template_id: campaign.template_id,
+          wait_days: 0,
+          condition: "always",
+        },
+        ...followUps
+          .filter((step) => step.template_id)
+          .map((step, index) => ({
+            campaign_id: campaignId,
+            step_number: index + 2,
+            ...step,
+          })),
+      ]);
+    }
+
     setSaving(false);
     setSaved(true);
     setTimeout(() => setSaved(false), 3000);
@@ -195,6 +276,11 @@ export default function CampaignSettingsPage() {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
+            <div>
+              <label className="mb-2 block text-sm font-medium">Sending Mailboxes</label>
+              <MailboxSelector senders={senders} selected={senderIds} onChange={setSenderIds} />
+            </div>
+
             <div>
               <label className="mb-2 block text-sm font-medium">From Name</label>
               <Input
@@ -258,11 +344,94 @@ export default function CampaignSettingsPage() {
                 />
               </div>
             </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <label className="mb-2 block text-sm font-medium">Timezone</label>
+                <select
+                  className="flex h-10 w-full rounded-lg border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                  value={campaign.timezone || ""}
+                  onChange={(e) => setCampaign({ ...campaign, timezone: e.target.value || null })}
+                >
+                  <option value="">Default (from Settings)</option>
+                  {TIMEZONES.map((tz) => (
+                    <option key={tz.value} value={tz.value}>
+                      {tz.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="mb-2 block text-sm font-medium">Evaluate Window In</label>
+                <select
+                  className="flex h-10 w-full rounded-lg border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                  value={campaign.timezone_mode || "campaign"}
+                  onChange={(e) =>
+                    setCampaign({ ...campaign, timezone_mode: e.target.value as SendTimezoneMode })
+                  }
+                >
+                  {TIMEZONE_MODES.map((mode) => (
+                    <option key={mode.value} value={mode.value}>
+                      {mode.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
             <p className="text-xs text-muted-foreground">
-              Leave empty to use the global send window from Settings
+              Leave empty to use the global send window from Settings.
+              {campaign.timezone_mode === "recipient" &&
+                " Each lead's window is based on their location; leads with an unknown location use the campaign timezone."}
             </p>
           </CardContent>
         </Card>
+
+        {/* Follow-up Sequence */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <ListOrdered className="h-5 w-5 text-muted-foreground" />
+              <CardTitle>Follow-up Sequence</CardTitle>
+            </div>
+            <CardDescription>
+              Emails sent after the initial template, each waiting the given number of days
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <SequenceStepsEditor
+              templates={templates}
+              steps={followUps}
+              onChange={setFollowUps}
+            />
+          </CardContent>
+        </Card>
+
+        {/* A/B Test */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <FlaskConical className="h-5 w-5 text-muted-foreground" />
+                <CardTitle>A/B Test</CardTitle>
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setAbTest(abTest ? null : createAbTestConfig())}
+              >
+                {abTest ? "Remove A/B Test" : "Enable A/B Test"}
+              </Button>
+            </div>
+            <CardDescription>
+              Variants of the initial email; the winner is sent to the remaining leads
+            </CardDescription>
+          </CardHeader>
+          {abTest && (
+            <CardContent>
+              <AbVariantsEditor config={abTest} onChange={setAbTest} />
+            </CardContent>
+          )}
+        </Card>
       </div>
     </div>
   );
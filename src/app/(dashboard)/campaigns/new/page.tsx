@@ -8,6 +8,15 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { createClient } from "@/lib/supabase/client";
+import { TIMEZONES, TIMEZONE_MODES } from "@/lib/scheduling";
+import { createAbTestConfig } from "@/lib/ab-testing";
+import type { AbTestConfig, SendTimezoneMode, SenderAccount } from "@/types";
+import {
+  SequenceStepsEditor,
+  type FollowUpStep,
+} from "@/components/campaigns/SequenceStepsEditor";
+import { AbVariantsEditor } from "@/components/campaigns/AbVariantsEditor";
+import { MailboxSelector } from "@/components/campaigns/MailboxSelector";
 
 interface Template {
   id: string;
@@ -28,17 +37,27 @@ export default function NewCampaignPage() {
     daily_limit: 50,
     send_window_start: "09:00",
     send_window_end: "17:00",
+    timezone: "",
+    timezone_mode: "campaign" as SendTimezoneMode,
   });
+  const [followUps, setFollowUps] = useState<FollowUpStep[]>([]);
+  const [abTest, setAbTest] = useState<AbTestConfig | null>(null);
+  const [senders, setSenders] = useState<SenderAccount[]>([]);
+  const [senderIds, setSenderIds] = useState<string[]>([]);
 
   useEffect(() => {
     async function fetchTemplates() {
       const supabase = createClient();
-      const { data } = await supabase
-        .from("email_templates")
-        .select("id, name")
-        .eq("is_active", true);
+      const [{ data }, { data: senderData }] = await Promise.all([
+        supabase.from("email_templates").select("id, name").eq("is_active", true),
+        supabase
+          .from("sender_accounts")
+          .select("*")
+          .order("created_at", { ascending: true }),
+      ]);
 
       setTemplates(data || []);
+      setSenders(senderData || []);
     }
 
     fetchTemplates();
@@ -49,19 +68,52 @@ export default function NewCampaignPage() {
     setLoading(true);
 
     const supabase = createClient();
-    const { error } = await supabase.from("campaigns").insert({
-      name: formData.name,
-      template_id: formData.template_id || null,
-      from_name: formData.from_name,
-      from_email: formData.from_email,
-      reply_to: formData.reply_to || null,
-      daily_limit: formData.daily_limit,
-      send_window_start: formData.send_window_start,
-      send_window_end: formData.send_window_end,
-      status: "draft",
-    });
+    const { data: campaign, error } = await supabase
+      .from("campaigns")
+      .insert({
+        name: formData.name,
+        template_id: formData.template_id || null,
+        from_name: formData.from_name,
+        from_email: formData.from_email,
+        reply_to: formData.reply_to || null,
+        daily_limit: formData.daily_limit,
+        send_window_start: formData.send_window_start,
+        send_window_end: formData.send_window_end,
+        timezone: formData.timezone || null,
+        timezone_mode: formData.timezone_mode,
+        is_ab_test: !!abTest,
+        ab_variants: abTest,
+        status: "draft",
+      })
+      .select("id")
+      .single();
+
+    if (!error && campaign) {
+      // Initial email is step 1, follow-ups continue from step 2
+      await supabase.from("campaign_steps").insert([
+        {
+          campaign_id: campaign.id,
+          step_number: 1,
+          template_id: formData.template_id,
+          wait_days: 0,
+          condition: "always",
+        },
+        ...followUps.map((step, index) => ({
+          campaign_id: campaign.id,
+          step_number: index + 2,
+          ...step,
+        })),
+      ]);
+
+      if (senderIds.length > 0) {
+        await supabase.from("campaign_senders").insert(
+          senderIds.map((senderAccountId) => ({
+            campaign_id: campaign.id,
+            sender_account_id: senderAccountId,
+          }))
+        );
+      }
 
-    if (!error) {
       router.push("/campaigns");
     }
 
@@ -149,12 +201,59 @@ export default function NewCampaignPage() {
           </CardContent>
         </Card>
 
+        {/* Follow-up Sequence */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Follow-up Sequence</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <SequenceStepsEditor
+              templates={templates}
+              steps={followUps}
+              onChange={setFollowUps}
+            />
+          </CardContent>
+        </Card>
+
+        {/* A/B Test */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>A/B Test</CardTitle>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setAbTest(abTest ? null : createAbTestConfig())}
+              >
+                {abTest ? "Remove A/B Test" : "Enable A/B Test"}
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {abTest ? (
+              <AbVariantsEditor config={abTest} onChange={setAbTest} />
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Test different subject lines or bodies for the initial email and automatically
+                send the best performer to the rest of your leads.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Sender Settings */}
         <Card>
           <CardHeader>
             <CardTitle>Sender Settings</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
+            <div>
+              <label className="mb-2 block text-sm font-medium text-foreground">
+                Sending Mailboxes
+              </label>
+              <MailboxSelector senders={senders} selected={senderIds} onChange={setSenderIds} />
+            </div>
             <div className="grid gap-4 md:grid-cols-2">
               <div>
                 <label className="mb-2 block text-sm font-medium text-foreground">
@@ -261,9 +360,52 @@ export default function NewCampaignPage() {
                 />
               </div>
             </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div>
+                <label className="mb-2 block text-sm font-medium text-foreground">
+                  Timezone
+                </label>
+                <select
+                  className="flex h-10 w-full rounded-lg border border-input bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                  value={formData.timezone}
+                  onChange={(e) =>
+                    setFormData({ ...formData, timezone: e.target.value })
+                  }
+                >
+                  <option value="">Default (from settings)</option>
+                  {TIMEZONES.map((tz) => (
+                    <option key={tz.value} value={tz.value}>
+                      {tz.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="mb-2 block text-sm font-medium text-foreground">
+                  Evaluate Window In
+                </label>
+                <select
+                  className="flex h-10 w-full rounded-lg border border-input bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                  value={formData.timezone_mode}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      timezone_mode: e.target.value as SendTimezoneMode,
+                    })
+                  }
+                >
+                  {TIMEZONE_MODES.map((mode) => (
+                    <option key={mode.value} value={mode.value}>
+                      {mode.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
             <p className="text-xs text-muted-foreground">
-              Emails will be sent randomly within this time window (recipient&apos;s
-              local time)
+              {formData.timezone_mode === "recipient"
+                ? "Each lead is emailed within this window in their local time, based on their city, state and country. Leads with an unknown location use the campaign timezone."
+                : "Emails are sent within this window in the campaign timezone."}
             </p>
           </CardContent>
         </Card>
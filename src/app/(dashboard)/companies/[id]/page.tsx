@@ -0,0 +1,290 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Globe,
+  Loader2,
+  MapPin,
+  Phone,
+  Star,
+  Users,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { createClient } from "@/lib/supabase/client";
+import { formatDate, formatNumber } from "@/lib/utils";
+import type { Company } from "@/types";
+
+interface CompanyLead {
+  id: string;
+  email: string;
+  first_name: string | null;
+  last_name: string | null;
+  phone: string | null;
+  status: string;
+  email_verification_status: string | null;
+  quality_score: number | null;
+  created_at: string;
+}
+
+export default function CompanyDetailPage() {
+  const params = useParams();
+  const companyId = params.id as string;
+
+  const [company, setCompany] = useState<Company | null>(null);
+  const [leads, setLeads] = useState<CompanyLead[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [enriching, setEnriching] = useState(false);
+
+  useEffect(() => {
+    async function fetchCompany() {
+      const supabase = createClient();
+
+      const { data } = await supabase
+        .from("companies")
+        .select("*")
+        .eq("id", companyId)
+        .single();
+
+      if (data) {
+        setCompany(data);
+
+        const { data: leadsData } = await supabase
+          .from("leads")
+          .select(
+            "id, email, first_name, last_name, phone, status, email_verification_status, quality_score, created_at"
+          )
+          .eq("company_id", companyId)
+          .order("created_at", { ascending: true });
+
+        setLeads(leadsData || []);
+      }
+      setLoading(false);
+    }
+
+    fetchCompany();
+  }, [companyId]);
+
+  const handleEnrich = async () => {
+    setEnriching(true);
+    try {
+      const response = await fetch("/api/companies/enrich", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ companyIds: [companyId] }),
+      });
+
+      const data = await response.json();
+      alert(response.ok ? "Website enrichment queued." : data.error || "Failed to queue website enrichment");
+    } catch (error) {
+      console.error("Failed to queue website enrichment:", error);
+    }
+    setEnriching(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!company) {
+    return (
+      <div className="flex flex-col items-center justify-center py-16">
+        <AlertTriangle className="h-12 w-12 text-muted-foreground" />
+        <h2 className="mt-4 text-xl font-semibold">Company not found</h2>
+        <p className="mt-2 text-muted-foreground">
+          This company may have been deleted or does not exist.
+        </p>
+        <Link href="/companies" className="mt-4">
+          <Button variant="outline">
+            <ArrowLeft className="h-4 w-4" />
+            Back to Companies
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const websiteEmails = (company.enrichment_data.website_emails as string[] | undefined) || [];
+  const socialLinks =
+    (company.enrichment_data.social_links as Record<string, string> | undefined) || {};
+  const location = company.address || [company.city, company.state].filter(Boolean).join(", ");
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div className="flex items-center gap-4">
+          <Link href="/companies">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <div>
+            <div className="flex items-center gap-3">
+              <h1 className="text-3xl font-semibold text-foreground">{company.name}</h1>
+              {company.category && <Badge variant="secondary">{company.category}</Badge>}
+            </div>
+            <p className="mt-1 text-muted-foreground">
+              {company.source} - Added {formatDate(company.created_at)}
+            </p>
+          </div>
+        </div>
+
+        {company.website && (
+          <Button variant="outline" onClick={handleEnrich} disabled={enriching}>
+            {enriching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Globe className="h-4 w-4" />}
+            Enrich from Website
+          </Button>
+        )}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Details */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Details</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            {company.website && (
+              <div className="flex items-center gap-2">
+                <Globe className="h-4 w-4 text-muted-foreground" />
+                <a
+                  href={company.website}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-foreground hover:underline"
+                >
+                  {company.domain || company.website}
+                </a>
+              </div>
+            )}
+            {company.phone && (
+              <div className="flex items-center gap-2">
+                <Phone className="h-4 w-4 text-muted-foreground" />
+                <span className="text-foreground">{company.phone}</span>
+              </div>
+            )}
+            {location && (
+              <div className="flex items-center gap-2">
+                <MapPin className="h-4 w-4 text-muted-foreground" />
+                <span className="text-foreground">{location}</span>
+              </div>
+            )}
+            {company.rating !== null && (
+              <div className="flex items-center gap-2">
+                <Star className="h-4 w-4 fill-[#fdb022] text-[#fdb022]" />
+                <span className="text-foreground">
+                  {company.rating}
+                  {company.reviews_count !== null &&
+                    ` (${formatNumber(company.reviews_count)} reviews)`}
+                </span>
+              </div>
+            )}
+            {websiteEmails.length > 0 && (
+              <div>
+                <p className="mb-1 text-muted-foreground">Emails on website</p>
+                <p className="text-foreground">{websiteEmails.join(", ")}</p>
+              </div>
+            )}
+            {Object.keys(socialLinks).length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(socialLinks).map(([network, url]) => (
+                  <a key={network} href={url} target="_blank" rel="noopener noreferrer">
+                    <Badge variant="info">{network}</Badge>
+                  </a>
+                ))}
+              </div>
+            )}
+            {company.source_url && (
+              <a
+                href={company.source_url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block text-muted-foreground hover:underline"
+              >
+                View source listing
+              </a>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Contacts */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Contacts ({formatNumber(leads.length)})</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {leads.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 text-center">
+                <Users className="h-8 w-8 text-muted-foreground" />
+                <p className="mt-2 text-sm text-muted-foreground">
+                  No leads at this company yet.
+                  {company.website && " Enrich it from its website to look for an email."}
+                </p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Contact</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Email Status</TableHead>
+                    <TableHead>Score</TableHead>
+                    <TableHead>Added</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {leads.map((lead) => (
+                    <TableRow key={lead.id}>
+                      <TableCell>
+                        <p className="font-medium text-foreground">
+                          {lead.first_name || lead.last_name
+                            ? `${lead.first_name || ""} ${lead.last_name || ""}`.trim()
+                            : "Unknown"}
+                        </p>
+                        <p className="text-sm text-muted-foreground">{lead.email}</p>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-sm capitalize text-foreground">{lead.status}</span>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-sm capitalize text-muted-foreground">
+                          {lead.email_verification_status || "Not verified"}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-sm text-foreground">{lead.quality_score ?? "-"}</span>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-sm text-muted-foreground">
+                          {formatDate(lead.created_at)}
+                        </span>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  Building2,
+  Globe,
+  Loader2,
+  MoreHorizontal,
+  Play,
+  Search,
+  Star,
+  Users,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { createClient } from "@/lib/supabase/client";
+import { formatDate, formatNumber } from "@/lib/utils";
+import type { Company } from "@/types";
+
+interface CompanyRow extends Company {
+  leads: { count: number }[];
+}
+
+type LeadFilter = "all" | "with_leads" | "without_leads";
+
+export default function CompaniesPage() {
+  const [companies, setCompanies] = useState<CompanyRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [leadFilter, setLeadFilter] = useState<LeadFilter>("all");
+  const [enrichingCompany, setEnrichingCompany] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchCompanies() {
+      const supabase = createClient();
+      let query = supabase
+        .from("companies")
+        .select("*, leads(count)")
+        .order("created_at", { ascending: false })
+        .limit(100);
+
+      if (searchQuery) {
+        query = query.ilike("name", `%${searchQuery}%`);
+      }
+
+      const { data } = await query;
+      setCompanies(data || []);
+      setLoading(false);
+    }
+
+    fetchCompanies();
+  }, [searchQuery]);
+
+  const handleEnrichCompany = async (companyId: string) => {
+    setEnrichingCompany(companyId);
+    try {
+      const response = await fetch("/api/companies/enrich", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ companyIds: [companyId] }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error || "Failed to queue website enrichment");
+      }
+    } catch (error) {
+      console.error("Failed to queue website enrichment:", error);
+    }
+    setEnrichingCompany(null);
+  };
+
+  const leadCount = (company: CompanyRow) => company.leads[0]?.count || 0;
+
+  const filteredCompanies = companies.filter((company) => {
+    if (leadFilter === "with_leads") return leadCount(company) > 0;
+    if (leadFilter === "without_leads") return leadCount(company) === 0;
+    return true;
+  });
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-foreground">Companies</h1>
+          <p className="mt-1 text-muted-foreground">
+            Businesses found by your actors, with or without a contact email
+          </p>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : companies.length === 0 && !searchQuery ? (
+        <Card className="flex flex-col items-center justify-center py-16">
+          <div className="rounded-full bg-muted p-4">
+            <Building2 className="h-8 w-8 text-muted-foreground" />
+          </div>
+          <h2 className="mt-4 text-xl font-semibold text-foreground">
+            No companies yet
+          </h2>
+          <p className="mt-2 max-w-md text-center text-muted-foreground">
+            Every business an actor finds is saved here, even when it has no email yet.
+          </p>
+          <Link href="/actors" className="mt-6">
+            <Button>
+              <Play className="h-4 w-4" />
+              Run Actor
+            </Button>
+          </Link>
+        </Card>
+      ) : (
+        <>
+          {/* Filters */}
+          <Card className="p-4">
+            <div className="flex items-center gap-4">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  placeholder="Search companies by name..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+              <select
+                className="flex h-10 w-56 rounded-lg border border-input bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                value={leadFilter}
+                onChange={(e) => setLeadFilter(e.target.value as LeadFilter)}
+              >
+                <option value="all">All companies</option>
+                <option value="with_leads">With leads</option>
+                <option value="without_leads">Without leads</option>
+              </select>
+            </div>
+          </Card>
+
+          {/* Companies Table */}
+          <Card className="p-0 overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Company</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Rating</TableHead>
+                  <TableHead>Phone</TableHead>
+                  <TableHead>Leads</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Added</TableHead>
+                  <TableHead className="w-10"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredCompanies.map((company) => (
+                  <TableRow key={company.id}>
+                    <TableCell>
+                      <Link href={`/companies/${company.id}`} className="hover:underline">
+                        <p className="font-medium text-foreground">{company.name}</p>
+                      </Link>
+                      <p className="text-sm text-muted-foreground">
+                        {company.domain || [company.city, company.state].filter(Boolean).join(", ") || "-"}
+                      </p>
+                    </TableCell>
+                    <TableCell>
+                      <span className="text-sm text-foreground">{company.category || "-"}</span>
+                    </TableCell>
+                    <TableCell>
+                      {company.rating !== null ? (
+                        <span className="flex items-center gap-1 text-sm text-foreground">
+                          <Star className="h-3.5 w-3.5 fill-[#fdb022] text-[#fdb022]" />
+                          {company.rating}
+                          {company.reviews_count !== null && (
+                            <span className="text-muted-foreground">
+                              ({formatNumber(company.reviews_count)})
+                            </span>
+                          )}
+                        </span>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">-</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <span className="text-sm text-foreground">{company.phone || "-"}</span>
+                    </TableCell>
+                    <TableCell>
+                      {leadCount(company) > 0 ? (
+                        <Badge variant="info" className="gap-1">
+                          <Users className="h-3 w-3" />
+                          {formatNumber(leadCount(company))}
+                        </Badge>
+                      ) : (
+                        <Badge variant="secondary">No leads</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <span className="text-sm text-foreground">{company.source}</span>
+                    </TableCell>
+                    <TableCell>
+                      <span className="text-sm text-muted-foreground">
+                        {formatDate(company.created_at)}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon">
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <Link href={`/companies/${company.id}`}>
+                            <DropdownMenuItem>
+                              <Building2 className="mr-2 h-4 w-4" />
+                              View Company
+                            </DropdownMenuItem>
+                          </Link>
+                          {company.website && (
+                            <DropdownMenuItem
+                              onClick={() => handleEnrichCompany(company.id)}
+                              disabled={enrichingCompany === company.id}
+                            >
+                              {enrichingCompany === company.id ? (
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                              ) : (
+                                <Globe className="mr-2 h-4 w-4" />
+                              )}
+                              Enrich from Website
+                            </DropdownMenuItem>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -13,6 +13,8 @@ import {
   Mail,
   BarChart3,
   Flame,
+  Inbox,
+  Building2,
 } from "lucide-react";
 import { useState } from "react";
 import { AppHeader } from "@/components/layout/AppHeader";
@@ -81,6 +83,20 @@ export default function DashboardLayout({
               <span>Leads</span>
             </Link>
 
+            {/* Companies */}
+            <Link
+              href="/companies"
+              className={cn(
+                "flex items-center gap-3 rounded-lg px-3 py-2 text-sm transition-colors",
+                isActive("/companies")
+                  ? "bg-sidebar-accent font-medium text-sidebar-accent-foreground"
+                  : "text-muted-foreground hover:bg-sidebar-accent hover:text-sidebar-accent-foreground"
+              )}
+            >
+              <Building2 className="h-4 w-4" />
+              <span>Companies</span>
+            </Link>
+
             {/* Actors (Scrapers) */}
             <Link
               href="/actors"
@@ -163,6 +179,20 @@ export default function DashboardLayout({
               Settings
             </div>
 
+            {/* Sending Mailboxes */}
+            <Link
+              href="/senders"
+              className={cn(
+                "flex items-center gap-3 rounded-lg px-3 py-2 text-sm transition-colors",
+                isActive("/senders")
+                  ? "bg-sidebar-accent font-medium text-sidebar-accent-foreground"
+                  : "text-muted-foreground hover:bg-sidebar-accent hover:text-sidebar-accent-foreground"
+              )}
+            >
+              <Inbox className="h-4 w-4" />
+              <span>Mailboxes</span>
+            </Link>
+
             {/* Domain Warmup */}
             <Link
               href="/warmup"
@@ -0,0 +1,298 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, CheckCircle, GitMerge, Loader2, RefreshCw, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { cn, formatDate, formatNumber } from "@/lib/utils";
+import { DUPLICATE_REASON_LABELS } from "@/lib/leads/duplicates";
+import type { LeadDuplicate } from "@/types";
+
+interface DuplicateLead {
+  id: string;
+  email: string;
+  first_name: string | null;
+  last_name: string | null;
+  phone: string | null;
+  company_name: string | null;
+  company_website: string | null;
+  industry: string | null;
+  city: string | null;
+  state: string | null;
+  status: string;
+  source: string | null;
+  tags: string[] | null;
+  custom_fields: Record<string, unknown> | null;
+  quality_score: number | null;
+  created_at: string;
+}
+
+interface DuplicatePair extends LeadDuplicate {
+  lead: DuplicateLead;
+  duplicate: DuplicateLead;
+}
+
+const compareFields: { label: string; value: (lead: DuplicateLead) => string | null }[] = [
+  { label: "Email", value: (lead) => lead.email },
+  {
+    label: "Name",
+    value: (lead) => `${lead.first_name || ""} ${lead.last_name || ""}`.trim() || null,
+  },
+  { label: "Company", value: (lead) => lead.company_name },
+  { label: "Website", value: (lead) => lead.company_website },
+  { label: "Phone", value: (lead) => lead.phone },
+  { label: "Industry", value: (lead) => lead.industry },
+  {
+    label: "Location",
+    value: (lead) => [lead.city, lead.state].filter(Boolean).join(", ") || null,
+  },
+  { label: "Status", value: (lead) => lead.status },
+  { label: "Source", value: (lead) => lead.source },
+  { label: "Tags", value: (lead) => (lead.tags?.length ? lead.tags.join(", ") : null) },
+  {
+    label: "Custom Fields",
+    value: (lead) => {
+      const count = Object.keys(lead.custom_fields || {}).length;
+      return count > 0 ? `${count} field${count !== 1 ? "s" : ""}` : null;
+    },
+  },
+  {
+    label: "Score",
+    value: (lead) => (lead.quality_score !== null ? String(lead.quality_score) : null),
+  },
+  { label: "Added", value: (lead) => formatDate(lead.created_at) },
+];
+
+// Keep the lead that knows more; on a tie, the older one
+function suggestSurvivor(pair: DuplicatePair): string {
+  const filled = (lead: DuplicateLead) =>
+    compareFields.filter((field) => field.value(lead)).length;
+  const leadFilled = filled(pair.lead);
+  const duplicateFilled = filled(pair.duplicate);
+
+  if (leadFilled !== duplicateFilled) {
+    return leadFilled > duplicateFilled ? pair.lead.id : pair.duplicate.id;
+  }
+  return pair.lead.created_at <= pair.duplicate.created_at ? pair.lead.id : pair.duplicate.id;
+}
+
+export default function LeadDuplicatesPage() {
+  const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [scanning, setScanning] = useState(false);
+  const [survivors, setSurvivors] = useState<Record<string, string>>({});
+  const [resolving, setResolving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    async function fetchPairs() {
+      try {
+        const response = await fetch("/api/leads/duplicates");
+        const result = await response.json();
+
+        if (response.ok) {
+          setPairs(result.data || []);
+          setTotal(result.pagination?.total || 0);
+        } else {
+          setError(result.error || "Failed to load duplicates");
+        }
+      } catch (err) {
+        console.error("Error fetching duplicates:", err);
+      }
+      setLoading(false);
+    }
+
+    fetchPairs();
+  }, [refreshKey]);
+
+  const handleScan = async () => {
+    setScanning(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/leads/duplicates", { method: "POST" });
+      if (!response.ok) {
+        const result = await response.json();
+        setError(result.error || "Failed to scan for duplicates");
+      }
+      setRefreshKey((key) => key + 1);
+    } catch (err) {
+      console.error("Error scanning for duplicates:", err);
+    }
+    setScanning(false);
+  };
+
+  const resolvePair = async (pair: DuplicatePair, action: "merge" | "dismiss") => {
+    setResolving(pair.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/leads/duplicates/${pair.id}/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          action === "merge" ? { survivorId: survivors[pair.id] || suggestSurvivor(pair) } : {}
+        ),
+      });
+
+      if (response.ok) {
+        // A merge deletes a lead, which can take other pairs with it
+        setRefreshKey((key) => key + 1);
+      } else {
+        const result = await response.json();
+        setError(result.error || `Failed to ${action} leads`);
+      }
+    } catch (err) {
+      console.error(`Error resolving duplicate (${action}):`, err);
+    }
+    setResolving(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Link href="/leads">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-semibold text-foreground">Duplicate Leads</h1>
+            <p className="mt-1 text-muted-foreground">
+              Leads that share an email, a phone number, or a name and company website
+            </p>
+          </div>
+        </div>
+        <Button variant="outline" onClick={handleScan} disabled={scanning}>
+          {scanning ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <RefreshCw className="h-4 w-4" />
+          )}
+          Scan All Leads
+        </Button>
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-destructive bg-destructive/10 p-4 text-sm text-destructive">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : pairs.length === 0 ? (
+        <Card className="flex flex-col items-center justify-center py-16">
+          <div className="rounded-full bg-muted p-4">
+            <CheckCircle className="h-8 w-8 text-muted-foreground" />
+          </div>
+          <h2 className="mt-4 text-xl font-semibold text-foreground">No duplicates to review</h2>
+          <p className="mt-2 max-w-md text-center text-muted-foreground">
+            New leads are checked as they are added. Scan all leads to check ones added
+            earlier.
+          </p>
+        </Card>
+      ) : (
+        <>
+          <p className="text-sm text-muted-foreground">
+            {total > pairs.length
+              ? `Showing ${pairs.length} of ${formatNumber(total)} possible duplicates`
+              : `${formatNumber(total)} possible duplicate${total !== 1 ? "s" : ""}`}
+          </p>
+
+          {pairs.map((pair) => {
+            const survivorId = survivors[pair.id] || suggestSurvivor(pair);
+            const isResolving = resolving === pair.id;
+
+            return (
+              <Card key={pair.id}>
+                <CardHeader className="flex flex-row items-center justify-between">
+                  <div className="flex flex-wrap gap-2">
+                    {pair.reasons.map((reason) => (
+                      <Badge key={reason} variant="warning">
+                        {DUPLICATE_REASON_LABELS[reason] || reason}
+                      </Badge>
+                    ))}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      onClick={() => resolvePair(pair, "dismiss")}
+                      disabled={isResolving}
+                    >
+                      <X className="h-4 w-4" />
+                      Not Duplicates
+                    </Button>
+                    <Button onClick={() => resolvePair(pair, "merge")} disabled={isResolving}>
+                      {isResolving ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <GitMerge className="h-4 w-4" />
+                      )}
+                      Merge
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-[8rem_1fr_1fr] gap-x-4 text-sm">
+                    <div />
+                    {[pair.lead, pair.duplicate].map((lead) => (
+                      <label
+                        key={lead.id}
+                        className={cn(
+                          "mb-2 flex cursor-pointer items-center gap-2 rounded-lg border p-2 font-medium",
+                          survivorId === lead.id ? "border-primary bg-primary/5" : "border-border"
+                        )}
+                      >
+                        <input
+                          type="radio"
+                          name={`survivor-${pair.id}`}
+                          checked={survivorId === lead.id}
+                          onChange={() => setSurvivors({ ...survivors, [pair.id]: lead.id })}
+                        />
+                        Keep this lead
+                      </label>
+                    ))}
+                    {compareFields.map((field) => {
+                      const left = field.value(pair.lead);
+                      const right = field.value(pair.duplicate);
+
+                      return (
+                        <div key={field.label} className="contents">
+                          <span className="py-1 text-muted-foreground">{field.label}</span>
+                          {[left, right].map((value, index) => (
+                            <span
+                              key={index}
+                              className={cn(
+                                "truncate py-1",
+                                left !== right && value ? "text-foreground" : "text-muted-foreground"
+                              )}
+                              title={value || undefined}
+                            >
+                              {value || "-"}
+                            </span>
+                          ))}
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <p className="mt-3 text-xs text-muted-foreground">
+                    Merging keeps the selected lead, fills its empty fields from the other one,
+                    combines tags and custom fields, and moves campaign history and
+                    unsubscribes over before deleting the other lead.
+                  </p>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </>
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import {
   Search,
   Filter,
   Upload,
+  Download,
   MoreHorizontal,
   CheckCircle,
   Clock,
@@ -19,6 +20,9 @@ import {
   ShieldCheck,
   AlertCircle,
   XCircle,
+  Copy,
+  Globe,
+  AtSign,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -40,24 +44,52 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { createClient } from "@/lib/supabase/client";
-import { formatDate } from "@/lib/utils";
+import { formatDate, formatNumber } from "@/lib/utils";
+import { describeSegmentFilters, querySegmentLeads } from "@/lib/segments";
 import { AddLeadDialog } from "@/components/leads/AddLeadDialog";
 import { ImportLeadsDialog } from "@/components/leads/ImportLeadsDialog";
+import { ExportLeadsDialog } from "@/components/leads/ExportLeadsDialog";
+import { VerificationBatchProgress } from "@/components/leads/VerificationBatchProgress";
+import { SegmentDialog } from "@/components/leads/SegmentDialog";
+import { LeadScoreDialog } from "@/components/leads/LeadScoreDialog";
+import { FindEmailDialog } from "@/components/leads/FindEmailDialog";
+import { getScoreVariant } from "@/lib/scoring";
+import type { EmailVerificationResult, LeadScoreItem, Segment } from "@/types";
 
 interface Lead {
   id: string;
   email: string;
   first_name: string | null;
   last_name: string | null;
+  job_title: string | null;
   company_name: string | null;
+  company_website: string | null;
+  company_id: string | null;
   industry: string | null;
   status: string;
   email_verified: boolean;
   email_verification_status: string | null;
+  email_verification_result: EmailVerificationResult | null;
+  email_catch_all: boolean | null;
+  email_confidence: number | null;
+  email_pattern: string | null;
+  quality_score: number | null;
+  score_breakdown: LeadScoreItem[] | null;
+  scored_at: string | null;
   source: string | null;
   created_at: string;
 }
 
+// Hover text summarising why a lead got its verification status
+function getVerificationDetails(result: EmailVerificationResult | null): string | undefined {
+  if (!result) return undefined;
+
+  const details = [result.reasons.map((reason) => reason.replace(/_/g, " ")).join(", ")];
+  if (result.mx_host) details.push(`MX: ${result.mx_host}`);
+  if (result.smtp_code) details.push(`SMTP ${result.smtp_code}`);
+  return details.filter(Boolean).join(" · ");
+}
+
 const statusConfig = {
   new: { label: "New", variant: "info" as const },
   verified: { label: "Verified", variant: "success" as const },
@@ -70,6 +102,8 @@ const statusConfig = {
 const sourceConfig: Record<string, string> = {
   linkedin: "LinkedIn",
   google_maps: "Google Maps",
+  yelp: "Yelp",
+  yellowpages: "YellowPages",
   apollo: "Apollo",
   import: "Import",
   manual: "Manual",
@@ -81,25 +115,94 @@ export default function LeadsPage() {
   const [loading, setLoading] = useState(true);
   const [addDialogOpen, setAddDialogOpen] = useState(false);
   const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [exportDialogOpen, setExportDialogOpen] = useState(false);
+  const [findEmailDialogOpen, setFindEmailDialogOpen] = useState(false);
   const [verifyingLead, setVerifyingLead] = useState<string | null>(null);
+  const [enrichingLead, setEnrichingLead] = useState<string | null>(null);
+  const [findingEmailLead, setFindingEmailLead] = useState<string | null>(null);
   const [verifyingAll, setVerifyingAll] = useState(false);
+  const [batchRefreshKey, setBatchRefreshKey] = useState(0);
+  const [segments, setSegments] = useState<Segment[]>([]);
+  const [activeSegmentId, setActiveSegmentId] = useState("");
+  const [segmentMatchCount, setSegmentMatchCount] = useState<number | null>(null);
+  const [segmentDialogOpen, setSegmentDialogOpen] = useState(false);
+  const [editingSegment, setEditingSegment] = useState<Segment | null>(null);
+  const [scoreLead, setScoreLead] = useState<Lead | null>(null);
+  const [scoreDialogOpen, setScoreDialogOpen] = useState(false);
+  const [duplicateCount, setDuplicateCount] = useState(0);
+
+  const activeSegment = segments.find((segment) => segment.id === activeSegmentId) || null;
 
   const fetchLeads = useCallback(async () => {
     const supabase = createClient();
-    const { data } = await supabase
-      .from("leads")
-      .select("*")
-      .order("created_at", { ascending: false })
-      .limit(50);
 
-    setLeads(data || []);
+    if (activeSegment) {
+      const { data, count } = await querySegmentLeads(supabase, activeSegment.filters, {
+        count: "exact",
+      })
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(50);
+
+      setLeads(data || []);
+      setSegmentMatchCount(count);
+    } else {
+      const { data } = await supabase
+        .from("leads")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(50);
+
+      setLeads(data || []);
+    }
     setLoading(false);
-  }, []);
+  }, [activeSegment]);
 
   useEffect(() => {
     fetchLeads();
   }, [fetchLeads]);
 
+  useEffect(() => {
+    async function fetchSegments() {
+      const supabase = createClient();
+      const { data } = await supabase.from("segments").select("*").order("name");
+      setSegments(data || []);
+    }
+
+    fetchSegments();
+  }, []);
+
+  useEffect(() => {
+    async function fetchDuplicateCount() {
+      const supabase = createClient();
+      const { count } = await supabase
+        .from("lead_duplicates")
+        .select("*", { count: "exact", head: true })
+        .eq("status", "pending");
+      setDuplicateCount(count || 0);
+    }
+
+    fetchDuplicateCount();
+  }, [leads]);
+
+  const handleSegmentSaved = (segment: Segment) => {
+    const exists = segments.some((s) => s.id === segment.id);
+    setSegments(
+      exists ? segments.map((s) => (s.id === segment.id ? segment : s)) : [...segments, segment]
+    );
+    setActiveSegmentId(segment.id);
+  };
+
+  const handleSegmentDeleted = (id: string) => {
+    setSegments(segments.filter((s) => s.id !== id));
+    setActiveSegmentId("");
+  };
+
+  const openSegmentDialog = (segment: Segment | null) => {
+    setEditingSegment(segment);
+    setSegmentDialogOpen(true);
+  };
+
   const handleDeleteLead = async (id: string) => {
     if (!confirm("Are you sure you want to delete this lead?")) return;
 
@@ -139,6 +242,7 @@ export default function LeadsPage() {
             ? { ...l, email_verification_status: "pending" }
             : l
         ));
+        setBatchRefreshKey((key) => key + 1);
       }
     } catch (error) {
       console.error("Failed to queue verification:", error);
@@ -146,17 +250,46 @@ export default function LeadsPage() {
     setVerifyingLead(null);
   };
 
-  const handleVerifyAll = async () => {
-    const unverifiedCount = leads.filter(
-      (l) => !l.email_verified && l.email_verification_status !== "pending"
-    ).length;
+  const handleEnrichLead = async (leadId: string) => {
+    setEnrichingLead(leadId);
+    try {
+      const response = await fetch("/api/leads/enrich", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ leadIds: [leadId] }),
+      });
 
-    if (unverifiedCount === 0) {
-      alert("No unverified leads to verify.");
-      return;
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error || "Failed to queue website enrichment");
+      }
+    } catch (error) {
+      console.error("Failed to queue website enrichment:", error);
+    }
+    setEnrichingLead(null);
+  };
+
+  const handleFindEmail = async (leadId: string) => {
+    setFindingEmailLead(leadId);
+    try {
+      const response = await fetch("/api/leads/find-email", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ leadIds: [leadId] }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error || "Failed to queue the email finder");
+      }
+    } catch (error) {
+      console.error("Failed to queue the email finder:", error);
     }
+    setFindingEmailLead(null);
+  };
 
-    if (!confirm(`Queue ${unverifiedCount} leads for email verification?`)) {
+  const handleVerifyAll = async () => {
+    if (!confirm("Queue all unverified leads for email verification?")) {
       return;
     }
 
@@ -168,11 +301,15 @@ export default function LeadsPage() {
         body: JSON.stringify({ verifyAll: true }),
       });
 
-      if (response.ok) {
-        const data = await response.json();
-        alert(`Queued ${data.queued} leads for verification.`);
-        // Refresh leads to show updated status
+      const data = await response.json();
+      if (response.ok && data.queued === 0) {
+        alert("No unverified leads to verify.");
+      } else if (response.ok) {
+        // Refresh leads and show the new batch's progress
         fetchLeads();
+        setBatchRefreshKey((key) => key + 1);
+      } else {
+        alert(data.error || "Failed to start verification.");
       }
     } catch (error) {
       console.error("Failed to queue bulk verification:", error);
@@ -202,6 +339,15 @@ export default function LeadsPage() {
           </p>
         </div>
         <div className="flex items-center gap-3">
+          {duplicateCount > 0 && (
+            <Link href="/leads/duplicates">
+              <Button variant="outline">
+                <Copy className="h-4 w-4" />
+                Duplicates
+                <Badge variant="warning">{formatNumber(duplicateCount)}</Badge>
+              </Button>
+            </Link>
+          )}
           <Button
             variant="outline"
             onClick={handleVerifyAll}
@@ -216,7 +362,15 @@ export default function LeadsPage() {
           </Button>
           <Button variant="outline" onClick={() => setImportDialogOpen(true)}>
             <Upload className="h-4 w-4" />
-            Import CSV
+            Import Leads
+          </Button>
+          <Button variant="outline" onClick={() => setExportDialogOpen(true)}>
+            <Download className="h-4 w-4" />
+            Export
+          </Button>
+          <Button variant="outline" onClick={() => setFindEmailDialogOpen(true)}>
+            <AtSign className="h-4 w-4" />
+            Find Email
           </Button>
           <Button onClick={() => setAddDialogOpen(true)}>
             <Plus className="h-4 w-4" />
@@ -225,11 +379,13 @@ export default function LeadsPage() {
         </div>
       </div>
 
+      <VerificationBatchProgress refreshKey={batchRefreshKey} onProgress={fetchLeads} />
+
       {loading ? (
         <div className="flex items-center justify-center py-16">
           <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
         </div>
-      ) : leads.length === 0 ? (
+      ) : leads.length === 0 && !activeSegment ? (
         <Card className="flex flex-col items-center justify-center py-16">
           <div className="rounded-full bg-muted p-4">
             <Users className="h-8 w-8 text-muted-foreground" />
@@ -238,12 +394,12 @@ export default function LeadsPage() {
             No leads yet
           </h2>
           <p className="mt-2 max-w-md text-center text-muted-foreground">
-            Import leads from a CSV file or run an actor to start scraping new leads.
+            Import leads from a CSV or Excel file or run an actor to start scraping new leads.
           </p>
           <div className="mt-6 flex gap-3">
             <Button variant="outline" onClick={() => setImportDialogOpen(true)}>
               <Upload className="h-4 w-4" />
-              Import CSV
+              Import Leads
             </Button>
             <Link href="/actors">
               <Button>
@@ -267,11 +423,36 @@ export default function LeadsPage() {
                   className="pl-10"
                 />
               </div>
-              <Button variant="outline">
+              <select
+                className="flex h-10 w-56 rounded-lg border border-input bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                value={activeSegmentId}
+                onChange={(e) => setActiveSegmentId(e.target.value)}
+              >
+                <option value="">All leads</option>
+                {segments.map((segment) => (
+                  <option key={segment.id} value={segment.id}>
+                    {segment.name}
+                  </option>
+                ))}
+              </select>
+              <Button variant="outline" onClick={() => openSegmentDialog(activeSegment)}>
                 <Filter className="h-4 w-4" />
-                Filters
+                {activeSegment ? "Edit Segment" : "New Segment"}
               </Button>
             </div>
+            {activeSegment && (
+              <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-muted-foreground">
+                  {segmentMatchCount !== null &&
+                    `${formatNumber(segmentMatchCount)} matching lead${segmentMatchCount !== 1 ? "s" : ""}`}
+                </span>
+                {describeSegmentFilters(activeSegment.filters).map((part) => (
+                  <Badge key={part} variant="secondary">
+                    {part}
+                  </Badge>
+                ))}
+              </div>
+            )}
           </Card>
 
           {/* Leads Table */}
@@ -283,6 +464,7 @@ export default function LeadsPage() {
                   <TableHead>Company</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Email Status</TableHead>
+                  <TableHead>Score</TableHead>
                   <TableHead>Source</TableHead>
                   <TableHead>Added</TableHead>
                   <TableHead className="w-10"></TableHead>
@@ -298,13 +480,31 @@ export default function LeadsPage() {
                             ? `${lead.first_name || ""} ${lead.last_name || ""}`.trim()
                             : "Unknown"}
                         </p>
-                        <p className="text-sm text-muted-foreground">{lead.email}</p>
+                        <p
+                          className="text-sm text-muted-foreground"
+                          title={
+                            lead.email_confidence !== null
+                              ? `Found by the email finder (${lead.email_pattern || "unknown"} pattern)`
+                              : undefined
+                          }
+                        >
+                          {lead.email}
+                          {lead.email_confidence !== null && ` · ${lead.email_confidence}% confidence`}
+                        </p>
                       </div>
                     </TableCell>
                     <TableCell>
                       <div>
-                        <p className="text-foreground">{lead.company_name || "-"}</p>
-                        <p className="text-sm text-muted-foreground">{lead.industry || ""}</p>
+                        {lead.company_id ? (
+                          <Link href={`/companies/${lead.company_id}`} className="hover:underline">
+                            <p className="text-foreground">{lead.company_name || "-"}</p>
+                          </Link>
+                        ) : (
+                          <p className="text-foreground">{lead.company_name || "-"}</p>
+                        )}
+                        <p className="text-sm text-muted-foreground">
+                          {lead.job_title || lead.industry || ""}
+                        </p>
                       </div>
                     </TableCell>
                     <TableCell>
@@ -319,7 +519,10 @@ export default function LeadsPage() {
                       </Badge>
                     </TableCell>
                     <TableCell>
-                      <div className="flex items-center gap-2">
+                      <div
+                        className="flex items-center gap-2"
+                        title={getVerificationDetails(lead.email_verification_result)}
+                      >
                         {lead.email_verified || lead.email_verification_status === "valid" ? (
                           <>
                             <CheckCircle className="h-4 w-4 text-[#039855]" />
@@ -333,7 +536,9 @@ export default function LeadsPage() {
                         ) : lead.email_verification_status === "risky" ? (
                           <>
                             <AlertCircle className="h-4 w-4 text-[#dc6803]" />
-                            <span className="text-sm text-[#dc6803]">Risky</span>
+                            <span className="text-sm text-[#dc6803]">
+                              {lead.email_catch_all ? "Catch-all" : "Risky"}
+                            </span>
                           </>
                         ) : lead.email_verification_status === "pending" ? (
                           <>
@@ -348,6 +553,23 @@ export default function LeadsPage() {
                         )}
                       </div>
                     </TableCell>
+                    <TableCell>
+                      {lead.quality_score !== null ? (
+                        <button
+                          title="Show score breakdown"
+                          onClick={() => {
+                            setScoreLead(lead);
+                            setScoreDialogOpen(true);
+                          }}
+                        >
+                          <Badge variant={getScoreVariant(lead.quality_score)}>
+                            {lead.quality_score}
+                          </Badge>
+                        </button>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">-</span>
+                      )}
+                    </TableCell>
                     <TableCell>
                       <span className="text-sm text-foreground">
                         {sourceConfig[lead.source || ""] || lead.source || "-"}
@@ -379,6 +601,32 @@ export default function LeadsPage() {
                               Verify Email
                             </DropdownMenuItem>
                           )}
+                          {lead.company_website && (
+                            <DropdownMenuItem
+                              onClick={() => handleEnrichLead(lead.id)}
+                              disabled={enrichingLead === lead.id}
+                            >
+                              {enrichingLead === lead.id ? (
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                              ) : (
+                                <Globe className="mr-2 h-4 w-4" />
+                              )}
+                              Enrich from Website
+                            </DropdownMenuItem>
+                          )}
+                          {lead.first_name && lead.last_name && lead.company_website && (
+                            <DropdownMenuItem
+                              onClick={() => handleFindEmail(lead.id)}
+                              disabled={findingEmailLead === lead.id}
+                            >
+                              {findingEmailLead === lead.id ? (
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                              ) : (
+                                <AtSign className="mr-2 h-4 w-4" />
+                              )}
+                              Find Email
+                            </DropdownMenuItem>
+                          )}
                           <DropdownMenuItem onClick={() => handleStatusChange(lead.id, "verified")}>
                             <UserCheck className="mr-2 h-4 w-4" />
                             Mark as Verified
@@ -417,6 +665,29 @@ export default function LeadsPage() {
         onOpenChange={setImportDialogOpen}
         onImportComplete={fetchLeads}
       />
+      <SegmentDialog
+        open={segmentDialogOpen}
+        onOpenChange={setSegmentDialogOpen}
+        segment={editingSegment}
+        onSaved={handleSegmentSaved}
+        onDeleted={handleSegmentDeleted}
+      />
+      <LeadScoreDialog
+        open={scoreDialogOpen}
+        onOpenChange={setScoreDialogOpen}
+        lead={scoreLead}
+      />
+      <FindEmailDialog
+        open={findEmailDialogOpen}
+        onOpenChange={setFindEmailDialogOpen}
+        onLeadAdded={fetchLeads}
+      />
+      <ExportLeadsDialog
+        open={exportDialogOpen}
+        onOpenChange={setExportDialogOpen}
+        search={searchQuery}
+        segmentId={activeSegmentId}
+      />
     </div>
   );
 }
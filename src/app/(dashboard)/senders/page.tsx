@@ -0,0 +1,460 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Inbox, Plus, Loader2, Pause, Play, Repeat, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { createClient } from "@/lib/supabase/client";
+import {
+  extractDomain,
+  formatDateTime,
+  formatNumber,
+  formatPercentage,
+  isValidEmail,
+} from "@/lib/utils";
+import { getSenderDailyLimit } from "@/lib/senders";
+import { WarmupNetworkDialog } from "@/components/senders/WarmupNetworkDialog";
+import type { DomainWarmup, SenderAccount, WarmupEmail } from "@/types";
+
+const SENDER_COLUMNS = "*, warmup:domain_warmup(*)";
+const NETWORK_STATS_DAYS = 7;
+
+type WarmupEmailSummary = Pick<WarmupEmail, "status" | "landed_in" | "rescued_at" | "parent_id">;
+
+export default function SendersPage() {
+  const [senders, setSenders] = useState<SenderAccount[]>([]);
+  const [warmups, setWarmups] = useState<DomainWarmup[]>([]);
+  const [warmupEmails, setWarmupEmails] = useState<WarmupEmailSummary[]>([]);
+  const [networkSender, setNetworkSender] = useState<SenderAccount | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [addOpen, setAddOpen] = useState(false);
+  const [adding, setAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState({
+    email: "",
+    from_name: "Operator OS",
+    daily_limit: 50,
+    warmup_id: "",
+  });
+
+  useEffect(() => {
+    async function fetchData() {
+      const supabase = createClient();
+      const since = new Date(Date.now() - NETWORK_STATS_DAYS * 24 * 60 * 60 * 1000);
+      const [{ data: senderData }, { data: warmupData }, { data: warmupEmailData }] =
+        await Promise.all([
+          supabase
+            .from("sender_accounts")
+            .select(SENDER_COLUMNS)
+            .order("created_at", { ascending: true }),
+          supabase.from("domain_warmup").select("*").order("domain"),
+          supabase
+            .from("warmup_emails")
+            .select("status, landed_in, rescued_at, parent_id")
+            .gte("sent_at", since.toISOString()),
+        ]);
+
+      setSenders(senderData || []);
+      setWarmups(warmupData || []);
+      setWarmupEmails(warmupEmailData || []);
+      setLoading(false);
+    }
+
+    fetchData();
+  }, []);
+
+  const resetForm = () => {
+    setFormData({ email: "", from_name: "Operator OS", daily_limit: 50, warmup_id: "" });
+    setError(null);
+  };
+
+  // Link the warmup for the mailbox's domain by default
+  const handleEmailChange = (email: string) => {
+    const domain = extractDomain(email);
+    const warmup = warmups.find((w) => w.domain === domain);
+    setFormData({ ...formData, email, warmup_id: warmup?.id || formData.warmup_id });
+  };
+
+  const handleAdd = async () => {
+    const email = formData.email.trim().toLowerCase();
+    if (!isValidEmail(email)) {
+      setError("Enter a valid email address");
+      return;
+    }
+
+    setAdding(true);
+    setError(null);
+
+    const supabase = createClient();
+    const { data, error: insertError } = await supabase
+      .from("sender_accounts")
+      .insert({
+        email,
+        from_name: formData.from_name,
+        domain: extractDomain(email),
+        daily_limit: formData.daily_limit,
+        warmup_id: formData.warmup_id || null,
+      })
+      .select(SENDER_COLUMNS)
+      .single();
+
+    if (insertError) {
+      setError(
+        insertError.code === "23505"
+          ? "This mailbox has already been added"
+          : insertError.message
+      );
+    } else if (data) {
+      setSenders([...senders, data]);
+      setAddOpen(false);
+      resetForm();
+    }
+
+    setAdding(false);
+  };
+
+  const handleToggleActive = async (sender: SenderAccount) => {
+    const supabase = createClient();
+    const { error: updateError } = await supabase
+      .from("sender_accounts")
+      .update({ is_active: !sender.is_active })
+      .eq("id", sender.id);
+
+    if (!updateError) {
+      setSenders(
+        senders.map((s) => (s.id === sender.id ? { ...s, is_active: !s.is_active } : s))
+      );
+    }
+  };
+
+  const handleDelete = async (sender: SenderAccount) => {
+    if (
+      !confirm(
+        `Are you sure you want to delete "${sender.email}"? Campaigns will stop sending from it.`
+      )
+    ) {
+      return;
+    }
+
+    const supabase = createClient();
+    const { error: deleteError } = await supabase
+      .from("sender_accounts")
+      .delete()
+      .eq("id", sender.id);
+
+    if (!deleteError) {
+      setSenders(senders.filter((s) => s.id !== sender.id));
+    }
+  };
+
+  const handleNetworkSaved = (updated: SenderAccount) => {
+    setSenders(senders.map((s) => (s.id === updated.id ? updated : s)));
+  };
+
+  const networkSent = warmupEmails.filter((email) => email.status !== "failed");
+  const networkLanded = networkSent.filter((email) => email.landed_in);
+  const networkStats = {
+    sent: networkSent.length,
+    inboxRate:
+      networkLanded.length > 0
+        ? (networkLanded.filter((email) => email.landed_in === "inbox").length /
+            networkLanded.length) *
+          100
+        : null,
+    rescued: networkSent.filter((email) => email.rescued_at).length,
+    replies: networkSent.filter((email) => email.parent_id).length,
+  };
+  const networkMailboxes = senders.filter((s) => s.warmup_enabled && s.is_active).length;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-foreground">Mailboxes</h1>
+          <p className="mt-1 text-muted-foreground">
+            Sending addresses that campaigns rotate across, each with its own daily limit
+          </p>
+        </div>
+        <Button onClick={() => setAddOpen(true)}>
+          <Plus className="h-4 w-4" />
+          Add Mailbox
+        </Button>
+      </div>
+
+      {/* Warmup Network Stats */}
+      {networkMailboxes > 0 && (
+        <Card className="p-5">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="font-semibold text-foreground">Warmup Network</h2>
+              <p className="text-sm text-muted-foreground">
+                {networkMailboxes} mailbox{networkMailboxes === 1 ? "" : "es"} exchanging
+                warmup emails, last {NETWORK_STATS_DAYS} days
+                {networkMailboxes < 2 && " (needs at least two to send)"}
+              </p>
+            </div>
+          </div>
+          <div className="mt-4 grid grid-cols-2 gap-4 md:grid-cols-4">
+            <div>
+              <p className="text-sm text-muted-foreground">Sent</p>
+              <p className="text-2xl font-semibold">{formatNumber(networkStats.sent)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Landed in Inbox</p>
+              <p className="text-2xl font-semibold">
+                {networkStats.inboxRate === null ? "-" : formatPercentage(networkStats.inboxRate)}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Rescued from Spam</p>
+              <p className="text-2xl font-semibold">{formatNumber(networkStats.rescued)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Replies</p>
+              <p className="text-2xl font-semibold">{formatNumber(networkStats.replies)}</p>
+            </div>
+          </div>
+        </Card>
+      )}
+
+      {senders.length === 0 ? (
+        <Card className="flex flex-col items-center justify-center py-16">
+          <div className="rounded-full bg-muted p-4">
+            <Inbox className="h-8 w-8 text-muted-foreground" />
+          </div>
+          <h2 className="mt-4 text-xl font-semibold text-foreground">No mailboxes yet</h2>
+          <p className="mt-2 max-w-md text-center text-muted-foreground">
+            Add sending mailboxes to spread campaign volume across several addresses.
+            Campaigns without mailboxes send from their own From Email.
+          </p>
+          <Button className="mt-6" onClick={() => setAddOpen(true)}>
+            <Plus className="h-4 w-4" />
+            Add Mailbox
+          </Button>
+        </Card>
+      ) : (
+        <Card className="p-0 overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Mailbox</TableHead>
+                <TableHead>Domain</TableHead>
+                <TableHead>Daily Limit</TableHead>
+                <TableHead>Warm-up</TableHead>
+                <TableHead>Network</TableHead>
+                <TableHead>Sent</TableHead>
+                <TableHead>Last Used</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-28"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {senders.map((sender) => {
+                const effectiveLimit = getSenderDailyLimit(sender, sender.warmup);
+
+                return (
+                  <TableRow key={sender.id}>
+                    <TableCell>
+                      <div>
+                        <p className="font-medium text-foreground">{sender.from_name}</p>
+                        <p className="text-sm text-muted-foreground">{sender.email}</p>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{sender.domain}</TableCell>
+                    <TableCell>
+                      <span className="text-foreground">{formatNumber(effectiveLimit)}</span>
+                      {effectiveLimit < sender.daily_limit && (
+                        <span className="text-sm text-muted-foreground">
+                          {" "}
+                          / {formatNumber(sender.daily_limit)}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {sender.warmup ? (
+                        <Badge variant={sender.warmup.status === "active" ? "warning" : "secondary"}>
+                          Day {sender.warmup.warmup_day}
+                        </Badge>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">-</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {sender.warmup_enabled ? (
+                        <Badge variant={sender.mailbox_provider ? "info" : "secondary"}>
+                          {sender.mailbox_provider ? "Engaging" : "Sending only"}
+                        </Badge>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">Off</span>
+                      )}
+                    </TableCell>
+                    <TableCell>{formatNumber(sender.total_sent)}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {sender.last_used_at ? formatDateTime(sender.last_used_at) : "Never"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={sender.is_active ? "success" : "secondary"}>
+                        {sender.is_active ? "Active" : "Paused"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          title="Warmup network"
+                          onClick={() => setNetworkSender(sender)}
+                        >
+                          <Repeat className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => handleToggleActive(sender)}
+                        >
+                          {sender.is_active ? (
+                            <Pause className="h-3.5 w-3.5" />
+                          ) : (
+                            <Play className="h-3.5 w-3.5" />
+                          )}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => handleDelete(sender)}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      <WarmupNetworkDialog
+        sender={networkSender}
+        onOpenChange={(open) => {
+          if (!open) setNetworkSender(null);
+        }}
+        onSaved={handleNetworkSaved}
+      />
+
+      {/* Add Mailbox Dialog */}
+      <Dialog
+        open={addOpen}
+        onOpenChange={(open) => {
+          setAddOpen(open);
+          if (!open) resetForm();
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Mailbox</DialogTitle>
+            <DialogDescription>
+              Add a sending address. Its domain must be verified with your email provider.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <label className="mb-2 block text-sm font-medium">Email Address</label>
+              <Input
+                type="email"
+                value={formData.email}
+                onChange={(e) => handleEmailChange(e.target.value)}
+                placeholder="alex@marketing.operatoros.ai"
+              />
+            </div>
+            <div>
+              <label className="mb-2 block text-sm font-medium">Display Name</label>
+              <Input
+                value={formData.from_name}
+                onChange={(e) => setFormData({ ...formData, from_name: e.target.value })}
+                placeholder="Your name or company name"
+              />
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div>
+                <label className="mb-2 block text-sm font-medium">Daily Limit</label>
+                <Input
+                  type="number"
+                  value={formData.daily_limit}
+                  onChange={(e) =>
+                    setFormData({ ...formData, daily_limit: parseInt(e.target.value) || 1 })
+                  }
+                  min={1}
+                  max={1000}
+                />
+              </div>
+              <div>
+                <label className="mb-2 block text-sm font-medium">Warm-up</label>
+                <select
+                  className="flex h-10 w-full rounded-lg border border-input bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                  value={formData.warmup_id}
+                  onChange={(e) => setFormData({ ...formData, warmup_id: e.target.value })}
+                >
+                  <option value="">None</option>
+                  {warmups.map((warmup) => (
+                    <option key={warmup.id} value={warmup.id}>
+                      {warmup.domain}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              While its warm-up is active, the mailbox sends no more than the warm-up&apos;s
+              current daily limit.
+            </p>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAddOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleAdd}
+              disabled={!formData.email || !formData.from_name || adding}
+            >
+              {adding && <Loader2 className="h-4 w-4 animate-spin" />}
+              Add Mailbox
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
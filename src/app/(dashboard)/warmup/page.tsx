@@ -13,6 +13,7 @@ import {
   AlertTriangle,
   Clock,
   RefreshCw,
+  SlidersHorizontal,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -28,22 +29,19 @@ import {
 } from "@/components/ui/dialog";
 import { createClient } from "@/lib/supabase/client";
 import { formatNumber, formatPercentage, formatDate } from "@/lib/utils";
-
-interface DomainWarmup {
-  id: string;
-  domain: string;
-  warmup_started_at: string;
-  current_daily_limit: number;
-  target_daily_limit: number;
-  warmup_day: number;
-  total_sent: number;
-  total_delivered: number;
-  total_bounced: number;
-  deliverability_rate: number | null;
-  is_healthy: boolean;
-  status: string;
-  created_at: string;
-}
+import {
+  WARMUP_PROFILES,
+  getExpectedLimit,
+  getRampConfig,
+  validateRampConfig,
+} from "@/lib/warmup";
+import { RampProfileEditor } from "@/components/warmup/RampProfileEditor";
+import type {
+  DomainWarmup,
+  WarmupRampConfig,
+  WarmupRampProfile,
+  WarmupStatus,
+} from "@/types";
 
 const statusConfig: Record<string, { label: string; variant: "default" | "success" | "warning" | "destructive" }> = {
   active: { label: "Active", variant: "success" },
@@ -52,23 +50,6 @@ const statusConfig: Record<string, { label: string; variant: "default" | "succes
   unhealthy: { label: "Unhealthy", variant: "destructive" },
 };
 
-const warmupSchedule = [
-  { day: 1, limit: 10 },
-  { day: 3, limit: 20 },
-  { day: 5, limit: 35 },
-  { day: 7, limit: 50 },
-  { day: 10, limit: 75 },
-  { day: 14, limit: 125 },
-  { day: 18, limit: 175 },
-  { day: 21, limit: 250 },
-  { day: 25, limit: 350 },
-  { day: 28, limit: 450 },
-  { day: 32, limit: 600 },
-  { day: 35, limit: 750 },
-  { day: 40, limit: 900 },
-  { day: 45, limit: 1000 },
-];
-
 interface ScheduleStatus {
   active: boolean;
   schedule: {
@@ -84,6 +65,13 @@ export default function WarmupPage() {
   const [newDomain, setNewDomain] = useState("");
   const [targetLimit, setTargetLimit] = useState(1000);
   const [adding, setAdding] = useState(false);
+  const [rampProfile, setRampProfile] = useState<WarmupRampProfile>("standard");
+  const [rampConfig, setRampConfig] = useState<WarmupRampConfig>(
+    WARMUP_PROFILES.standard.config
+  );
+  const [rampError, setRampError] = useState<string | null>(null);
+  const [editingWarmup, setEditingWarmup] = useState<DomainWarmup | null>(null);
+  const [savingRamp, setSavingRamp] = useState(false);
   const [scheduleStatus, setScheduleStatus] = useState<ScheduleStatus | null>(null);
   const [togglingSchedule, setTogglingSchedule] = useState(false);
   const [runningManual, setRunningManual] = useState(false);
@@ -116,22 +104,42 @@ export default function WarmupPage() {
     fetchScheduleStatus();
   }, [fetchWarmups, fetchScheduleStatus]);
 
+  const handleRampChange = (profile: WarmupRampProfile, config: WarmupRampConfig) => {
+    setRampProfile(profile);
+    setRampConfig(config);
+    setRampError(null);
+  };
+
+  const resetRamp = () => {
+    handleRampChange("standard", WARMUP_PROFILES.standard.config);
+  };
+
+  // Custom ramps must be valid before they are saved
+  const checkRamp = (): boolean => {
+    const error = rampProfile === "custom" ? validateRampConfig(rampConfig) : null;
+    setRampError(error);
+    return !error;
+  };
+
   const handleAddDomain = async () => {
-    if (!newDomain) return;
+    if (!newDomain || !checkRamp()) return;
     setAdding(true);
 
     const supabase = createClient();
     const { error } = await supabase.from("domain_warmup").insert({
-      domain: newDomain,
+      domain: newDomain.trim().toLowerCase(),
       target_daily_limit: targetLimit,
-      current_daily_limit: 10,
+      current_daily_limit: getExpectedLimit(rampConfig.schedule, 1, targetLimit),
       warmup_day: 1,
       status: "active",
+      ramp_profile: rampProfile,
+      ramp_config: rampProfile === "custom" ? rampConfig : null,
     });
 
     if (!error) {
       setNewDomain("");
       setTargetLimit(1000);
+      resetRamp();
       setAddOpen(false);
       fetchWarmups();
     }
@@ -139,7 +147,47 @@ export default function WarmupPage() {
     setAdding(false);
   };
 
-  const handleStatusChange = async (id: string, newStatus: string) => {
+  const handleEditRamp = (warmup: DomainWarmup) => {
+    setEditingWarmup(warmup);
+    handleRampChange(warmup.ramp_profile || "standard", getRampConfig(warmup));
+  };
+
+  // A slower ramp caps the current limit at what it allows for the day
+  const handleSaveRamp = async () => {
+    if (!editingWarmup || !checkRamp()) return;
+    setSavingRamp(true);
+
+    const updates = {
+      ramp_profile: rampProfile,
+      ramp_config: rampProfile === "custom" ? rampConfig : null,
+      current_daily_limit: Math.min(
+        editingWarmup.current_daily_limit,
+        getExpectedLimit(
+          rampConfig.schedule,
+          editingWarmup.warmup_day,
+          editingWarmup.target_daily_limit
+        )
+      ),
+    };
+
+    const supabase = createClient();
+    const { error } = await supabase
+      .from("domain_warmup")
+      .update(updates)
+      .eq("id", editingWarmup.id);
+
+    if (!error) {
+      setWarmups(
+        warmups.map((w) => (w.id === editingWarmup.id ? { ...w, ...updates } : w))
+      );
+      setEditingWarmup(null);
+      resetRamp();
+    }
+
+    setSavingRamp(false);
+  };
+
+  const handleStatusChange = async (id: string, newStatus: WarmupStatus) => {
     const supabase = createClient();
     await supabase
       .from("domain_warmup")
@@ -179,15 +227,6 @@ export default function WarmupPage() {
     return Math.min(100, (warmup.current_daily_limit / warmup.target_daily_limit) * 100);
   };
 
-  const getExpectedLimit = (day: number): number => {
-    for (let i = warmupSchedule.length - 1; i >= 0; i--) {
-      if (day >= warmupSchedule[i].day) {
-        return warmupSchedule[i].limit;
-      }
-    }
-    return 10;
-  };
-
   if (loading) {
     return (
       <div className="flex items-center justify-center py-16">
@@ -218,23 +257,29 @@ export default function WarmupPage() {
           <CardHeader>
             <div className="flex items-center gap-2">
               <TrendingUp className="h-5 w-5 text-muted-foreground" />
-              <CardTitle className="text-base">Warm-up Schedule</CardTitle>
+              <CardTitle className="text-base">Ramp Profiles</CardTitle>
             </div>
             <CardDescription>
-              Automatic daily limit increases based on deliverability
+              Daily limits rise on each domain&apos;s ramp and fall back when deliverability drops
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="flex flex-wrap gap-2">
-              {warmupSchedule.map((step) => (
-                <div
-                  key={step.day}
-                  className="flex items-center gap-1 rounded-lg bg-muted px-3 py-1.5 text-xs"
-                >
-                  <span className="text-muted-foreground">Day {step.day}:</span>
-                  <span className="font-medium">{step.limit}</span>
-                </div>
-              ))}
+            <div className="space-y-2">
+              {Object.values(WARMUP_PROFILES).map((profile) => {
+                const lastStep = profile.config.schedule[profile.config.schedule.length - 1];
+                return (
+                  <div
+                    key={profile.label}
+                    className="flex items-center justify-between rounded-lg bg-muted px-3 py-1.5 text-xs"
+                  >
+                    <span className="font-medium">{profile.label}</span>
+                    <span className="text-muted-foreground">
+                      {profile.config.schedule[0].limit} → {lastStep.limit}/day over {lastStep.day}{" "}
+                      days, ramp back {profile.config.ramp_back_percentage}%
+                    </span>
+                  </div>
+                );
+              })}
             </div>
           </CardContent>
         </Card>
@@ -317,6 +362,7 @@ export default function WarmupPage() {
       ) : (
         <div className="grid gap-4 md:grid-cols-2">
           {warmups.map((warmup) => {
+            const rampConfigForWarmup = getRampConfig(warmup);
             const progress = getProgressPercentage(warmup);
             const deliverability = warmup.total_sent > 0
               ? ((warmup.total_delivered / warmup.total_sent) * 100)
@@ -336,13 +382,18 @@ export default function WarmupPage() {
                       </p>
                     </div>
                     <div className="flex items-center gap-2">
+                      <Badge variant="secondary">
+                        {warmup.ramp_profile === "custom"
+                          ? "Custom"
+                          : WARMUP_PROFILES[warmup.ramp_profile || "standard"]?.label}
+                      </Badge>
                       <Badge variant={statusConfig[warmup.status]?.variant}>
                         {statusConfig[warmup.status]?.label}
                       </Badge>
                       {!warmup.is_healthy && (
                         <Badge variant="destructive">
                           <AlertTriangle className="mr-1 h-3 w-3" />
-                          Issues
+                          Ramped Back
                         </Badge>
                       )}
                     </div>
@@ -388,7 +439,7 @@ export default function WarmupPage() {
                         <AlertTriangle className="h-3.5 w-3.5" />
                         <span className="text-xs">Bounced</span>
                       </div>
-                      <p className={`text-lg font-semibold ${bounceRate > 2 ? "text-destructive" : ""}`}>
+                      <p className={`text-lg font-semibold ${bounceRate > rampConfigForWarmup.max_bounce_rate ? "text-destructive" : ""}`}>
                         {formatPercentage(bounceRate)}
                       </p>
                     </div>
@@ -415,8 +466,22 @@ export default function WarmupPage() {
                         Resume
                       </Button>
                     ) : null}
+                    {warmup.status !== "completed" && (
+                      <Button variant="outline" size="sm" onClick={() => handleEditRamp(warmup)}>
+                        <SlidersHorizontal className="h-4 w-4" />
+                        Ramp
+                      </Button>
+                    )}
                     <span className="flex-1 text-right text-xs text-muted-foreground">
-                      Expected: {getExpectedLimit(warmup.warmup_day)} emails/day
+                      {warmup.ramp_back_count > 0 &&
+                        `Ramped back ${warmup.ramp_back_count}x · `}
+                      Expected:{" "}
+                      {getExpectedLimit(
+                        rampConfigForWarmup.schedule,
+                        warmup.warmup_day,
+                        warmup.target_daily_limit
+                      )}{" "}
+                      emails/day
                     </span>
                   </div>
                 </CardContent>
@@ -427,7 +492,13 @@ export default function WarmupPage() {
       )}
 
       {/* Add Domain Dialog */}
-      <Dialog open={addOpen} onOpenChange={setAddOpen}>
+      <Dialog
+        open={addOpen}
+        onOpenChange={(open) => {
+          setAddOpen(open);
+          if (!open) resetRamp();
+        }}
+      >
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Add Domain to Warm-up</DialogTitle>
@@ -460,6 +531,12 @@ export default function WarmupPage() {
                 Maximum emails per day after warm-up completes
               </p>
             </div>
+            <RampProfileEditor
+              profile={rampProfile}
+              config={rampConfig}
+              onChange={handleRampChange}
+            />
+            {rampError && <p className="text-sm text-destructive">{rampError}</p>}
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setAddOpen(false)}>
@@ -472,6 +549,47 @@ export default function WarmupPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Edit Ramp Dialog */}
+      <Dialog
+        open={!!editingWarmup}
+        onOpenChange={(open) => {
+          if (!open) {
+            setEditingWarmup(null);
+            resetRamp();
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Ramp</DialogTitle>
+            <DialogDescription>
+              Change how quickly {editingWarmup?.domain} ramps up and when it ramps back.
+            </DialogDescription>
+          </DialogHeader>
+          <RampProfileEditor
+            profile={rampProfile}
+            config={rampConfig}
+            onChange={handleRampChange}
+          />
+          {rampError && <p className="text-sm text-destructive">{rampError}</p>}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setEditingWarmup(null);
+                resetRamp();
+              }}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleSaveRamp} disabled={savingRamp}>
+              {savingRamp && <Loader2 className="h-4 w-4 animate-spin" />}
+              Save Ramp
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
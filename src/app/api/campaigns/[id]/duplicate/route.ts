@@ -38,6 +38,8 @@ export async function POST(
         send_window_start: campaign.send_window_start,
         send_window_end: campaign.send_window_end,
         send_days: campaign.send_days,
+        timezone: campaign.timezone,
+        timezone_mode: campaign.timezone_mode,
         delay_between_sends: campaign.delay_between_sends,
         target_filters: campaign.target_filters,
         total_leads: 0,
@@ -49,7 +51,15 @@ export async function POST(
         bounced_count: 0,
         unsubscribed_count: 0,
         is_ab_test: campaign.is_ab_test,
-        ab_variants: campaign.ab_variants,
+        // Copies start a fresh test
+        ab_variants: campaign.ab_variants
+          ? {
+              ...campaign.ab_variants,
+              winner_variant: null,
+              winner_selected_at: null,
+              winner_confidence: null,
+            }
+          : null,
       })
       .select()
       .single();
@@ -61,6 +71,30 @@ export async function POST(
       );
     }
 
+    // Copy sequence steps
+    const { data: originalSteps } = await supabase
+      .from("campaign_steps")
+      .select("step_number, template_id, wait_days, condition")
+      .eq("campaign_id", campaignId);
+
+    if (originalSteps && originalSteps.length > 0) {
+      await supabase.from("campaign_steps").insert(
+        originalSteps.map((step) => ({ ...step, campaign_id: newCampaign.id }))
+      );
+    }
+
+    // Copy sending mailboxes
+    const { data: originalSenders } = await supabase
+      .from("campaign_senders")
+      .select("sender_account_id")
+      .eq("campaign_id", campaignId);
+
+    if (originalSenders && originalSenders.length > 0) {
+      await supabase.from("campaign_senders").insert(
+        originalSenders.map((sender) => ({ ...sender, campaign_id: newCampaign.id }))
+      );
+    }
+
     // Copy campaign leads (as pending)
     const { data: originalLeads } = await supabase
       .from("campaign_leads")
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { z } from "zod";
+import {
+  buildExportSelect,
+  CAMPAIGN_LEAD_EXPORT_COLUMNS,
+  DEFAULT_CAMPAIGN_LEAD_EXPORT_COLUMNS,
+  resolveExportColumns,
+} from "@/lib/export";
+import { createExportStream, exportResponse } from "@/lib/export/stream";
+
+const querySchema = z.object({
+  format: z.enum(["csv", "ndjson"]).default("csv"),
+  status: z.string().optional(),
+});
+
+// GET - Stream a campaign's leads with their engagement timestamps as CSV or
+// NDJSON. Lead columns are prefixed "lead.", e.g. ?columns=lead.email,opened_at
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: campaignId } = await params;
+    const supabase = await createClient();
+    const { searchParams } = new URL(request.url);
+
+    const { format, status } = querySchema.parse({
+      format: searchParams.get("format") ?? undefined,
+      status: searchParams.get("status") ?? undefined,
+    });
+    const { columns, invalid } = resolveExportColumns(
+      searchParams.get("columns"),
+      CAMPAIGN_LEAD_EXPORT_COLUMNS,
+      DEFAULT_CAMPAIGN_LEAD_EXPORT_COLUMNS
+    );
+
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown columns: ${invalid.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const { data: campaign } = await supabase
+      .from("campaigns")
+      .select("name")
+      .eq("id", campaignId)
+      .single();
+
+    if (!campaign) {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+    }
+
+    const select = buildExportSelect(columns);
+    const stream = createExportStream(
+      async (from, to) => {
+        let query = supabase
+          .from("campaign_leads")
+          .select(select)
+          .eq("campaign_id", campaignId);
+
+        if (status) {
+          query = query.eq("status", status);
+        }
+
+        const { data, error } = await query
+          .order("created_at", { ascending: true })
+          .order("id", { ascending: true })
+          .range(from, to);
+
+        if (error) throw error;
+        return (data || []) as unknown as Record<string, unknown>[];
+      },
+      columns,
+      format
+    );
+
+    const slug = campaign.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+    return exportResponse(stream, `${slug || "campaign"}-leads`, format);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid parameters", details: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
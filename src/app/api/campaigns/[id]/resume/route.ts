@@ -32,12 +32,12 @@ export async function POST(
       );
     }
 
-    // Check if there are still pending leads
+    // Check if there are still pending leads or follow-ups awaiting send
     const { count: pendingCount } = await supabase
       .from("campaign_leads")
       .select("*", { count: "exact", head: true })
       .eq("campaign_id", campaignId)
-      .eq("status", "pending");
+      .or("status.eq.pending,next_send_at.not.is.null");
 
     if (!pendingCount || pendingCount === 0) {
       // No pending leads, mark as completed
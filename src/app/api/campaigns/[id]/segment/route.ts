@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { z } from "zod";
+import { enrollSegmentLeads } from "@/lib/segments";
+
+const enrollSchema = z.object({
+  segmentId: z.string().uuid(),
+  // Keep enrolling leads that match the segment later on
+  autoEnroll: z.boolean().default(false),
+});
+
+// POST - Add a segment's leads to the campaign, optionally making it the
+// campaign's audience
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: campaignId } = await params;
+    const supabase = await createClient();
+    const body = await request.json();
+
+    const result = enrollSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { segmentId, autoEnroll } = result.data;
+
+    const { data: campaign, error: campaignError } = await supabase
+      .from("campaigns")
+      .select("id, status")
+      .eq("id", campaignId)
+      .single();
+
+    if (campaignError || !campaign) {
+      return NextResponse.json(
+        { error: "Campaign not found" },
+        { status: 404 }
+      );
+    }
+
+    if (campaign.status === "completed" || campaign.status === "cancelled") {
+      return NextResponse.json(
+        { error: "Cannot add leads to a completed or cancelled campaign" },
+        { status: 400 }
+      );
+    }
+
+    const { data: segment } = await supabase
+      .from("segments")
+      .select("id")
+      .eq("id", segmentId)
+      .single();
+
+    if (!segment) {
+      return NextResponse.json({ error: "Segment not found" }, { status: 404 });
+    }
+
+    const added = await enrollSegmentLeads(supabase, campaignId, segmentId);
+
+    if (autoEnroll) {
+      await supabase
+        .from("campaigns")
+        .update({ segment_id: segmentId })
+        .eq("id", campaignId);
+    }
+
+    return NextResponse.json({
+      message: "Segment leads added successfully",
+      added,
+      autoEnroll,
+    });
+  } catch (error) {
+    console.error("Error adding segment to campaign:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Stop enrolling new leads from the campaign's audience segment.
+// Leads already enrolled stay in the campaign.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: campaignId } = await params;
+    const supabase = await createClient();
+
+    const { error } = await supabase
+      .from("campaigns")
+      .update({ segment_id: null })
+      .eq("id", campaignId);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error removing campaign segment:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { qstash } from "@/lib/qstash/client";
+import { enrollSegmentLeads } from "@/lib/segments";
 
 export async function POST(
   request: NextRequest,
@@ -40,13 +41,19 @@ export async function POST(
       );
     }
 
+    // Bring the audience segment up to date before sending
+    if (campaign.segment_id) {
+      await enrollSegmentLeads(supabase, campaignId, campaign.segment_id);
+    }
+
     // Check if campaign has leads
     const { count: leadsCount } = await supabase
       .from("campaign_leads")
       .select("*", { count: "exact", head: true })
       .eq("campaign_id", campaignId);
 
-    if (!leadsCount || leadsCount === 0) {
+    // A segment audience may start empty and fill up as leads match it
+    if ((!leadsCount || leadsCount === 0) && !campaign.segment_id) {
       return NextResponse.json(
         { error: "Campaign must have leads assigned" },
         { status: 400 }
@@ -1,8 +1,46 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { z } from "zod";
+import { isValidTimezone } from "@/lib/scheduling";
+import { validateTemplate } from "@/lib/utils/template-parser";
 
 // Validation schemas
+function checkTemplateSyntax(value: string, ctx: z.RefinementCtx) {
+  const error = validateTemplate(value);
+  if (error) {
+    ctx.addIssue({
+      code: "custom",
+      message: `Line ${error.line}, column ${error.column}: ${error.message}`,
+    });
+  }
+}
+
+const followUpStepSchema = z.object({
+  template_id: z.string().uuid(),
+  wait_days: z.number().min(0).max(90).default(3),
+  condition: z.enum(["always", "no_reply", "no_open", "no_click"]).default("no_reply"),
+});
+
+const abTestSchema = z.object({
+  variants: z
+    .array(
+      z.object({
+        id: z.string().regex(/^[A-Z]$/),
+        subject: z.string().min(1).superRefine(checkTemplateSyntax),
+        body_html: z.string().superRefine(checkTemplateSyntax).nullable().default(null),
+      })
+    )
+    .min(2)
+    .max(5),
+  test_percentage: z.number().min(1).max(100).default(20),
+  sample_size: z.number().min(1).default(100),
+  wait_hours: z.number().min(0).max(168).default(24),
+  winner_metric: z.enum(["open", "click", "reply"]).default("open"),
+  winner_variant: z.null().default(null),
+  winner_selected_at: z.null().default(null),
+  winner_confidence: z.null().default(null),
+});
+
 const createCampaignSchema = z.object({
   name: z.string().min(1),
   description: z.string().optional(),
@@ -14,8 +52,12 @@ const createCampaignSchema = z.object({
   send_window_start: z.string().default("09:00"),
   send_window_end: z.string().default("17:00"),
   send_days: z.array(z.number().min(1).max(7)).default([1, 2, 3, 4, 5]),
+  timezone: z.string().refine(isValidTimezone, "Invalid timezone").nullable().optional(),
+  timezone_mode: z.enum(["campaign", "recipient"]).default("campaign"),
   delay_between_sends: z.number().min(30).max(3600).default(60),
   target_filters: z.record(z.string(), z.unknown()).optional(),
+  follow_ups: z.array(followUpStepSchema).max(9).default([]),
+  ab_variants: abTestSchema.nullable().optional(),
 });
 
 // GET - List campaigns
@@ -67,7 +109,7 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
 
     // Validate request body
-    const validatedData = createCampaignSchema.parse(body);
+    const { follow_ups, ...validatedData } = createCampaignSchema.parse(body);
 
     // Verify template exists
     const { data: template } = await supabase
@@ -86,7 +128,9 @@ export async function POST(request: NextRequest) {
     // Create campaign
     const { data, error } = await supabase
       .from("campaigns")
-      .insert([{ ...validatedData, status: "draft" }])
+      .insert([
+        { ...validatedData, is_ab_test: !!validatedData.ab_variants, status: "draft" },
+      ])
       .select()
       .single();
 
@@ -94,6 +138,26 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
+    // Create sequence steps (initial email + follow-ups)
+    const { error: stepsError } = await supabase.from("campaign_steps").insert([
+      {
+        campaign_id: data.id,
+        step_number: 1,
+        template_id: validatedData.template_id,
+        wait_days: 0,
+        condition: "always",
+      },
+      ...follow_ups.map((step, index) => ({
+        campaign_id: data.id,
+        step_number: index + 2,
+        ...step,
+      })),
+    ]);
+
+    if (stepsError) {
+      return NextResponse.json({ error: stepsError.message }, { status: 500 });
+    }
+
     return NextResponse.json({ data }, { status: 201 });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { z } from "zod";
+import { queueWebsiteEnrich } from "@/lib/qstash/client";
+
+const enrichSchema = z.object({
+  companyIds: z.array(z.string().uuid()).min(1).max(500),
+});
+
+// POST: Crawl the websites of the given companies for an email to turn into a lead
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const result = enrichSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { data: companies, error } = await supabaseAdmin
+      .from("companies")
+      .select("id")
+      .in("id", result.data.companyIds)
+      .not("website", "is", null);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    if (!companies || companies.length === 0) {
+      return NextResponse.json(
+        { error: "None of these companies have a website" },
+        { status: 400 }
+      );
+    }
+
+    for (const [index, company] of companies.entries()) {
+      await queueWebsiteEnrich({ companyId: company.id }, { delay: index * 2 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      queued: companies.length,
+      message: `Queued ${companies.length} companies for website enrichment`,
+    });
+  } catch (error) {
+    console.error("Error in company enrich endpoint:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,30 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase/admin";
 import { queueEmailSend, type EmailSendJob } from "@/lib/qstash/client";
-import { canSendEmail } from "@/lib/redis/client";
 import { personalizeTemplate } from "@/lib/utils/template-parser";
+import type { Lead } from "@/types";
+import {
+  resolveCampaignSteps,
+  isStepConditionMet,
+  getNextSendAt,
+} from "@/lib/sequences";
+import { isWithinSendWindow, resolveLeadTimezone } from "@/lib/scheduling";
+import { getSettings } from "@/lib/settings";
+import {
+  parseAbTestConfig,
+  getVariantStats,
+  getTestPoolSize,
+  isReadyForWinner,
+  rankVariants,
+  pickVariant,
+  applyVariant,
+} from "@/lib/ab-testing";
+import { consumeMailbox, getPoolCapacity, pickMailbox } from "@/lib/senders";
+import { getCampaignMailboxes, type DomainBudgets } from "@/lib/senders/mailboxes";
+import { enrollSegmentLeads } from "@/lib/segments";
+
+// In recipient-timezone mode, over-fetch leads since some will be outside their window
+const RECIPIENT_FETCH_MULTIPLIER = 5;
 
 // This endpoint is called by QStash (or cron) to process daily campaign emails
 export async function POST(request: NextRequest) {
@@ -18,10 +40,12 @@ export async function POST(request: NextRequest) {
     // If no specific campaign, process all active campaigns
     const campaignIds = campaignId ? [campaignId] : await getActiveCampaignIds();
 
+    // Warming domains are limited across all campaigns sending from them
+    const domainBudgets: DomainBudgets = new Map();
     let totalQueued = 0;
 
     for (const cId of campaignIds) {
-      const queued = await processCampaign(cId);
+      const queued = await processCampaign(cId, domainBudgets);
       totalQueued += queued;
     }
 
@@ -48,11 +72,14 @@ async function getActiveCampaignIds(): Promise<string[]> {
   return data?.map((c) => c.id) || [];
 }
 
-async function processCampaign(campaignId: string): Promise<number> {
+async function processCampaign(
+  campaignId: string,
+  domainBudgets: DomainBudgets
+): Promise<number> {
   // Get campaign details
   const { data: campaign } = await supabaseAdmin
     .from("campaigns")
-    .select("*, template:email_templates(*)")
+    .select("*, template:email_templates(*), steps:campaign_steps(*, template:email_templates(*))")
     .eq("id", campaignId)
     .single();
 
@@ -61,55 +88,136 @@ async function processCampaign(campaignId: string): Promise<number> {
     return 0;
   }
 
-  // Check if within send window
-  if (!isWithinSendWindow(campaign.send_window_start, campaign.send_window_end)) {
-    console.log(`Campaign ${campaignId} outside send window, skipping`);
-    return 0;
+  // Pick up leads that have started matching the campaign's audience segment
+  if (campaign.segment_id) {
+    try {
+      const enrolled = await enrollSegmentLeads(supabaseAdmin, campaignId, campaign.segment_id);
+      if (enrolled > 0) {
+        console.log(`Enrolled ${enrolled} new segment leads in campaign ${campaignId}`);
+      }
+    } catch (error) {
+      console.error(`Segment enrollment failed for campaign ${campaignId}:`, error);
+    }
   }
 
-  // Check day of week
-  const today = new Date().getDay() || 7; // Convert Sunday from 0 to 7
-  if (!campaign.send_days.includes(today)) {
-    console.log(`Campaign ${campaignId} not scheduled for today, skipping`);
+  // Check send window and day of week in the campaign's timezone
+  const settings = await getSettings(supabaseAdmin);
+  const timezone: string = campaign.timezone || settings.timezone;
+  const useRecipientTimezone = campaign.timezone_mode === "recipient";
+
+  if (!useRecipientTimezone && !isWithinSendWindow(campaign, timezone)) {
+    console.log(`Campaign ${campaignId} outside send window (${timezone}), skipping`);
     return 0;
   }
 
-  // Get daily limit (respect warm-up)
-  const { data: warmup } = await supabaseAdmin
-    .from("domain_warmup")
-    .select("current_daily_limit")
-    .eq("status", "active")
-    .single();
-
-  const effectiveLimit = Math.min(
-    campaign.daily_limit,
-    warmup?.current_daily_limit || 50
-  );
+  // Sending capacity is what the mailboxes and their domains' warm-ups still allow today
+  const mailboxes = await getCampaignMailboxes(supabaseAdmin, campaign, domainBudgets);
+  const effectiveLimit = Math.min(campaign.daily_limit, getPoolCapacity(mailboxes));
 
-  // Check how many we can still send today
-  const canSend = await canSendEmail(effectiveLimit);
-  if (!canSend) {
+  if (effectiveLimit <= 0) {
     console.log(`Daily email limit reached for campaign ${campaignId}`);
     return 0;
   }
 
-  // Get pending campaign leads
-  const { data: pendingLeads } = await supabaseAdmin
-    .from("campaign_leads")
-    .select("*, lead:leads(*)")
-    .eq("campaign_id", campaignId)
-    .eq("status", "pending")
-    .limit(effectiveLimit);
+  const steps = resolveCampaignSteps(campaign);
+  if (steps.length === 0) {
+    console.log(`Campaign ${campaignId} has no sequence steps, skipping`);
+    return 0;
+  }
+
+  // A/B test: split the test pool across variants, then route the rest to the winner
+  const abTest = campaign.is_ab_test ? parseAbTestConfig(campaign.ab_variants) : null;
+  const variantCounts: Record<string, number> = {};
+  let testPoolRemaining = 0;
+
+  if (abTest) {
+    const stats = await getVariantStats(supabaseAdmin, campaignId, abTest);
+    const testPoolSize = getTestPoolSize(campaign.total_leads, abTest);
+
+    for (const s of stats) {
+      variantCounts[s.variant] = s.assigned;
+    }
+    testPoolRemaining = Math.max(
+      testPoolSize - stats.reduce((sum, s) => sum + s.assigned, 0),
+      0
+    );
+
+    if (!abTest.winner_variant && isReadyForWinner(abTest, stats, testPoolSize)) {
+      const { leader, confidence } = rankVariants(stats, abTest.winner_metric);
+
+      if (leader) {
+        abTest.winner_variant = leader.variant;
+        abTest.winner_selected_at = new Date().toISOString();
+        abTest.winner_confidence = Math.round(confidence * 10) / 10;
+
+        await supabaseAdmin
+          .from("campaigns")
+          .update({ ab_variants: abTest })
+          .eq("id", campaignId);
+
+        console.log(
+          `Campaign ${campaignId} A/B winner: variant ${leader.variant} (${abTest.winner_confidence}% confidence)`
+        );
+      }
+    }
+  }
+
+  // Hold new leads once the test pool is used up until a winner is selected
+  const testing = !!abTest && !abTest.winner_variant;
+  const pendingLimit = testing ? Math.min(effectiveLimit, testPoolRemaining) : effectiveLimit;
+
+  const fetchLimit = useRecipientTimezone
+    ? effectiveLimit * RECIPIENT_FETCH_MULTIPLIER
+    : effectiveLimit;
+
+  // Keep only leads whose local send window is open
+  const inRecipientWindow = (campaignLead: { lead: Lead | null }) =>
+    !useRecipientTimezone ||
+    (!!campaignLead.lead &&
+      isWithinSendWindow(campaign, resolveLeadTimezone(campaignLead.lead) || timezone));
+
+  // Get pending campaign leads (first step)
+  const { data: pendingData } =
+    pendingLimit > 0
+      ? await supabaseAdmin
+          .from("campaign_leads")
+          .select("*, lead:leads(*)")
+          .eq("campaign_id", campaignId)
+          .eq("status", "pending")
+          .limit(fetchLimit)
+      : { data: [] };
+
+  const pendingLeads = (pendingData || []).filter(inRecipientWindow).slice(0, pendingLimit);
+
+  // Get campaign leads whose next follow-up step is due
+  const remainingSlots = effectiveLimit - pendingLeads.length;
+  let dueLeads: typeof pendingLeads = [];
+
+  if (remainingSlots > 0 && steps.length > 1) {
+    const { data } = await supabaseAdmin
+      .from("campaign_leads")
+      .select("*, lead:leads(*)")
+      .eq("campaign_id", campaignId)
+      .gt("current_step", 0)
+      .lte("next_send_at", new Date().toISOString())
+      .not("status", "in", '("queued","replied","bounced","failed","skipped")')
+      .order("next_send_at", { ascending: true })
+      .limit(useRecipientTimezone ? remainingSlots * RECIPIENT_FETCH_MULTIPLIER : remainingSlots);
 
-  if (!pendingLeads || pendingLeads.length === 0) {
+    dueLeads = (data || []).filter(inRecipientWindow).slice(0, remainingSlots);
+  }
+
+  const leadsToSend = [...pendingLeads, ...dueLeads];
+
+  if (leadsToSend.length === 0) {
     console.log(`No pending leads for campaign ${campaignId}`);
 
-    // Check if campaign is complete
+    // Check if campaign is complete (nothing pending, queued or awaiting a follow-up)
     const { count: remaining } = await supabaseAdmin
       .from("campaign_leads")
       .select("*", { count: "exact", head: true })
       .eq("campaign_id", campaignId)
-      .eq("status", "pending");
+      .or("status.eq.pending,status.eq.queued,next_send_at.not.is.null");
 
     if (remaining === 0) {
       await supabaseAdmin
@@ -126,21 +234,54 @@ async function processCampaign(campaignId: string): Promise<number> {
 
   // Queue emails with delays
   const delayBetween = campaign.delay_between_sends || 60; // seconds
+  const rotation = { cursor: 0 };
   let queued = 0;
 
-  for (let i = 0; i < pendingLeads.length; i++) {
-    const campaignLead = pendingLeads[i];
+  for (const campaignLead of leadsToSend) {
     const lead = campaignLead.lead;
 
     if (!lead) continue;
 
+    const step = steps.find((s) => s.step_number === (campaignLead.current_step || 0) + 1);
+
+    if (!step || !step.template) {
+      // Sequence finished or step misconfigured
+      await supabaseAdmin
+        .from("campaign_leads")
+        .update({ next_send_at: null })
+        .eq("id", campaignLead.id);
+      continue;
+    }
+
+    // Skip follow-ups whose condition no longer holds
+    if (!isStepConditionMet(step.condition, campaignLead)) {
+      await supabaseAdmin
+        .from("campaign_leads")
+        .update({
+          current_step: step.step_number,
+          next_send_at: getNextSendAt(steps, step.step_number),
+        })
+        .eq("id", campaignLead.id);
+      continue;
+    }
+
+    // Leave the lead for the next run if its mailbox is out of capacity
+    const mailbox = pickMailbox(mailboxes, rotation, campaignLead.sender_account_id);
+    if (!mailbox) continue;
+
+    // A/B variants apply to the initial email only
+    let variant: string | null = campaignLead.variant || null;
+    if (abTest && step.step_number === 1) {
+      variant = abTest.winner_variant || pickVariant(abTest, variantCounts);
+      variantCounts[variant] = (variantCounts[variant] || 0) + 1;
+    }
+
     // Personalize content
     const personalized = personalizeTemplate(
-      {
-        subject: campaign.template.subject,
-        body_html: campaign.template.body_html,
-        body_text: campaign.template.body_text,
-      },
+      applyVariant(
+        step.template,
+        step.step_number === 1 ? abTest?.variants.find((v) => v.id === variant) : undefined
+      ),
       lead
     );
 
@@ -150,17 +291,20 @@ async function processCampaign(campaignId: string): Promise<number> {
       campaignId: campaign.id,
       leadId: lead.id,
       to: lead.email,
-      from: campaign.from_email,
-      fromName: campaign.from_name,
+      from: mailbox.email,
+      fromName: mailbox.fromName,
       replyTo: campaign.reply_to || undefined,
       subject: personalized.subject,
       html: personalized.html,
       text: personalized.text,
+      stepNumber: step.step_number,
+      senderAccountId: mailbox.id || undefined,
     };
 
-    // Queue with delay
-    const delay = i * delayBetween;
+    // Space out sends per mailbox, so rotating mailboxes send in parallel
+    const delay = mailbox.queued * delayBetween;
     await queueEmailSend(job, { delay });
+    consumeMailbox(mailbox);
 
     // Mark as queued
     await supabaseAdmin
@@ -168,6 +312,9 @@ async function processCampaign(campaignId: string): Promise<number> {
       .update({
         status: "queued",
         queued_at: new Date().toISOString(),
+        next_send_at: null,
+        variant,
+        sender_account_id: mailbox.id,
         personalized_subject: personalized.subject,
         personalized_body: personalized.html,
       })
@@ -179,18 +326,3 @@ async function processCampaign(campaignId: string): Promise<number> {
   console.log(`Queued ${queued} emails for campaign ${campaignId}`);
   return queued;
 }
-
-function isWithinSendWindow(startTime: string, endTime: string): boolean {
-  const now = new Date();
-  const hours = now.getHours();
-  const minutes = now.getMinutes();
-  const currentTime = hours * 60 + minutes;
-
-  const [startHour, startMin] = startTime.split(":").map(Number);
-  const [endHour, endMin] = endTime.split(":").map(Number);
-
-  const startMinutes = startHour * 60 + startMin;
-  const endMinutes = endHour * 60 + endMin;
-
-  return currentTime >= startMinutes && currentTime <= endMinutes;
-}
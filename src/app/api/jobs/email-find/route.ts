@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import type { EmailFindJob } from "@/lib/qstash/client";
+import { getSettings, type AppSettings } from "@/lib/settings";
+import { createLeadFromEmailFinder, findLeadEmail } from "@/lib/email-finder/leads";
+
+// This endpoint is called by QStash to guess and verify a person's email address
+export async function POST(request: NextRequest) {
+  try {
+    const signature = request.headers.get("upstash-signature") || "";
+    if (process.env.NODE_ENV === "production" && !signature) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const job: EmailFindJob = await request.json();
+    const settings = await getSettings(supabaseAdmin);
+
+    if (job.leadId) {
+      const { outcome, result } = await findLeadEmail(supabaseAdmin, job.leadId, settings);
+      console.log(`Email finder for lead ${job.leadId}: ${outcome}`);
+
+      return NextResponse.json({
+        success: true,
+        leadId: job.leadId,
+        outcome,
+        email: result?.email || null,
+        confidence: result?.confidence || 0,
+        candidatesTried: result?.candidatesTried || [],
+      });
+    }
+
+    if (job.result) {
+      return NextResponse.json(await findScraperResultEmail(job, settings));
+    }
+
+    if (!job.firstName || !job.lastName || !job.domain) {
+      return NextResponse.json(
+        { error: "Either leadId or firstName, lastName and domain are required" },
+        { status: 400 }
+      );
+    }
+
+    const { outcome, result, leadId } = await createLeadFromEmailFinder(
+      supabaseAdmin,
+      {
+        firstName: job.firstName,
+        lastName: job.lastName,
+        domain: job.domain,
+        companyName: job.companyName,
+      },
+      settings
+    );
+    console.log(`Email finder for ${job.firstName} ${job.lastName} at ${job.domain}: ${outcome}`);
+
+    return NextResponse.json({
+      success: true,
+      leadId,
+      outcome,
+      email: result.email,
+      confidence: result.confidence,
+      candidatesTried: result.candidatesTried,
+    });
+  } catch (error) {
+    console.error("Email find job error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// A person a scraper found without an email becomes a lead if an address
+// for them can be found, counted on the scraper job like website enrichment
+async function findScraperResultEmail(job: EmailFindJob, settings: AppSettings) {
+  const result = job.result!;
+  if (!result.first_name || !result.last_name || !result.company_website) {
+    return { success: true, outcome: "skipped" };
+  }
+
+  const { outcome, leadId } = await createLeadFromEmailFinder(
+    supabaseAdmin,
+    {
+      firstName: result.first_name,
+      lastName: result.last_name,
+      domain: result.company_website,
+      companyName: result.company_name,
+    },
+    settings,
+    {
+      phone: result.phone || null,
+      job_title: result.job_title || null,
+      seniority: result.seniority || null,
+      linkedin_url: result.linkedin_url || null,
+      company_website: result.company_website,
+      company_linkedin: result.company_linkedin || null,
+      company_size: result.company_size || null,
+      industry: result.industry || null,
+      city: result.city || null,
+      state: result.state || null,
+      country: result.country || "USA",
+      source: job.source || "manual",
+      source_url: result.source_url || null,
+      scraper_job_id: job.scraperJobId || null,
+      company_id: job.companyId || null,
+    }
+  );
+
+  if (job.scraperJobId && outcome === "created") {
+    await supabaseAdmin.rpc("increment_scraper_job_stat", {
+      p_job_id: job.scraperJobId,
+      p_stat_field: "leads_enriched",
+    });
+  }
+
+  console.log(
+    `Email finder for ${result.first_name} ${result.last_name} at ${result.company_website}: ${outcome}`
+  );
+
+  return { success: true, leadId, outcome };
+}
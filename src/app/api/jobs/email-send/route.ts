@@ -6,6 +6,9 @@ import {
   processEmailForSending,
   generateUnsubscribeToken,
 } from "@/lib/utils/template-parser";
+import { getNextSendAt } from "@/lib/sequences";
+import { buildMessageId } from "@/lib/inbound";
+import { extractDomain } from "@/lib/utils";
 import type { EmailSendJob } from "@/lib/qstash/client";
 
 // This endpoint is called by QStash to send an email
@@ -29,10 +32,26 @@ export async function POST(request: NextRequest) {
       subject,
       html,
       text,
+      stepNumber = 1,
+      senderAccountId,
     } = job;
 
     console.log(`Processing email send job: ${campaignLeadId} -> ${to}`);
 
+    // Halt the sequence if the lead replied after this job was queued
+    const { data: campaignLead } = await supabaseAdmin
+      .from("campaign_leads")
+      .select("status, message_id")
+      .eq("id", campaignLeadId)
+      .single();
+
+    if (campaignLead?.status === "replied") {
+      return NextResponse.json({
+        success: false,
+        reason: "replied",
+      });
+    }
+
     // Check if email is unsubscribed
     const { data: unsubscribed } = await supabaseAdmin
       .from("unsubscribes")
@@ -68,6 +87,15 @@ export async function POST(request: NextRequest) {
       appUrl
     );
 
+    // Tag the message so replies can be matched back to this campaign lead,
+    // threading follow-ups under the previous step
+    const messageId = buildMessageId(campaignLeadId, stepNumber, from);
+    const headers: Record<string, string> = { "Message-ID": messageId };
+    if (stepNumber > 1 && campaignLead?.message_id) {
+      headers["In-Reply-To"] = campaignLead.message_id;
+      headers["References"] = campaignLead.message_id;
+    }
+
     // Send via Resend
     const result = await sendEmail({
       to,
@@ -78,6 +106,7 @@ export async function POST(request: NextRequest) {
       html: processedHtml,
       text,
       campaignId,
+      headers,
     });
 
     if (result.error) {
@@ -98,6 +127,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Schedule the next sequence step, if any
+    const { data: steps } = await supabaseAdmin
+      .from("campaign_steps")
+      .select("step_number, wait_days")
+      .eq("campaign_id", campaignId);
+
     // Update campaign lead as sent
     await supabaseAdmin
       .from("campaign_leads")
@@ -105,6 +140,9 @@ export async function POST(request: NextRequest) {
         status: "sent",
         sent_at: new Date().toISOString(),
         resend_email_id: result.data?.id,
+        message_id: messageId,
+        current_step: stepNumber,
+        next_send_at: getNextSendAt(steps || [], stepNumber),
       })
       .eq("id", campaignLeadId);
 
@@ -114,17 +152,32 @@ export async function POST(request: NextRequest) {
       p_stat_field: "sent_count",
     });
 
-    // Store unsubscribe token for this email (ignore if email already exists)
-    await supabaseAdmin.from("unsubscribes").upsert({
+    // Count the send towards the sending domain's warm-up
+    const domain = extractDomain(from);
+    if (domain) {
+      await supabaseAdmin.rpc("increment_warmup_stat", {
+        p_domain: domain,
+        p_stat_field: "total_sent",
+      });
+    }
+
+    // Store this email's unsubscribe link token. It only becomes an opt-out
+    // in unsubscribes once the link is used
+    await supabaseAdmin.from("unsubscribe_tokens").insert({
+      token: unsubscribeToken,
       email: to,
       lead_id: leadId,
       campaign_id: campaignId,
-      token: unsubscribeToken,
-      source: "link",
-    }, { onConflict: "email", ignoreDuplicates: true });
+    });
+
+    // Increment rate limit counters for the sending mailbox
+    await incrementEmailCount(from);
 
-    // Increment rate limit counters
-    await incrementEmailCount();
+    if (senderAccountId) {
+      await supabaseAdmin.rpc("increment_sender_sent", {
+        p_sender_account_id: senderAccountId,
+      });
+    }
 
     console.log(`Email sent successfully: ${result.data?.id}`);
 
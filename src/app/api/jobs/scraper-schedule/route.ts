@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { startScraperJob } from "@/lib/scraper-jobs";
+import type { ScraperScheduleJob } from "@/lib/qstash/client";
+
+// Running jobs save progress every few seconds, so a run that hasn't been
+// updated for this long has died and shouldn't hold up the schedule
+const STALE_RUN_MS = 30 * 60 * 1000;
+
+// This endpoint is called by QStash on a scraper schedule's cron to start
+// its next run
+export async function POST(request: NextRequest) {
+  try {
+    const signature = request.headers.get("upstash-signature") || "";
+    if (process.env.NODE_ENV === "production" && !signature) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { scheduleId }: ScraperScheduleJob = await request.json();
+
+    const { data: schedule } = await supabaseAdmin
+      .from("scraper_schedules")
+      .select("*")
+      .eq("id", scheduleId)
+      .single();
+
+    if (!schedule || !schedule.is_active) {
+      return NextResponse.json({ success: true, skipped: "inactive" });
+    }
+
+    await supabaseAdmin
+      .from("scraper_jobs")
+      .update({ status: "failed", last_error: "Run stopped responding" })
+      .eq("schedule_id", scheduleId)
+      .in("status", ["pending", "running"])
+      .lt("updated_at", new Date(Date.now() - STALE_RUN_MS).toISOString());
+
+    // Don't start a run while the previous one is still going
+    const { count: activeRuns } = await supabaseAdmin
+      .from("scraper_jobs")
+      .select("*", { count: "exact", head: true })
+      .eq("schedule_id", scheduleId)
+      .in("status", ["pending", "running"]);
+
+    if (activeRuns) {
+      return NextResponse.json({ success: true, skipped: "previous_run_active" });
+    }
+
+    const job = await startScraperJob(supabaseAdmin, {
+      scraperType: schedule.scraper_type,
+      query: schedule.search_query,
+      location: schedule.location || undefined,
+      maxResults: schedule.max_results,
+      searchParameters: schedule.search_parameters || undefined,
+      scheduleId,
+    });
+
+    await supabaseAdmin
+      .from("scraper_schedules")
+      .update({ last_run_at: new Date().toISOString() })
+      .eq("id", scheduleId);
+
+    return NextResponse.json({ success: true, jobId: job.id });
+  } catch (error) {
+    console.error("Scraper schedule job error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
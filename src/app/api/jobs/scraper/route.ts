@@ -3,7 +3,26 @@ import { supabaseAdmin } from "@/lib/supabase/admin";
 import { GoogleMapsScraper } from "@/scrapers/google-maps/scraper";
 import { SerpAPIGoogleMapsScraper } from "@/scrapers/serpapi/google-maps";
 import { SerpAPIGoogleSearchScraper } from "@/scrapers/serpapi/google-search";
-import type { ScraperJob } from "@/lib/qstash/client";
+import { YelpScraper } from "@/scrapers/yelp/scraper";
+import { YellowPagesScraper } from "@/scrapers/yellowpages/scraper";
+import { ApolloScraper } from "@/scrapers/apollo/scraper";
+import { LinkedInSalesNavImporter } from "@/scrapers/linkedin/sales-navigator";
+import { findLeadByEmail, normalizeEmail } from "@/lib/leads/duplicates";
+import { upsertCompany } from "@/lib/companies";
+import { addScheduleLeads } from "@/lib/scraper-jobs/schedules";
+import {
+  queueEmailFind,
+  queueWebsiteEnrich,
+  type ScraperJob,
+} from "@/lib/qstash/client";
+import { getSettings, type AppSettings } from "@/lib/settings";
+import type { BaseScraper, ScraperResult } from "@/scrapers/base/scraper";
+import type { LeadSource, ScraperErrorEntry } from "@/types";
+
+// How often progress is saved, which is also how quickly a cancel is noticed
+const PROGRESS_INTERVAL_MS = 3000;
+// Older entries are dropped so the row stays small
+const MAX_ERROR_LOG_ENTRIES = 100;
 
 // This endpoint is called by QStash to run a scraper job
 export async function POST(request: NextRequest) {
@@ -16,123 +35,286 @@ export async function POST(request: NextRequest) {
     const job: ScraperJob = await request.json();
     const { jobId, scraperType, query, location, maxResults = 100 } = job;
 
-    console.log(`Starting scraper job ${jobId}: ${scraperType} - ${query}`);
+    const { data: saved } = await supabaseAdmin
+      .from("scraper_jobs")
+      .select(
+        "status, schedule_id, checkpoint, search_parameters, error_log, requests_made, processed_count, leads_created, leads_updated, errors_count, enrichment_queued, companies_found"
+      )
+      .eq("id", jobId)
+      .single();
+
+    // QStash delivered this job again after it already finished, or it was
+    // cancelled before it started
+    if (saved?.status === "completed" || saved?.status === "cancelled") {
+      return NextResponse.json({ success: true, skipped: saved.status });
+    }
+
+    // A re-delivered or retried job (e.g. after the function timed out) skips
+    // the results it already processed and keeps counting from where it stopped
+    const seenIds: string[] = saved?.checkpoint?.seen_ids || [];
+    let offset: number = saved?.checkpoint?.offset || 0;
+    const resuming = seenIds.length > 0 || offset > 0;
+    const resumed = (count: number | null | undefined) => (resuming ? count || 0 : 0);
+
+    console.log(
+      resuming
+        ? `Resuming scraper job ${jobId} after ${seenIds.length + offset} results: ${scraperType} - ${query}`
+        : `Starting scraper job ${jobId}: ${scraperType} - ${query}`
+    );
 
-    // Update job status to running
+    // Update job status to running, unless it was cancelled meanwhile
     await supabaseAdmin
       .from("scraper_jobs")
       .update({
         status: "running",
-        started_at: new Date().toISOString(),
+        last_error: null,
+        ...(resuming ? {} : { started_at: new Date().toISOString() }),
       })
-      .eq("id", jobId);
+      .eq("id", jobId)
+      .neq("status", "cancelled");
+
+    let leadsCreated = resumed(saved?.leads_created);
+    let leadsUpdated = resumed(saved?.leads_updated);
+    let errorsCount = resumed(saved?.errors_count);
+    let processedCount = resumed(saved?.processed_count);
+    let enrichmentQueued = resumed(saved?.enrichment_queued);
+    let companiesFound = resumed(saved?.companies_found);
+    // Requests and errors from earlier attempts still happened
+    const earlierRequests: number = saved?.requests_made || 0;
+    const errorLog: ScraperErrorEntry[] = saved?.error_log || [];
+    let scraper: BaseScraper | null = null;
+
+    const logError = (error: unknown, result?: ScraperResult) => {
+      const name = [result?.first_name, result?.last_name].filter(Boolean).join(" ");
+      errorLog.push({
+        message: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+        ...(result
+          ? { listing: name || result.company_name, source_url: result.source_url }
+          : { fatal: true }),
+      });
+      errorLog.splice(0, Math.max(errorLog.length - MAX_ERROR_LOG_ENTRIES, 0));
+    };
 
-    let leadsCreated = 0;
-    let leadsUpdated = 0;
-    let errorsCount = 0;
-    let processedCount = 0;
+    const progress = () => ({
+      processed_count: processedCount,
+      leads_created: leadsCreated,
+      leads_updated: leadsUpdated,
+      errors_count: errorsCount,
+      enrichment_queued: enrichmentQueued,
+      companies_found: companiesFound,
+      requests_made: earlierRequests + (scraper?.requestsMade || 0),
+      error_log: errorLog,
+      checkpoint: { seen_ids: seenIds, offset },
+    });
 
     try {
       // Get appropriate scraper
-      const scraper = getScraperForType(scraperType);
+      const settings = await getSettings(supabaseAdmin);
+      scraper = getScraperForType(scraperType, settings);
 
       if (!scraper) {
         throw new Error(`Unknown scraper type: ${scraperType}`);
       }
 
       // Run scraper
-      for await (const result of scraper.scrape({ query, location, maxResults })) {
-        processedCount++;
+      const results = scraper.scrape({
+        query,
+        location,
+        maxResults: Math.max(maxResults - seenIds.length - offset, 0),
+        filters: saved?.search_parameters || {},
+        seenIds,
+        skip: offset,
+      });
+      const leadSource = toLeadSource(scraperType);
+      // Scheduled runs repeat the same search, so they only add what earlier
+      // runs haven't already found
+      const onlyNew = !!saved?.schedule_id;
 
-        try {
-          if (!result.email && !result.company_website) {
-            // Skip results without contact info
-            continue;
-          }
+      // Saves a result as a company and, when it can be reached, a lead
+      const handleResult = async (result: ScraperResult) => {
+        // Every business is kept as a company, even without an email
+        const company = await upsertCompany(supabaseAdmin, result, {
+          source: scraperType,
+          scraperJobId: jobId,
+        });
+        if (company) companiesFound++;
+
+        if (!result.email && !result.company_website) {
+          // Nothing to reach out to yet; the company can be enriched later
+          return;
+        }
 
-          // Try to find or create lead
-          if (result.email) {
-            const { data: existing } = await supabaseAdmin
+        const isPerson = !!(result.first_name && result.last_name);
+        if (onlyNew && !result.email) {
+          // A business seen before was already enriched, and a person
+          // already saved was already looked up
+          if (!isPerson && company && !company.created) return;
+          if (isPerson && result.linkedin_url) {
+            const { count } = await supabaseAdmin
               .from("leads")
-              .select("id")
-              .eq("email", result.email)
-              .single();
-
-            if (existing) {
-              // Update existing lead
-              await supabaseAdmin
-                .from("leads")
-                .update({
-                  company_name: result.company_name || undefined,
-                  phone: result.phone || undefined,
-                  company_website: result.company_website || undefined,
-                  city: result.city || undefined,
-                  state: result.state || undefined,
-                  address: result.address || undefined,
-                  source_url: result.source_url || undefined,
-                  updated_at: new Date().toISOString(),
-                })
-                .eq("id", existing.id);
-
-              leadsUpdated++;
-            } else {
-              // Create new lead
-              await supabaseAdmin.from("leads").insert({
-                email: result.email,
-                first_name: result.first_name || null,
-                last_name: result.last_name || null,
-                phone: result.phone || null,
-                company_name: result.company_name || null,
-                company_website: result.company_website || null,
-                industry: result.industry || null,
-                city: result.city || null,
-                state: result.state || null,
-                country: result.country || "USA",
-                address: result.address || null,
-                source: scraperType as "google_maps" | "yellowpages" | "yelp",
-                source_url: result.source_url || null,
-                scraper_job_id: jobId,
-                status: "new",
-              });
-
-              leadsCreated++;
-            }
+              .select("*", { count: "exact", head: true })
+              .eq("linkedin_url", result.linkedin_url);
+            if (count) return;
           }
+        }
+
+        // Try to find or create lead
+        if (result.email) {
+          const existing = await findLeadByEmail(supabaseAdmin, result.email);
 
-          // Update job progress periodically
-          if (processedCount % 10 === 0) {
+          if (existing && onlyNew) {
+            // Leave leads found before as they are
+            return;
+          } else if (existing) {
+            // Update existing lead
             await supabaseAdmin
-              .from("scraper_jobs")
+              .from("leads")
               .update({
-                processed_count: processedCount,
-                leads_created: leadsCreated,
-                leads_updated: leadsUpdated,
-                errors_count: errorsCount,
+                company_name: result.company_name || undefined,
+                phone: result.phone || undefined,
+                job_title: result.job_title || undefined,
+                seniority: result.seniority || undefined,
+                linkedin_url: result.linkedin_url || undefined,
+                company_website: result.company_website || undefined,
+                company_linkedin: result.company_linkedin || undefined,
+                company_size: result.company_size || undefined,
+                city: result.city || undefined,
+                state: result.state || undefined,
+                address: result.address || undefined,
+                source_url: result.source_url || undefined,
+                company_id: company?.id || undefined,
+                updated_at: new Date().toISOString(),
               })
-              .eq("id", jobId);
+              .eq("id", existing.id);
+
+            leadsUpdated++;
+          } else {
+            // Create new lead
+            const { error } = await supabaseAdmin.from("leads").insert({
+              email: normalizeEmail(result.email),
+              first_name: result.first_name || null,
+              last_name: result.last_name || null,
+              phone: result.phone || null,
+              job_title: result.job_title || null,
+              seniority: result.seniority || null,
+              linkedin_url: result.linkedin_url || null,
+              company_name: result.company_name || null,
+              company_website: result.company_website || null,
+              company_linkedin: result.company_linkedin || null,
+              company_size: result.company_size || null,
+              industry: result.industry || null,
+              city: result.city || null,
+              state: result.state || null,
+              country: result.country || "USA",
+              address: result.address || null,
+              source: leadSource,
+              source_url: result.source_url || null,
+              scraper_job_id: jobId,
+              company_id: company?.id || null,
+              status: "new",
+            });
+
+            if (error) throw new Error(`Failed to create lead: ${error.message}`);
+            leadsCreated++;
           }
+        } else if (isPerson) {
+          // A person without an email: guess one from their name and the
+          // company domain. The website's generic inbox isn't theirs
+          await queueEmailFind(
+            { scraperJobId: jobId, companyId: company?.id, source: leadSource, result },
+            { delay: enrichmentQueued * 2 }
+          );
+          enrichmentQueued++;
+        } else if (result.company_website) {
+          // No email yet: crawl the website for one in the background
+          await queueWebsiteEnrich(
+            { scraperJobId: jobId, companyId: company?.id, source: leadSource, result },
+            { delay: enrichmentQueued * 2 }
+          );
+          enrichmentQueued++;
+        }
+      };
+
+      let lastSavedAt = Date.now();
+      let cancelled = false;
+
+      for await (const result of results) {
+        processedCount++;
+        if (result.place_id) seenIds.push(result.place_id);
+        else offset++;
+
+        try {
+          await handleResult(result);
         } catch (error) {
           console.error(`Error processing scraper result:`, error);
           errorsCount++;
+          logError(error, result);
+        }
+
+        // Save progress every few seconds for the live view and resuming;
+        // the saved status shows whether the job was cancelled meanwhile
+        if (Date.now() - lastSavedAt >= PROGRESS_INTERVAL_MS) {
+          lastSavedAt = Date.now();
+          const { data: current } = await supabaseAdmin
+            .from("scraper_jobs")
+            .update(progress())
+            .eq("id", jobId)
+            .select("status")
+            .single();
+
+          if (current?.status === "cancelled") {
+            cancelled = true;
+            break;
+          }
         }
       }
 
+      // A cancel can land between the last progress save and the end of
+      // the results, so check once more before completing
+      if (!cancelled) {
+        const { data: current } = await supabaseAdmin
+          .from("scraper_jobs")
+          .select("status")
+          .eq("id", jobId)
+          .single();
+
+        cancelled = current?.status === "cancelled";
+      }
+
+      if (cancelled) {
+        await supabaseAdmin
+          .from("scraper_jobs")
+          .update({ ...progress(), completed_at: new Date().toISOString() })
+          .eq("id", jobId);
+
+        console.log(`Scraper job ${jobId} cancelled after ${processedCount} results`);
+        return NextResponse.json({ success: true, cancelled: true, processed: processedCount });
+      }
+
       // Mark job as completed
       await supabaseAdmin
         .from("scraper_jobs")
         .update({
+          ...progress(),
           status: "completed",
           completed_at: new Date().toISOString(),
           total_results: processedCount,
-          processed_count: processedCount,
-          leads_created: leadsCreated,
-          leads_updated: leadsUpdated,
-          errors_count: errorsCount,
         })
-        .eq("id", jobId);
+        .eq("id", jobId)
+        .neq("status", "cancelled");
+
+      if (saved?.schedule_id) {
+        try {
+          await addScheduleLeads(supabaseAdmin, saved.schedule_id);
+        } catch (error) {
+          // The next run picks these leads up again
+          console.error(`Failed to add leads for schedule ${saved.schedule_id}:`, error);
+        }
+      }
 
       console.log(
-        `Scraper job ${jobId} completed: ${leadsCreated} created, ${leadsUpdated} updated`
+        `Scraper job ${jobId} completed: ${leadsCreated} created, ${leadsUpdated} updated, ${companiesFound} companies, ${enrichmentQueued} queued for website enrichment`
       );
 
       return NextResponse.json({
@@ -140,24 +322,25 @@ export async function POST(request: NextRequest) {
         processed: processedCount,
         created: leadsCreated,
         updated: leadsUpdated,
+        enrichmentQueued,
+        companies: companiesFound,
         errors: errorsCount,
       });
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
+      logError(error);
 
-      // Mark job as failed
+      // Mark job as failed; it can be retried from its checkpoint
       await supabaseAdmin
         .from("scraper_jobs")
         .update({
+          ...progress(),
           status: "failed",
           last_error: errorMessage,
-          processed_count: processedCount,
-          leads_created: leadsCreated,
-          leads_updated: leadsUpdated,
-          errors_count: errorsCount,
         })
-        .eq("id", jobId);
+        .eq("id", jobId)
+        .neq("status", "cancelled");
 
       throw error;
     }
@@ -170,14 +353,21 @@ export async function POST(request: NextRequest) {
   }
 }
 
-function getScraperForType(type: string) {
+function getScraperForType(type: string, settings: AppSettings) {
   // Check if SerpAPI is available
   const hasSerpAPI = !!process.env.SERPAPI_API_KEY;
+  const playwrightOptions = {
+    proxies: settings.scraper_proxies,
+    userAgents: settings.scraper_user_agents,
+    visitDetailPages: settings.scraper_detail_pages,
+  };
 
   switch (type) {
     case "google_maps":
       // Prefer SerpAPI if available, fallback to Playwright
-      return hasSerpAPI ? new SerpAPIGoogleMapsScraper() : new GoogleMapsScraper();
+      return hasSerpAPI
+        ? new SerpAPIGoogleMapsScraper()
+        : new GoogleMapsScraper(playwrightOptions);
     case "serpapi_google_maps":
       if (!hasSerpAPI) {
         throw new Error("SERPAPI_API_KEY is required for this scraper type");
@@ -189,7 +379,27 @@ function getScraperForType(type: string) {
         throw new Error("SERPAPI_API_KEY is required for this scraper type");
       }
       return new SerpAPIGoogleSearchScraper();
+    case "yelp":
+      // Uses SerpAPI when available, otherwise parses Yelp's pages
+      return new YelpScraper({
+        userAgents: settings.scraper_user_agents,
+        visitDetailPages: settings.scraper_detail_pages,
+      });
+    case "yellowpages":
+      return new YellowPagesScraper({
+        userAgents: settings.scraper_user_agents,
+        visitDetailPages: settings.scraper_detail_pages,
+      });
+    case "apollo":
+      return new ApolloScraper();
+    case "linkedin_sales_nav":
+      return new LinkedInSalesNavImporter();
     default:
       return null;
   }
 }
+
+// Sales Navigator contacts are LinkedIn leads; other types share their name
+function toLeadSource(type: string): LeadSource {
+  return (type === "linkedin_sales_nav" ? "linkedin" : type) as LeadSource;
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { queueVerificationBatch, type VerificationBatchJob } from "@/lib/qstash/client";
+import { processVerificationBatch } from "@/lib/verification/batch";
+
+// Called by QStash: verify the next chunk of a batch, then queue the chunk after it
+export async function POST(request: NextRequest) {
+  let batchId: string | null = null;
+
+  try {
+    const signature = request.headers.get("upstash-signature") || "";
+    if (process.env.NODE_ENV === "production" && !signature) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const job: VerificationBatchJob = await request.json();
+    batchId = job.batchId;
+
+    const result = await processVerificationBatch(supabaseAdmin, batchId);
+
+    if (result.remaining) {
+      await queueVerificationBatch({ batchId }, { delay: result.delay });
+    }
+
+    return NextResponse.json({ success: true, batchId, ...result });
+  } catch (error) {
+    console.error("Verification batch job error:", error);
+
+    // Leave the batch resumable from the leads page
+    if (batchId) {
+      await supabaseAdmin
+        .from("verification_batches")
+        .update({
+          status: "failed",
+          last_error: error instanceof Error ? error.message : "Unknown error",
+        })
+        .eq("id", batchId);
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
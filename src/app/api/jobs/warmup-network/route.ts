@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { verifySignatureAppRouter } from "@upstash/qstash/nextjs";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { engageWarmupEmails, sendWarmupEmails } from "@/lib/warmup/network";
+
+// Called hourly by QStash: send warmup emails between our mailboxes, then
+// open, rescue and reply to the ones that arrived
+async function handler() {
+  try {
+    const sent = await sendWarmupEmails(supabaseAdmin);
+    const engaged = await engageWarmupEmails(supabaseAdmin);
+
+    return NextResponse.json({
+      success: true,
+      sent,
+      engaged,
+    });
+  } catch (error) {
+    console.error("Error in warmup network job:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = process.env.NODE_ENV === "development"
+  ? handler
+  : verifySignatureAppRouter(handler);
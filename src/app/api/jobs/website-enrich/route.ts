@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import type { WebsiteEnrichJob } from "@/lib/qstash/client";
+import {
+  createLeadFromWebsite,
+  enrichCompanyFromWebsite,
+  enrichLeadFromWebsite,
+} from "@/lib/enrichment/website";
+
+// This endpoint is called by QStash to crawl a company website for contact details
+export async function POST(request: NextRequest) {
+  try {
+    const signature = request.headers.get("upstash-signature") || "";
+    if (process.env.NODE_ENV === "production" && !signature) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const job: WebsiteEnrichJob = await request.json();
+
+    if (job.leadId) {
+      const outcome = await enrichLeadFromWebsite(supabaseAdmin, job.leadId);
+      return NextResponse.json({ success: true, leadId: job.leadId, outcome });
+    }
+
+    if (job.companyId && !job.result) {
+      const outcome = await enrichCompanyFromWebsite(supabaseAdmin, job.companyId);
+      return NextResponse.json({ success: true, companyId: job.companyId, outcome });
+    }
+
+    if (!job.result || !job.source) {
+      return NextResponse.json(
+        { error: "Either leadId, companyId or result and source are required" },
+        { status: 400 }
+      );
+    }
+
+    const outcome = await createLeadFromWebsite(supabaseAdmin, job.result, {
+      source: job.source,
+      scraperJobId: job.scraperJobId,
+      companyId: job.companyId,
+    });
+
+    if (job.scraperJobId && (outcome === "created" || outcome === "updated")) {
+      await supabaseAdmin.rpc("increment_scraper_job_stat", {
+        p_job_id: job.scraperJobId,
+        p_stat_field: "leads_enriched",
+      });
+    }
+
+    console.log(`Website enrichment for ${job.result.company_website}: ${outcome}`);
+
+    return NextResponse.json({ success: true, outcome });
+  } catch (error) {
+    console.error("Website enrich job error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+// Mark a pair as not duplicates so it isn't queued again
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from("lead_duplicates")
+      .update({ status: "dismissed", resolved_at: new Date().toISOString() })
+      .eq("id", id)
+      .select("id")
+      .maybeSingle();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: "Duplicate pair not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, status: "dismissed" });
+  } catch (error) {
+    console.error("Error dismissing lead duplicate:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { z } from "zod";
+
+const mergeSchema = z.object({
+  // The lead to keep; the other lead in the pair is merged into it and deleted
+  survivorId: z.string().uuid(),
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const body = await request.json();
+
+    const result = mergeSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { survivorId } = result.data;
+
+    const { data: pair } = await supabase
+      .from("lead_duplicates")
+      .select("id, lead_id, duplicate_lead_id")
+      .eq("id", id)
+      .single();
+
+    if (!pair) {
+      return NextResponse.json(
+        { error: "Duplicate pair not found" },
+        { status: 404 }
+      );
+    }
+
+    if (survivorId !== pair.lead_id && survivorId !== pair.duplicate_lead_id) {
+      return NextResponse.json(
+        { error: "The lead to keep must be one of the pair" },
+        { status: 400 }
+      );
+    }
+
+    const duplicateId = survivorId === pair.lead_id ? pair.duplicate_lead_id : pair.lead_id;
+
+    const { error } = await supabase.rpc("merge_leads", {
+      p_survivor_id: survivorId,
+      p_duplicate_id: duplicateId,
+    });
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      survivorId,
+      mergedId: duplicateId,
+    });
+  } catch (error) {
+    console.error("Error merging leads:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
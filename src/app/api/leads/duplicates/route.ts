@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+const LEAD_COLUMNS =
+  "id, email, first_name, last_name, phone, company_name, company_website, industry, city, state, status, source, tags, custom_fields, quality_score, created_at";
+
+// GET: Pending duplicate pairs with both leads, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = Math.min(parseInt(searchParams.get("limit") || "25"), 100);
+    const offset = (page - 1) * limit;
+
+    const { data, error, count } = await supabase
+      .from("lead_duplicates")
+      .select(
+        `
+        *,
+        lead:leads!lead_duplicates_lead_id_fkey (${LEAD_COLUMNS}),
+        duplicate:leads!lead_duplicates_duplicate_lead_id_fkey (${LEAD_COLUMNS})
+      `,
+        { count: "exact" }
+      )
+      .eq("status", "pending")
+      .order("created_at", { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      data,
+      pagination: {
+        page,
+        limit,
+        total: count || 0,
+        totalPages: Math.ceil((count || 0) / limit),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching lead duplicates:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Check every lead for duplicates. New and updated leads are checked
+// automatically; this catches leads added before detection existed.
+export async function POST() {
+  try {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase.rpc("scan_lead_duplicates");
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, pending: data || 0 });
+  } catch (error) {
+    console.error("Error scanning for lead duplicates:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { z } from "zod";
+import { queueWebsiteEnrich } from "@/lib/qstash/client";
+
+const enrichSchema = z.object({
+  leadIds: z.array(z.string().uuid()).min(1).max(500),
+});
+
+// POST: Crawl the company websites of the given leads for contact details
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const result = enrichSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { data: leads, error } = await supabaseAdmin
+      .from("leads")
+      .select("id")
+      .in("id", result.data.leadIds)
+      .not("company_website", "is", null);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    if (!leads || leads.length === 0) {
+      return NextResponse.json(
+        { error: "None of these leads have a company website" },
+        { status: 400 }
+      );
+    }
+
+    for (const [index, lead] of leads.entries()) {
+      await queueWebsiteEnrich({ leadId: lead.id }, { delay: index * 2 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      queued: leads.length,
+      message: `Queued ${leads.length} leads for website enrichment`,
+    });
+  } catch (error) {
+    console.error("Error in enrich endpoint:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
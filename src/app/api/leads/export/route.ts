@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { z } from "zod";
+import {
+  buildExportSelect,
+  DEFAULT_LEAD_EXPORT_COLUMNS,
+  LEAD_EXPORT_COLUMNS,
+  resolveExportColumns,
+} from "@/lib/export";
+import { createExportStream, exportResponse } from "@/lib/export/stream";
+import { applyLeadFilters, parseLeadFilters } from "@/lib/leads";
+import { querySegmentLeads } from "@/lib/segments";
+import type { SegmentFilters } from "@/types";
+
+const formatSchema = z.enum(["csv", "ndjson"]).default("csv");
+
+// GET - Stream every lead matching the list filters (and ?segment=<id>) as
+// CSV or NDJSON. ?columns=email,first_name,custom_fields.tier picks the columns.
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { searchParams } = new URL(request.url);
+
+    const format = formatSchema.parse(searchParams.get("format") ?? undefined);
+    const filters = parseLeadFilters(searchParams);
+    const { columns, invalid } = resolveExportColumns(
+      searchParams.get("columns"),
+      LEAD_EXPORT_COLUMNS,
+      DEFAULT_LEAD_EXPORT_COLUMNS
+    );
+
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown columns: ${invalid.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // Export a saved segment's leads, narrowed by any other filters
+    const segmentId = searchParams.get("segment");
+    let segmentFilters: SegmentFilters | null = null;
+    if (segmentId) {
+      const { data: segment } = await supabase
+        .from("segments")
+        .select("filters")
+        .eq("id", segmentId)
+        .single();
+
+      if (!segment) {
+        return NextResponse.json({ error: "Segment not found" }, { status: 404 });
+      }
+      segmentFilters = segment.filters;
+    }
+
+    const select = buildExportSelect(columns);
+    const stream = createExportStream(
+      async (from, to) => {
+        let query = segmentFilters
+          ? querySegmentLeads(supabase, segmentFilters).select(select)
+          : supabase.from("leads").select(select);
+        query = applyLeadFilters(query, filters);
+
+        const { data, error } = await query
+          .order("created_at", { ascending: true })
+          .order("id", { ascending: true })
+          .range(from, to);
+
+        if (error) throw error;
+        return (data || []) as unknown as Record<string, unknown>[];
+      },
+      columns,
+      format
+    );
+
+    const date = new Date().toISOString().slice(0, 10);
+    return exportResponse(stream, `leads-${date}`, format);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid parameters", details: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { z } from "zod";
+import { queueEmailFind } from "@/lib/qstash/client";
+import { getSettings } from "@/lib/settings";
+import { createLeadFromEmailFinder } from "@/lib/email-finder/leads";
+
+const findEmailSchema = z.union([
+  z.object({
+    leadIds: z.array(z.string().uuid()).min(1).max(500),
+  }),
+  z.object({
+    firstName: z.string().min(1),
+    lastName: z.string().min(1),
+    domain: z.string().min(3),
+    companyName: z.string().optional(),
+  }),
+]);
+
+// POST: Queue the email finder for leads that have a name and company
+// website, or find (and add as a lead) a single person right away
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const result = findEmailSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    if ("leadIds" in result.data) {
+      const { data: leads, error } = await supabaseAdmin
+        .from("leads")
+        .select("id")
+        .in("id", result.data.leadIds)
+        .not("first_name", "is", null)
+        .not("last_name", "is", null)
+        .not("company_website", "is", null);
+
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+      }
+
+      if (!leads || leads.length === 0) {
+        return NextResponse.json(
+          { error: "None of these leads have a full name and company website" },
+          { status: 400 }
+        );
+      }
+
+      for (const [index, lead] of leads.entries()) {
+        await queueEmailFind({ leadId: lead.id }, { delay: index * 2 });
+      }
+
+      return NextResponse.json({
+        success: true,
+        queued: leads.length,
+        message: `Queued ${leads.length} leads for the email finder`,
+      });
+    }
+
+    const settings = await getSettings(supabaseAdmin);
+    const found = await createLeadFromEmailFinder(supabaseAdmin, result.data, settings);
+
+    return NextResponse.json({
+      success: true,
+      outcome: found.outcome,
+      leadId: found.leadId,
+      email: found.result.email,
+      pattern: found.result.pattern,
+      confidence: found.result.confidence,
+      status: found.result.verification?.status || null,
+      candidatesTried: found.result.candidatesTried,
+    });
+  } catch (error) {
+    console.error("Error in find-email endpoint:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
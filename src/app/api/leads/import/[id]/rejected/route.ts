@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { toCsvRow } from "@/lib/import/csv";
+
+const PAGE_SIZE = 1000;
+
+// GET - Download an import's rejected rows as CSV, with the original columns
+// plus the row number and what was wrong with it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const { data: leadImport, error } = await supabase
+      .from("lead_imports")
+      .select("file_name, headers")
+      .eq("id", id)
+      .single();
+
+    if (error || !leadImport) {
+      return NextResponse.json({ error: "Import not found" }, { status: 404 });
+    }
+
+    let csv = toCsvRow([...leadImport.headers, "Row", "Errors"]);
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data: rows, error: rowsError } = await supabase
+        .from("lead_import_rejections")
+        .select("row_number, row_values, errors")
+        .eq("import_id", id)
+        .order("row_number", { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (rowsError) {
+        return NextResponse.json({ error: rowsError.message }, { status: 500 });
+      }
+
+      for (const row of rows || []) {
+        const values = leadImport.headers.map(
+          (_: string, index: number) => row.row_values[index] ?? ""
+        );
+        csv += toCsvRow([...values, row.row_number, row.errors.join("; ")]);
+      }
+
+      if (!rows || rows.length < PAGE_SIZE) break;
+    }
+
+    const baseName = leadImport.file_name.replace(/\.(csv|xlsx)$/i, "").replace(/["\\]/g, "");
+
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${baseName}-rejected.csv"`,
+      },
+    });
+  } catch {
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { z } from "zod";
+import { splitTags, suggestColumnMapping } from "@/lib/import";
+import {
+  MAX_IMPORT_FILE_SIZE,
+  type ImportFile,
+  planLeadImport,
+  readImportFile,
+  runLeadImport,
+} from "@/lib/import/leads";
+
+// Rejected rows returned with a dry run; the full list is kept on real imports
+const PREVIEW_REJECTED_LIMIT = 100;
+const PREVIEW_SAMPLE_SIZE = 5;
+
+const importOptionsSchema = z.object({
+  mapping: z.record(z.string(), z.string()).optional(),
+  tags: z.string().default(""),
+  dedupe: z.enum(["skip", "update", "merge"]).default("skip"),
+  dryRun: z.boolean(),
+});
+
+// GET - Recent imports
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from("lead_imports")
+      .select("*")
+      .order("created_at", { ascending: false })
+      .limit(20);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ data });
+  } catch {
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Preview (dryRun=true) or run an import of a CSV/XLSX file.
+// Without a mapping the columns are auto-mapped from the header row.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const formData = await request.formData();
+    const file = formData.get("file");
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "Please upload a file" }, { status: 400 });
+    }
+    if (!/\.(csv|xlsx)$/i.test(file.name)) {
+      return NextResponse.json(
+        { error: "Only .csv and .xlsx files are supported" },
+        { status: 400 }
+      );
+    }
+    if (file.size > MAX_IMPORT_FILE_SIZE) {
+      return NextResponse.json(
+        { error: "File is larger than 10 MB" },
+        { status: 400 }
+      );
+    }
+
+    const mappingField = formData.get("mapping");
+    const options = importOptionsSchema.parse({
+      mapping: typeof mappingField === "string" ? JSON.parse(mappingField) : undefined,
+      tags: formData.get("tags") ?? undefined,
+      dedupe: formData.get("dedupe") ?? undefined,
+      dryRun: formData.get("dryRun") === "true",
+    });
+
+    let importFile: ImportFile;
+    try {
+      importFile = await readImportFile(file);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Could not read the file" },
+        { status: 400 }
+      );
+    }
+
+    const mapping = options.mapping || suggestColumnMapping(importFile.headers);
+    if (!options.dryRun && !Object.values(mapping).includes("email")) {
+      return NextResponse.json(
+        { error: "Map a column to Email before importing" },
+        { status: 400 }
+      );
+    }
+
+    const importOptions = { mapping, tags: splitTags(options.tags), dedupe: options.dedupe };
+
+    if (options.dryRun) {
+      const plan = await planLeadImport(supabase, importFile, importOptions);
+      const rejected = plan.rows.filter((row) => row.action === "reject");
+
+      return NextResponse.json({
+        fileName: importFile.fileName,
+        headers: importFile.headers,
+        mapping,
+        counts: plan.counts,
+        sample: importFile.rows.slice(0, PREVIEW_SAMPLE_SIZE),
+        rejected: rejected.slice(0, PREVIEW_REJECTED_LIMIT).map((row) => ({
+          rowNumber: row.rowNumber,
+          values: row.values,
+          errors: row.errors,
+        })),
+      });
+    }
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    const leadImport = await runLeadImport(supabase, importFile, importOptions, user?.id || null);
+
+    return NextResponse.json({ data: leadImport }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Invalid column mapping" }, { status: 400 });
+    }
+    console.error("Lead import error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
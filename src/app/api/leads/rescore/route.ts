@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+// POST: Recompute every lead's quality score with the current scoring rules.
+// Individual leads are scored automatically when written.
+export async function POST() {
+  try {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase.rpc("rescore_leads");
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, scored: data || 0 });
+  } catch (error) {
+    console.error("Error rescoring leads:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
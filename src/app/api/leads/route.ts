@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { z } from "zod";
+import { applyLeadFilters, parseLeadFilters } from "@/lib/leads";
+import { findLeadByEmail, normalizeEmail } from "@/lib/leads/duplicates";
 
 // Validation schemas
 const createLeadSchema = z.object({
@@ -9,6 +11,7 @@ const createLeadSchema = z.object({
   last_name: z.string().optional(),
   phone: z.string().optional(),
   linkedin_url: z.string().url().optional(),
+  job_title: z.string().optional(),
   company_name: z.string().optional(),
   company_website: z.string().url().optional(),
   industry: z.string().optional(),
@@ -22,6 +25,7 @@ const createLeadSchema = z.object({
     "google_maps",
     "yellowpages",
     "yelp",
+    "apollo",
     "manual",
     "import",
   ]),
@@ -33,9 +37,6 @@ const createLeadSchema = z.object({
 const querySchema = z.object({
   page: z.coerce.number().min(1).default(1),
   pageSize: z.coerce.number().min(1).max(100).default(25),
-  status: z.string().optional(),
-  source: z.string().optional(),
-  search: z.string().optional(),
   sortBy: z.string().default("created_at"),
   sortOrder: z.enum(["asc", "desc"]).default("desc"),
 });
@@ -48,33 +49,21 @@ export async function GET(request: NextRequest) {
 
     // Parse and validate query parameters
     const query = querySchema.parse({
-      page: searchParams.get("page"),
-      pageSize: searchParams.get("pageSize"),
-      status: searchParams.get("status"),
-      source: searchParams.get("source"),
-      search: searchParams.get("search"),
-      sortBy: searchParams.get("sortBy"),
-      sortOrder: searchParams.get("sortOrder"),
+      page: searchParams.get("page") ?? undefined,
+      pageSize: searchParams.get("pageSize") ?? undefined,
+      sortBy: searchParams.get("sortBy") ?? undefined,
+      sortOrder: searchParams.get("sortOrder") ?? undefined,
     });
+    const filters = parseLeadFilters(searchParams);
 
-    const { page, pageSize, status, source, search, sortBy, sortOrder } = query;
+    const { page, pageSize, sortBy, sortOrder } = query;
     const offset = (page - 1) * pageSize;
 
     // Build query
     let dbQuery = supabase.from("leads").select("*", { count: "exact" });
 
     // Apply filters
-    if (status) {
-      dbQuery = dbQuery.eq("status", status);
-    }
-    if (source) {
-      dbQuery = dbQuery.eq("source", source);
-    }
-    if (search) {
-      dbQuery = dbQuery.or(
-        `email.ilike.%${search}%,first_name.ilike.%${search}%,last_name.ilike.%${search}%,company_name.ilike.%${search}%`
-      );
-    }
+    dbQuery = applyLeadFilters(dbQuery, filters);
 
     // Apply sorting and pagination
     dbQuery = dbQuery
@@ -117,12 +106,10 @@ export async function POST(request: NextRequest) {
     // Validate request body
     const validatedData = createLeadSchema.parse(body);
 
+    validatedData.email = normalizeEmail(validatedData.email);
+
     // Check if email already exists
-    const { data: existing } = await supabase
-      .from("leads")
-      .select("id")
-      .eq("email", validatedData.email)
-      .single();
+    const existing = await findLeadByEmail(supabase, validatedData.email);
 
     if (existing) {
       return NextResponse.json(
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { cancelVerificationBatch } from "@/lib/verification/batch";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: batchId } = await params;
+
+    const { data: batch } = await supabaseAdmin
+      .from("verification_batches")
+      .select("id, status")
+      .eq("id", batchId)
+      .single();
+
+    if (!batch) {
+      return NextResponse.json(
+        { error: "Verification batch not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!["pending", "running"].includes(batch.status)) {
+      return NextResponse.json(
+        { error: "Only pending or running batches can be cancelled" },
+        { status: 400 }
+      );
+    }
+
+    await cancelVerificationBatch(supabaseAdmin, batchId);
+
+    return NextResponse.json({
+      success: true,
+      batchId,
+      status: "cancelled",
+    });
+  } catch (error) {
+    console.error("Error cancelling verification batch:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
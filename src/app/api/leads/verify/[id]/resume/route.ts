@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { queueVerificationBatch } from "@/lib/qstash/client";
+import { resumeVerificationBatch } from "@/lib/verification/batch";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: batchId } = await params;
+
+    const { data: batch } = await supabaseAdmin
+      .from("verification_batches")
+      .select("id, status")
+      .eq("id", batchId)
+      .single();
+
+    if (!batch) {
+      return NextResponse.json(
+        { error: "Verification batch not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!["cancelled", "failed"].includes(batch.status)) {
+      return NextResponse.json(
+        { error: "Only cancelled or failed batches can be resumed" },
+        { status: 400 }
+      );
+    }
+
+    await resumeVerificationBatch(supabaseAdmin, batchId);
+    await queueVerificationBatch({ batchId });
+
+    return NextResponse.json({
+      success: true,
+      batchId,
+      status: "pending",
+    });
+  } catch (error) {
+    console.error("Error resuming verification batch:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,24 +1,42 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase/admin";
-import { queueEmailVerify } from "@/lib/qstash/client";
+import { queueVerificationBatch } from "@/lib/qstash/client";
+import { createVerificationBatch } from "@/lib/verification/batch";
 
-// POST: Queue leads for email verification
+const PAGE_SIZE = 1000;
+
+// Every lead that hasn't been verified yet, paging past the 1000 row limit
+async function getUnverifiedLeadIds(): Promise<string[]> {
+  const ids: string[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from("leads")
+      .select("id")
+      .or("email_verification_status.is.null,email_verification_status.eq.pending")
+      .order("created_at", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    ids.push(...(data || []).map((lead) => lead.id));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return ids;
+}
+
+// POST: Start a verification batch for the given leads (or all unverified leads)
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { leadIds, verifyAll } = body;
 
-    // Get leads to verify
-    let query = supabaseAdmin
-      .from("leads")
-      .select("id, email, email_verification_status");
-
+    let ids: string[];
     if (verifyAll) {
-      // Get all leads that haven't been verified or are pending
-      query = query.or("email_verification_status.is.null,email_verification_status.eq.pending");
+      ids = await getUnverifiedLeadIds();
     } else if (leadIds && leadIds.length > 0) {
-      // Get specific leads
-      query = query.in("id", leadIds);
+      ids = leadIds;
     } else {
       return NextResponse.json(
         { error: "Please provide leadIds or set verifyAll to true" },
@@ -26,17 +44,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { data: leads, error: fetchError } = await query;
-
-    if (fetchError) {
-      console.error("Error fetching leads:", fetchError);
-      return NextResponse.json(
-        { error: "Failed to fetch leads" },
-        { status: 500 }
-      );
-    }
-
-    if (!leads || leads.length === 0) {
+    if (ids.length === 0) {
       return NextResponse.json({
         success: true,
         queued: 0,
@@ -44,44 +52,29 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Queue each lead for verification with staggered delays
-    let queued = 0;
-    const errors: string[] = [];
-    const DELAY_BETWEEN_VERIFICATIONS = 2; // 2 seconds between each verification
-
-    for (let i = 0; i < leads.length; i++) {
-      const lead = leads[i];
+    // Don't start a second batch for leads already waiting in an active one
+    if (verifyAll) {
+      const { count: activeCount } = await supabaseAdmin
+        .from("verification_batches")
+        .select("*", { count: "exact", head: true })
+        .in("status", ["pending", "running"]);
 
-      try {
-        await queueEmailVerify(
-          {
-            leadId: lead.id,
-            email: lead.email,
-          },
-          {
-            delay: i * DELAY_BETWEEN_VERIFICATIONS,
-          }
+      if (activeCount && activeCount > 0) {
+        return NextResponse.json(
+          { error: "A verification batch is already running" },
+          { status: 409 }
         );
-
-        // Update status to pending
-        await supabaseAdmin
-          .from("leads")
-          .update({ email_verification_status: "pending" })
-          .eq("id", lead.id);
-
-        queued++;
-      } catch (error) {
-        console.error(`Failed to queue verification for ${lead.email}:`, error);
-        errors.push(lead.email);
       }
     }
 
+    const batch = await createVerificationBatch(supabaseAdmin, ids);
+    await queueVerificationBatch({ batchId: batch.id });
+
     return NextResponse.json({
       success: true,
-      queued,
-      total: leads.length,
-      errors: errors.length > 0 ? errors : undefined,
-      message: `Queued ${queued} leads for verification`,
+      batchId: batch.id,
+      queued: ids.length,
+      message: `Queued ${ids.length} leads for verification`,
     });
   } catch (error) {
     console.error("Error in verify endpoint:", error);
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+// POST: Cancel a queued or running scraper job. A running job stops after
+// the result it is working on; what it already saved is kept
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: jobId } = await params;
+    const supabase = await createClient();
+
+    const { data: job, error: jobError } = await supabase
+      .from("scraper_jobs")
+      .select("id, status")
+      .eq("id", jobId)
+      .single();
+
+    if (jobError || !job) {
+      return NextResponse.json(
+        { error: "Scraper job not found" },
+        { status: 404 }
+      );
+    }
+
+    if (job.status !== "pending" && job.status !== "running") {
+      return NextResponse.json(
+        { error: "Only queued or running jobs can be cancelled" },
+        { status: 400 }
+      );
+    }
+
+    const { error: updateError } = await supabase
+      .from("scraper_jobs")
+      .update({ status: "cancelled" })
+      .eq("id", jobId)
+      .in("status", ["pending", "running"]);
+
+    if (updateError) {
+      return NextResponse.json(
+        { error: "Failed to cancel scraper job" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Scraper job cancelled",
+      jobId,
+    });
+  } catch (error) {
+    console.error("Error cancelling scraper job:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { queueScraperJob } from "@/lib/qstash/client";
+
+// POST: Run a failed or cancelled scraper job again. It resumes from its
+// checkpoint, skipping the results it already processed
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: jobId } = await params;
+    const supabase = await createClient();
+
+    const { data: job, error: jobError } = await supabase
+      .from("scraper_jobs")
+      .select(
+        "id, status, scraper_type, search_query, location:search_parameters->>location, max_results:search_parameters->max_results"
+      )
+      .eq("id", jobId)
+      .single();
+
+    if (jobError || !job) {
+      return NextResponse.json(
+        { error: "Scraper job not found" },
+        { status: 404 }
+      );
+    }
+
+    if (job.status !== "failed" && job.status !== "cancelled") {
+      return NextResponse.json(
+        { error: "Only failed or cancelled jobs can be retried" },
+        { status: 400 }
+      );
+    }
+
+    const { error: updateError } = await supabase
+      .from("scraper_jobs")
+      .update({ status: "pending", completed_at: null })
+      .eq("id", jobId);
+
+    if (updateError) {
+      return NextResponse.json(
+        { error: "Failed to update scraper job" },
+        { status: 500 }
+      );
+    }
+
+    await queueScraperJob({
+      jobId,
+      scraperType: job.scraper_type,
+      query: job.search_query,
+      location: job.location || undefined,
+      maxResults: Number(job.max_results) || undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: "Scraper job queued again",
+      jobId,
+    });
+  } catch (error) {
+    console.error("Error retrying scraper job:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
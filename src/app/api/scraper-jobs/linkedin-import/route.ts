@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { MAX_IMPORT_FILE_SIZE, readImportFile } from "@/lib/import/leads";
+import { startScraperJob } from "@/lib/scraper-jobs";
+import { parseSalesNavigatorExport } from "@/scrapers/linkedin/sales-navigator";
+import type { ScraperResult } from "@/scrapers/base/scraper";
+
+// POST: Start a LinkedIn Sales Navigator job from an exported CSV/XLSX of
+// contacts. Contacts without an email are handed to the email finder
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get("file");
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "Please upload a file" }, { status: 400 });
+    }
+    if (!/\.(csv|xlsx)$/i.test(file.name)) {
+      return NextResponse.json(
+        { error: "Only .csv and .xlsx files are supported" },
+        { status: 400 }
+      );
+    }
+    if (file.size > MAX_IMPORT_FILE_SIZE) {
+      return NextResponse.json(
+        { error: "File is larger than 10 MB" },
+        { status: 400 }
+      );
+    }
+
+    let contacts: ScraperResult[];
+    try {
+      const importFile = await readImportFile(file);
+      contacts = parseSalesNavigatorExport([importFile.headers, ...importFile.rows]);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Could not read the file" },
+        { status: 400 }
+      );
+    }
+
+    if (contacts.length === 0) {
+      return NextResponse.json(
+        { error: "No contacts with a name were found in the file" },
+        { status: 400 }
+      );
+    }
+
+    const job = await startScraperJob(supabaseAdmin, {
+      scraperType: "linkedin_sales_nav",
+      query: file.name,
+      maxResults: contacts.length,
+      searchParameters: { contacts },
+    });
+
+    return NextResponse.json({ data: job, contacts: contacts.length }, { status: 201 });
+  } catch (error) {
+    console.error("Error starting Sales Navigator import:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { z } from "zod";
+import { RUNNABLE_SCRAPER_TYPES, startScraperJob } from "@/lib/scraper-jobs";
+
+const startJobSchema = z.object({
+  scraperType: z.enum(RUNNABLE_SCRAPER_TYPES),
+  query: z.string().trim().min(1).max(500),
+  location: z.string().trim().max(255).optional(),
+  maxResults: z.number().int().min(1).max(1000).default(100),
+  // Apollo only: job titles to search for
+  titles: z.array(z.string().trim().min(1)).max(20).optional(),
+});
+
+// POST: Start a scraper job. Sales Navigator exports are uploaded to
+// /api/scraper-jobs/linkedin-import instead
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const result = startJobSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { scraperType, query, location, maxResults, titles } = result.data;
+
+    if (scraperType === "linkedin_sales_nav") {
+      return NextResponse.json(
+        { error: "Upload a Sales Navigator export to run this actor" },
+        { status: 400 }
+      );
+    }
+
+    const job = await startScraperJob(supabaseAdmin, {
+      scraperType,
+      query,
+      location: location || undefined,
+      maxResults,
+      searchParameters: titles ? { titles } : undefined,
+    });
+
+    return NextResponse.json({ data: job }, { status: 201 });
+  } catch (error) {
+    console.error("Error starting scraper job:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { qstash } from "@/lib/qstash/client";
+
+// POST: Stop a scraper schedule's runs until it is resumed
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: scheduleId } = await params;
+    const supabase = await createClient();
+
+    const { data: schedule, error: scheduleError } = await supabase
+      .from("scraper_schedules")
+      .select("id, is_active, qstash_schedule_id")
+      .eq("id", scheduleId)
+      .single();
+
+    if (scheduleError || !schedule) {
+      return NextResponse.json(
+        { error: "Scraper schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!schedule.is_active) {
+      return NextResponse.json(
+        { error: "Scraper schedule is already paused" },
+        { status: 400 }
+      );
+    }
+
+    if (schedule.qstash_schedule_id) {
+      try {
+        await qstash.schedules.delete(schedule.qstash_schedule_id);
+      } catch (error) {
+        console.error("Failed to delete QStash schedule:", error);
+        // Continue; the run endpoint skips inactive schedules
+      }
+    }
+
+    const { error: updateError } = await supabase
+      .from("scraper_schedules")
+      .update({ is_active: false, qstash_schedule_id: null })
+      .eq("id", scheduleId);
+
+    if (updateError) {
+      return NextResponse.json(
+        { error: "Failed to update scraper schedule" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Scraper schedule paused",
+      scheduleId,
+    });
+  } catch (error) {
+    console.error("Error pausing scraper schedule:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
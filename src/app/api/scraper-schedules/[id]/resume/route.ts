@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { scheduleScraperRuns } from "@/lib/qstash/client";
+
+// POST: Run a paused scraper schedule on its cron again
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: scheduleId } = await params;
+    const supabase = await createClient();
+
+    const { data: schedule, error: scheduleError } = await supabase
+      .from("scraper_schedules")
+      .select("id, is_active, cron")
+      .eq("id", scheduleId)
+      .single();
+
+    if (scheduleError || !schedule) {
+      return NextResponse.json(
+        { error: "Scraper schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    if (schedule.is_active) {
+      return NextResponse.json(
+        { error: "Scraper schedule is already active" },
+        { status: 400 }
+      );
+    }
+
+    const qstashSchedule = await scheduleScraperRuns(scheduleId, schedule.cron);
+
+    const { error: updateError } = await supabase
+      .from("scraper_schedules")
+      .update({ is_active: true, qstash_schedule_id: qstashSchedule.scheduleId })
+      .eq("id", scheduleId);
+
+    if (updateError) {
+      return NextResponse.json(
+        { error: "Failed to update scraper schedule" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Scraper schedule resumed",
+      scheduleId,
+    });
+  } catch (error) {
+    console.error("Error resuming scraper schedule:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { qstash } from "@/lib/qstash/client";
+
+// DELETE: Remove a scraper schedule. Its past runs and their leads are kept
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: scheduleId } = await params;
+    const supabase = await createClient();
+
+    const { data: schedule, error: scheduleError } = await supabase
+      .from("scraper_schedules")
+      .select("id, qstash_schedule_id")
+      .eq("id", scheduleId)
+      .single();
+
+    if (scheduleError || !schedule) {
+      return NextResponse.json(
+        { error: "Scraper schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    if (schedule.qstash_schedule_id) {
+      try {
+        await qstash.schedules.delete(schedule.qstash_schedule_id);
+      } catch (error) {
+        console.error("Failed to delete QStash schedule:", error);
+        // Continue; the run endpoint skips deleted schedules
+      }
+    }
+
+    const { error: deleteError } = await supabase
+      .from("scraper_schedules")
+      .delete()
+      .eq("id", scheduleId);
+
+    if (deleteError) {
+      return NextResponse.json(
+        { error: "Failed to delete scraper schedule" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Scraper schedule deleted",
+      scheduleId,
+    });
+  } catch (error) {
+    console.error("Error deleting scraper schedule:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { z } from "zod";
+import { scheduleScraperRuns, qstash } from "@/lib/qstash/client";
+import { SCHEDULABLE_SCRAPER_TYPES, isValidCron } from "@/lib/scraper-jobs/schedules";
+import type { SegmentFilters } from "@/types";
+
+const createScheduleSchema = z.object({
+  name: z.string().trim().max(255).optional(),
+  scraperType: z.enum(SCHEDULABLE_SCRAPER_TYPES),
+  query: z.string().trim().min(1).max(500),
+  location: z.string().trim().max(255).optional(),
+  maxResults: z.number().int().min(1).max(1000).default(100),
+  // Apollo only: job titles to search for
+  titles: z.array(z.string().trim().min(1)).max(20).optional(),
+  cron: z.string().trim().refine(isValidCron, "Invalid cron expression"),
+  segmentId: z.string().uuid().nullable().optional(),
+  campaignId: z.string().uuid().nullable().optional(),
+});
+
+// POST: Save a scraper configuration and run it on a cron
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const body = await request.json();
+
+    const result = createScheduleSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { name, scraperType, query, location, maxResults, titles, cron, segmentId, campaignId } =
+      result.data;
+
+    // Leads join a segment through the tags it filters on
+    if (segmentId) {
+      const { data: segment } = await supabase
+        .from("segments")
+        .select("filters")
+        .eq("id", segmentId)
+        .single();
+
+      if (!segment) {
+        return NextResponse.json({ error: "Segment not found" }, { status: 404 });
+      }
+
+      if (!(segment.filters as SegmentFilters).tags?.length) {
+        return NextResponse.json(
+          { error: "Only segments that filter on tags can have leads added to them" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const { data: schedule, error } = await supabase
+      .from("scraper_schedules")
+      .insert({
+        name: name || (location ? `${query} in ${location}` : query),
+        scraper_type: scraperType,
+        search_query: query,
+        location: location || null,
+        max_results: maxResults,
+        search_parameters: titles ? { titles } : {},
+        cron,
+        segment_id: segmentId || null,
+        campaign_id: campaignId || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    let qstashSchedule: { scheduleId: string };
+    try {
+      qstashSchedule = await scheduleScraperRuns(schedule.id, cron);
+    } catch (scheduleError) {
+      console.error("Failed to create schedule:", scheduleError);
+      await supabase.from("scraper_schedules").delete().eq("id", schedule.id);
+      return NextResponse.json({ error: "Failed to create schedule" }, { status: 500 });
+    }
+
+    const { data: saved, error: updateError } = await supabase
+      .from("scraper_schedules")
+      .update({ qstash_schedule_id: qstashSchedule.scheduleId })
+      .eq("id", schedule.id)
+      .select()
+      .single();
+
+    if (updateError) {
+      await qstash.schedules.delete(qstashSchedule.scheduleId).catch(() => {});
+      await supabase.from("scraper_schedules").delete().eq("id", schedule.id);
+      return NextResponse.json({ error: updateError.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ data: saved }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating scraper schedule:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { createMailboxAdapter, getMailboxProviders } from "@/lib/mailbox";
+import { decryptMailboxPassword, encryptMailboxPassword } from "@/lib/mailbox/credentials";
+import { z } from "zod";
+
+const mailboxSchema = z.object({
+  provider: z.string().default("imap"),
+  host: z.string().min(1),
+  port: z.coerce.number().int().min(1).max(65535).default(993),
+  secure: z.boolean().default(true),
+  username: z.string().min(1),
+  // Omitted when editing to keep the stored password
+  password: z.string().optional(),
+  spam_folder: z.string().min(1).default("Spam"),
+});
+
+const CREDENTIAL_COLUMNS = "host, port, secure, username, spam_folder, updated_at";
+
+// Mailbox credentials are only readable with the service role, so the
+// session client is used to check the sender exists and the user is signed in
+async function getSender(id: string) {
+  const supabase = await createClient();
+  const { data } = await supabase
+    .from("sender_accounts")
+    .select("id, mailbox_provider")
+    .eq("id", id)
+    .single();
+  return data;
+}
+
+// GET: Connection settings for a mailbox (never includes the password)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const sender = await getSender(id);
+    if (!sender) {
+      return NextResponse.json({ error: "Mailbox not found" }, { status: 404 });
+    }
+
+    const { data } = await supabaseAdmin
+      .from("sender_mailbox_credentials")
+      .select(CREDENTIAL_COLUMNS)
+      .eq("sender_account_id", id)
+      .maybeSingle();
+
+    return NextResponse.json({
+      data: data ? { ...data, provider: sender.mailbox_provider } : null,
+    });
+  } catch {
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT: Test and save the mailbox connection used by the warmup network
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const sender = await getSender(id);
+    if (!sender) {
+      return NextResponse.json({ error: "Mailbox not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { provider, password, ...connection } = mailboxSchema.parse(body);
+
+    if (!getMailboxProviders().includes(provider)) {
+      return NextResponse.json(
+        { error: `Unknown mailbox provider: ${provider}` },
+        { status: 400 }
+      );
+    }
+
+    let savedPassword = password;
+    if (!savedPassword) {
+      const { data: existing } = await supabaseAdmin
+        .from("sender_mailbox_credentials")
+        .select("password")
+        .eq("sender_account_id", id)
+        .maybeSingle();
+      savedPassword = existing?.password && decryptMailboxPassword(existing.password);
+    }
+
+    if (!savedPassword) {
+      return NextResponse.json({ error: "Password is required" }, { status: 400 });
+    }
+
+    // Make sure we can log in before saving
+    const adapter = createMailboxAdapter(provider, { ...connection, password: savedPassword });
+    try {
+      await adapter.connect();
+    } catch (error) {
+      return NextResponse.json(
+        {
+          error: `Could not connect to mailbox: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`,
+        },
+        { status: 400 }
+      );
+    } finally {
+      await adapter.close().catch(() => undefined);
+    }
+
+    const { error: saveError } = await supabaseAdmin
+      .from("sender_mailbox_credentials")
+      .upsert(
+        {
+          sender_account_id: id,
+          ...connection,
+          password: encryptMailboxPassword(savedPassword),
+        },
+        { onConflict: "sender_account_id" }
+      );
+
+    if (saveError) {
+      return NextResponse.json(
+        { error: "Failed to save mailbox credentials" },
+        { status: 500 }
+      );
+    }
+
+    await supabaseAdmin
+      .from("sender_accounts")
+      .update({ mailbox_provider: provider })
+      .eq("id", id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Disconnect the mailbox from the warmup network
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const sender = await getSender(id);
+    if (!sender) {
+      return NextResponse.json({ error: "Mailbox not found" }, { status: 404 });
+    }
+
+    await supabaseAdmin
+      .from("sender_mailbox_credentials")
+      .delete()
+      .eq("sender_account_id", id);
+
+    await supabaseAdmin
+      .from("sender_accounts")
+      .update({ mailbox_provider: null })
+      .eq("id", id);
+
+    return NextResponse.json({ success: true });
+  } catch {
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
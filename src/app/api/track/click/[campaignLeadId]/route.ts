@@ -32,7 +32,7 @@ export async function GET(
     // Get campaign lead details
     const { data: campaignLead } = await supabaseAdmin
       .from("campaign_leads")
-      .select("id, campaign_id, lead_id, clicked_at, clicked_count")
+      .select("id, campaign_id, lead_id, status, current_step, variant, clicked_at, clicked_count")
       .eq("id", campaignLeadId)
       .single();
 
@@ -40,6 +40,8 @@ export async function GET(
       // Record email event
       await supabaseAdmin.from("email_events").insert({
         campaign_lead_id: campaignLeadId,
+        step_number: campaignLead.current_step || null,
+        variant: campaignLead.variant || null,
         event_type: "clicked",
         clicked_url: targetUrl,
         event_data: {
@@ -56,7 +58,9 @@ export async function GET(
 
       if (!campaignLead.clicked_at) {
         updates.clicked_at = new Date().toISOString();
-        updates.status = "clicked";
+        if (campaignLead.status !== "replied") {
+          updates.status = "clicked";
+        }
       }
 
       await supabaseAdmin
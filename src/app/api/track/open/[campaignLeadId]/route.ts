@@ -17,7 +17,7 @@ export async function GET(
     // Get campaign lead details
     const { data: campaignLead } = await supabaseAdmin
       .from("campaign_leads")
-      .select("id, campaign_id, lead_id, opened_at, opened_count")
+      .select("id, campaign_id, lead_id, status, current_step, variant, opened_at, opened_count")
       .eq("id", campaignLeadId)
       .single();
 
@@ -25,6 +25,8 @@ export async function GET(
       // Record email event
       await supabaseAdmin.from("email_events").insert({
         campaign_lead_id: campaignLeadId,
+        step_number: campaignLead.current_step || null,
+        variant: campaignLead.variant || null,
         event_type: "opened",
         event_data: {
           user_agent: request.headers.get("user-agent"),
@@ -40,7 +42,9 @@ export async function GET(
 
       if (!campaignLead.opened_at) {
         updates.opened_at = new Date().toISOString();
-        updates.status = "opened";
+        if (campaignLead.status !== "replied") {
+          updates.status = "opened";
+        }
       }
 
       await supabaseAdmin
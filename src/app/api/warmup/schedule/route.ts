@@ -3,6 +3,16 @@ import { qstash as qstashClient } from "@/lib/qstash/client";
 
 const APP_URL = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
 const WARMUP_SCHEDULE_ID = "warmup-progression-daily";
+const WARMUP_NETWORK_PATH = "/api/jobs/warmup-network";
+
+// Remove the hourly warmup network schedule, if any
+async function deleteNetworkSchedule() {
+  const schedules = await qstashClient.schedules.list();
+  const networkSchedule = schedules.find((s) => s.destination?.includes(WARMUP_NETWORK_PATH));
+  if (networkSchedule) {
+    await qstashClient.schedules.delete(networkSchedule.scheduleId);
+  }
+}
 
 // GET: Check if the warmup scheduler is active
 export async function GET() {
@@ -37,6 +47,7 @@ export async function POST(request: NextRequest) {
       if (existingSchedule) {
         await qstashClient.schedules.delete(existingSchedule.scheduleId);
       }
+      await deleteNetworkSchedule();
     } catch {
       // Ignore errors when deleting
     }
@@ -48,10 +59,16 @@ export async function POST(request: NextRequest) {
       cron: "0 6 * * *", // Daily at 6 AM UTC
     });
 
+    // Peer-to-peer warmup emails go out hourly during the working day
+    await qstashClient.schedules.create({
+      destination: `${APP_URL}${WARMUP_NETWORK_PATH}`,
+      cron: "0 9-16 * * *",
+    });
+
     return NextResponse.json({
       success: true,
       scheduleId: schedule.scheduleId,
-      message: "Warmup progression scheduled daily at 6 AM UTC",
+      message: "Warmup progression scheduled daily at 6 AM UTC, warmup network hourly 9 AM-4 PM UTC",
     });
   } catch (error) {
     console.error("Error creating warmup schedule:", error);
@@ -65,6 +82,8 @@ export async function POST(request: NextRequest) {
 // DELETE: Remove the warmup scheduler
 export async function DELETE() {
   try {
+    await deleteNetworkSchedule();
+
     const schedules = await qstashClient.schedules.list();
     const warmupSchedule = schedules.find(
       (s) => s.destination?.includes("/api/warmup/progress")
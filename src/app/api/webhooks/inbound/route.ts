@@ -0,0 +1,201 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import {
+  classifyInboundEmail,
+  extractCampaignLeadIds,
+  parseInboundPayload,
+  parseRawEmail,
+  type InboundEmail,
+} from "@/lib/inbound";
+import { WARMUP_HEADER } from "@/lib/warmup/network";
+import crypto from "crypto";
+
+// Svix rejects deliveries whose timestamp is further off than this
+const SVIX_TOLERANCE_SECONDS = 5 * 60;
+
+function safeEqual(a: string, b: string): boolean {
+  return a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
+
+// Verify a Svix-signed delivery (Resend inbound): the secret after "whsec_"
+// is base64, the signed content is "<svix-id>.<svix-timestamp>.<body>" and
+// svix-signature holds space-separated "v1,<base64>" signatures
+function verifySvixSignature(request: NextRequest, payload: string, secret: string): boolean {
+  const id = request.headers.get("svix-id");
+  const timestamp = request.headers.get("svix-timestamp");
+  const signatures = request.headers.get("svix-signature");
+  if (!id || !timestamp || !signatures) return false;
+
+  const sentAt = Number(timestamp);
+  if (!Number.isFinite(sentAt) || Math.abs(Date.now() / 1000 - sentAt) > SVIX_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const key = Buffer.from(secret.replace(/^whsec_/, ""), "base64");
+  const expectedSignature = crypto
+    .createHmac("sha256", key)
+    .update(`${id}.${timestamp}.${payload}`)
+    .digest("base64");
+
+  return signatures.split(" ").some((entry) => {
+    const [version, signature] = entry.split(",");
+    return version === "v1" && !!signature && safeEqual(signature, expectedSignature);
+  });
+}
+
+// Verify a plain hex HMAC of the body (raw MIME forwarders)
+function verifySignature(payload: string, signature: string, secret: string): boolean {
+  const expectedSignature = crypto
+    .createHmac("sha256", secret)
+    .update(payload)
+    .digest("hex");
+
+  return safeEqual(signature, expectedSignature);
+}
+
+// Match an inbound email to the campaign lead it replies to
+async function findCampaignLead(email: InboundEmail) {
+  const columns = "id, campaign_id, lead_id, status, replied_at, current_step, variant";
+
+  // 1. Our own Message-ID format embeds the campaign lead ID
+  const ids = extractCampaignLeadIds(email);
+  if (ids.length > 0) {
+    const { data } = await supabaseAdmin
+      .from("campaign_leads")
+      .select(columns)
+      .in("id", ids)
+      .limit(1);
+    if (data?.[0]) return data[0];
+  }
+
+  // 2. Stored Message-ID of the last email sent
+  const messageIds = [email.inReplyTo, ...email.references].filter(
+    (id): id is string => !!id
+  );
+  if (messageIds.length > 0) {
+    const { data } = await supabaseAdmin
+      .from("campaign_leads")
+      .select(columns)
+      .in("message_id", messageIds)
+      .limit(1);
+    if (data?.[0]) return data[0];
+  }
+
+  // 3. Most recently contacted campaign lead for the sender address
+  if (!email.from) return null;
+
+  const { data: lead } = await supabaseAdmin
+    .from("leads")
+    .select("id")
+    .eq("email", email.from)
+    .single();
+
+  if (!lead) return null;
+
+  const { data } = await supabaseAdmin
+    .from("campaign_leads")
+    .select(columns)
+    .eq("lead_id", lead.id)
+    .not("sent_at", "is", null)
+    .order("sent_at", { ascending: false })
+    .limit(1);
+
+  return data?.[0] || null;
+}
+
+// Receives inbound emails (Resend inbound JSON or a raw MIME message)
+export async function POST(request: NextRequest) {
+  try {
+    const payload = await request.text();
+
+    // Verify webhook signature in production
+    const webhookSecret = process.env.INBOUND_WEBHOOK_SECRET;
+    if (webhookSecret && process.env.NODE_ENV === "production") {
+      const verified = request.headers.has("svix-id")
+        ? verifySvixSignature(request, payload, webhookSecret)
+        : verifySignature(payload, request.headers.get("x-webhook-signature") || "", webhookSecret);
+
+      if (!verified) {
+        return NextResponse.json(
+          { error: "Invalid signature" },
+          { status: 401 }
+        );
+      }
+    }
+
+    const contentType = request.headers.get("content-type") || "";
+    const email = contentType.includes("application/json")
+      ? parseInboundPayload(JSON.parse(payload))
+      : parseRawEmail(payload);
+
+    console.log(`Received inbound email from ${email.from}: ${email.subject}`);
+
+    // Warmup network traffic between our own mailboxes is handled over IMAP
+    if (email.headers[WARMUP_HEADER.toLowerCase()]) {
+      return NextResponse.json({ received: true, matched: false, warmup: true });
+    }
+
+    const campaignLead = await findCampaignLead(email);
+    if (!campaignLead) {
+      return NextResponse.json({ received: true, matched: false });
+    }
+
+    const classification = classifyInboundEmail(email);
+    const isReply = classification === "reply";
+
+    // Record the event
+    await supabaseAdmin.from("email_events").insert({
+      campaign_lead_id: campaignLead.id,
+      event_type: isReply ? "replied" : "auto_replied",
+      event_data: {
+        from: email.from,
+        to: email.to,
+        subject: email.subject,
+        message_id: email.messageId,
+        in_reply_to: email.inReplyTo,
+        snippet: email.text.slice(0, 500),
+      },
+      step_number: campaignLead.current_step || null,
+      variant: campaignLead.variant || null,
+    });
+
+    // Auto-replies and out-of-office messages don't stop the sequence
+    if (!isReply) {
+      return NextResponse.json({
+        received: true,
+        matched: true,
+        classification,
+      });
+    }
+
+    // Mark as replied and halt any further sends
+    await supabaseAdmin
+      .from("campaign_leads")
+      .update({
+        status: "replied",
+        replied_at: campaignLead.replied_at || new Date().toISOString(),
+        next_send_at: null,
+      })
+      .eq("id", campaignLead.id);
+
+    // Only count the first reply per campaign lead
+    if (!campaignLead.replied_at) {
+      await supabaseAdmin.rpc("increment_campaign_stat", {
+        p_campaign_id: campaignLead.campaign_id,
+        p_stat_field: "replied_count",
+      });
+    }
+
+    return NextResponse.json({
+      received: true,
+      matched: true,
+      classification,
+    });
+  } catch (error) {
+    console.error("Inbound webhook error:", error);
+    return NextResponse.json(
+      { error: "Webhook processing failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase/admin";
+import { extractAddress } from "@/lib/inbound";
+import { extractDomain } from "@/lib/utils";
 import crypto from "crypto";
 
 // Resend webhook event types
@@ -89,7 +91,7 @@ export async function POST(request: NextRequest) {
     // Find campaign lead by resend email ID
     const { data: campaignLead } = await supabaseAdmin
       .from("campaign_leads")
-      .select("id, campaign_id, lead_id")
+      .select("id, campaign_id, lead_id, status, current_step, variant")
       .eq("resend_email_id", data.email_id)
       .single();
 
@@ -100,8 +102,13 @@ export async function POST(request: NextRequest) {
       event_type: mapEventType(type),
       event_data: data,
       clicked_url: data.click?.link || null,
+      step_number: campaignLead?.current_step || null,
+      variant: campaignLead?.variant || null,
     });
 
+    // Deliverability feeds the sending domain's warm-up health check
+    await updateWarmupStats(data.from, type);
+
     // Update campaign lead status if found
     if (campaignLead) {
       const updates: Record<string, unknown> = {};
@@ -154,6 +161,11 @@ export async function POST(request: NextRequest) {
           break;
       }
 
+      // Engagement events shouldn't overwrite a reply
+      if (campaignLead.status === "replied" && updates.status !== "bounced") {
+        delete updates.status;
+      }
+
       if (Object.keys(updates).length > 0) {
         await supabaseAdmin
           .from("campaign_leads")
@@ -175,6 +187,22 @@ export async function POST(request: NextRequest) {
   }
 }
 
+async function updateWarmupStats(from: string, eventType: ResendEventType) {
+  const incrementField: Record<string, string> = {
+    "email.delivered": "total_delivered",
+    "email.bounced": "total_bounced",
+  };
+
+  const field = incrementField[eventType];
+  const domain = from ? extractDomain(extractAddress(from)) : null;
+  if (field && domain) {
+    await supabaseAdmin.rpc("increment_warmup_stat", {
+      p_domain: domain,
+      p_stat_field: field,
+    });
+  }
+}
+
 async function updateCampaignStats(campaignId: string, eventType: ResendEventType) {
   const incrementField: Record<string, string> = {
     "email.delivered": "delivered_count",
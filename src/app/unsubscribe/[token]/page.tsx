@@ -1,4 +1,4 @@
-import { createClient } from "@/lib/supabase/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { CheckCircle, XCircle } from "lucide-react";
 
@@ -6,45 +6,69 @@ interface Props {
   params: Promise<{ token: string }>;
 }
 
+// Visitors aren't signed in, so tokens and leads are read with the admin client
+async function findRecipient(token: string) {
+  const { data: sent } = await supabaseAdmin
+    .from("unsubscribe_tokens")
+    .select("email, lead_id, campaign_id")
+    .eq("token", token)
+    .single();
+
+  if (sent) return sent;
+
+  // Older links used the campaign lead id as the token
+  const { data: campaignLead } = await supabaseAdmin
+    .from("campaign_leads")
+    .select("id, lead_id, campaign_id, lead:leads(email)")
+    .eq("id", token)
+    .single();
+
+  if (!campaignLead?.lead) return null;
+
+  const leadData = campaignLead.lead as unknown as { email: string };
+  return {
+    email: leadData.email,
+    lead_id: campaignLead.lead_id,
+    campaign_id: campaignLead.campaign_id,
+  };
+}
+
 export default async function UnsubscribePage({ params }: Props) {
   const { token } = await params;
-  const supabase = await createClient();
+  const recipient = await findRecipient(token);
 
   // Find the unsubscribe record
-  const { data: unsubscribe } = await supabase
-    .from("unsubscribes")
-    .select("email, created_at")
-    .eq("token", token)
-    .single();
+  const { data: unsubscribe } = recipient
+    ? await supabaseAdmin
+        .from("unsubscribes")
+        .select("email, created_at")
+        .eq("email", recipient.email)
+        .maybeSingle()
+    : await supabaseAdmin
+        .from("unsubscribes")
+        .select("email, created_at")
+        .eq("token", token)
+        .maybeSingle();
 
   // If no record found, try to process new unsubscribe
   if (!unsubscribe) {
-    // Check if this is a valid campaign lead token
-    const { data: campaignLead } = await supabase
-      .from("campaign_leads")
-      .select("id, lead_id, campaign_id, lead:leads(email)")
-      .eq("id", token)
-      .single();
-
-    if (campaignLead && campaignLead.lead) {
-      // Process unsubscribe
-      const leadData = campaignLead.lead as unknown as { email: string };
-      const email = leadData.email;
-
+    if (recipient) {
       // Add to unsubscribes table
-      await supabase.from("unsubscribes").upsert({
-        email,
-        lead_id: campaignLead.lead_id,
-        campaign_id: campaignLead.campaign_id,
+      await supabaseAdmin.from("unsubscribes").upsert({
+        email: recipient.email,
+        lead_id: recipient.lead_id,
+        campaign_id: recipient.campaign_id,
         token,
         source: "link",
-      });
+      }, { onConflict: "email", ignoreDuplicates: true });
 
       // Update lead status
-      await supabase
-        .from("leads")
-        .update({ status: "unsubscribed" })
-        .eq("id", campaignLead.lead_id);
+      if (recipient.lead_id) {
+        await supabaseAdmin
+          .from("leads")
+          .update({ status: "unsubscribed" })
+          .eq("id", recipient.lead_id);
+      }
 
       return (
         <div className="flex min-h-screen items-center justify-center bg-[#0a0a0a] px-4">
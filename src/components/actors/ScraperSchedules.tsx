@@ -0,0 +1,227 @@
+"use client";
+
+import { useState } from "react";
+import { CalendarClock, History, Loader2, Pause, Play, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { createClient } from "@/lib/supabase/client";
+import { formatDateTime, formatNumber } from "@/lib/utils";
+import { describeCron } from "@/lib/scraper-jobs/schedules";
+import type { ScraperJobStatus, ScraperSchedule } from "@/types";
+
+export interface ScheduleRow extends ScraperSchedule {
+  segment: { name: string } | null;
+  campaign: { name: string } | null;
+}
+
+interface ScheduleRun {
+  id: string;
+  status: ScraperJobStatus;
+  processed_count: number;
+  leads_created: number;
+  leads_enriched: number | null;
+  errors_count: number;
+  created_at: string;
+}
+
+const runStatusVariants: Record<
+  ScraperJobStatus,
+  "secondary" | "info" | "success" | "destructive"
+> = {
+  pending: "secondary",
+  running: "info",
+  completed: "success",
+  failed: "destructive",
+  cancelled: "secondary",
+};
+
+interface ScraperSchedulesProps {
+  schedules: ScheduleRow[];
+  onSchedulesChange: (schedules: ScheduleRow[]) => void;
+  getActorName: (type: string) => string;
+}
+
+export function ScraperSchedules({
+  schedules,
+  onSchedulesChange,
+  getActorName,
+}: ScraperSchedulesProps) {
+  const [updating, setUpdating] = useState<string | null>(null);
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [history, setHistory] = useState<ScheduleRun[]>([]);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+
+  const toggleHistory = async (scheduleId: string) => {
+    if (historyFor === scheduleId) {
+      setHistoryFor(null);
+      return;
+    }
+
+    setHistoryFor(scheduleId);
+    setLoadingHistory(true);
+
+    const supabase = createClient();
+    const { data } = await supabase
+      .from("scraper_jobs")
+      .select("id, status, processed_count, leads_created, leads_enriched, errors_count, created_at")
+      .eq("schedule_id", scheduleId)
+      .order("created_at", { ascending: false })
+      .limit(20);
+
+    setHistory(data || []);
+    setLoadingHistory(false);
+  };
+
+  const handleToggleActive = async (schedule: ScheduleRow) => {
+    const action = schedule.is_active ? "pause" : "resume";
+    setUpdating(schedule.id);
+
+    try {
+      const response = await fetch(`/api/scraper-schedules/${schedule.id}/${action}`, {
+        method: "POST",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        alert(data.error || `Failed to ${action} the schedule`);
+      } else {
+        onSchedulesChange(
+          schedules.map((s) => (s.id === schedule.id ? { ...s, is_active: !s.is_active } : s))
+        );
+      }
+    } catch (error) {
+      console.error(`Failed to ${action} schedule:`, error);
+    }
+
+    setUpdating(null);
+  };
+
+  const handleDelete = async (schedule: ScheduleRow) => {
+    if (!confirm(`Delete the "${schedule.name}" schedule? Its past runs and leads are kept.`)) {
+      return;
+    }
+
+    setUpdating(schedule.id);
+
+    try {
+      const response = await fetch(`/api/scraper-schedules/${schedule.id}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        alert(data.error || "Failed to delete the schedule");
+      } else {
+        onSchedulesChange(schedules.filter((s) => s.id !== schedule.id));
+      }
+    } catch (error) {
+      console.error("Failed to delete schedule:", error);
+    }
+
+    setUpdating(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      {schedules.map((schedule) => {
+        const destinations = [
+          schedule.segment && `segment ${schedule.segment.name}`,
+          schedule.campaign && `campaign ${schedule.campaign.name}`,
+        ].filter(Boolean);
+
+        return (
+          <div key={schedule.id} className="rounded-lg bg-muted p-4">
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex items-start gap-3">
+                <div className="rounded-lg bg-background p-2">
+                  <CalendarClock className="h-4 w-4 text-muted-foreground" />
+                </div>
+                <div>
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium text-foreground">{schedule.name}</p>
+                    <Badge variant={schedule.is_active ? "success" : "secondary"}>
+                      {schedule.is_active ? "Active" : "Paused"}
+                    </Badge>
+                  </div>
+                  <p className="mt-0.5 text-sm text-muted-foreground">
+                    {getActorName(schedule.scraper_type)} · {describeCron(schedule.cron)} · up
+                    to {formatNumber(schedule.max_results)} results
+                  </p>
+                  <p className="mt-0.5 text-xs text-muted-foreground">
+                    {schedule.last_run_at
+                      ? `Last run ${formatDateTime(schedule.last_run_at)}`
+                      : "Not run yet"}
+                    {destinations.length > 0 && ` · New leads go to ${destinations.join(" and ")}`}
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Button variant="ghost" size="sm" onClick={() => toggleHistory(schedule.id)}>
+                  <History className="mr-2 h-4 w-4" />
+                  History
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleToggleActive(schedule)}
+                  disabled={updating === schedule.id}
+                >
+                  {schedule.is_active ? (
+                    <Pause className="mr-2 h-4 w-4" />
+                  ) : (
+                    <Play className="mr-2 h-4 w-4" />
+                  )}
+                  {schedule.is_active ? "Pause" : "Resume"}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(schedule)}
+                  disabled={updating === schedule.id}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            {historyFor === schedule.id && (
+              <div className="mt-3 rounded-lg bg-background p-3">
+                {loadingHistory ? (
+                  <div className="flex justify-center py-2">
+                    <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                  </div>
+                ) : history.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No runs yet</p>
+                ) : (
+                  <div className="space-y-2">
+                    {history.map((run) => (
+                      <div key={run.id} className="flex items-center justify-between text-sm">
+                        <div className="flex items-center gap-2">
+                          <Badge variant={runStatusVariants[run.status] || "secondary"}>
+                            {run.status}
+                          </Badge>
+                          <span className="text-muted-foreground">
+                            {formatDateTime(run.created_at)}
+                          </span>
+                        </div>
+                        <span className="text-muted-foreground">
+                          {formatNumber(run.processed_count)} results ·{" "}
+                          <span className="font-medium text-[#039855]">
+                            +{formatNumber(run.leads_created + (run.leads_enriched || 0))}
+                          </span>{" "}
+                          new leads
+                          {run.errors_count > 0 && ` · ${formatNumber(run.errors_count)} errors`}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
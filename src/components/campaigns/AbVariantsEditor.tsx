@@ -0,0 +1,183 @@
+"use client";
+
+import { Plus, Trash2, Trophy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { AB_WINNER_METRICS, MAX_AB_VARIANTS, getVariantId } from "@/lib/ab-testing";
+import type { AbTestConfig, AbVariant, AbWinnerMetric } from "@/types";
+
+interface AbVariantsEditorProps {
+  config: AbTestConfig;
+  onChange: (config: AbTestConfig) => void;
+  disabled?: boolean;
+}
+
+export function AbVariantsEditor({ config, onChange, disabled }: AbVariantsEditorProps) {
+  const updateVariant = (index: number, changes: Partial<AbVariant>) => {
+    onChange({
+      ...config,
+      variants: config.variants.map((variant, i) =>
+        i === index ? { ...variant, ...changes } : variant
+      ),
+    });
+  };
+
+  const addVariant = () => {
+    onChange({
+      ...config,
+      variants: [
+        ...config.variants,
+        { id: getVariantId(config.variants.length), subject: "", body_html: null },
+      ],
+    });
+  };
+
+  // Re-letter remaining variants so IDs stay sequential
+  const removeVariant = (index: number) => {
+    onChange({
+      ...config,
+      variants: config.variants
+        .filter((_, i) => i !== index)
+        .map((variant, i) => ({ ...variant, id: getVariantId(i) })),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {config.winner_variant && (
+        <div className="flex items-center gap-2 rounded-lg bg-[#039855]/10 p-3 text-sm text-[#039855]">
+          <Trophy className="h-4 w-4" />
+          Variant {config.winner_variant} won
+          {config.winner_confidence !== null && ` (${config.winner_confidence}% confidence)`}
+          . Remaining leads receive the winning variant.
+        </div>
+      )}
+
+      {config.variants.map((variant, index) => (
+        <div key={variant.id} className="rounded-lg bg-muted p-4">
+          <div className="mb-3 flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium">Variant {variant.id}</span>
+              {config.winner_variant === variant.id && <Badge variant="success">Winner</Badge>}
+            </div>
+            {config.variants.length > 2 && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => removeVariant(index)}
+                disabled={disabled}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            )}
+          </div>
+          <div className="space-y-3">
+            <div>
+              <label className="mb-1 block text-xs font-medium text-muted-foreground">
+                Subject
+              </label>
+              <Input
+                value={variant.subject}
+                onChange={(e) => updateVariant(index, { subject: e.target.value })}
+                placeholder="Quick question about {{company}}"
+                disabled={disabled}
+                required
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-xs font-medium text-muted-foreground">
+                Body (optional, uses the template body if empty)
+              </label>
+              <textarea
+                className="flex min-h-[100px] w-full rounded-lg border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                value={variant.body_html || ""}
+                onChange={(e) => updateVariant(index, { body_html: e.target.value || null })}
+                disabled={disabled}
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {config.variants.length < MAX_AB_VARIANTS && (
+        <Button type="button" variant="outline" onClick={addVariant} disabled={disabled}>
+          <Plus className="h-4 w-4" />
+          Add Variant
+        </Button>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <div>
+          <label className="mb-1 block text-xs font-medium text-muted-foreground">
+            Test Group (% of leads)
+          </label>
+          <Input
+            type="number"
+            min={1}
+            max={100}
+            value={config.test_percentage}
+            onChange={(e) =>
+              onChange({ ...config, test_percentage: parseInt(e.target.value) || 1 })
+            }
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label className="mb-1 block text-xs font-medium text-muted-foreground">
+            Sample Size (per variant)
+          </label>
+          <Input
+            type="number"
+            min={1}
+            value={config.sample_size}
+            onChange={(e) =>
+              onChange({ ...config, sample_size: parseInt(e.target.value) || 1 })
+            }
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label className="mb-1 block text-xs font-medium text-muted-foreground">
+            Wait Before Deciding (hours)
+          </label>
+          <Input
+            type="number"
+            min={0}
+            max={168}
+            value={config.wait_hours}
+            onChange={(e) =>
+              onChange({ ...config, wait_hours: parseInt(e.target.value) || 0 })
+            }
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label className="mb-1 block text-xs font-medium text-muted-foreground">
+            Winner Metric
+          </label>
+          <select
+            className="flex h-10 w-full rounded-lg border border-input bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+            value={config.winner_metric}
+            onChange={(e) =>
+              onChange({ ...config, winner_metric: e.target.value as AbWinnerMetric })
+            }
+            disabled={disabled}
+          >
+            {AB_WINNER_METRICS.map((metric) => (
+              <option key={metric.value} value={metric.value}>
+                {metric.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        The test group is split evenly across variants. Once each variant reaches the sample
+        size (or the test group is used up), the best variant is sent to everyone else.
+      </p>
+    </div>
+  );
+}
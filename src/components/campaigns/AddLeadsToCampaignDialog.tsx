@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import { Search, Loader2, CheckCircle2, Users, Building2, Mail } from "lucide-react";
+import { Search, Loader2, CheckCircle2, Users, Building2, Mail, Filter } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
@@ -14,7 +14,9 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { createClient } from "@/lib/supabase/client";
-import { cn } from "@/lib/utils";
+import { cn, formatNumber } from "@/lib/utils";
+import { countSegmentLeads, describeSegmentFilters } from "@/lib/segments";
+import type { Segment } from "@/types";
 
 interface Lead {
   id: string;
@@ -47,6 +49,12 @@ export function AddLeadsToCampaignDialog({
   const [search, setSearch] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [existingLeadIds, setExistingLeadIds] = useState<Set<string>>(new Set());
+  const [mode, setMode] = useState<"pick" | "segment">("pick");
+  const [segments, setSegments] = useState<Segment[]>([]);
+  const [segmentId, setSegmentId] = useState("");
+  const [segmentCount, setSegmentCount] = useState<number | null>(null);
+  const [autoEnroll, setAutoEnroll] = useState(true);
+  const [error, setError] = useState<string | null>(null);
 
   const fetchLeads = useCallback(async () => {
     setLoading(true);
@@ -93,6 +101,35 @@ export function AddLeadsToCampaignDialog({
     }
   }, [open, fetchLeads, fetchExistingLeads]);
 
+  useEffect(() => {
+    if (!open) return;
+
+    async function fetchSegments() {
+      const supabase = createClient();
+      const { data } = await supabase.from("segments").select("*").order("name");
+      setSegments(data || []);
+    }
+
+    fetchSegments();
+  }, [open]);
+
+  const selectedSegment = segments.find((segment) => segment.id === segmentId) || null;
+
+  useEffect(() => {
+    if (!selectedSegment) return;
+
+    async function fetchSegmentCount(segment: Segment) {
+      setSegmentCount(null);
+      try {
+        setSegmentCount(await countSegmentLeads(createClient(), segment.filters));
+      } catch (error) {
+        console.error("Error counting segment leads:", error);
+      }
+    }
+
+    fetchSegmentCount(selectedSegment);
+  }, [selectedSegment]);
+
   const toggleLead = (leadId: string) => {
     const newSelected = new Set(selectedLeads);
     if (newSelected.has(leadId)) {
@@ -133,6 +170,31 @@ export function AddLeadsToCampaignDialog({
     setAdding(false);
   };
 
+  const handleAddSegment = async () => {
+    if (!segmentId) return;
+
+    setAdding(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/campaigns/${campaignId}/segment`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ segmentId, autoEnroll }),
+      });
+
+      if (response.ok) {
+        onOpenChange(false);
+        onLeadsAdded?.();
+      } else {
+        const data = await response.json();
+        setError(data.error || "Failed to add segment leads");
+      }
+    } catch (error) {
+      console.error("Error adding segment leads:", error);
+    }
+    setAdding(false);
+  };
+
   const availableLeads = leads.filter((l) => !existingLeadIds.has(l.id));
   const allSelected = availableLeads.length > 0 && selectedLeads.size === availableLeads.length;
 
@@ -142,150 +204,252 @@ export function AddLeadsToCampaignDialog({
         <DialogHeader>
           <DialogTitle>Add Leads to Campaign</DialogTitle>
           <DialogDescription>
-            Select leads to add to this campaign. Already added leads are shown as disabled.
+            {mode === "pick"
+              ? "Select leads to add to this campaign. Already added leads are shown as disabled."
+              : "Add every eligible lead in a saved segment to this campaign."}
           </DialogDescription>
         </DialogHeader>
 
-        {/* Search and Filters */}
-        <div className="flex items-center gap-3">
-          <div className="relative flex-1">
-            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-            <Input
-              placeholder="Search by name, email, or company..."
-              value={search}
-              onChange={(e) => setSearch(e.target.value)}
-              className="pl-9"
-            />
-          </div>
-          <select
-            className="h-10 rounded-lg border border-input bg-background px-3 py-2 text-sm"
-            value={statusFilter}
-            onChange={(e) => setStatusFilter(e.target.value)}
-          >
-            <option value="all">All Status</option>
-            <option value="new">New</option>
-            <option value="verified">Verified</option>
-            <option value="contacted">Contacted</option>
-          </select>
-        </div>
-
-        {/* Select All */}
-        <div className="flex items-center justify-between border-b border-border pb-2">
-          <button
-            onClick={toggleAll}
-            className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground"
-          >
-            <div
+        <div className="flex gap-1 rounded-lg bg-muted p-1">
+          {[
+            { value: "pick" as const, label: "Pick Leads", icon: Users },
+            { value: "segment" as const, label: "From Segment", icon: Filter },
+          ].map((tab) => (
+            <button
+              key={tab.value}
+              onClick={() => setMode(tab.value)}
               className={cn(
-                "flex h-5 w-5 items-center justify-center rounded border",
-                allSelected
-                  ? "border-primary bg-primary text-primary-foreground"
-                  : "border-input"
+                "flex flex-1 items-center justify-center gap-2 rounded-md px-3 py-1.5 text-sm transition-colors",
+                mode === tab.value
+                  ? "bg-background font-medium text-foreground shadow-sm"
+                  : "text-muted-foreground hover:text-foreground"
               )}
             >
-              {allSelected && <CheckCircle2 className="h-3 w-3" />}
-            </div>
-            Select All ({availableLeads.length} available)
-          </button>
-          <span className="text-sm text-muted-foreground">
-            {selectedLeads.size} selected
-          </span>
+              <tab.icon className="h-4 w-4" />
+              {tab.label}
+            </button>
+          ))}
         </div>
 
-        {/* Leads List */}
-        <div className="flex-1 overflow-y-auto min-h-[300px] max-h-[400px] space-y-1">
-          {loading ? (
-            <div className="flex items-center justify-center py-12">
-              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
-            </div>
-          ) : leads.length === 0 ? (
-            <div className="flex flex-col items-center justify-center py-12 text-center">
-              <Users className="h-8 w-8 text-muted-foreground" />
-              <p className="mt-2 text-muted-foreground">No leads found</p>
-            </div>
-          ) : (
-            leads.map((lead) => {
-              const isExisting = existingLeadIds.has(lead.id);
-              const isSelected = selectedLeads.has(lead.id);
-
-              return (
-                <button
-                  key={lead.id}
-                  onClick={() => !isExisting && toggleLead(lead.id)}
-                  disabled={isExisting}
-                  className={cn(
-                    "flex w-full items-center gap-3 rounded-lg p-3 text-left transition-colors",
-                    isExisting
-                      ? "cursor-not-allowed opacity-50 bg-muted/30"
-                      : isSelected
-                      ? "bg-primary/10 border border-primary/30"
-                      : "hover:bg-muted/50"
-                  )}
+        {mode === "segment" ? (
+          <div className="min-h-[300px] space-y-4">
+            {segments.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 text-center">
+                <Filter className="h-8 w-8 text-muted-foreground" />
+                <p className="mt-2 text-muted-foreground">
+                  No saved segments yet. Create one from the leads page.
+                </p>
+              </div>
+            ) : (
+              <>
+                <select
+                  className="flex h-10 w-full rounded-lg border border-input bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                  value={segmentId}
+                  onChange={(e) => setSegmentId(e.target.value)}
                 >
-                  <div
-                    className={cn(
-                      "flex h-5 w-5 items-center justify-center rounded border flex-shrink-0",
-                      isExisting
-                        ? "border-muted-foreground/30 bg-muted"
-                        : isSelected
-                        ? "border-primary bg-primary text-primary-foreground"
-                        : "border-input"
+                  <option value="">Choose a segment...</option>
+                  {segments.map((segment) => (
+                    <option key={segment.id} value={segment.id}>
+                      {segment.name}
+                    </option>
+                  ))}
+                </select>
+
+                {selectedSegment && (
+                  <div className="space-y-3 rounded-lg border border-border p-4">
+                    {selectedSegment.description && (
+                      <p className="text-sm text-muted-foreground">{selectedSegment.description}</p>
                     )}
-                  >
-                    {(isSelected || isExisting) && <CheckCircle2 className="h-3 w-3" />}
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-2">
-                      <span className="font-medium text-foreground truncate">
-                        {lead.first_name || lead.last_name
-                          ? `${lead.first_name || ""} ${lead.last_name || ""}`.trim()
-                          : lead.email}
-                      </span>
-                      {isExisting && (
-                        <Badge variant="secondary" className="text-xs">
-                          Already added
+                    <div className="flex flex-wrap gap-2">
+                      {describeSegmentFilters(selectedSegment.filters).map((part) => (
+                        <Badge key={part} variant="secondary">
+                          {part}
                         </Badge>
-                      )}
-                      {lead.email_verified && (
-                        <Badge variant="success" className="text-xs">
-                          Verified
-                        </Badge>
-                      )}
-                    </div>
-                    <div className="flex items-center gap-3 text-sm text-muted-foreground">
-                      <span className="flex items-center gap-1 truncate">
-                        <Mail className="h-3 w-3" />
-                        {lead.email}
-                      </span>
-                      {lead.company_name && (
-                        <span className="flex items-center gap-1 truncate">
-                          <Building2 className="h-3 w-3" />
-                          {lead.company_name}
-                        </span>
-                      )}
+                      ))}
                     </div>
+                    <p className="text-sm font-medium">
+                      {segmentCount === null
+                        ? "Counting leads..."
+                        : `${formatNumber(segmentCount)} matching lead${segmentCount !== 1 ? "s" : ""}`}
+                    </p>
                   </div>
-                </button>
-              );
-            })
-          )}
-        </div>
+                )}
+
+                <label className="flex items-start gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    className="mt-0.5"
+                    checked={autoEnroll}
+                    onChange={(e) => setAutoEnroll(e.target.checked)}
+                  />
+                  <span>
+                    Keep enrolling new leads that match
+                    <span className="block text-xs text-muted-foreground">
+                      Makes this segment the campaign&apos;s audience. Unsubscribed and bounced
+                      leads are always skipped.
+                    </span>
+                  </span>
+                </label>
+
+                {error && <p className="text-sm text-destructive">{error}</p>}
+              </>
+            )}
+          </div>
+        ) : (
+          <>
+            {/* Search and Filters */}
+            <div className="flex items-center gap-3">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  placeholder="Search by name, email, or company..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+              <select
+                className="h-10 rounded-lg border border-input bg-background px-3 py-2 text-sm"
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value)}
+              >
+                <option value="all">All Status</option>
+                <option value="new">New</option>
+                <option value="verified">Verified</option>
+                <option value="contacted">Contacted</option>
+              </select>
+            </div>
+
+            {/* Select All */}
+            <div className="flex items-center justify-between border-b border-border pb-2">
+              <button
+                onClick={toggleAll}
+                className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground"
+              >
+                <div
+                  className={cn(
+                    "flex h-5 w-5 items-center justify-center rounded border",
+                    allSelected
+                      ? "border-primary bg-primary text-primary-foreground"
+                      : "border-input"
+                  )}
+                >
+                  {allSelected && <CheckCircle2 className="h-3 w-3" />}
+                </div>
+                Select All ({availableLeads.length} available)
+              </button>
+              <span className="text-sm text-muted-foreground">
+                {selectedLeads.size} selected
+              </span>
+            </div>
+
+            {/* Leads List */}
+            <div className="flex-1 overflow-y-auto min-h-[300px] max-h-[400px] space-y-1">
+              {loading ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : leads.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-12 text-center">
+                  <Users className="h-8 w-8 text-muted-foreground" />
+                  <p className="mt-2 text-muted-foreground">No leads found</p>
+                </div>
+              ) : (
+                leads.map((lead) => {
+                  const isExisting = existingLeadIds.has(lead.id);
+                  const isSelected = selectedLeads.has(lead.id);
+
+                  return (
+                    <button
+                      key={lead.id}
+                      onClick={() => !isExisting && toggleLead(lead.id)}
+                      disabled={isExisting}
+                      className={cn(
+                        "flex w-full items-center gap-3 rounded-lg p-3 text-left transition-colors",
+                        isExisting
+                          ? "cursor-not-allowed opacity-50 bg-muted/30"
+                          : isSelected
+                          ? "bg-primary/10 border border-primary/30"
+                          : "hover:bg-muted/50"
+                      )}
+                    >
+                      <div
+                        className={cn(
+                          "flex h-5 w-5 items-center justify-center rounded border flex-shrink-0",
+                          isExisting
+                            ? "border-muted-foreground/30 bg-muted"
+                            : isSelected
+                            ? "border-primary bg-primary text-primary-foreground"
+                            : "border-input"
+                        )}
+                      >
+                        {(isSelected || isExisting) && <CheckCircle2 className="h-3 w-3" />}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-foreground truncate">
+                            {lead.first_name || lead.last_name
+                              ? `${lead.first_name || ""} ${lead.last_name || ""}`.trim()
+                              : lead.email}
+                          </span>
+                          {isExisting && (
+                            <Badge variant="secondary" className="text-xs">
+                              Already added
+                            </Badge>
+                          )}
+                          {lead.email_verified && (
+                            <Badge variant="success" className="text-xs">
+                              Verified
+                            </Badge>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                          <span className="flex items-center gap-1 truncate">
+                            <Mail className="h-3 w-3" />
+                            {lead.email}
+                          </span>
+                          {lead.company_name && (
+                            <span className="flex items-center gap-1 truncate">
+                              <Building2 className="h-3 w-3" />
+                              {lead.company_name}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    </button>
+                  );
+                })
+              )}
+            </div>
+          </>
+        )}
 
         <DialogFooter>
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             Cancel
           </Button>
-          <Button
-            onClick={handleAddLeads}
-            disabled={selectedLeads.size === 0 || adding}
-          >
-            {adding ? (
-              <Loader2 className="h-4 w-4 animate-spin" />
-            ) : (
-              <Users className="h-4 w-4" />
-            )}
-            Add {selectedLeads.size} Lead{selectedLeads.size !== 1 ? "s" : ""}
-          </Button>
+          {mode === "pick" ? (
+            <Button
+              onClick={handleAddLeads}
+              disabled={selectedLeads.size === 0 || adding}
+            >
+              {adding ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Users className="h-4 w-4" />
+              )}
+              Add {selectedLeads.size} Lead{selectedLeads.size !== 1 ? "s" : ""}
+            </Button>
+          ) : (
+            <Button onClick={handleAddSegment} disabled={!segmentId || adding}>
+              {adding ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Filter className="h-4 w-4" />
+              )}
+              Add Segment Leads
+            </Button>
+          )}
         </DialogFooter>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,63 @@
+"use client";
+
+import Link from "next/link";
+import { cn } from "@/lib/utils";
+import type { SenderAccount } from "@/types";
+
+interface MailboxSelectorProps {
+  senders: Pick<SenderAccount, "id" | "email" | "from_name" | "daily_limit" | "is_active">[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+export function MailboxSelector({ senders, selected, onChange }: MailboxSelectorProps) {
+  const toggle = (id: string) => {
+    onChange(selected.includes(id) ? selected.filter((s) => s !== id) : [...selected, id]);
+  };
+
+  if (senders.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No mailboxes yet.{" "}
+        <Link href="/senders" className="text-foreground underline">
+          Add mailboxes
+        </Link>{" "}
+        to rotate sends across several addresses.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {senders.map((sender) => (
+        <label
+          key={sender.id}
+          className={cn(
+            "flex cursor-pointer items-center gap-3 rounded-lg border border-border px-3 py-2 text-sm transition-colors hover:bg-accent/50",
+            selected.includes(sender.id) && "bg-accent/50",
+            !sender.is_active && "opacity-60"
+          )}
+        >
+          <input
+            type="checkbox"
+            className="h-4 w-4"
+            checked={selected.includes(sender.id)}
+            onChange={() => toggle(sender.id)}
+          />
+          <div className="min-w-0 flex-1">
+            <p className="truncate font-medium text-foreground">{sender.from_name}</p>
+            <p className="truncate text-xs text-muted-foreground">{sender.email}</p>
+          </div>
+          <span className="text-xs text-muted-foreground">
+            {sender.is_active ? `${sender.daily_limit}/day` : "Paused"}
+          </span>
+        </label>
+      ))}
+      <p className="text-xs text-muted-foreground">
+        {selected.length > 0
+          ? "Sends rotate across the selected mailboxes. Follow-ups come from the mailbox that sent the first email."
+          : "No mailboxes selected: emails are sent from the From Email below."}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import { Plus, Trash2, Clock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { STEP_CONDITIONS } from "@/lib/sequences";
+import type { StepCondition } from "@/types";
+
+export interface FollowUpStep {
+  template_id: string;
+  wait_days: number;
+  condition: StepCondition;
+}
+
+interface SequenceStepsEditorProps {
+  templates: { id: string; name: string }[];
+  steps: FollowUpStep[];
+  onChange: (steps: FollowUpStep[]) => void;
+  disabled?: boolean;
+}
+
+const MAX_FOLLOW_UPS = 9;
+
+export function SequenceStepsEditor({
+  templates,
+  steps,
+  onChange,
+  disabled,
+}: SequenceStepsEditorProps) {
+  const updateStep = (index: number, changes: Partial<FollowUpStep>) => {
+    onChange(steps.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const addStep = () => {
+    onChange([...steps, { template_id: "", wait_days: 3, condition: "no_reply" }]);
+  };
+
+  const removeStep = (index: number) => {
+    onChange(steps.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      {steps.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No follow-ups. Leads will receive only the initial email.
+        </p>
+      )}
+
+      {steps.map((step, index) => (
+        <div key={index} className="rounded-lg bg-muted p-4">
+          <div className="mb-3 flex items-center justify-between">
+            <span className="text-sm font-medium">Step {index + 2}</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => removeStep(index)}
+              disabled={disabled}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+          <div className="grid gap-3 md:grid-cols-3">
+            <div>
+              <label className="mb-1 block text-xs font-medium text-muted-foreground">
+                Template
+              </label>
+              <select
+                className="flex h-10 w-full rounded-lg border border-input bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                value={step.template_id}
+                onChange={(e) => updateStep(index, { template_id: e.target.value })}
+                disabled={disabled}
+                required
+              >
+                <option value="">Select a template...</option>
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="mb-1 flex items-center gap-1 text-xs font-medium text-muted-foreground">
+                <Clock className="h-3 w-3" />
+                Wait (days)
+              </label>
+              <Input
+                type="number"
+                min={0}
+                max={90}
+                value={step.wait_days}
+                onChange={(e) =>
+                  updateStep(index, { wait_days: parseInt(e.target.value) || 0 })
+                }
+                disabled={disabled}
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-xs font-medium text-muted-foreground">
+                Condition
+              </label>
+              <select
+                className="flex h-10 w-full rounded-lg border border-input bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                value={step.condition}
+                onChange={(e) =>
+                  updateStep(index, { condition: e.target.value as StepCondition })
+                }
+                disabled={disabled}
+              >
+                {STEP_CONDITIONS.map((condition) => (
+                  <option key={condition.value} value={condition.value}>
+                    {condition.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {steps.length < MAX_FOLLOW_UPS && (
+        <Button type="button" variant="outline" onClick={addStep} disabled={disabled}>
+          <Plus className="h-4 w-4" />
+          Add Follow-up
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { ExportDialog } from "@/components/shared/export-dialog";
+import {
+  CUSTOM_FIELD_COLUMN_PREFIX,
+  DEFAULT_LEAD_EXPORT_COLUMNS,
+  LEAD_EXPORT_COLUMNS,
+} from "@/lib/export";
+import { toLeadFilterParams, VERIFICATION_FILTER_OPTIONS, type LeadFilters } from "@/lib/leads";
+
+interface ExportLeadsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Search text and segment from the leads list, carried into the export
+  search: string;
+  segmentId: string;
+}
+
+const selectClassName =
+  "flex h-10 w-full rounded-lg border border-input bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring";
+
+const statusOptions = [
+  "new",
+  "verified",
+  "qualified",
+  "contacted",
+  "converted",
+  "unsubscribed",
+  "bounced",
+];
+
+export function ExportLeadsDialog({
+  open,
+  onOpenChange,
+  search,
+  segmentId,
+}: ExportLeadsDialogProps) {
+  const [status, setStatus] = useState("");
+  const [verification, setVerification] = useState("");
+  const [tags, setTags] = useState("");
+
+  const filterParams = toLeadFilterParams({
+    search,
+    status,
+    tags,
+    verification: (verification || undefined) as LeadFilters["verification"],
+  });
+  if (segmentId) filterParams.set("segment", segmentId);
+
+  return (
+    <ExportDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      title="Export Leads"
+      description={
+        search
+          ? `Download every lead matching "${search}" and the filters below.`
+          : segmentId
+            ? "Download every lead in the selected segment that matches the filters below."
+            : "Download every lead matching the filters below."
+      }
+      endpoint="/api/leads/export"
+      columns={LEAD_EXPORT_COLUMNS}
+      defaultColumns={DEFAULT_LEAD_EXPORT_COLUMNS}
+      customFieldColumnPrefix={CUSTOM_FIELD_COLUMN_PREFIX}
+      filterParams={filterParams}
+    >
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <label className="mb-2 block text-sm font-medium">Status</label>
+          <select
+            className={selectClassName}
+            value={status}
+            onChange={(e) => setStatus(e.target.value)}
+          >
+            <option value="">Any</option>
+            {statusOptions.map((option) => (
+              <option key={option} value={option}>
+                {option.charAt(0).toUpperCase() + option.slice(1)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="mb-2 block text-sm font-medium">Verification</label>
+          <select
+            className={selectClassName}
+            value={verification}
+            onChange={(e) => setVerification(e.target.value)}
+          >
+            <option value="">Any</option>
+            {VERIFICATION_FILTER_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="mb-2 block text-sm font-medium">Tags</label>
+          <Input placeholder="e.g. q3" value={tags} onChange={(e) => setTags(e.target.value)} />
+        </div>
+      </div>
+    </ExportDialog>
+  );
+}
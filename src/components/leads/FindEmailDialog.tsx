@@ -0,0 +1,197 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { getScoreVariant } from "@/lib/scoring";
+
+interface FindEmailDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onLeadAdded?: () => void;
+}
+
+interface FindEmailResponse {
+  outcome: "created" | "exists" | "not_found";
+  email: string | null;
+  pattern: string | null;
+  confidence: number;
+  status: string | null;
+  candidatesTried: string[];
+}
+
+const emptyForm = {
+  first_name: "",
+  last_name: "",
+  domain: "",
+  company_name: "",
+};
+
+export function FindEmailDialog({ open, onOpenChange, onLeadAdded }: FindEmailDialogProps) {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [found, setFound] = useState<FindEmailResponse | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setFormData(emptyForm);
+      setFound(null);
+      setError(null);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    setFound(null);
+
+    try {
+      const response = await fetch("/api/leads/find-email", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          firstName: formData.first_name,
+          lastName: formData.last_name,
+          domain: formData.domain,
+          companyName: formData.company_name || undefined,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || "Failed to find an email address.");
+      } else {
+        setFound(data);
+        if (data.outcome === "created") onLeadAdded?.();
+      }
+    } catch (err) {
+      console.error("Failed to find email:", err);
+      setError("Failed to find an email address.");
+    }
+
+    setLoading(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Find Email</DialogTitle>
+          <DialogDescription>
+            Guess a person&apos;s address from common patterns at their company and verify it.
+            Found addresses are added as leads.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <label className="mb-2 block text-sm font-medium">
+                First Name <span className="text-destructive">*</span>
+              </label>
+              <Input
+                value={formData.first_name}
+                onChange={(e) => setFormData({ ...formData, first_name: e.target.value })}
+                placeholder="John"
+                required
+              />
+            </div>
+            <div>
+              <label className="mb-2 block text-sm font-medium">
+                Last Name <span className="text-destructive">*</span>
+              </label>
+              <Input
+                value={formData.last_name}
+                onChange={(e) => setFormData({ ...formData, last_name: e.target.value })}
+                placeholder="Smith"
+                required
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="mb-2 block text-sm font-medium">
+              Company Domain <span className="text-destructive">*</span>
+            </label>
+            <Input
+              value={formData.domain}
+              onChange={(e) => setFormData({ ...formData, domain: e.target.value })}
+              placeholder="acme.com"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="mb-2 block text-sm font-medium">Company Name</label>
+            <Input
+              value={formData.company_name}
+              onChange={(e) => setFormData({ ...formData, company_name: e.target.value })}
+              placeholder="Acme Corp"
+            />
+          </div>
+
+          {found && (
+            <div className="rounded-lg border border-border p-3 text-sm">
+              {found.email ? (
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-foreground">{found.email}</span>
+                    <Badge variant={getScoreVariant(found.confidence)}>
+                      {found.confidence}% confidence
+                    </Badge>
+                  </div>
+                  <p className="text-muted-foreground">
+                    {found.outcome === "exists"
+                      ? "Already in your leads."
+                      : "Added to your leads."}{" "}
+                    Pattern {found.pattern}, verification {found.status}.
+                  </p>
+                </div>
+              ) : (
+                <p className="text-muted-foreground">
+                  No deliverable address found
+                  {found.candidatesTried.length > 0 &&
+                    ` (tried ${found.candidatesTried.join(", ")})`}
+                  .
+                </p>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <div className="rounded-lg bg-destructive/10 p-3 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+            >
+              Close
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Find Email
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,8 +1,9 @@
 "use client";
 
-import { useState, useRef } from "react";
-import { Upload, FileText, X, Loader2, CheckCircle, AlertCircle } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { Upload, FileText, X, Loader2, CheckCircle, AlertCircle, Download } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import {
   Dialog,
   DialogContent,
@@ -11,7 +12,9 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { createClient } from "@/lib/supabase/client";
+import { CUSTOM_FIELD_PREFIX, DEDUPE_STRATEGY_OPTIONS, LEAD_IMPORT_FIELDS } from "@/lib/import";
+import { formatDateTime, formatNumber } from "@/lib/utils";
+import type { LeadImport, LeadImportDedupeStrategy } from "@/types";
 
 interface ImportLeadsDialogProps {
   open: boolean;
@@ -19,165 +22,155 @@ interface ImportLeadsDialogProps {
   onImportComplete?: () => void;
 }
 
-interface ParsedLead {
-  email: string;
-  first_name?: string;
-  last_name?: string;
-  company_name?: string;
-  industry?: string;
-  phone?: string;
+interface ImportPreview {
+  counts: { total: number; create: number; update: number; skip: number; reject: number };
+  rejected: { rowNumber: number; values: string[]; errors: string[] }[];
 }
 
+const selectClassName =
+  "flex h-9 w-full max-w-[200px] rounded-lg border border-input bg-background px-3 py-1 text-sm";
+
 export function ImportLeadsDialog({ open, onOpenChange, onImportComplete }: ImportLeadsDialogProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [file, setFile] = useState<File | null>(null);
-  const [parsedData, setParsedData] = useState<ParsedLead[]>([]);
   const [headers, setHeaders] = useState<string[]>([]);
+  const [sample, setSample] = useState<string[][]>([]);
   const [columnMapping, setColumnMapping] = useState<Record<string, string>>({});
-  const [step, setStep] = useState<"upload" | "mapping" | "importing" | "complete">("upload");
-  const [importing, setImporting] = useState(false);
-  const [importResult, setImportResult] = useState<{ imported: number; skipped: number; errors: number }>({ imported: 0, skipped: 0, errors: 0 });
-
-  const leadFields = [
-    { key: "email", label: "Email", required: true },
-    { key: "first_name", label: "First Name", required: false },
-    { key: "last_name", label: "Last Name", required: false },
-    { key: "company_name", label: "Company Name", required: false },
-    { key: "industry", label: "Industry", required: false },
-    { key: "phone", label: "Phone", required: false },
-  ];
-
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const [tags, setTags] = useState("");
+  const [dedupe, setDedupe] = useState<LeadImportDedupeStrategy>("skip");
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [result, setResult] = useState<LeadImport | null>(null);
+  const [history, setHistory] = useState<LeadImport[]>([]);
+  const [step, setStep] = useState<"upload" | "mapping" | "preview" | "importing" | "complete">(
+    "upload"
+  );
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    async function fetchHistory() {
+      const response = await fetch("/api/leads/import");
+      if (response.ok) {
+        const { data } = await response.json();
+        setHistory(data || []);
+      }
+    }
+
+    fetchHistory();
+  }, [open]);
+
+  // The file is parsed on the server each time, so preview and import see
+  // exactly the same rows
+  const submitImport = async (
+    selectedFile: File,
+    dryRun: boolean,
+    mapping?: Record<string, string>
+  ) => {
+    const formData = new FormData();
+    formData.append("file", selectedFile);
+    formData.append("dryRun", String(dryRun));
+    formData.append("tags", tags);
+    formData.append("dedupe", dedupe);
+    if (mapping) formData.append("mapping", JSON.stringify(mapping));
+
+    const response = await fetch("/api/leads/import", { method: "POST", body: formData });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || "Import failed");
+    return data;
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
+    e.target.value = "";
     if (!selectedFile) return;
 
     setFile(selectedFile);
-    parseCSV(selectedFile);
-  };
+    setLoading(true);
+    setError(null);
 
-  const parseCSV = (file: File) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const text = e.target?.result as string;
-      const lines = text.split("\n").filter((line) => line.trim());
-
-      if (lines.length === 0) return;
-
-      // Parse headers
-      const headerLine = lines[0];
-      const csvHeaders = headerLine.split(",").map((h) => h.trim().replace(/"/g, ""));
-      setHeaders(csvHeaders);
-
-      // Auto-map columns
-      const autoMapping: Record<string, string> = {};
-      csvHeaders.forEach((header) => {
-        const lowerHeader = header.toLowerCase();
-        if (lowerHeader.includes("email")) autoMapping[header] = "email";
-        else if (lowerHeader.includes("first") && lowerHeader.includes("name")) autoMapping[header] = "first_name";
-        else if (lowerHeader.includes("last") && lowerHeader.includes("name")) autoMapping[header] = "last_name";
-        else if (lowerHeader.includes("company")) autoMapping[header] = "company_name";
-        else if (lowerHeader.includes("industry")) autoMapping[header] = "industry";
-        else if (lowerHeader.includes("phone")) autoMapping[header] = "phone";
-      });
-      setColumnMapping(autoMapping);
-
-      // Parse data rows
-      const data: ParsedLead[] = [];
-      for (let i = 1; i < lines.length; i++) {
-        const values = lines[i].split(",").map((v) => v.trim().replace(/"/g, ""));
-        const row: Record<string, string> = {};
-        csvHeaders.forEach((header, index) => {
-          row[header] = values[index] || "";
-        });
-        if (row[csvHeaders[0]]) {
-          data.push(row as unknown as ParsedLead);
-        }
-      }
-      setParsedData(data);
+    try {
+      const data = await submitImport(selectedFile, true);
+      setHeaders(data.headers);
+      setSample(data.sample);
+      setColumnMapping(data.mapping);
       setStep("mapping");
-    };
-    reader.readAsText(file);
+    } catch (err) {
+      setFile(null);
+      setError(err instanceof Error ? err.message : "Could not read the file");
+    }
+    setLoading(false);
   };
 
-  const handleImport = async () => {
-    setImporting(true);
-    setStep("importing");
+  const handlePreview = async () => {
+    if (!file) return;
 
-    const supabase = createClient();
-    let imported = 0;
-    let skipped = 0;
-    let errors = 0;
-
-    // Map data using column mapping
-    const mappedData = parsedData.map((row) => {
-      const mapped: Record<string, string | null> = {};
-      Object.entries(columnMapping).forEach(([csvColumn, leadField]) => {
-        if (leadField && leadField !== "skip") {
-          mapped[leadField] = (row as unknown as Record<string, string>)[csvColumn] || null;
-        }
-      });
-      return mapped;
-    });
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await submitImport(file, true, columnMapping);
+      setPreview({ counts: data.counts, rejected: data.rejected });
+      setStep("preview");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Preview failed");
+    }
+    setLoading(false);
+  };
 
-    // Import in batches
-    const batchSize = 50;
-    for (let i = 0; i < mappedData.length; i += batchSize) {
-      const batch = mappedData.slice(i, i + batchSize);
-
-      for (const lead of batch) {
-        if (!lead.email) {
-          skipped++;
-          continue;
-        }
-
-        const { error } = await supabase.from("leads").insert({
-          email: lead.email,
-          first_name: lead.first_name || null,
-          last_name: lead.last_name || null,
-          company_name: lead.company_name || null,
-          industry: lead.industry || null,
-          phone: lead.phone || null,
-          source: "import",
-          status: "new",
-        });
-
-        if (error) {
-          if (error.code === "23505") {
-            skipped++; // Duplicate
-          } else {
-            errors++;
-          }
-        } else {
-          imported++;
-        }
-      }
+  const handleImport = async () => {
+    if (!file) return;
+
+    setStep("importing");
+    setError(null);
+    try {
+      const { data } = await submitImport(file, false, columnMapping);
+      setResult(data);
+      setHistory([data, ...history]);
+      setStep("complete");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+      setStep("preview");
     }
+  };
 
-    setImportResult({ imported, skipped, errors });
-    setImporting(false);
-    setStep("complete");
+  const setColumnTarget = (header: string, target: string) => {
+    setColumnMapping({
+      ...columnMapping,
+      [header]: target === "custom" ? `${CUSTOM_FIELD_PREFIX}${header}` : target,
+    });
   };
 
-  const handleClose = () => {
+  const resetFile = () => {
     setFile(null);
-    setParsedData([]);
     setHeaders([]);
+    setSample([]);
     setColumnMapping({});
+    setPreview(null);
+    setError(null);
     setStep("upload");
-    setImportResult({ imported: 0, skipped: 0, errors: 0 });
+  };
+
+  const handleClose = () => {
+    resetFile();
+    setTags("");
+    setDedupe("skip");
+    setResult(null);
     onOpenChange(false);
     if (step === "complete") {
       onImportComplete?.();
     }
   };
 
+  const mappedFields = Object.values(columnMapping);
+
   return (
     <Dialog open={open} onOpenChange={handleClose}>
-      <DialogContent className="sm:max-w-[600px]">
+      <DialogContent className="sm:max-w-[680px]">
         <DialogHeader>
-          <DialogTitle>Import Leads from CSV</DialogTitle>
+          <DialogTitle>Import Leads</DialogTitle>
           <DialogDescription>
-            Upload a CSV file to import leads into your database.
+            Upload a CSV or Excel file to import leads into your database.
           </DialogDescription>
         </DialogHeader>
 
@@ -185,19 +178,58 @@ export function ImportLeadsDialog({ open, onOpenChange, onImportComplete }: Impo
           <div className="space-y-4">
             <div
               className="flex cursor-pointer flex-col items-center justify-center rounded-xl border-2 border-dashed border-border p-8 transition-colors hover:border-muted-foreground"
-              onClick={() => fileInputRef.current?.click()}
+              onClick={() => !loading && fileInputRef.current?.click()}
             >
-              <Upload className="h-10 w-10 text-muted-foreground" />
-              <p className="mt-4 text-sm font-medium">Click to upload or drag and drop</p>
-              <p className="mt-1 text-xs text-muted-foreground">CSV files only</p>
+              {loading ? (
+                <Loader2 className="h-10 w-10 animate-spin text-muted-foreground" />
+              ) : (
+                <Upload className="h-10 w-10 text-muted-foreground" />
+              )}
+              <p className="mt-4 text-sm font-medium">
+                {loading ? "Reading file..." : "Click to upload a file"}
+              </p>
+              <p className="mt-1 text-xs text-muted-foreground">CSV or XLSX, up to 10 MB</p>
             </div>
             <input
               ref={fileInputRef}
               type="file"
-              accept=".csv"
+              accept=".csv,.xlsx"
               className="hidden"
               onChange={handleFileSelect}
             />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            {history.length > 0 && (
+              <div>
+                <p className="mb-2 text-sm font-medium">Recent Imports</p>
+                <div className="max-h-[180px] space-y-2 overflow-y-auto">
+                  {history.slice(0, 10).map((item) => (
+                    <div
+                      key={item.id}
+                      className="flex items-center justify-between gap-4 rounded-lg border border-border p-3"
+                    >
+                      <div className="min-w-0">
+                        <p className="truncate text-sm font-medium">{item.file_name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDateTime(item.created_at)} ·{" "}
+                          {item.status === "failed"
+                            ? `Failed${item.last_error ? `: ${item.last_error}` : ""}`
+                            : `${formatNumber(item.created_count)} created, ${formatNumber(item.updated_count)} updated, ${formatNumber(item.skipped_count)} skipped`}
+                        </p>
+                      </div>
+                      {item.rejected_count > 0 && (
+                        <a href={`/api/leads/import/${item.id}/rejected`}>
+                          <Button variant="outline" size="sm">
+                            <Download className="h-4 w-4" />
+                            {formatNumber(item.rejected_count)} rejected
+                          </Button>
+                        </a>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         )}
 
@@ -208,56 +240,152 @@ export function ImportLeadsDialog({ open, onOpenChange, onImportComplete }: Impo
                 <FileText className="h-4 w-4" />
                 <span className="text-sm font-medium">{file?.name}</span>
               </div>
-              <div className="flex items-center gap-2">
-                <span className="text-sm text-muted-foreground">{parsedData.length} rows</span>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  className="h-6 w-6"
-                  onClick={() => {
-                    setFile(null);
-                    setParsedData([]);
-                    setHeaders([]);
-                    setStep("upload");
-                  }}
+              <Button variant="ghost" size="icon" className="h-6 w-6" onClick={resetFile}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="max-h-[300px] space-y-3 overflow-y-auto">
+              <p className="text-sm font-medium">Map file columns to lead fields:</p>
+              {headers.map((header, index) => {
+                const target = columnMapping[header] || "";
+                const isCustom = target.startsWith(CUSTOM_FIELD_PREFIX);
+
+                return (
+                  <div key={header} className="flex items-center justify-between gap-4">
+                    <div className="min-w-[150px] flex-1 truncate">
+                      <p className="truncate text-sm">{header}</p>
+                      {sample[0]?.[index] && (
+                        <p className="truncate text-xs text-muted-foreground">{sample[0][index]}</p>
+                      )}
+                    </div>
+                    {isCustom && (
+                      <Input
+                        className="h-9 max-w-[160px]"
+                        placeholder="Field name"
+                        value={target.slice(CUSTOM_FIELD_PREFIX.length)}
+                        onChange={(e) =>
+                          setColumnMapping({
+                            ...columnMapping,
+                            [header]: `${CUSTOM_FIELD_PREFIX}${e.target.value}`,
+                          })
+                        }
+                      />
+                    )}
+                    <select
+                      className={selectClassName}
+                      value={isCustom ? "custom" : target}
+                      onChange={(e) => setColumnTarget(header, e.target.value)}
+                    >
+                      <option value="">Skip this column</option>
+                      {LEAD_IMPORT_FIELDS.map((field) => (
+                        <option
+                          key={field.key}
+                          value={field.key}
+                          disabled={field.key !== target && mappedFields.includes(field.key)}
+                        >
+                          {field.label} {field.required && "*"}
+                        </option>
+                      ))}
+                      <option value="custom">Custom field</option>
+                    </select>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="mb-2 block text-sm font-medium">Tags</label>
+                <Input
+                  placeholder="e.g. conference, q3"
+                  value={tags}
+                  onChange={(e) => setTags(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="mb-2 block text-sm font-medium">Existing Leads</label>
+                <select
+                  className={`${selectClassName} h-10 max-w-none`}
+                  value={dedupe}
+                  onChange={(e) => setDedupe(e.target.value as LeadImportDedupeStrategy)}
                 >
-                  <X className="h-4 w-4" />
-                </Button>
+                  {DEDUPE_STRATEGY_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label} — {option.description}
+                    </option>
+                  ))}
+                </select>
               </div>
             </div>
 
-            <div className="max-h-[300px] space-y-3 overflow-y-auto">
-              <p className="text-sm font-medium">Map CSV columns to lead fields:</p>
-              {headers.map((header) => (
-                <div key={header} className="flex items-center justify-between gap-4">
-                  <span className="min-w-[150px] truncate text-sm">{header}</span>
-                  <select
-                    className="flex h-9 w-full max-w-[200px] rounded-lg border border-input bg-background px-3 py-1 text-sm"
-                    value={columnMapping[header] || ""}
-                    onChange={(e) =>
-                      setColumnMapping({ ...columnMapping, [header]: e.target.value })
-                    }
-                  >
-                    <option value="">Skip this column</option>
-                    {leadFields.map((field) => (
-                      <option key={field.key} value={field.key}>
-                        {field.label} {field.required && "*"}
-                      </option>
-                    ))}
-                  </select>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={handleClose}>
+                Cancel
+              </Button>
+              <Button onClick={handlePreview} disabled={loading || !mappedFields.includes("email")}>
+                {loading && <Loader2 className="h-4 w-4 animate-spin" />}
+                Preview Import
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+
+        {step === "preview" && preview && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-4 gap-3">
+              {[
+                { label: "New", value: preview.counts.create },
+                {
+                  label: dedupe === "merge" ? "Merged" : "Updated",
+                  value: preview.counts.update,
+                },
+                { label: "Skipped", value: preview.counts.skip },
+                { label: "Rejected", value: preview.counts.reject },
+              ].map((stat) => (
+                <div key={stat.label} className="rounded-lg bg-muted p-3">
+                  <p className="text-xs text-muted-foreground">{stat.label}</p>
+                  <p className="text-lg font-semibold">{formatNumber(stat.value)}</p>
                 </div>
               ))}
             </div>
 
+            {preview.rejected.length > 0 && (
+              <div>
+                <p className="mb-2 flex items-center gap-1.5 text-sm font-medium">
+                  <AlertCircle className="h-4 w-4 text-destructive" />
+                  Rows that won&apos;t be imported
+                </p>
+                <div className="max-h-[220px] space-y-1 overflow-y-auto rounded-lg border border-border p-3">
+                  {preview.rejected.map((row) => (
+                    <p key={row.rowNumber} className="text-sm">
+                      <span className="text-muted-foreground">Row {row.rowNumber}:</span>{" "}
+                      {row.errors.join("; ")}
+                    </p>
+                  ))}
+                  {preview.counts.reject > preview.rejected.length && (
+                    <p className="text-xs text-muted-foreground">
+                      and {formatNumber(preview.counts.reject - preview.rejected.length)} more —
+                      download them from the import history afterwards
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
             <DialogFooter>
-              <Button variant="outline" onClick={handleClose}>
-                Cancel
+              <Button variant="outline" onClick={() => setStep("mapping")}>
+                Back
               </Button>
               <Button
                 onClick={handleImport}
-                disabled={!columnMapping.email && !Object.values(columnMapping).includes("email")}
+                disabled={preview.counts.create + preview.counts.update === 0}
               >
-                Import {parsedData.length} Leads
+                Import {formatNumber(preview.counts.create + preview.counts.update)} Leads
               </Button>
             </DialogFooter>
           </div>
@@ -271,7 +399,7 @@ export function ImportLeadsDialog({ open, onOpenChange, onImportComplete }: Impo
           </div>
         )}
 
-        {step === "complete" && (
+        {step === "complete" && result && (
           <div className="space-y-4">
             <div className="flex flex-col items-center justify-center py-4">
               <CheckCircle className="h-10 w-10 text-[#039855]" />
@@ -280,22 +408,38 @@ export function ImportLeadsDialog({ open, onOpenChange, onImportComplete }: Impo
 
             <div className="space-y-2 rounded-lg bg-muted p-4">
               <div className="flex items-center justify-between">
-                <span className="text-sm text-muted-foreground">Successfully imported</span>
-                <span className="font-medium text-[#039855]">{importResult.imported}</span>
+                <span className="text-sm text-muted-foreground">Created</span>
+                <span className="font-medium text-[#039855]">{formatNumber(result.created_count)}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">Updated existing leads</span>
+                <span className="font-medium">{formatNumber(result.updated_count)}</span>
               </div>
               <div className="flex items-center justify-between">
-                <span className="text-sm text-muted-foreground">Skipped (duplicates/invalid)</span>
-                <span className="font-medium text-muted-foreground">{importResult.skipped}</span>
+                <span className="text-sm text-muted-foreground">Skipped (already exist)</span>
+                <span className="font-medium text-muted-foreground">
+                  {formatNumber(result.skipped_count)}
+                </span>
               </div>
-              {importResult.errors > 0 && (
+              {result.rejected_count > 0 && (
                 <div className="flex items-center justify-between">
-                  <span className="text-sm text-muted-foreground">Errors</span>
-                  <span className="font-medium text-destructive">{importResult.errors}</span>
+                  <span className="text-sm text-muted-foreground">Rejected</span>
+                  <span className="font-medium text-destructive">
+                    {formatNumber(result.rejected_count)}
+                  </span>
                 </div>
               )}
             </div>
 
             <DialogFooter>
+              {result.rejected_count > 0 && (
+                <a href={`/api/leads/import/${result.id}/rejected`}>
+                  <Button variant="outline">
+                    <Download className="h-4 w-4" />
+                    Download Rejected Rows
+                  </Button>
+                </a>
+              )}
               <Button onClick={handleClose}>Done</Button>
             </DialogFooter>
           </div>
@@ -0,0 +1,107 @@
+"use client";
+
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { getScoreVariant, getScoringRuleLabel, SCORING_RULE_OPTIONS } from "@/lib/scoring";
+import { cn, formatDate } from "@/lib/utils";
+import type { LeadScoreItem } from "@/types";
+
+interface LeadScoreDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  lead: {
+    email: string;
+    quality_score: number | null;
+    score_breakdown: LeadScoreItem[] | null;
+    scored_at: string | null;
+  } | null;
+}
+
+export function LeadScoreDialog({ open, onOpenChange, lead }: LeadScoreDialogProps) {
+  const breakdown = lead?.score_breakdown || [];
+  const total = breakdown.reduce((sum, item) => sum + item.points, 0);
+  const score = lead?.quality_score ?? null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Lead Score</DialogTitle>
+          <DialogDescription>{lead?.email}</DialogDescription>
+        </DialogHeader>
+
+        {score === null ? (
+          <p className="text-sm text-muted-foreground">This lead hasn&apos;t been scored yet.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center gap-3">
+              <Badge variant={getScoreVariant(score)} className="text-base">
+                {score}
+              </Badge>
+              <span className="text-sm text-muted-foreground">out of 100</span>
+            </div>
+
+            {lead?.score_breakdown ? (
+              <div className="divide-y divide-border rounded-lg border border-border">
+                {breakdown.length === 0 ? (
+                  <p className="p-3 text-sm text-muted-foreground">No scoring rules matched.</p>
+                ) : (
+                  breakdown.map((item) => (
+                    <div key={item.rule} className="flex items-center justify-between p-3">
+                      <div>
+                        <p className="text-sm font-medium">{getScoringRuleLabel(item.rule)}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {SCORING_RULE_OPTIONS.find((o) => o.value === item.rule)?.description}
+                        </p>
+                      </div>
+                      <span
+                        className={cn(
+                          "text-sm font-medium",
+                          item.points < 0 ? "text-destructive" : "text-[#039855]"
+                        )}
+                      >
+                        {item.points > 0 ? "+" : ""}
+                        {item.points}
+                      </span>
+                    </div>
+                  ))
+                )}
+                {total !== score && (
+                  <p className="p-3 text-xs text-muted-foreground">
+                    Rules add up to {total}; scores are kept between 0 and 100.
+                  </p>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                This score was imported, not computed from scoring rules.
+              </p>
+            )}
+
+            {lead?.scored_at && (
+              <p className="text-xs text-muted-foreground">
+                Last scored {formatDate(lead.scored_at)}
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Link href="/settings">
+            <Button variant="outline">Edit Scoring Rules</Button>
+          </Link>
+          <Button onClick={() => onOpenChange(false)}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
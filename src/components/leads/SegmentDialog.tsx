@@ -0,0 +1,420 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2, Plus, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { createClient } from "@/lib/supabase/client";
+import { VERIFICATION_FILTER_OPTIONS } from "@/lib/leads";
+import { countSegmentLeads, ENGAGEMENT_EVENT_OPTIONS } from "@/lib/segments";
+import { cn, formatNumber } from "@/lib/utils";
+import type {
+  LeadSource,
+  LeadStatus,
+  Segment,
+  SegmentEngagementRule,
+  SegmentFilters,
+} from "@/types";
+
+interface SegmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Segment to edit, or null to create one
+  segment: Segment | null;
+  onSaved: (segment: Segment) => void;
+  onDeleted?: (id: string) => void;
+}
+
+const STATUS_OPTIONS: LeadStatus[] = [
+  "new",
+  "verified",
+  "qualified",
+  "contacted",
+  "converted",
+  "unsubscribed",
+  "bounced",
+];
+
+const SOURCE_OPTIONS: { value: LeadSource; label: string }[] = [
+  { value: "google_maps", label: "Google Maps" },
+  { value: "linkedin", label: "LinkedIn" },
+  { value: "yellowpages", label: "Yellow Pages" },
+  { value: "yelp", label: "Yelp" },
+  { value: "manual", label: "Manual" },
+  { value: "import", label: "Import" },
+];
+
+const selectClassName =
+  "flex h-10 w-full rounded-lg border border-input bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring";
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function toggle<T>(values: T[] | undefined, value: T): T[] {
+  const current = values || [];
+  return current.includes(value) ? current.filter((v) => v !== value) : [...current, value];
+}
+
+function OptionChips<T extends string>({
+  options,
+  selected,
+  onToggle,
+}: {
+  options: { value: T; label: string }[];
+  selected: T[] | undefined;
+  onToggle: (value: T) => void;
+}) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {options.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => onToggle(option.value)}
+          className={cn(
+            "rounded-full border px-3 py-1 text-xs transition-colors",
+            selected?.includes(option.value)
+              ? "border-foreground bg-foreground text-background"
+              : "border-border text-muted-foreground hover:text-foreground"
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// Rendered inside DialogContent so it remounts, and resets, each time the dialog opens
+function SegmentForm({
+  segment,
+  onOpenChange,
+  onSaved,
+  onDeleted,
+}: Omit<SegmentDialogProps, "open">) {
+  const initial = segment?.filters || {};
+  const [name, setName] = useState(segment?.name || "");
+  const [description, setDescription] = useState(segment?.description || "");
+  const [filters, setFilters] = useState<SegmentFilters>(initial);
+  const [industries, setIndustries] = useState((initial.industries || []).join(", "));
+  const [cities, setCities] = useState((initial.cities || []).join(", "));
+  const [states, setStates] = useState((initial.states || []).join(", "));
+  const [tags, setTags] = useState((initial.tags || []).join(", "));
+  const [matchCount, setMatchCount] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const definition: SegmentFilters = {
+    ...filters,
+    industries: splitList(industries),
+    cities: splitList(cities),
+    states: splitList(states),
+    tags: splitList(tags),
+  };
+  const definitionKey = JSON.stringify(definition);
+
+  // Live match count, debounced while typing
+  useEffect(() => {
+    const timeout = setTimeout(async () => {
+      try {
+        setMatchCount(await countSegmentLeads(createClient(), JSON.parse(definitionKey)));
+      } catch {
+        setMatchCount(null);
+      }
+    }, 400);
+    return () => clearTimeout(timeout);
+  }, [definitionKey]);
+
+  const setScore = (key: "min_quality_score" | "max_quality_score", value: string) => {
+    setFilters({ ...filters, [key]: value === "" ? null : Math.min(Math.max(parseInt(value) || 0, 0), 100) });
+  };
+
+  const setRule = (index: number, changes: Partial<SegmentEngagementRule>) => {
+    const engagement = [...(filters.engagement || [])];
+    engagement[index] = { ...engagement[index], ...changes };
+    setFilters({ ...filters, engagement });
+  };
+
+  const addRule = () => {
+    setFilters({
+      ...filters,
+      engagement: [...(filters.engagement || []), { event: "opened", match: "did", days: 30 }],
+    });
+  };
+
+  const removeRule = (index: number) => {
+    setFilters({
+      ...filters,
+      engagement: (filters.engagement || []).filter((_, i) => i !== index),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError("Give the segment a name");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    const supabase = createClient();
+    const values = {
+      name: name.trim(),
+      description: description.trim() || null,
+      filters: definition,
+    };
+
+    const { data, error: saveError } = segment
+      ? await supabase.from("segments").update(values).eq("id", segment.id).select().single()
+      : await supabase.from("segments").insert(values).select().single();
+
+    setSaving(false);
+    if (saveError || !data) {
+      setError(saveError?.message || "Failed to save segment");
+      return;
+    }
+
+    onSaved(data);
+    onOpenChange(false);
+  };
+
+  const handleDelete = async () => {
+    if (!segment || !confirm(`Delete the segment "${segment.name}"?`)) return;
+
+    const supabase = createClient();
+    const { error: deleteError } = await supabase.from("segments").delete().eq("id", segment.id);
+    if (deleteError) {
+      setError(deleteError.message);
+      return;
+    }
+
+    onDeleted?.(segment.id);
+    onOpenChange(false);
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>{segment ? "Edit Segment" : "New Segment"}</DialogTitle>
+        <DialogDescription>
+          Save a set of filters to reuse on the leads page and as a campaign audience.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="max-h-[60vh] space-y-5 overflow-y-auto pr-1">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="mb-2 block text-sm font-medium">Name</label>
+            <Input
+              placeholder="e.g. Engaged dentists in Texas"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="mb-2 block text-sm font-medium">Description</label>
+            <Input value={description} onChange={(e) => setDescription(e.target.value)} />
+          </div>
+        </div>
+
+        <div>
+          <label className="mb-2 block text-sm font-medium">Status</label>
+          <OptionChips
+            options={STATUS_OPTIONS.map((status) => ({
+              value: status,
+              label: status.charAt(0).toUpperCase() + status.slice(1),
+            }))}
+            selected={filters.statuses}
+            onToggle={(status) => setFilters({ ...filters, statuses: toggle(filters.statuses, status) })}
+          />
+        </div>
+
+        <div>
+          <label className="mb-2 block text-sm font-medium">Source</label>
+          <OptionChips
+            options={SOURCE_OPTIONS}
+            selected={filters.sources}
+            onToggle={(source) => setFilters({ ...filters, sources: toggle(filters.sources, source) })}
+          />
+        </div>
+
+        <div>
+          <label className="mb-2 block text-sm font-medium">Email Verification</label>
+          <OptionChips
+            options={[...VERIFICATION_FILTER_OPTIONS]}
+            selected={filters.verification_statuses}
+            onToggle={(status) =>
+              setFilters({
+                ...filters,
+                verification_statuses: toggle(filters.verification_statuses, status),
+              })
+            }
+          />
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <label className="mb-2 block text-sm font-medium">Industries</label>
+            <Input
+              placeholder="Dentist, Law firm"
+              value={industries}
+              onChange={(e) => setIndustries(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="mb-2 block text-sm font-medium">Cities</label>
+            <Input placeholder="Austin, Dallas" value={cities} onChange={(e) => setCities(e.target.value)} />
+          </div>
+          <div>
+            <label className="mb-2 block text-sm font-medium">States</label>
+            <Input placeholder="TX" value={states} onChange={(e) => setStates(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div className="col-span-2">
+            <label className="mb-2 block text-sm font-medium">Tags</label>
+            <div className="flex gap-2">
+              <Input placeholder="q3, conference" value={tags} onChange={(e) => setTags(e.target.value)} />
+              <select
+                className={cn(selectClassName, "w-32")}
+                value={filters.tags_match || "any"}
+                onChange={(e) =>
+                  setFilters({ ...filters, tags_match: e.target.value as "any" | "all" })
+                }
+              >
+                <option value="any">Any of</option>
+                <option value="all">All of</option>
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className="mb-2 block text-sm font-medium">Quality Score</label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                placeholder="Min"
+                value={filters.min_quality_score ?? ""}
+                onChange={(e) => setScore("min_quality_score", e.target.value)}
+              />
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                placeholder="Max"
+                value={filters.max_quality_score ?? ""}
+                onChange={(e) => setScore("max_quality_score", e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <label className="mb-2 block text-sm font-medium">Engagement</label>
+          <div className="space-y-2">
+            {(filters.engagement || []).map((rule, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <select
+                  className={cn(selectClassName, "w-36")}
+                  value={rule.match}
+                  onChange={(e) => setRule(index, { match: e.target.value as "did" | "did_not" })}
+                >
+                  <option value="did">Has</option>
+                  <option value="did_not">Has not</option>
+                </select>
+                <select
+                  className={cn(selectClassName, "w-36")}
+                  value={rule.event}
+                  onChange={(e) =>
+                    setRule(index, { event: e.target.value as SegmentEngagementRule["event"] })
+                  }
+                >
+                  {ENGAGEMENT_EVENT_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label.toLowerCase()}
+                    </option>
+                  ))}
+                </select>
+                <span className="whitespace-nowrap text-sm text-muted-foreground">
+                  any campaign in the last
+                </span>
+                <Input
+                  type="number"
+                  min={1}
+                  className="w-20"
+                  value={rule.days}
+                  onChange={(e) => setRule(index, { days: Math.max(parseInt(e.target.value) || 1, 1) })}
+                />
+                <span className="text-sm text-muted-foreground">days</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => removeRule(index)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" onClick={addRule}>
+              <Plus className="h-4 w-4" />
+              Add Engagement Rule
+            </Button>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </div>
+
+      <DialogFooter className="items-center sm:justify-between">
+        <p className="text-sm text-muted-foreground">
+          {matchCount === null ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            `${formatNumber(matchCount)} matching lead${matchCount !== 1 ? "s" : ""}`
+          )}
+        </p>
+        <div className="flex gap-2">
+          {segment && (
+            <Button variant="outline" onClick={handleDelete}>
+              <Trash2 className="h-4 w-4" />
+              Delete
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+            Save Segment
+          </Button>
+        </div>
+      </DialogFooter>
+    </>
+  );
+}
+
+export function SegmentDialog({ open, onOpenChange, ...props }: SegmentDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px]">
+        <SegmentForm onOpenChange={onOpenChange} {...props} />
+      </DialogContent>
+    </Dialog>
+  );
+}
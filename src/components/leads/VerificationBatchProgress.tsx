@@ -0,0 +1,151 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CheckCircle2, Loader2, Play, ShieldCheck, X, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { createClient } from "@/lib/supabase/client";
+import { formatDateTime, formatNumber } from "@/lib/utils";
+import type { VerificationBatch } from "@/types";
+
+interface VerificationBatchProgressProps {
+  // Bump to pick up a batch that was just started
+  refreshKey: number;
+  // Called when the batch has verified more leads
+  onProgress: () => void;
+}
+
+const POLL_INTERVAL_MS = 3000;
+
+const statusConfig = {
+  pending: { label: "Queued", variant: "secondary" as const },
+  running: { label: "Verifying", variant: "info" as const },
+  completed: { label: "Completed", variant: "success" as const },
+  failed: { label: "Failed", variant: "destructive" as const },
+  cancelled: { label: "Cancelled", variant: "warning" as const },
+};
+
+export function VerificationBatchProgress({ refreshKey, onProgress }: VerificationBatchProgressProps) {
+  const [batch, setBatch] = useState<VerificationBatch | null>(null);
+  const [dismissedId, setDismissedId] = useState<string | null>(null);
+  const [acting, setActing] = useState(false);
+
+  const isActive = batch?.status === "pending" || batch?.status === "running";
+  const processed = batch?.processed_count;
+
+  useEffect(() => {
+    async function fetchBatch() {
+      const supabase = createClient();
+      const { data } = await supabase
+        .from("verification_batches")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      setBatch(data);
+    }
+
+    fetchBatch();
+    if (!isActive) return;
+
+    const interval = setInterval(fetchBatch, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refreshKey, isActive]);
+
+  useEffect(() => {
+    if (processed) onProgress();
+  }, [processed, onProgress]);
+
+  if (!batch || batch.id === dismissedId) return null;
+
+  const handleAction = async (action: "cancel" | "resume") => {
+    setActing(true);
+    const response = await fetch(`/api/leads/verify/${batch.id}/${action}`, { method: "POST" });
+    if (response.ok) {
+      const data = await response.json();
+      setBatch({ ...batch, status: data.status });
+    }
+    setActing(false);
+  };
+
+  const status = statusConfig[batch.status];
+  const progress = batch.total_count > 0 ? (batch.processed_count / batch.total_count) * 100 : 0;
+
+  return (
+    <Card className="p-5">
+      <div className="flex items-start justify-between">
+        <div className="flex items-center gap-3">
+          <div className="rounded-lg bg-muted p-2">
+            <ShieldCheck className="h-4 w-4 text-muted-foreground" />
+          </div>
+          <div>
+            <div className="flex items-center gap-2">
+              <p className="font-medium text-foreground">Email Verification</p>
+              <Badge variant={status.variant}>
+                {batch.status === "running" && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                {status.label}
+              </Badge>
+            </div>
+            <p className="mt-0.5 text-sm text-muted-foreground">
+              Started {formatDateTime(batch.started_at || batch.created_at)}
+              {batch.last_error && ` · ${batch.last_error}`}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {isActive && (
+            <Button variant="outline" size="sm" onClick={() => handleAction("cancel")} disabled={acting}>
+              <XCircle className="h-4 w-4" />
+              Cancel
+            </Button>
+          )}
+          {(batch.status === "cancelled" || batch.status === "failed") && (
+            <Button variant="outline" size="sm" onClick={() => handleAction("resume")} disabled={acting}>
+              <Play className="h-4 w-4" />
+              Resume
+            </Button>
+          )}
+          {!isActive && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setDismissedId(batch.id)}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-4">
+        <div className="mb-1 flex justify-between text-xs text-muted-foreground">
+          <span>Progress</span>
+          <span>
+            {formatNumber(batch.processed_count)} / {formatNumber(batch.total_count)}
+          </span>
+        </div>
+        <div className="h-1.5 overflow-hidden rounded-full bg-muted">
+          <div className="h-full bg-foreground transition-all" style={{ width: `${progress}%` }} />
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-wrap gap-6 text-sm">
+        <span className="flex items-center gap-1.5">
+          <CheckCircle2 className="h-4 w-4 text-[#039855]" />
+          {formatNumber(batch.valid_count)} valid
+        </span>
+        <span className="flex items-center gap-1.5">
+          <XCircle className="h-4 w-4 text-destructive" />
+          {formatNumber(batch.invalid_count)} invalid
+        </span>
+        <span className="text-[#dc6803]">{formatNumber(batch.risky_count)} risky</span>
+        {batch.failed_count > 0 && (
+          <span className="text-muted-foreground">{formatNumber(batch.failed_count)} failed</span>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,256 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { createClient } from "@/lib/supabase/client";
+import type { SenderAccount } from "@/types";
+
+interface WarmupNetworkDialogProps {
+  sender: SenderAccount | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (sender: SenderAccount) => void;
+}
+
+const EMPTY_MAILBOX = {
+  host: "",
+  port: 993,
+  secure: true,
+  username: "",
+  password: "",
+  spam_folder: "Spam",
+};
+
+export function WarmupNetworkDialog({ sender, onOpenChange, onSaved }: WarmupNetworkDialogProps) {
+  const [settings, setSettings] = useState({
+    warmup_enabled: false,
+    warmup_daily_target: 5,
+    warmup_reply_rate: 30,
+  });
+  const [mailbox, setMailbox] = useState(EMPTY_MAILBOX);
+  const [connected, setConnected] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!sender) return;
+
+    async function fetchMailbox(current: SenderAccount) {
+      setSettings({
+        warmup_enabled: current.warmup_enabled,
+        warmup_daily_target: current.warmup_daily_target,
+        warmup_reply_rate: current.warmup_reply_rate,
+      });
+      setError(null);
+
+      const response = await fetch(`/api/senders/${current.id}/mailbox`);
+      const { data } = response.ok ? await response.json() : { data: null };
+
+      setConnected(!!data);
+      setMailbox(
+        data
+          ? {
+              host: data.host,
+              port: data.port,
+              secure: data.secure,
+              username: data.username,
+              password: "",
+              spam_folder: data.spam_folder,
+            }
+          : { ...EMPTY_MAILBOX, username: current.email }
+      );
+    }
+
+    fetchMailbox(sender);
+  }, [sender]);
+
+  const handleSave = async () => {
+    if (!sender) return;
+
+    setSaving(true);
+    setError(null);
+
+    // Test and store the IMAP login first; the route rejects bad credentials
+    let mailboxProvider = sender.mailbox_provider;
+    if (mailbox.host) {
+      const response = await fetch(`/api/senders/${sender.id}/mailbox`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          provider: "imap",
+          ...mailbox,
+          password: mailbox.password || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || "Failed to connect mailbox");
+        setSaving(false);
+        return;
+      }
+      mailboxProvider = "imap";
+    }
+
+    const supabase = createClient();
+    const { error: updateError } = await supabase
+      .from("sender_accounts")
+      .update(settings)
+      .eq("id", sender.id);
+
+    if (updateError) {
+      setError(updateError.message);
+    } else {
+      onSaved({ ...sender, ...settings, mailbox_provider: mailboxProvider });
+      onOpenChange(false);
+    }
+
+    setSaving(false);
+  };
+
+  const handleDisconnect = async () => {
+    if (!sender) return;
+
+    const response = await fetch(`/api/senders/${sender.id}/mailbox`, { method: "DELETE" });
+    if (response.ok) {
+      setConnected(false);
+      setMailbox({ ...EMPTY_MAILBOX, username: sender.email });
+      onSaved({ ...sender, mailbox_provider: null });
+    }
+  };
+
+  return (
+    <Dialog open={!!sender} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Warmup Network</DialogTitle>
+          <DialogDescription>
+            {sender?.email} exchanges low-volume conversations with your other mailboxes.
+            Connecting its inbox lets it open, reply to and rescue warmup emails from spam.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <label className="flex items-center gap-2 text-sm font-medium">
+            <input
+              type="checkbox"
+              checked={settings.warmup_enabled}
+              onChange={(e) => setSettings({ ...settings, warmup_enabled: e.target.checked })}
+            />
+            Take part in the warmup network
+          </label>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <label className="mb-2 block text-sm font-medium">Warmup Emails / Day</label>
+              <Input
+                type="number"
+                min={1}
+                max={100}
+                value={settings.warmup_daily_target}
+                onChange={(e) =>
+                  setSettings({ ...settings, warmup_daily_target: parseInt(e.target.value) || 1 })
+                }
+              />
+            </div>
+            <div>
+              <label className="mb-2 block text-sm font-medium">Reply Rate (%)</label>
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                value={settings.warmup_reply_rate}
+                onChange={(e) =>
+                  setSettings({ ...settings, warmup_reply_rate: parseInt(e.target.value) || 0 })
+                }
+              />
+            </div>
+          </div>
+
+          <div className="border-t border-border pt-4">
+            <div className="mb-2 flex items-center justify-between">
+              <p className="text-sm font-medium">IMAP Inbox</p>
+              {connected && (
+                <Button variant="ghost" size="sm" onClick={handleDisconnect}>
+                  Disconnect
+                </Button>
+              )}
+            </div>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="md:col-span-2">
+                <label className="mb-1 block text-xs font-medium text-muted-foreground">Host</label>
+                <Input
+                  value={mailbox.host}
+                  onChange={(e) => setMailbox({ ...mailbox, host: e.target.value })}
+                  placeholder="imap.gmail.com"
+                />
+              </div>
+              <div>
+                <label className="mb-1 block text-xs font-medium text-muted-foreground">Port</label>
+                <Input
+                  type="number"
+                  value={mailbox.port}
+                  onChange={(e) => setMailbox({ ...mailbox, port: parseInt(e.target.value) || 993 })}
+                />
+              </div>
+              <div className="md:col-span-2">
+                <label className="mb-1 block text-xs font-medium text-muted-foreground">
+                  Username
+                </label>
+                <Input
+                  value={mailbox.username}
+                  onChange={(e) => setMailbox({ ...mailbox, username: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="mb-1 block text-xs font-medium text-muted-foreground">
+                  Spam Folder
+                </label>
+                <Input
+                  value={mailbox.spam_folder}
+                  onChange={(e) => setMailbox({ ...mailbox, spam_folder: e.target.value })}
+                />
+              </div>
+              <div className="md:col-span-2">
+                <label className="mb-1 block text-xs font-medium text-muted-foreground">
+                  Password
+                </label>
+                <Input
+                  type="password"
+                  value={mailbox.password}
+                  onChange={(e) => setMailbox({ ...mailbox, password: e.target.value })}
+                  placeholder={connected ? "Unchanged" : "App password"}
+                />
+              </div>
+              <label className="flex items-end gap-2 pb-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={mailbox.secure}
+                  onChange={(e) => setMailbox({ ...mailbox, secure: e.target.checked })}
+                />
+                TLS
+              </label>
+            </div>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
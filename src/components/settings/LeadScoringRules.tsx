@@ -0,0 +1,82 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { SCORING_RULE_OPTIONS } from "@/lib/scoring";
+import type { AppSettings } from "@/lib/settings";
+import type { ScoringRule, ScoringRuleType } from "@/types";
+
+interface LeadScoringRulesProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+}
+
+export function LeadScoringRules({ settings, onChange }: LeadScoringRulesProps) {
+  const rules = settings.scoring_rules;
+
+  const updateRule = (type: ScoringRuleType, changes: Partial<ScoringRule>) => {
+    onChange({
+      ...settings,
+      scoring_rules: rules.map((rule) => (rule.type === type ? { ...rule, ...changes } : rule)),
+    });
+  };
+
+  const maxScore = rules
+    .filter((rule) => rule.enabled && rule.points > 0)
+    .reduce((sum, rule) => sum + rule.points, 0);
+
+  return (
+    <div className="space-y-2">
+      {rules.map((rule) => {
+        const option = SCORING_RULE_OPTIONS.find((o) => o.value === rule.type);
+        if (!option) return null;
+
+        return (
+          <div key={rule.type} className="rounded-lg border border-border p-3">
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={(e) => updateRule(rule.type, { enabled: e.target.checked })}
+              />
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium">{option.label}</p>
+                <p className="text-xs text-muted-foreground">{option.description}</p>
+              </div>
+              <Input
+                type="number"
+                min={-100}
+                max={100}
+                className="w-24"
+                value={rule.points}
+                disabled={!rule.enabled}
+                onChange={(e) => updateRule(rule.type, { points: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+            {option.takesValues && rule.enabled && (
+              <Input
+                className="mt-2"
+                placeholder={
+                  rule.type === "industry" ? "e.g. Plumbing, HVAC" : "e.g. 11-50, 51-200"
+                }
+                defaultValue={(rule.values || []).join(", ")}
+                onBlur={(e) =>
+                  updateRule(rule.type, {
+                    values: e.target.value
+                      .split(",")
+                      .map((value) => value.trim())
+                      .filter(Boolean),
+                  })
+                }
+              />
+            )}
+          </div>
+        );
+      })}
+      <p className="text-xs text-muted-foreground">
+        A lead&apos;s score is the sum of the rules it matches, between 0 and 100 (matching
+        every positive rule gives {maxScore}). Negative points are penalties. Saving new rules
+        re-scores all leads.
+      </p>
+    </div>
+  );
+}
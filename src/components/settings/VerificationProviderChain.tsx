@@ -0,0 +1,185 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { createClient } from "@/lib/supabase/client";
+import { VERIFICATION_PROVIDER_OPTIONS, type AppSettings } from "@/lib/settings";
+import { formatNumber } from "@/lib/utils";
+import { getCreditMonth } from "@/lib/verification/credits";
+
+interface VerificationProviderChainProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+}
+
+export function VerificationProviderChain({ settings, onChange }: VerificationProviderChainProps) {
+  const [usage, setUsage] = useState<Record<string, number>>({});
+  const [clearing, setClearing] = useState(false);
+  const [cleared, setCleared] = useState(false);
+
+  useEffect(() => {
+    async function fetchUsage() {
+      const supabase = createClient();
+      const { data } = await supabase
+        .from("verification_credit_usage")
+        .select("provider, credits_used")
+        .eq("month", getCreditMonth());
+
+      const used: Record<string, number> = {};
+      for (const row of data || []) {
+        used[row.provider] = row.credits_used;
+      }
+      setUsage(used);
+    }
+
+    fetchUsage();
+  }, []);
+
+  const chain = settings.verification_providers;
+
+  // Enabled providers in chain order, then the disabled ones
+  const providers = [
+    ...chain
+      .map((name) => VERIFICATION_PROVIDER_OPTIONS.find((option) => option.value === name))
+      .filter((option): option is (typeof VERIFICATION_PROVIDER_OPTIONS)[number] => !!option),
+    ...VERIFICATION_PROVIDER_OPTIONS.filter((option) => !chain.includes(option.value)),
+  ];
+
+  const setChain = (verification_providers: string[]) => {
+    onChange({ ...settings, verification_providers });
+  };
+
+  const toggleProvider = (name: string) => {
+    setChain(chain.includes(name) ? chain.filter((p) => p !== name) : [...chain, name]);
+  };
+
+  const moveProvider = (name: string, offset: number) => {
+    const index = chain.indexOf(name);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= chain.length) return;
+
+    const next = [...chain];
+    [next[index], next[target]] = [next[target], next[index]];
+    setChain(next);
+  };
+
+  const setBudget = (name: string, value: string) => {
+    const budgets = { ...settings.verification_budgets };
+    if (value === "") {
+      delete budgets[name];
+    } else {
+      budgets[name] = Math.max(parseInt(value) || 0, 0);
+    }
+    onChange({ ...settings, verification_budgets: budgets });
+  };
+
+  const handleClearCache = async () => {
+    setClearing(true);
+    const supabase = createClient();
+    const { error } = await supabase
+      .from("email_verification_cache")
+      .delete()
+      .gte("created_at", "1970-01-01");
+
+    setClearing(false);
+    if (!error) {
+      setCleared(true);
+      setTimeout(() => setCleared(false), 3000);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="mb-2 block text-sm font-medium">Provider Chain</label>
+        <div className="space-y-2">
+          {providers.map((provider) => {
+            const index = chain.indexOf(provider.value);
+            const enabled = index !== -1;
+            const isPaid = provider.value !== "smtp";
+
+            return (
+              <div
+                key={provider.value}
+                className="flex items-center gap-3 rounded-lg border border-border p-3"
+              >
+                <input
+                  type="checkbox"
+                  checked={enabled}
+                  onChange={() => toggleProvider(provider.value)}
+                />
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium">
+                    {enabled && <span className="text-muted-foreground">{index + 1}. </span>}
+                    {provider.label}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {provider.description}
+                    {isPaid &&
+                      ` · ${formatNumber(usage[provider.value] || 0)} credits used this month`}
+                  </p>
+                </div>
+                {isPaid && (
+                  <Input
+                    type="number"
+                    min={0}
+                    className="w-28"
+                    placeholder="No limit"
+                    value={settings.verification_budgets[provider.value] ?? ""}
+                    onChange={(e) => setBudget(provider.value, e.target.value)}
+                  />
+                )}
+                <div className="flex">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={!enabled || index === 0}
+                    onClick={() => moveProvider(provider.value, -1)}
+                  >
+                    <ArrowUp className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={!enabled || index === chain.length - 1}
+                    onClick={() => moveProvider(provider.value, 1)}
+                  >
+                    <ArrowDown className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <p className="mt-1 text-xs text-muted-foreground">
+          Providers are tried in order until one gives a definite answer. The number next to
+          a paid provider is its monthly credit budget.
+        </p>
+      </div>
+
+      <div className="flex items-end gap-4">
+        <div className="flex-1">
+          <label className="mb-2 block text-sm font-medium">Reuse Results For (days)</label>
+          <Input
+            type="number"
+            min={0}
+            max={365}
+            value={settings.verification_cache_days}
+            onChange={(e) =>
+              onChange({ ...settings, verification_cache_days: parseInt(e.target.value) || 0 })
+            }
+          />
+        </div>
+        <Button type="button" variant="outline" onClick={handleClearCache} disabled={clearing}>
+          {cleared ? "Cache Cleared" : "Clear Cache"}
+        </Button>
+      </div>
+    </div>
+  );
+}
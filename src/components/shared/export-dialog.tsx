@@ -0,0 +1,158 @@
+"use client";
+
+import { useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { ExportColumn, ExportFormat } from "@/lib/export";
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  endpoint: string;
+  columns: ExportColumn[];
+  defaultColumns: string[];
+  // Prepended to custom field names, e.g. "custom_fields."
+  customFieldColumnPrefix: string;
+  filterParams?: URLSearchParams;
+  // Extra filter controls shown above the column picker
+  children?: React.ReactNode;
+}
+
+const selectClassName =
+  "flex h-10 w-full rounded-lg border border-input bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring";
+
+export function ExportDialog({
+  open,
+  onOpenChange,
+  title,
+  description,
+  endpoint,
+  columns,
+  defaultColumns,
+  customFieldColumnPrefix,
+  filterParams,
+  children,
+}: ExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [selected, setSelected] = useState<string[]>(defaultColumns);
+  const [customFields, setCustomFields] = useState("");
+
+  const toggleColumn = (key: string) => {
+    setSelected(
+      selected.includes(key) ? selected.filter((column) => column !== key) : [...selected, key]
+    );
+  };
+
+  // Keep the column order of the list rather than the order they were ticked
+  const exportColumns = [
+    ...columns.filter((column) => selected.includes(column.key)).map((column) => column.key),
+    ...customFields
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean)
+      .map((name) => `${customFieldColumnPrefix}${name}`),
+  ];
+
+  const params = new URLSearchParams(filterParams);
+  params.set("format", format);
+  params.set("columns", exportColumns.join(","));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {children}
+
+          <div>
+            <label className="mb-2 block text-sm font-medium">Format</label>
+            <select
+              className={selectClassName}
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+            >
+              <option value="csv">CSV</option>
+              <option value="ndjson">NDJSON (one JSON object per line)</option>
+            </select>
+          </div>
+
+          <div>
+            <div className="mb-2 flex items-center justify-between">
+              <label className="text-sm font-medium">Columns</label>
+              <div className="flex gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSelected(columns.map((column) => column.key))}
+                >
+                  All
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setSelected(defaultColumns)}>
+                  Defaults
+                </Button>
+              </div>
+            </div>
+            <div className="grid max-h-[220px] grid-cols-2 gap-x-4 gap-y-2 overflow-y-auto rounded-lg border border-border p-3">
+              {columns.map((column) => (
+                <label key={column.key} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(column.key)}
+                    onChange={() => toggleColumn(column.key)}
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="mb-2 block text-sm font-medium">Custom Fields</label>
+            <Input
+              placeholder="e.g. tier, account_owner"
+              value={customFields}
+              onChange={(e) => setCustomFields(e.target.value)}
+            />
+            <p className="mt-1 text-xs text-muted-foreground">
+              Each custom field becomes its own column.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          {exportColumns.length === 0 ? (
+            <Button disabled>
+              <Download className="h-4 w-4" />
+              Export
+            </Button>
+          ) : (
+            <a href={`${endpoint}?${params.toString()}`} onClick={() => onOpenChange(false)}>
+              <Button>
+                <Download className="h-4 w-4" />
+                Export
+              </Button>
+            </a>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
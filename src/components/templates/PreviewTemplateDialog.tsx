@@ -10,8 +10,13 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { Mail, User, Building2, Briefcase, Factory, ChevronDown, ChevronUp } from "lucide-react";
+import { Mail, User, Building2, Briefcase, Factory, ChevronDown, ChevronUp, Shuffle } from "lucide-react";
 import { cn } from "@/lib/utils";
+import {
+  extractVariables,
+  renderTemplate,
+  validateTemplate,
+} from "@/lib/utils/template-parser";
 
 interface Template {
   id: string;
@@ -59,13 +64,17 @@ export function PreviewTemplateDialog({
 }: PreviewTemplateDialogProps) {
   const [sampleData, setSampleData] = useState(defaultSampleData);
   const [showVariables, setShowVariables] = useState(false);
+  const [spinSeed, setSpinSeed] = useState(0);
 
   if (!template) return null;
 
+  const body = template.body_html || template.body_text || "";
+  const variables = extractVariables(template.subject + "\n" + body);
+  const templateError = validateTemplate(template.subject) || validateTemplate(body);
+  const hasSpintax = /\{[^{}]*\|[^{}]*\}/.test(template.subject + body);
+
   const replaceVariables = (text: string): string => {
-    return text.replace(/\{\{(\w+)\}\}/g, (match, variable) => {
-      return sampleData[variable] || match;
-    });
+    return renderTemplate(text, sampleData, `preview:${spinSeed}`);
   };
 
   const updateSampleData = (key: string, value: string) => {
@@ -73,7 +82,7 @@ export function PreviewTemplateDialog({
   };
 
   const previewSubject = replaceVariables(template.subject);
-  const previewBody = replaceVariables(template.body_html || template.body_text || "");
+  const previewBody = replaceVariables(body);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -90,11 +99,28 @@ export function PreviewTemplateDialog({
                 {typeConfig[template.template_type as keyof typeof typeConfig]?.label}
               </Badge>
             </div>
+            {hasSpintax && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="mr-8"
+                onClick={() => setSpinSeed((seed) => seed + 1)}
+              >
+                <Shuffle className="h-3.5 w-3.5" />
+                Shuffle Spintax
+              </Button>
+            )}
           </div>
         </DialogHeader>
 
+        {templateError && (
+          <div className="border-b border-border bg-destructive/10 px-6 py-3 text-sm text-destructive">
+            Line {templateError.line}, column {templateError.column}: {templateError.message}
+          </div>
+        )}
+
         {/* Sample Data Panel */}
-        {template.variables && template.variables.length > 0 && (
+        {variables.length > 0 && (
           <div className="border-b border-border">
             <button
               onClick={() => setShowVariables(!showVariables)}
@@ -102,7 +128,7 @@ export function PreviewTemplateDialog({
             >
               <span className="flex items-center gap-2">
                 <span className="font-medium">Sample Data</span>
-                <span className="text-xs">({template.variables.length} variables)</span>
+                <span className="text-xs">({variables.length} variables)</span>
               </span>
               {showVariables ? (
                 <ChevronUp className="h-4 w-4" />
@@ -113,7 +139,7 @@ export function PreviewTemplateDialog({
 
             {showVariables && (
               <div className="px-6 pb-4 grid grid-cols-2 md:grid-cols-3 gap-3">
-                {template.variables.map((variable) => {
+                {variables.map((variable) => {
                   const Icon = variableIcons[variable] || User;
                   return (
                     <div key={variable} className="space-y-1.5">
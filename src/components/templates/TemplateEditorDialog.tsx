@@ -13,6 +13,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { createClient } from "@/lib/supabase/client";
+import { extractVariables, validateTemplate } from "@/lib/utils/template-parser";
 
 interface Template {
   id: string;
@@ -82,24 +83,32 @@ export function TemplateEditorDialog({
     }
   }, [template, open]);
 
-  const extractVariables = (text: string): string[] => {
-    const regex = /\{\{(\w+)\}\}/g;
-    const matches = new Set<string>();
-    let match;
-    while ((match = regex.exec(text)) !== null) {
-      matches.add(match[1]);
-    }
-    return Array.from(matches);
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setLoading(true);
     setError(null);
 
+    // Reject templates with syntax errors, pointing at the first one
+    const fields = [
+      { label: "Subject Line", value: formData.subject },
+      { label: "Email Body (HTML)", value: formData.body_html },
+      { label: "Plain Text Version", value: formData.body_text },
+    ];
+    for (const field of fields) {
+      const templateError = validateTemplate(field.value);
+      if (templateError) {
+        setError(
+          `${field.label}, line ${templateError.line}, column ${templateError.column}: ${templateError.message}`
+        );
+        return;
+      }
+    }
+
+    setLoading(true);
     const supabase = createClient();
 
-    const variables = extractVariables(formData.subject + formData.body_html + formData.body_text);
+    const variables = [
+      ...new Set(fields.flatMap((field) => extractVariables(field.value))),
+    ];
 
     const templateData = {
       name: formData.name,
@@ -215,6 +224,9 @@ export function TemplateEditorDialog({
               placeholder={`Hi {{firstName}},\n\nI noticed that {{company}} is doing great work in the {{industry}} space.\n\nI'd love to discuss how we can help you...\n\nBest,\nYour Name`}
               required
             />
+            <p className="mt-1 text-xs text-muted-foreground">
+              {"Supports {Hi|Hello} spintax, {{firstName|friend}} fallbacks, {{#if company}}…{{else}}…{{/if}} blocks and {{custom.key}} / {{enrichment.key}} lead fields."}
+            </p>
           </div>
 
           <div>
@@ -0,0 +1,165 @@
+"use client";
+
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { RAMP_PROFILE_OPTIONS, WARMUP_PROFILES } from "@/lib/warmup";
+import type { WarmupRampConfig, WarmupRampProfile, WarmupRampStep } from "@/types";
+
+interface RampProfileEditorProps {
+  profile: WarmupRampProfile;
+  config: WarmupRampConfig;
+  onChange: (profile: WarmupRampProfile, config: WarmupRampConfig) => void;
+}
+
+const THRESHOLD_FIELDS: {
+  key: Exclude<keyof WarmupRampConfig, "schedule">;
+  label: string;
+  min: number;
+  max: number;
+  step?: number;
+}[] = [
+  { key: "min_deliverability_rate", label: "Min Deliverability (%)", min: 0, max: 100, step: 0.5 },
+  { key: "max_bounce_rate", label: "Max Bounce Rate (%)", min: 0, max: 100, step: 0.5 },
+  { key: "min_emails_for_health_check", label: "Emails per Health Check", min: 1, max: 10000 },
+  { key: "ramp_back_percentage", label: "Ramp-back (%)", min: 1, max: 90 },
+];
+
+export function RampProfileEditor({ profile, config, onChange }: RampProfileEditorProps) {
+  const isCustom = profile === "custom";
+
+  // Switching to custom starts from the current profile's ramp
+  const handleProfileChange = (value: WarmupRampProfile) => {
+    onChange(
+      value,
+      value === "custom" ? config : WARMUP_PROFILES[value].config
+    );
+  };
+
+  const updateStep = (index: number, changes: Partial<WarmupRampStep>) => {
+    onChange(profile, {
+      ...config,
+      schedule: config.schedule.map((step, i) => (i === index ? { ...step, ...changes } : step)),
+    });
+  };
+
+  const addStep = () => {
+    const last = config.schedule[config.schedule.length - 1];
+    onChange(profile, {
+      ...config,
+      schedule: [
+        ...config.schedule,
+        last ? { day: last.day + 3, limit: Math.round(last.limit * 1.5) } : { day: 1, limit: 10 },
+      ],
+    });
+  };
+
+  const removeStep = (index: number) => {
+    onChange(profile, {
+      ...config,
+      schedule: config.schedule.filter((_, i) => i !== index),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="mb-2 block text-sm font-medium">Ramp Profile</label>
+        <select
+          className="flex h-10 w-full rounded-lg border border-input bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+          value={profile}
+          onChange={(e) => handleProfileChange(e.target.value as WarmupRampProfile)}
+        >
+          {RAMP_PROFILE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-muted-foreground">
+          {isCustom
+            ? "Define your own ramp and health thresholds"
+            : WARMUP_PROFILES[profile].description}
+        </p>
+      </div>
+
+      {isCustom ? (
+        <>
+          <div>
+            <label className="mb-2 block text-sm font-medium">Ramp Steps</label>
+            <div className="max-h-48 space-y-2 overflow-y-auto">
+              {config.schedule.map((step, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="w-10 text-xs text-muted-foreground">Day</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={step.day}
+                    onChange={(e) => updateStep(index, { day: parseInt(e.target.value) || 0 })}
+                  />
+                  <span className="w-20 text-xs text-muted-foreground">emails/day</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={step.limit}
+                    onChange={(e) => updateStep(index, { limit: parseInt(e.target.value) || 0 })}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 flex-shrink-0"
+                    onClick={() => removeStep(index)}
+                    disabled={config.schedule.length === 1}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <Button type="button" variant="outline" size="sm" className="mt-2" onClick={addStep}>
+              <Plus className="h-4 w-4" />
+              Add Step
+            </Button>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            {THRESHOLD_FIELDS.map((field) => (
+              <div key={field.key}>
+                <label className="mb-1 block text-xs font-medium text-muted-foreground">
+                  {field.label}
+                </label>
+                <Input
+                  type="number"
+                  min={field.min}
+                  max={field.max}
+                  step={field.step}
+                  value={config[field.key]}
+                  onChange={(e) =>
+                    onChange(profile, { ...config, [field.key]: parseFloat(e.target.value) || 0 })
+                  }
+                />
+              </div>
+            ))}
+          </div>
+        </>
+      ) : (
+        <div className="grid grid-cols-2 gap-2 rounded-lg bg-muted p-3 text-xs">
+          <span className="text-muted-foreground">Starts at</span>
+          <span className="font-medium">{config.schedule[0]?.limit} emails/day</span>
+          <span className="text-muted-foreground">Reaches</span>
+          <span className="font-medium">
+            {config.schedule[config.schedule.length - 1]?.limit} emails/day on day{" "}
+            {config.schedule[config.schedule.length - 1]?.day}
+          </span>
+          <span className="text-muted-foreground">Healthy when</span>
+          <span className="font-medium">
+            ≥{config.min_deliverability_rate}% delivered, ≤{config.max_bounce_rate}% bounced
+          </span>
+          <span className="text-muted-foreground">On poor health</span>
+          <span className="font-medium">Ramp back {config.ramp_back_percentage}%</span>
+        </div>
+      )}
+    </div>
+  );
+}
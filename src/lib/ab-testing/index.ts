@@ -0,0 +1,221 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AbTestConfig, AbVariant, AbWinnerMetric, EmailTemplate } from "@/types";
+
+export interface VariantStats {
+  variant: string;
+  assigned: number;
+  sent: number;
+  opened: number;
+  clicked: number;
+  replied: number;
+  last_sent_at: string | null;
+}
+
+export const MAX_AB_VARIANTS = 5;
+
+export const AB_WINNER_METRICS: { value: AbWinnerMetric; label: string }[] = [
+  { value: "open", label: "Open rate" },
+  { value: "click", label: "Click rate" },
+  { value: "reply", label: "Reply rate" },
+];
+
+export const DEFAULT_AB_TEST: AbTestConfig = {
+  variants: [],
+  test_percentage: 20,
+  sample_size: 100,
+  wait_hours: 24,
+  winner_metric: "open",
+  winner_variant: null,
+  winner_selected_at: null,
+  winner_confidence: null,
+};
+
+// Variant IDs are letters: A, B, C...
+export function getVariantId(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+// A new test with two empty variants
+export function createAbTestConfig(): AbTestConfig {
+  return {
+    ...DEFAULT_AB_TEST,
+    variants: [0, 1].map((i) => ({ id: getVariantId(i), subject: "", body_html: null })),
+  };
+}
+
+// Normalize the stored ab_variants JSON, or null if the test isn't usable
+export function parseAbTestConfig(raw: unknown): AbTestConfig | null {
+  if (!raw || typeof raw !== "object") return null;
+
+  const config = { ...DEFAULT_AB_TEST, ...(raw as Partial<AbTestConfig>) };
+  if (!Array.isArray(config.variants) || config.variants.length < 2) return null;
+
+  return config;
+}
+
+// Number of campaign leads that take part in the test before the winner is used
+export function getTestPoolSize(totalLeads: number, config: AbTestConfig): number {
+  return Math.ceil((totalLeads * config.test_percentage) / 100);
+}
+
+// Assign the variant with the fewest campaign leads so far
+export function pickVariant(config: AbTestConfig, assigned: Record<string, number>): string {
+  return config.variants.reduce((best, variant) =>
+    (assigned[variant.id] || 0) < (assigned[best.id] || 0) ? variant : best
+  ).id;
+}
+
+// Apply a variant's subject/body on top of the step template
+export function applyVariant(
+  template: Pick<EmailTemplate, "subject" | "body_html" | "body_text">,
+  variant: AbVariant | undefined
+): Pick<EmailTemplate, "subject" | "body_html" | "body_text"> {
+  if (!variant) return template;
+
+  return {
+    subject: variant.subject || template.subject,
+    body_html: variant.body_html || template.body_html,
+    // A custom HTML body makes the template's text version stale
+    body_text: variant.body_html ? null : template.body_text,
+  };
+}
+
+function getMetricCount(stats: VariantStats, metric: AbWinnerMetric): number {
+  switch (metric) {
+    case "click":
+      return stats.clicked;
+    case "reply":
+      return stats.replied;
+    default:
+      return stats.opened;
+  }
+}
+
+export function getVariantRate(stats: VariantStats, metric: AbWinnerMetric): number {
+  return stats.sent > 0 ? (getMetricCount(stats, metric) / stats.sent) * 100 : 0;
+}
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26)
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const erf =
+    1 -
+    (((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t +
+      0.254829592) *
+      t) *
+      Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Two-proportion z-test confidence (0-100) that `a` and `b` really differ
+export function getSignificance(
+  a: VariantStats,
+  b: VariantStats,
+  metric: AbWinnerMetric
+): number {
+  if (a.sent === 0 || b.sent === 0) return 0;
+
+  const successesA = getMetricCount(a, metric);
+  const successesB = getMetricCount(b, metric);
+  const pooled = (successesA + successesB) / (a.sent + b.sent);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / a.sent + 1 / b.sent));
+
+  if (standardError === 0) return 0;
+
+  const z = (successesA / a.sent - successesB / b.sent) / standardError;
+  return (2 * normalCdf(Math.abs(z)) - 1) * 100;
+}
+
+// Rank variants by the winner metric, with confidence of the leader over the runner-up
+export function rankVariants(
+  stats: VariantStats[],
+  metric: AbWinnerMetric
+): { leader: VariantStats | null; confidence: number } {
+  const ranked = [...stats].sort(
+    (a, b) => getVariantRate(b, metric) - getVariantRate(a, metric)
+  );
+
+  if (ranked.length < 2) return { leader: ranked[0] || null, confidence: 0 };
+
+  return {
+    leader: ranked[0],
+    confidence: getSignificance(ranked[0], ranked[1], metric),
+  };
+}
+
+// The test is decided once each variant reached the sample size (or the test
+// pool is used up) and the last test send had `wait_hours` to collect engagement
+export function isReadyForWinner(
+  config: AbTestConfig,
+  stats: VariantStats[],
+  testPoolSize: number,
+  now: Date = new Date()
+): boolean {
+  const totalAssigned = stats.reduce((sum, s) => sum + s.assigned, 0);
+  const totalSent = stats.reduce((sum, s) => sum + s.sent, 0);
+
+  if (totalSent === 0) return false;
+
+  const sampleReached = stats.every((s) => s.sent >= config.sample_size);
+  const poolUsed = totalAssigned >= testPoolSize;
+  if (!sampleReached && !poolUsed) return false;
+
+  const lastSentAt = stats
+    .map((s) => (s.last_sent_at ? new Date(s.last_sent_at).getTime() : 0))
+    .reduce((latest, time) => Math.max(latest, time), 0);
+
+  return now.getTime() - lastSentAt >= config.wait_hours * 60 * 60 * 1000;
+}
+
+// Count assignments and engagement per variant for a campaign. Engagement
+// comes from step 1 events only, since follow-up steps are shared by all
+// variants
+export async function getVariantStats(
+  supabase: SupabaseClient,
+  campaignId: string,
+  config: AbTestConfig
+): Promise<VariantStats[]> {
+  const { data: engagement, error } = await supabase.rpc("ab_variant_engagement", {
+    p_campaign_id: campaignId,
+  });
+
+  if (error) throw new Error(`Failed to load variant engagement: ${error.message}`);
+
+  const rows: { variant: string; event_type: string; leads: number }[] = engagement || [];
+  const engaged = (variant: string, eventType: string) =>
+    Number(rows.find((row) => row.variant === variant && row.event_type === eventType)?.leads || 0);
+
+  return Promise.all(
+    config.variants.map(async (variant) => {
+      const base = () =>
+        supabase
+          .from("campaign_leads")
+          .select("*", { count: "exact", head: true })
+          .eq("campaign_id", campaignId)
+          .eq("variant", variant.id);
+
+      const [assigned, sent, lastSent] = await Promise.all([
+        base(),
+        base().not("sent_at", "is", null),
+        supabase
+          .from("campaign_leads")
+          .select("sent_at")
+          .eq("campaign_id", campaignId)
+          .eq("variant", variant.id)
+          .not("sent_at", "is", null)
+          .order("sent_at", { ascending: false })
+          .limit(1),
+      ]);
+
+      return {
+        variant: variant.id,
+        assigned: assigned.count || 0,
+        sent: sent.count || 0,
+        opened: engaged(variant.id, "opened"),
+        clicked: engaged(variant.id, "clicked"),
+        replied: engaged(variant.id, "replied"),
+        last_sent_at: lastSent.data?.[0]?.sent_at || null,
+      };
+    })
+  );
+}
@@ -0,0 +1,66 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ScraperResult } from "@/scrapers/base/scraper";
+
+// Save a scraped business as a company, matching an existing one by place
+// id, website domain or name + phone (see upsert_company()). Results without
+// a business name are skipped.
+export async function upsertCompany(
+  supabase: SupabaseClient,
+  result: ScraperResult,
+  options: { source: string; scraperJobId?: string }
+): Promise<{ id: string; created: boolean } | null> {
+  if (!result.company_name?.trim()) return null;
+
+  const { data, error } = await supabase
+    .rpc("upsert_company", {
+      p_company: {
+        name: result.company_name,
+        website: result.company_website || null,
+        phone: result.phone || null,
+        address: result.address || null,
+        city: result.city || null,
+        state: result.state || null,
+        country: result.country || null,
+        rating: result.rating ?? null,
+        reviews_count: result.reviews_count ?? null,
+        category: result.category || result.industry || null,
+        source: options.source,
+        source_url: result.source_url || null,
+        place_id: result.place_id || null,
+        scraper_job_id: options.scraperJobId || null,
+        raw_data: result.raw_data || {},
+      },
+    })
+    .single<{ company_id: string; created: boolean }>();
+
+  if (error || !data) {
+    throw new Error(`Failed to save company: ${error?.message || "no result"}`);
+  }
+
+  return { id: data.company_id, created: data.created };
+}
+
+// The scraper result a company would have produced, for enriching it later
+export function companyToScraperResult(company: {
+  name: string;
+  website: string | null;
+  phone: string | null;
+  address: string | null;
+  city: string | null;
+  state: string | null;
+  country: string | null;
+  category: string | null;
+  source_url: string | null;
+}): ScraperResult {
+  return {
+    company_name: company.name,
+    company_website: company.website || undefined,
+    phone: company.phone || undefined,
+    address: company.address || undefined,
+    city: company.city || undefined,
+    state: company.state || undefined,
+    country: company.country || undefined,
+    industry: company.category || undefined,
+    source_url: company.source_url || undefined,
+  };
+}
@@ -0,0 +1,127 @@
+import type { EmailPattern } from "@/types";
+
+// Most common corporate address formats, most likely first
+export const EMAIL_PATTERNS: { value: EmailPattern; example: string }[] = [
+  { value: "first.last", example: "jane.doe@" },
+  { value: "flast", example: "jdoe@" },
+  { value: "first", example: "jane@" },
+  { value: "firstlast", example: "janedoe@" },
+  { value: "f.last", example: "j.doe@" },
+  { value: "first_last", example: "jane_doe@" },
+  { value: "firstl", example: "janed@" },
+  { value: "last.first", example: "doe.jane@" },
+  { value: "last", example: "doe@" },
+];
+
+// Each candidate can cost a verification credit, so only the likeliest are tried
+export const MAX_CANDIDATES = 6;
+
+export interface EmailCandidate {
+  email: string;
+  pattern: EmailPattern;
+}
+
+export interface DomainPatternStats {
+  // Verified addresses at the domain that fit each pattern
+  counts: Partial<Record<EmailPattern, number>>;
+  total: number;
+}
+
+// "José-Luis" -> "joseluis"; drops accents and anything that isn't a letter
+export function normalizeNamePart(value: string | null | undefined): string {
+  return (value || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z]/g, "");
+}
+
+// "https://www.acme.com/about" or "jane@acme.com" -> "acme.com"
+export function normalizeDomain(value: string): string | null {
+  const trimmed = value.trim().toLowerCase();
+  if (!trimmed) return null;
+
+  const host = trimmed.includes("@")
+    ? trimmed.split("@").pop() || ""
+    : trimmed.replace(/^[a-z]+:\/\//, "").split(/[/:?#]/)[0];
+  const domain = host.replace(/^www\./, "");
+
+  return /^[a-z0-9.-]+\.[a-z]{2,}$/.test(domain) ? domain : null;
+}
+
+export function buildLocalPart(pattern: EmailPattern, first: string, last: string): string | null {
+  if (!first || (!last && pattern !== "first")) return null;
+
+  switch (pattern) {
+    case "first.last":
+      return `${first}.${last}`;
+    case "flast":
+      return `${first[0]}${last}`;
+    case "first":
+      return first;
+    case "firstlast":
+      return `${first}${last}`;
+    case "f.last":
+      return `${first[0]}.${last}`;
+    case "first_last":
+      return `${first}_${last}`;
+    case "firstl":
+      return `${first}${last[0]}`;
+    case "last.first":
+      return `${last}.${first}`;
+    case "last":
+      return last;
+  }
+}
+
+// Which pattern an existing address follows, if any
+export function detectEmailPattern(
+  email: string,
+  firstName: string | null,
+  lastName: string | null
+): EmailPattern | null {
+  const localPart = email.split("@")[0]?.toLowerCase();
+  const first = normalizeNamePart(firstName);
+  const last = normalizeNamePart(lastName);
+  if (!localPart || !first) return null;
+
+  const match = EMAIL_PATTERNS.find(
+    ({ value }) => buildLocalPart(value, first, last) === localPart
+  );
+  return match?.value || null;
+}
+
+// Candidate addresses, patterns seen most at the domain first, then the
+// usual order
+export function generateEmailCandidates(
+  firstName: string,
+  lastName: string,
+  domain: string,
+  stats?: DomainPatternStats
+): EmailCandidate[] {
+  const first = normalizeNamePart(firstName);
+  const last = normalizeNamePart(lastName);
+  const counts = stats?.counts || {};
+
+  const patterns = EMAIL_PATTERNS.map((p) => p.value).sort(
+    (a, b) => (counts[b] || 0) - (counts[a] || 0)
+  );
+
+  const candidates: EmailCandidate[] = [];
+  for (const pattern of patterns) {
+    const localPart = buildLocalPart(pattern, first, last);
+    if (!localPart) continue;
+
+    const email = `${localPart}@${domain}`;
+    if (!candidates.some((candidate) => candidate.email === email)) {
+      candidates.push({ email, pattern });
+    }
+  }
+
+  return candidates.slice(0, MAX_CANDIDATES);
+}
+
+// Share of the domain's known addresses that use this pattern (0-1)
+export function getPatternShare(pattern: EmailPattern, stats: DomainPatternStats): number {
+  return stats.total > 0 ? (stats.counts[pattern] || 0) / stats.total : 0;
+}
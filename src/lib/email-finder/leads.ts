@@ -0,0 +1,236 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AppSettings } from "@/lib/settings";
+import { isRoleAccount } from "@/lib/verification";
+import { verifyWithChain } from "@/lib/verification/chain";
+import { escapeLike, findLeadByEmail, normalizeEmail } from "@/lib/leads/duplicates";
+import type { EmailPattern, EmailVerificationReason, EmailVerificationResult } from "@/types";
+import {
+  detectEmailPattern,
+  generateEmailCandidates,
+  getPatternShare,
+  normalizeDomain,
+  type DomainPatternStats,
+} from "./index";
+
+export interface EmailFinderInput {
+  firstName: string;
+  lastName: string;
+  // Domain, website URL or an address at the company
+  domain: string;
+}
+
+export interface EmailFinderResult {
+  email: string | null;
+  pattern: EmailPattern | null;
+  // 0-100: how sure we are the address reaches this person
+  confidence: number;
+  verification: EmailVerificationResult | null;
+  candidatesTried: string[];
+}
+
+export type EmailFinderOutcome = "found" | "suggested" | "created" | "exists" | "not_found" | "skipped";
+
+// Verdicts that rule out every address on the domain
+const DEAD_DOMAIN_REASONS: EmailVerificationReason[] = [
+  "invalid_domain",
+  "no_mx_record",
+  "disposable_domain",
+];
+
+// Leads whose verified address fits a pattern teach us the domain's format
+const PATTERN_SAMPLE_SIZE = 200;
+
+export async function learnDomainPatterns(
+  supabase: SupabaseClient,
+  domain: string
+): Promise<DomainPatternStats> {
+  const { data } = await supabase
+    .from("leads")
+    .select("email, first_name, last_name")
+    .eq("email_verification_status", "valid")
+    .ilike("email", `%@${escapeLike(domain)}`)
+    .not("first_name", "is", null)
+    .limit(PATTERN_SAMPLE_SIZE);
+
+  const stats: DomainPatternStats = { counts: {}, total: 0 };
+  for (const lead of data || []) {
+    const pattern = detectEmailPattern(lead.email, lead.first_name, lead.last_name);
+    if (!pattern) continue;
+
+    stats.counts[pattern] = (stats.counts[pattern] || 0) + 1;
+    stats.total++;
+  }
+
+  return stats;
+}
+
+// Confidence in an unconfirmed guess: the share of the domain's known
+// addresses using the pattern, trusted fully from five samples upward
+function guessConfidence(pattern: EmailPattern, stats: DomainPatternStats): number {
+  const weight = Math.min(stats.total, 5) / 5;
+  return Math.round(25 + 50 * getPatternShare(pattern, stats) * weight);
+}
+
+// Try the likeliest addresses for a person against the verification chain,
+// stopping at the first mailbox that exists. Catch-all and unreachable
+// domains can't confirm any candidate, so the best guess is returned with a
+// lower confidence instead.
+export async function findEmail(
+  supabase: SupabaseClient,
+  input: EmailFinderInput,
+  settings: AppSettings
+): Promise<EmailFinderResult> {
+  const notFound: EmailFinderResult = {
+    email: null,
+    pattern: null,
+    confidence: 0,
+    verification: null,
+    candidatesTried: [],
+  };
+
+  const domain = normalizeDomain(input.domain);
+  if (!domain) return notFound;
+
+  const stats = await learnDomainPatterns(supabase, domain);
+  const candidates = generateEmailCandidates(input.firstName, input.lastName, domain, stats);
+
+  for (const candidate of candidates) {
+    const { result } = await verifyWithChain(supabase, candidate.email, settings);
+    notFound.candidatesTried.push(candidate.email);
+
+    if (result.status === "valid" && !result.is_catch_all) {
+      return {
+        email: candidate.email,
+        pattern: candidate.pattern,
+        confidence: Math.round(90 + 10 * getPatternShare(candidate.pattern, stats)),
+        verification: result,
+        candidatesTried: notFound.candidatesTried,
+      };
+    }
+
+    if (result.reasons.some((reason) => DEAD_DOMAIN_REASONS.includes(reason))) {
+      return notFound;
+    }
+
+    // Catch-all or unreachable: every other candidate would get the same
+    // answer, and this one is the likeliest
+    if (result.status !== "invalid") {
+      return {
+        email: candidate.email,
+        pattern: candidate.pattern,
+        confidence: guessConfidence(candidate.pattern, stats),
+        verification: result.status === "unknown" ? { ...result, status: "risky" } : result,
+        candidatesTried: notFound.candidatesTried,
+      };
+    }
+  }
+
+  return notFound;
+}
+
+function toLeadFields(found: EmailFinderResult) {
+  const result = found.verification!;
+
+  return {
+    email_verified: result.status === "valid",
+    email_verification_status: result.status,
+    email_verified_at: result.status === "valid" ? result.checked_at : null,
+    email_verification_provider: result.provider,
+    email_verification_result: result,
+    email_catch_all: result.is_catch_all,
+    email_confidence: found.confidence,
+    email_pattern: found.pattern,
+  };
+}
+
+// Find a personal address for a lead from its name and company website.
+// The winner replaces the lead's email when the current one is a role
+// address (info@, sales@) or known to bounce; otherwise it is kept in
+// enrichment_data as a suggestion.
+export async function findLeadEmail(
+  supabase: SupabaseClient,
+  leadId: string,
+  settings: AppSettings
+): Promise<{ outcome: EmailFinderOutcome; result: EmailFinderResult | null }> {
+  const { data: lead, error } = await supabase
+    .from("leads")
+    .select("id, email, first_name, last_name, company_website, email_verification_status, enrichment_data")
+    .eq("id", leadId)
+    .single();
+
+  if (error || !lead) throw new Error(`Lead not found: ${leadId}`);
+
+  if (!lead.first_name || !lead.last_name || !lead.company_website) {
+    return { outcome: "skipped", result: null };
+  }
+
+  const result = await findEmail(
+    supabase,
+    { firstName: lead.first_name, lastName: lead.last_name, domain: lead.company_website },
+    settings
+  );
+  if (!result.email) return { outcome: "not_found", result };
+
+  const replaceable = isRoleAccount(lead.email) || lead.email_verification_status === "invalid";
+  const sameEmail = normalizeEmail(lead.email) === result.email;
+  const owner = sameEmail ? null : await findLeadByEmail(supabase, result.email);
+
+  if (sameEmail || (replaceable && !owner)) {
+    await supabase
+      .from("leads")
+      .update({ email: result.email, ...toLeadFields(result) })
+      .eq("id", leadId);
+
+    return { outcome: "found", result };
+  }
+
+  await supabase
+    .from("leads")
+    .update({
+      enrichment_data: {
+        ...(lead.enrichment_data || {}),
+        found_email: result.email,
+        found_email_confidence: result.confidence,
+        found_email_pattern: result.pattern,
+      },
+    })
+    .eq("id", leadId);
+
+  return { outcome: "suggested", result };
+}
+
+// Find an address for someone who isn't a lead yet and add them as one.
+// leadFields (job title, source, scraper job, ...) are saved on the new lead
+export async function createLeadFromEmailFinder(
+  supabase: SupabaseClient,
+  input: EmailFinderInput & { companyName?: string },
+  settings: AppSettings,
+  leadFields: Record<string, unknown> = {}
+): Promise<{ outcome: EmailFinderOutcome; result: EmailFinderResult; leadId: string | null }> {
+  const result = await findEmail(supabase, input, settings);
+  if (!result.email) return { outcome: "not_found", result, leadId: null };
+
+  const existing = await findLeadByEmail(supabase, result.email);
+  if (existing) return { outcome: "exists", result, leadId: existing.id };
+
+  const { data: lead, error } = await supabase
+    .from("leads")
+    .insert({
+      email: result.email,
+      first_name: input.firstName,
+      last_name: input.lastName,
+      company_name: input.companyName || null,
+      company_website: normalizeDomain(input.domain),
+      source: "manual",
+      status: "new",
+      ...leadFields,
+      ...toLeadFields(result),
+    })
+    .select("id")
+    .single();
+
+  if (error?.code === "23505") return { outcome: "exists", result, leadId: null };
+  if (error) throw new Error(`Failed to create lead: ${error.message}`);
+
+  return { outcome: "created", result, leadId: lead.id };
+}
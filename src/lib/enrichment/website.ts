@@ -0,0 +1,177 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ScraperResult } from "@/scrapers/base/scraper";
+import {
+  WebsiteContactScraper,
+  pickContactEmail,
+  normalizeWebsiteUrl,
+  type WebsiteContacts,
+} from "@/scrapers/website/scraper";
+import { findLeadByEmail, normalizeEmail } from "@/lib/leads/duplicates";
+import { companyToScraperResult } from "@/lib/companies";
+
+export type WebsiteEnrichmentOutcome = "created" | "updated" | "enriched" | "no_contacts";
+
+// Flat keys so they are also usable as {{enrichment.website_emails}} etc.
+function toEnrichmentData(contacts: WebsiteContacts): Record<string, unknown> {
+  return {
+    website_emails: contacts.emails,
+    website_phones: contacts.phones,
+    social_links: contacts.social_links,
+    website_pages: contacts.pages,
+    website_crawled_at: new Date().toISOString(),
+  };
+}
+
+function getCompanyLinkedin(contacts: WebsiteContacts): string | null {
+  const linkedin = contacts.social_links.linkedin;
+  return linkedin && linkedin.includes("/company/") ? linkedin : null;
+}
+
+// Crawl an existing lead's company website and store what was found,
+// filling phone and company LinkedIn when the lead has none
+export async function enrichLeadFromWebsite(
+  supabase: SupabaseClient,
+  leadId: string
+): Promise<WebsiteEnrichmentOutcome> {
+  const { data: lead, error } = await supabase
+    .from("leads")
+    .select("id, company_website, phone, company_linkedin, enrichment_data")
+    .eq("id", leadId)
+    .single();
+
+  if (error || !lead) throw new Error(`Lead not found: ${leadId}`);
+
+  const website = lead.company_website ? normalizeWebsiteUrl(lead.company_website) : null;
+  if (!website) return "no_contacts";
+
+  const contacts = await new WebsiteContactScraper().crawl(website);
+
+  await supabase
+    .from("leads")
+    .update({
+      phone: lead.phone || contacts.phones[0] || null,
+      company_linkedin: lead.company_linkedin || getCompanyLinkedin(contacts),
+      enrichment_data: { ...(lead.enrichment_data || {}), ...toEnrichmentData(contacts) },
+    })
+    .eq("id", leadId);
+
+  return contacts.emails.length > 0 || contacts.phones.length > 0 ? "enriched" : "no_contacts";
+}
+
+async function saveCompanyContacts(
+  supabase: SupabaseClient,
+  companyId: string,
+  contacts: WebsiteContacts
+): Promise<void> {
+  const { data: company } = await supabase
+    .from("companies")
+    .select("phone, enrichment_data")
+    .eq("id", companyId)
+    .single();
+
+  await supabase
+    .from("companies")
+    .update({
+      phone: company?.phone || contacts.phones[0] || null,
+      enrichment_data: { ...(company?.enrichment_data || {}), ...toEnrichmentData(contacts) },
+    })
+    .eq("id", companyId);
+}
+
+// A scraper result with a website but no email becomes a lead once the
+// website gives up an email address. With a companyId, what the crawl found
+// is also kept on the company and the lead is linked to it
+export async function createLeadFromWebsite(
+  supabase: SupabaseClient,
+  result: ScraperResult,
+  options: { source: string; scraperJobId?: string; companyId?: string }
+): Promise<WebsiteEnrichmentOutcome> {
+  const website = result.company_website ? normalizeWebsiteUrl(result.company_website) : null;
+  if (!website) return "no_contacts";
+
+  const contacts = await new WebsiteContactScraper().crawl(website);
+  if (options.companyId) {
+    await saveCompanyContacts(supabase, options.companyId, contacts);
+  }
+
+  const email = pickContactEmail(contacts.emails, website);
+  if (!email) return "no_contacts";
+
+  const enrichmentData = toEnrichmentData(contacts);
+  const existing = await findLeadByEmail(supabase, email);
+
+  if (existing) {
+    const { data: lead } = await supabase
+      .from("leads")
+      .select(
+        "company_name, phone, company_website, city, state, address, source_url, company_id, enrichment_data"
+      )
+      .eq("id", existing.id)
+      .single();
+
+    // Only fill what the lead is missing, as enrichLeadFromWebsite does
+    await supabase
+      .from("leads")
+      .update({
+        company_name: lead?.company_name || result.company_name || undefined,
+        phone: lead?.phone || result.phone || undefined,
+        company_website: lead?.company_website || result.company_website || undefined,
+        city: lead?.city || result.city || undefined,
+        state: lead?.state || result.state || undefined,
+        address: lead?.address || result.address || undefined,
+        source_url: lead?.source_url || result.source_url || undefined,
+        company_id: lead?.company_id || options.companyId || undefined,
+        enrichment_data: { ...(lead?.enrichment_data || {}), ...enrichmentData },
+      })
+      .eq("id", existing.id);
+
+    return "updated";
+  }
+
+  const { error } = await supabase.from("leads").insert({
+    email: normalizeEmail(email),
+    first_name: result.first_name || null,
+    last_name: result.last_name || null,
+    phone: result.phone || contacts.phones[0] || null,
+    company_name: result.company_name || null,
+    company_website: result.company_website || null,
+    company_linkedin: getCompanyLinkedin(contacts),
+    company_id: options.companyId || null,
+    industry: result.industry || null,
+    city: result.city || null,
+    state: result.state || null,
+    country: result.country || "USA",
+    address: result.address || null,
+    source: options.source,
+    source_url: result.source_url || null,
+    scraper_job_id: options.scraperJobId || null,
+    enrichment_data: enrichmentData,
+    status: "new",
+  });
+
+  // Another job created the same lead in the meantime
+  if (error?.code === "23505") return "updated";
+  if (error) throw new Error(`Failed to create lead: ${error.message}`);
+
+  return "created";
+}
+
+// Crawl a saved company's website; an email found there becomes a lead
+// linked to the company
+export async function enrichCompanyFromWebsite(
+  supabase: SupabaseClient,
+  companyId: string
+): Promise<WebsiteEnrichmentOutcome> {
+  const { data: company, error } = await supabase
+    .from("companies")
+    .select("name, website, phone, address, city, state, country, category, source, source_url")
+    .eq("id", companyId)
+    .single();
+
+  if (error || !company) throw new Error(`Company not found: ${companyId}`);
+
+  return createLeadFromWebsite(supabase, companyToScraperResult(company), {
+    source: company.source,
+    companyId,
+  });
+}
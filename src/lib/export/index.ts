@@ -0,0 +1,176 @@
+import { toCsvRow } from "@/lib/import/csv";
+
+export type ExportFormat = "csv" | "ndjson";
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+}
+
+// Custom fields are exported as "custom_fields.<name>" columns
+export const CUSTOM_FIELD_COLUMN_PREFIX = "custom_fields.";
+
+export const LEAD_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: "id", label: "ID" },
+  { key: "email", label: "Email" },
+  { key: "first_name", label: "First Name" },
+  { key: "last_name", label: "Last Name" },
+  { key: "phone", label: "Phone" },
+  { key: "linkedin_url", label: "LinkedIn URL" },
+  { key: "job_title", label: "Job Title" },
+  { key: "seniority", label: "Seniority" },
+  { key: "company_name", label: "Company Name" },
+  { key: "company_website", label: "Company Website" },
+  { key: "company_linkedin", label: "Company LinkedIn" },
+  { key: "industry", label: "Industry" },
+  { key: "company_size", label: "Company Size" },
+  { key: "estimated_revenue", label: "Estimated Revenue" },
+  { key: "city", label: "City" },
+  { key: "state", label: "State" },
+  { key: "country", label: "Country" },
+  { key: "address", label: "Address" },
+  { key: "status", label: "Status" },
+  { key: "quality_score", label: "Quality Score" },
+  { key: "email_verified", label: "Email Verified" },
+  { key: "email_verification_status", label: "Verification Status" },
+  { key: "email_verified_at", label: "Verified At" },
+  { key: "email_verification_provider", label: "Verification Provider" },
+  { key: "email_catch_all", label: "Catch-all" },
+  { key: "source", label: "Source" },
+  { key: "source_url", label: "Source URL" },
+  { key: "notes", label: "Notes" },
+  { key: "tags", label: "Tags" },
+  { key: "custom_fields", label: "Custom Fields (JSON)" },
+  { key: "enrichment_data", label: "Enrichment Data (JSON)" },
+  { key: "created_at", label: "Created At" },
+  { key: "updated_at", label: "Updated At" },
+];
+
+export const DEFAULT_LEAD_EXPORT_COLUMNS = [
+  "email",
+  "first_name",
+  "last_name",
+  "phone",
+  "company_name",
+  "company_website",
+  "industry",
+  "city",
+  "state",
+  "country",
+  "status",
+  "email_verification_status",
+  "source",
+  "tags",
+  "created_at",
+];
+
+// Lead fields appear as "lead.<column>" next to the campaign_leads columns
+export const CAMPAIGN_LEAD_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: "status", label: "Campaign Status" },
+  { key: "variant", label: "Variant" },
+  { key: "current_step", label: "Sequence Step" },
+  { key: "scheduled_at", label: "Scheduled At" },
+  { key: "queued_at", label: "Queued At" },
+  { key: "sent_at", label: "Sent At" },
+  { key: "delivered_at", label: "Delivered At" },
+  { key: "opened_at", label: "Opened At" },
+  { key: "opened_count", label: "Opens" },
+  { key: "clicked_at", label: "Clicked At" },
+  { key: "clicked_count", label: "Clicks" },
+  { key: "replied_at", label: "Replied At" },
+  { key: "next_send_at", label: "Next Send At" },
+  { key: "error_message", label: "Error" },
+  ...LEAD_EXPORT_COLUMNS.map((column) => ({
+    key: `lead.${column.key}`,
+    label: `Lead ${column.label}`,
+  })),
+];
+
+export const DEFAULT_CAMPAIGN_LEAD_EXPORT_COLUMNS = [
+  "lead.email",
+  "lead.first_name",
+  "lead.last_name",
+  "lead.company_name",
+  "status",
+  "variant",
+  "sent_at",
+  "delivered_at",
+  "opened_at",
+  "opened_count",
+  "clicked_at",
+  "clicked_count",
+  "replied_at",
+];
+
+function isCustomFieldColumn(key: string): boolean {
+  const index = key.indexOf(CUSTOM_FIELD_COLUMN_PREFIX);
+  return (
+    index !== -1 &&
+    (index === 0 || key.slice(0, index) === "lead.") &&
+    key.length > index + CUSTOM_FIELD_COLUMN_PREFIX.length
+  );
+}
+
+// Validate a comma separated column list against what can be exported,
+// falling back to the defaults when none are given
+export function resolveExportColumns(
+  requested: string | null,
+  available: ExportColumn[],
+  defaults: string[]
+): { columns: string[]; invalid: string[] } {
+  const keys = requested
+    ? requested
+        .split(",")
+        .map((key) => key.trim())
+        .filter(Boolean)
+    : defaults;
+
+  const invalid = keys.filter(
+    (key) => !available.some((column) => column.key === key) && !isCustomFieldColumn(key)
+  );
+
+  return { columns: keys.length > 0 ? keys : defaults, invalid };
+}
+
+// PostgREST select for the columns, e.g.
+// ["status", "lead.email", "lead.custom_fields.tier"] ->
+// "status, lead:leads(email, custom_fields)"
+export function buildExportSelect(columns: string[]): string {
+  const top = new Set<string>();
+  const lead = new Set<string>();
+
+  for (const column of columns) {
+    const [first, second] = column.split(".");
+    if (first === "lead") lead.add(second);
+    else top.add(first);
+  }
+
+  const parts = [...top];
+  if (lead.size > 0) parts.push(`lead:leads(${[...lead].join(", ")})`);
+  return parts.join(", ");
+}
+
+export function getColumnValue(row: Record<string, unknown>, column: string): unknown {
+  let value: unknown = row;
+  for (const key of column.split(".")) {
+    if (value === null || typeof value !== "object") return null;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value ?? null;
+}
+
+export function formatExportRow(
+  row: Record<string, unknown>,
+  columns: string[],
+  format: ExportFormat
+): string {
+  if (format === "csv") {
+    return toCsvRow(columns.map((column) => getColumnValue(row, column)));
+  }
+
+  const record: Record<string, unknown> = {};
+  for (const column of columns) {
+    record[column] = getColumnValue(row, column);
+  }
+  return JSON.stringify(record) + "\n";
+}
@@ -0,0 +1,58 @@
+import { toCsvRow } from "@/lib/import/csv";
+import { formatExportRow, type ExportFormat } from "./index";
+
+// Rows fetched per query; PostgREST caps responses at 1000
+const EXPORT_PAGE_SIZE = 1000;
+
+type FetchPage = (from: number, to: number) => Promise<Record<string, unknown>[]>;
+
+// Stream rows page by page so large exports never sit in memory; the next
+// page is only fetched once the client has read the previous one
+export function createExportStream(
+  fetchPage: FetchPage,
+  columns: string[],
+  format: ExportFormat
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let from = 0;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (format === "csv") {
+        controller.enqueue(encoder.encode(toCsvRow(columns)));
+      }
+    },
+    async pull(controller) {
+      try {
+        const rows = await fetchPage(from, from + EXPORT_PAGE_SIZE - 1);
+        from += EXPORT_PAGE_SIZE;
+
+        if (rows.length > 0) {
+          controller.enqueue(
+            encoder.encode(rows.map((row) => formatExportRow(row, columns, format)).join(""))
+          );
+        }
+        if (rows.length < EXPORT_PAGE_SIZE) {
+          controller.close();
+        }
+      } catch (error) {
+        console.error("Export stream error:", error);
+        controller.error(error);
+      }
+    },
+  });
+}
+
+export function exportResponse(
+  stream: ReadableStream<Uint8Array>,
+  fileName: string,
+  format: ExportFormat
+): Response {
+  return new Response(stream, {
+    headers: {
+      "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson",
+      "Content-Disposition": `attachment; filename="${fileName}.${format === "csv" ? "csv" : "ndjson"}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,84 @@
+const DELIMITERS = [",", ";", "\t"];
+
+// Pick the delimiter that splits the header line into the most columns
+export function detectDelimiter(text: string): string {
+  let inQuotes = false;
+  const counts: Record<string, number> = {};
+
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === "\n" || char === "\r")) break;
+    else if (!inQuotes && DELIMITERS.includes(char)) counts[char] = (counts[char] || 0) + 1;
+  }
+
+  return DELIMITERS.reduce((best, d) => ((counts[d] || 0) > (counts[best] || 0) ? d : best), ",");
+}
+
+// RFC 4180 parser: quoted fields may contain delimiters, line breaks and
+// doubled quotes. Accepts CRLF or LF line endings and a leading BOM; fully
+// blank lines are dropped.
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\r") {
+      if (text[i + 1] === "\n") i++;
+      endRow();
+    } else if (char === "\n") {
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) endRow();
+
+  return rows;
+}
+
+function escapeCsvField(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = Array.isArray(value)
+    ? value.join("; ")
+    : typeof value === "object"
+      ? JSON.stringify(value)
+      : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvRow(values: unknown[]): string {
+  return values.map(escapeCsvField).join(",") + "\r\n";
+}
+
+export function toCsv(rows: unknown[][]): string {
+  return rows.map(toCsvRow).join("");
+}
@@ -0,0 +1,295 @@
+import { isValidEmail } from "@/lib/utils";
+import type { Lead, LeadImportDedupeStrategy, LeadSource, LeadStatus } from "@/types";
+
+// Column mapping values: a lead field key, CUSTOM_FIELD_PREFIX + name for
+// custom_fields, or "" to ignore the column
+export const CUSTOM_FIELD_PREFIX = "custom:";
+
+export type LeadImportFieldKey =
+  | "email"
+  | "first_name"
+  | "last_name"
+  | "phone"
+  | "linkedin_url"
+  | "job_title"
+  | "company_name"
+  | "company_website"
+  | "company_linkedin"
+  | "industry"
+  | "company_size"
+  | "estimated_revenue"
+  | "city"
+  | "state"
+  | "country"
+  | "address"
+  | "status"
+  | "quality_score"
+  | "source"
+  | "source_url"
+  | "notes"
+  | "tags";
+
+type LeadImportFieldType = "text" | "email" | "url" | "status" | "source" | "score" | "tags";
+
+export interface LeadImportField {
+  key: LeadImportFieldKey;
+  label: string;
+  type: LeadImportFieldType;
+  maxLength?: number;
+  required?: boolean;
+  // Other header names that auto-map to this field
+  aliases?: string[];
+}
+
+export const LEAD_IMPORT_FIELDS: LeadImportField[] = [
+  {
+    key: "email",
+    label: "Email",
+    type: "email",
+    maxLength: 255,
+    required: true,
+    aliases: ["e-mail", "email address", "work email"],
+  },
+  {
+    key: "first_name",
+    label: "First Name",
+    type: "text",
+    maxLength: 100,
+    aliases: ["first", "firstname", "given name"],
+  },
+  {
+    key: "last_name",
+    label: "Last Name",
+    type: "text",
+    maxLength: 100,
+    aliases: ["last", "lastname", "surname", "family name"],
+  },
+  {
+    key: "phone",
+    label: "Phone",
+    type: "text",
+    maxLength: 50,
+    aliases: ["phone number", "telephone", "mobile"],
+  },
+  {
+    key: "linkedin_url",
+    label: "LinkedIn URL",
+    type: "url",
+    maxLength: 500,
+    aliases: ["linkedin", "linkedin profile", "person linkedin url"],
+  },
+  {
+    key: "job_title",
+    label: "Job Title",
+    type: "text",
+    maxLength: 255,
+    aliases: ["title", "position", "role"],
+  },
+  {
+    key: "company_name",
+    label: "Company Name",
+    type: "text",
+    maxLength: 255,
+    aliases: ["company", "organization", "account name"],
+  },
+  {
+    key: "company_website",
+    label: "Company Website",
+    type: "url",
+    maxLength: 500,
+    aliases: ["website", "domain", "url", "company url"],
+  },
+  {
+    key: "company_linkedin",
+    label: "Company LinkedIn",
+    type: "url",
+    maxLength: 500,
+    aliases: ["company linkedin url"],
+  },
+  { key: "industry", label: "Industry", type: "text", maxLength: 100 },
+  {
+    key: "company_size",
+    label: "Company Size",
+    type: "text",
+    maxLength: 50,
+    aliases: ["employees", "headcount", "# employees"],
+  },
+  {
+    key: "estimated_revenue",
+    label: "Estimated Revenue",
+    type: "text",
+    maxLength: 50,
+    aliases: ["revenue", "annual revenue"],
+  },
+  { key: "city", label: "City", type: "text", maxLength: 100 },
+  { key: "state", label: "State", type: "text", maxLength: 100, aliases: ["region", "province"] },
+  { key: "country", label: "Country", type: "text", maxLength: 100 },
+  { key: "address", label: "Address", type: "text", aliases: ["street", "street address"] },
+  { key: "status", label: "Status", type: "status", aliases: ["lead status"] },
+  { key: "quality_score", label: "Quality Score", type: "score", aliases: ["score", "lead score"] },
+  { key: "source", label: "Source", type: "source", aliases: ["lead source"] },
+  { key: "source_url", label: "Source URL", type: "url" },
+  { key: "notes", label: "Notes", type: "text", aliases: ["note", "comments", "description"] },
+  { key: "tags", label: "Tags", type: "tags", aliases: ["tag", "labels"] },
+];
+
+export const DEDUPE_STRATEGY_OPTIONS: {
+  value: LeadImportDedupeStrategy;
+  label: string;
+  description: string;
+}[] = [
+  { value: "skip", label: "Skip", description: "Leave existing leads untouched" },
+  { value: "update", label: "Update", description: "Overwrite existing leads with values from the file" },
+  { value: "merge", label: "Merge", description: "Only fill in fields that are empty on existing leads" },
+];
+
+const LEAD_STATUSES: LeadStatus[] = [
+  "new",
+  "verified",
+  "qualified",
+  "contacted",
+  "converted",
+  "unsubscribed",
+  "bounced",
+];
+
+const LEAD_SOURCES: LeadSource[] = [
+  "linkedin",
+  "google_maps",
+  "yellowpages",
+  "yelp",
+  "apollo",
+  "manual",
+  "import",
+];
+
+export type ImportedLead = Partial<Pick<Lead, Exclude<LeadImportFieldKey, "quality_score">>> & {
+  quality_score?: number;
+  custom_fields: Record<string, string>;
+};
+
+export interface MappedImportRow {
+  // 1-based line in the file, counting the header row
+  rowNumber: number;
+  values: string[];
+  lead: ImportedLead;
+  errors: string[];
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9#]/g, "");
+}
+
+// Guess a mapping from the file's header row; unrecognised columns are ignored
+export function suggestColumnMapping(headers: string[]): Record<string, string> {
+  const mapping: Record<string, string> = {};
+  const used = new Set<string>();
+
+  for (const header of headers) {
+    const normalized = normalizeHeader(header);
+    const field = LEAD_IMPORT_FIELDS.find(
+      (f) =>
+        !used.has(f.key) &&
+        [f.key, f.label, ...(f.aliases || [])].some((name) => normalizeHeader(name) === normalized)
+    );
+
+    mapping[header] = field ? field.key : "";
+    if (field) used.add(field.key);
+  }
+
+  return mapping;
+}
+
+export function splitTags(value: string): string[] {
+  return value
+    .split(/[,;|]/)
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+function normalizeUrl(value: string): string | null {
+  const withScheme = /^https?:\/\//i.test(value) ? value : `https://${value}`;
+  try {
+    const url = new URL(withScheme);
+    return url.hostname.includes(".") ? withScheme : null;
+  } catch {
+    return null;
+  }
+}
+
+// Turn one file row into lead fields using the column mapping, collecting
+// every validation problem rather than stopping at the first
+export function mapImportRow(
+  headers: string[],
+  values: string[],
+  mapping: Record<string, string>,
+  rowNumber: number
+): MappedImportRow {
+  const lead: ImportedLead = { custom_fields: {} };
+  const errors: string[] = [];
+  const assign = lead as Record<string, unknown>;
+
+  headers.forEach((header, index) => {
+    const target = mapping[header];
+    const value = (values[index] ?? "").trim();
+    if (!target || !value) return;
+
+    if (target.startsWith(CUSTOM_FIELD_PREFIX)) {
+      const name = target.slice(CUSTOM_FIELD_PREFIX.length).trim() || header;
+      lead.custom_fields[name] = value;
+      return;
+    }
+
+    const field = LEAD_IMPORT_FIELDS.find((f) => f.key === target);
+    if (!field) return;
+
+    if (field.maxLength && value.length > field.maxLength) {
+      errors.push(`${field.label} is longer than ${field.maxLength} characters`);
+      return;
+    }
+
+    switch (field.type) {
+      case "email": {
+        const email = value.toLowerCase();
+        if (isValidEmail(email)) assign[field.key] = email;
+        else errors.push(`Invalid email "${value}"`);
+        break;
+      }
+      case "url": {
+        const url = normalizeUrl(value);
+        if (url) assign[field.key] = url;
+        else errors.push(`Invalid ${field.label} "${value}"`);
+        break;
+      }
+      case "status": {
+        const status = value.toLowerCase() as LeadStatus;
+        if (LEAD_STATUSES.includes(status)) assign[field.key] = status;
+        else errors.push(`Unknown status "${value}"`);
+        break;
+      }
+      case "source": {
+        const source = value.toLowerCase().replace(/[\s-]+/g, "_") as LeadSource;
+        if (LEAD_SOURCES.includes(source)) assign[field.key] = source;
+        else errors.push(`Unknown source "${value}"`);
+        break;
+      }
+      case "score": {
+        const score = Number(value);
+        if (Number.isInteger(score) && score >= 0 && score <= 100) assign[field.key] = score;
+        else errors.push(`Quality score must be a whole number from 0 to 100`);
+        break;
+      }
+      case "tags":
+        lead.tags = [...(lead.tags || []), ...splitTags(value)];
+        break;
+      default:
+        assign[field.key] = value;
+    }
+  });
+
+  if (!lead.email && !errors.some((error) => error.startsWith("Invalid email"))) {
+    errors.push("Email is required");
+  }
+
+  return { rowNumber, values, lead, errors };
+}
@@ -0,0 +1,324 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { LeadImport, LeadImportDedupeStrategy } from "@/types";
+import { parseCsv } from "./csv";
+import {
+  LEAD_IMPORT_FIELDS,
+  mapImportRow,
+  type ImportedLead,
+  type MappedImportRow,
+} from "./index";
+import { parseXlsx } from "./xlsx";
+
+export const MAX_IMPORT_FILE_SIZE = 10 * 1024 * 1024;
+
+// Emails per existing-lead lookup; they go in the query string
+const LOOKUP_CHUNK_SIZE = 200;
+const INSERT_CHUNK_SIZE = 500;
+const UPDATE_CONCURRENCY = 10;
+
+const FIELD_KEYS = LEAD_IMPORT_FIELDS.map((field) => field.key);
+
+export interface ImportFile {
+  fileName: string;
+  fileType: "csv" | "xlsx";
+  headers: string[];
+  rows: string[][];
+}
+
+export interface LeadImportOptions {
+  mapping: Record<string, string>;
+  tags: string[];
+  dedupe: LeadImportDedupeStrategy;
+}
+
+type ExistingLead = ImportedLead & { id: string; tags: string[] };
+
+interface PlannedRow extends MappedImportRow {
+  action: "create" | "update" | "skip" | "reject";
+  existing?: ExistingLead;
+}
+
+export interface LeadImportPlan {
+  rows: PlannedRow[];
+  counts: { total: number; create: number; update: number; skip: number; reject: number };
+}
+
+export async function readImportFile(file: File): Promise<ImportFile> {
+  const isXlsx = /\.xlsx$/i.test(file.name);
+  const rows = isXlsx
+    ? parseXlsx(Buffer.from(await file.arrayBuffer()))
+    : parseCsv(await file.text());
+
+  if (rows.length === 0) {
+    throw new Error("The file is empty");
+  }
+
+  // Blank or repeated headers still need distinct keys for the mapping
+  const seen = new Map<string, number>();
+  const headers = rows[0].map((header, index) => {
+    const name = header.trim() || `Column ${index + 1}`;
+    const count = (seen.get(name) || 0) + 1;
+    seen.set(name, count);
+    return count > 1 ? `${name} (${count})` : name;
+  });
+
+  return {
+    fileName: file.name,
+    fileType: isXlsx ? "xlsx" : "csv",
+    headers,
+    rows: rows.slice(1),
+  };
+}
+
+async function findExistingLeads(
+  supabase: SupabaseClient,
+  emails: string[]
+): Promise<Map<string, ExistingLead>> {
+  const existing = new Map<string, ExistingLead>();
+
+  for (let i = 0; i < emails.length; i += LOOKUP_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from("leads")
+      .select(["id", "custom_fields", ...FIELD_KEYS].join(", "))
+      .in("email", emails.slice(i, i + LOOKUP_CHUNK_SIZE));
+
+    if (error) throw new Error(`Failed to look up existing leads: ${error.message}`);
+
+    for (const lead of (data || []) as unknown as ExistingLead[]) {
+      existing.set(lead.email!, lead);
+    }
+  }
+
+  return existing;
+}
+
+// Map and validate every row, then decide what the import would do with it
+export async function planLeadImport(
+  supabase: SupabaseClient,
+  file: ImportFile,
+  options: LeadImportOptions
+): Promise<LeadImportPlan> {
+  const firstRowByEmail = new Map<string, number>();
+  const rows: PlannedRow[] = file.rows.map((values, index) => {
+    const row = mapImportRow(file.headers, values, options.mapping, index + 2);
+    const email = row.lead.email;
+
+    if (email && row.errors.length === 0) {
+      const firstRow = firstRowByEmail.get(email);
+      if (firstRow) row.errors.push(`Duplicate of row ${firstRow}`);
+      else firstRowByEmail.set(email, row.rowNumber);
+    }
+
+    return { ...row, action: row.errors.length > 0 ? "reject" : "create" };
+  });
+
+  const existing = await findExistingLeads(supabase, [...firstRowByEmail.keys()]);
+
+  for (const row of rows) {
+    const match = row.action === "create" ? existing.get(row.lead.email!) : undefined;
+    if (match) {
+      row.existing = match;
+      row.action = options.dedupe === "skip" ? "skip" : "update";
+    }
+  }
+
+  const count = (action: PlannedRow["action"]) => rows.filter((r) => r.action === action).length;
+
+  return {
+    rows,
+    counts: {
+      total: rows.length,
+      create: count("create"),
+      update: count("update"),
+      skip: count("skip"),
+      reject: count("reject"),
+    },
+  };
+}
+
+function mergeTags(...lists: (string[] | undefined)[]): string[] {
+  return [...new Set(lists.flatMap((list) => list || []))];
+}
+
+function buildNewLead(lead: ImportedLead, tags: string[], importId: string) {
+  return {
+    ...lead,
+    tags: mergeTags(lead.tags, tags),
+    source: lead.source || "import",
+    status: lead.status || "new",
+    import_id: importId,
+  };
+}
+
+// Fields to change on an existing lead: "update" overwrites with any value in
+// the file, "merge" only fills fields the lead doesn't have yet
+function buildLeadChanges(
+  lead: ImportedLead,
+  existing: ExistingLead,
+  tags: string[],
+  strategy: LeadImportDedupeStrategy
+): Record<string, unknown> {
+  const changes: Record<string, unknown> = {};
+  const current = existing as Record<string, unknown>;
+
+  for (const key of FIELD_KEYS) {
+    const value = (lead as Record<string, unknown>)[key];
+    if (key === "tags" || key === "email" || value === undefined) continue;
+
+    const isEmpty = current[key] === null || current[key] === undefined || current[key] === "";
+    if (strategy === "update" || isEmpty) changes[key] = value;
+  }
+
+  changes.tags = mergeTags(existing.tags, lead.tags, tags);
+  changes.custom_fields =
+    strategy === "update"
+      ? { ...existing.custom_fields, ...lead.custom_fields }
+      : { ...lead.custom_fields, ...existing.custom_fields };
+
+  return changes;
+}
+
+async function insertLeads(
+  supabase: SupabaseClient,
+  rows: PlannedRow[],
+  options: LeadImportOptions,
+  importId: string
+): Promise<void> {
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+    const chunk = rows.slice(i, i + INSERT_CHUNK_SIZE);
+    const { error } = await supabase
+      .from("leads")
+      .insert(
+        chunk.map((row) => buildNewLead(row.lead, options.tags, importId)),
+        { defaultToNull: false }
+      );
+
+    if (!error) continue;
+
+    // One bad row fails the whole chunk; retry row by row to find it
+    for (const row of chunk) {
+      const { error: rowError } = await supabase
+        .from("leads")
+        .insert(buildNewLead(row.lead, options.tags, importId));
+
+      if (rowError) {
+        row.action = "reject";
+        row.errors.push(
+          rowError.code === "23505" ? "A lead with this email already exists" : rowError.message
+        );
+      }
+    }
+  }
+}
+
+async function updateLeads(
+  supabase: SupabaseClient,
+  rows: PlannedRow[],
+  options: LeadImportOptions
+): Promise<void> {
+  for (let i = 0; i < rows.length; i += UPDATE_CONCURRENCY) {
+    await Promise.all(
+      rows.slice(i, i + UPDATE_CONCURRENCY).map(async (row) => {
+        const { error } = await supabase
+          .from("leads")
+          .update(buildLeadChanges(row.lead, row.existing!, options.tags, options.dedupe))
+          .eq("id", row.existing!.id);
+
+        if (error) {
+          row.action = "reject";
+          row.errors.push(error.message);
+        }
+      })
+    );
+  }
+}
+
+async function saveRejections(
+  supabase: SupabaseClient,
+  rows: PlannedRow[],
+  importId: string
+): Promise<void> {
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+    await supabase.from("lead_import_rejections").insert(
+      rows.slice(i, i + INSERT_CHUNK_SIZE).map((row) => ({
+        import_id: importId,
+        row_number: row.rowNumber,
+        row_values: row.values,
+        errors: row.errors,
+      }))
+    );
+  }
+}
+
+// Import the file and record it in lead_imports along with any rejected rows
+export async function runLeadImport(
+  supabase: SupabaseClient,
+  file: ImportFile,
+  options: LeadImportOptions,
+  createdBy: string | null = null
+): Promise<LeadImport> {
+  const { data: leadImport, error } = await supabase
+    .from("lead_imports")
+    .insert({
+      file_name: file.fileName,
+      file_type: file.fileType,
+      dedupe_strategy: options.dedupe,
+      column_mapping: options.mapping,
+      tags: options.tags,
+      headers: file.headers,
+      total_rows: file.rows.length,
+      created_by: createdBy,
+    })
+    .select()
+    .single();
+
+  if (error || !leadImport) {
+    throw new Error(`Failed to create lead import: ${error?.message}`);
+  }
+
+  try {
+    const plan = await planLeadImport(supabase, file, options);
+
+    await insertLeads(
+      supabase,
+      plan.rows.filter((row) => row.action === "create"),
+      options,
+      leadImport.id
+    );
+    await updateLeads(
+      supabase,
+      plan.rows.filter((row) => row.action === "update"),
+      options
+    );
+
+    // Rows that failed to write were moved to "reject" above
+    const rejected = plan.rows.filter((row) => row.action === "reject");
+    await saveRejections(supabase, rejected, leadImport.id);
+
+    const count = (action: PlannedRow["action"]) =>
+      plan.rows.filter((row) => row.action === action).length;
+
+    const { data: completed } = await supabase
+      .from("lead_imports")
+      .update({
+        status: "completed",
+        created_count: count("create"),
+        updated_count: count("update"),
+        skipped_count: count("skip"),
+        rejected_count: rejected.length,
+        completed_at: new Date().toISOString(),
+      })
+      .eq("id", leadImport.id)
+      .select()
+      .single();
+
+    return completed || leadImport;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await supabase
+      .from("lead_imports")
+      .update({ status: "failed", last_error: message })
+      .eq("id", leadImport.id);
+    throw error;
+  }
+}
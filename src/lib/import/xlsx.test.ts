@@ -0,0 +1,153 @@
+import { crc32, deflateRawSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { readImportFile } from "./leads";
+import { MAX_XLSX_PART_SIZE, parseXlsx } from "./xlsx";
+
+interface ZipPart {
+  name: string;
+  data: Buffer;
+  // Overrides the uncompressed size written to the central directory
+  declaredSize?: number;
+}
+
+// Write a ZIP archive with every part deflated
+function buildZip(parts: ZipPart[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const { name, data, declaredSize } of parts) {
+    const compressed = deflateRawSync(data);
+    const nameBytes = Buffer.from(name);
+    const size = declaredSize ?? data.length;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(crc32(data), 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc32(data), 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBytes, compressed);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(parts.length, 8);
+  end.writeUInt16LE(parts.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+function xml(content: string): Buffer {
+  return Buffer.from(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${content}`);
+}
+
+// A workbook whose only sheet is stored as xl/worksheets/contacts.xml
+function buildWorkbook(sheetData: string, extraParts: ZipPart[] = []): Buffer {
+  return buildZip([
+    {
+      name: "xl/workbook.xml",
+      data: xml(
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Contacts" sheetId="1" r:id="rId1"/></sheets></workbook>'
+      ),
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      data: xml(
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/contacts.xml"/></Relationships>'
+      ),
+    },
+    {
+      name: "xl/sharedStrings.xml",
+      data: xml(
+        '<sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><si><t>Email</t></si><si><t>Company</t></si><si><r><t>Acme </t></r><r><rPr><b/></rPr><t>Corp</t></r></si></sst>'
+      ),
+    },
+    {
+      name: "xl/worksheets/contacts.xml",
+      data: xml(
+        `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${sheetData}</sheetData></worksheet>`
+      ),
+    },
+    ...extraParts,
+  ]);
+}
+
+const SHEET = [
+  '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="D1" t="inlineStr"><is><t>Subscribed</t></is></c></row>',
+  '<row r="2"><c r="A2" t="inlineStr"><is><t>sam@acme.com</t></is></c><c r="B2" t="s"><v>2</v></c><c r="C2"><v>42</v></c><c r="D2" t="b"><v>1</v></c></row>',
+  '<row r="3"><c r="A3" t="inlineStr"><is><t> </t></is></c></row>',
+].join("");
+
+describe("parseXlsx", () => {
+  it("reads the first sheet's cells in column order", () => {
+    expect(parseXlsx(buildWorkbook(SHEET))).toEqual([
+      ["Email", "Company", "", "Subscribed"],
+      ["sam@acme.com", "Acme Corp", "42", "TRUE"],
+    ]);
+  });
+
+  it("skips media parts", () => {
+    const image = { name: "xl/media/image1.png", data: Buffer.alloc(1024, 7) };
+
+    expect(parseXlsx(buildWorkbook(SHEET, [image]))).toHaveLength(2);
+  });
+
+  it("rejects a part that declares a size over the limit", () => {
+    const workbook = buildWorkbook(SHEET, [
+      { name: "xl/styles.xml", data: xml("<styleSheet/>"), declaredSize: MAX_XLSX_PART_SIZE + 1 },
+    ]);
+
+    expect(() => parseXlsx(workbook)).toThrow("The XLSX file is too large to import");
+  });
+
+  it("stops inflating a part that grows past the limit whatever size it declares", () => {
+    const bomb = {
+      name: "xl/styles.xml",
+      data: Buffer.alloc(MAX_XLSX_PART_SIZE + 1024, 0x20),
+      declaredSize: 1024,
+    };
+    const workbook = buildWorkbook(SHEET, [bomb]);
+
+    expect(workbook.length).toBeLessThan(1024 * 1024);
+    expect(() => parseXlsx(workbook)).toThrow("The XLSX file is too large to import");
+  });
+
+  it("rejects files that aren't ZIP archives", () => {
+    expect(() => parseXlsx(Buffer.from("Email,Company\nsam@acme.com,Acme\n".repeat(2)))).toThrow(
+      "Not a valid XLSX file"
+    );
+  });
+});
+
+describe("readImportFile", () => {
+  it("splits an XLSX upload into headers and rows", async () => {
+    const file = new File([new Uint8Array(buildWorkbook(SHEET))], "leads.xlsx");
+
+    expect(await readImportFile(file)).toEqual({
+      fileName: "leads.xlsx",
+      fileType: "xlsx",
+      headers: ["Email", "Company", "Column 3", "Subscribed"],
+      rows: [["sam@acme.com", "Acme Corp", "42", "TRUE"]],
+    });
+  });
+});
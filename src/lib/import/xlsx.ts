@@ -0,0 +1,161 @@
+import { inflateRawSync } from "zlib";
+import * as cheerio from "cheerio";
+
+// Minimal XLSX reader: an .xlsx file is a ZIP of XML parts, so we read the
+// ZIP central directory, inflate the parts we need and return the first
+// worksheet as rows of cell text
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+// Uploads are capped at 10MB, but compressed XML can inflate a hundredfold
+// or more, so the parts themselves are capped too
+export const MAX_XLSX_PART_SIZE = 50 * 1024 * 1024;
+const MAX_XLSX_TOTAL_SIZE = 100 * 1024 * 1024;
+
+const TOO_LARGE = "The XLSX file is too large to import";
+
+function inflatePart(data: Buffer, limit: number): Buffer {
+  try {
+    return inflateRawSync(data, { maxOutputLength: limit });
+  } catch (error) {
+    if (error instanceof RangeError) throw new Error(TOO_LARGE);
+    throw error;
+  }
+}
+
+function readZipEntries(buffer: Buffer): Map<string, Buffer> {
+  // The end-of-central-directory record sits in the last 64KB + 22 bytes
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error("Not a valid XLSX file");
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  const entries = new Map<string, Buffer>();
+  let totalSize = 0;
+
+  for (let n = 0; n < entryCount; n++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_SIGNATURE) {
+      throw new Error("Corrupt XLSX file");
+    }
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    if (buffer.readUInt32LE(localOffset) !== LOCAL_SIGNATURE) {
+      throw new Error("Corrupt XLSX file");
+    }
+    const dataStart =
+      localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    // Only the XML parts are read; images and other media are skipped
+    if (/\.(xml|rels)$/.test(name)) {
+      const limit = Math.min(MAX_XLSX_PART_SIZE, MAX_XLSX_TOTAL_SIZE - totalSize);
+      if (uncompressedSize > limit) throw new Error(TOO_LARGE);
+
+      // The declared size can't be trusted, so inflating is capped as well
+      const part = method === 0 ? data : method === 8 ? inflatePart(data, limit) : null;
+      if (part) {
+        if (part.length > limit) throw new Error(TOO_LARGE);
+        totalSize += part.length;
+        entries.set(name, part);
+      }
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function loadXml(entries: Map<string, Buffer>, path: string) {
+  const data = entries.get(path);
+  return data ? cheerio.load(data.toString("utf8"), { xml: true }) : null;
+}
+
+// "B12" -> 1
+function columnIndex(ref: string): number {
+  const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() || "A";
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function firstSheetPath(entries: Map<string, Buffer>): string {
+  const workbook = loadXml(entries, "xl/workbook.xml");
+  const rels = loadXml(entries, "xl/_rels/workbook.xml.rels");
+  const relId = workbook?.("sheet").first().attr("r:id");
+
+  if (rels && relId) {
+    const target = rels(`Relationship[Id="${relId}"]`).attr("Target");
+    if (target) {
+      return target.startsWith("/") ? target.slice(1) : `xl/${target.replace(/^\.\//, "")}`;
+    }
+  }
+
+  return "xl/worksheets/sheet1.xml";
+}
+
+export function parseXlsx(buffer: Buffer): string[][] {
+  const entries = readZipEntries(buffer);
+
+  const sharedStrings: string[] = [];
+  const strings = loadXml(entries, "xl/sharedStrings.xml");
+  strings?.("si").each((_, si) => {
+    // Rich text is split into runs, each with its own <t>
+    sharedStrings.push(
+      strings(si)
+        .find("t")
+        .map((_, t) => strings(t).text())
+        .get()
+        .join("")
+    );
+  });
+
+  const sheet = loadXml(entries, firstSheetPath(entries));
+  if (!sheet) throw new Error("XLSX file has no worksheet");
+
+  const rows: string[][] = [];
+  sheet("sheetData > row").each((_, rowEl) => {
+    const row: string[] = [];
+
+    sheet(rowEl)
+      .children("c")
+      .each((position, cellEl) => {
+        const cell = sheet(cellEl);
+        const ref = cell.attr("r");
+        const index = ref ? columnIndex(ref) : position;
+        const type = cell.attr("t");
+        const raw = cell.children("v").text();
+
+        let value: string;
+        if (type === "s") value = sharedStrings[parseInt(raw)] ?? "";
+        else if (type === "inlineStr") value = cell.find("is t").text();
+        else if (type === "b") value = raw === "1" ? "TRUE" : "FALSE";
+        else value = raw;
+
+        while (row.length < index) row.push("");
+        row[index] = value;
+      });
+
+    if (row.some((value) => value.trim() !== "")) rows.push(row);
+  });
+
+  return rows;
+}
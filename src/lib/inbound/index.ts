@@ -0,0 +1,232 @@
+import { extractDomain } from "@/lib/utils";
+
+export interface InboundEmail {
+  from: string;
+  to: string[];
+  subject: string;
+  messageId: string | null;
+  inReplyTo: string | null;
+  references: string[];
+  headers: Record<string, string>;
+  text: string;
+}
+
+export type ReplyClassification = "reply" | "auto_reply";
+
+const UUID_PATTERN = "[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}";
+const MESSAGE_ID_REGEX = new RegExp(`<cl\\.(${UUID_PATTERN})\\.s\\d+@[^>]+>`, "gi");
+
+// Build the Message-ID used for a campaign lead's step, e.g. <cl.{id}.s2@domain>
+export function buildMessageId(
+  campaignLeadId: string,
+  stepNumber: number,
+  fromEmail: string
+): string {
+  const domain = extractDomain(fromEmail) || "localhost";
+  return `<cl.${campaignLeadId}.s${stepNumber}@${domain}>`;
+}
+
+// Find campaign lead IDs referenced by In-Reply-To/References headers
+export function extractCampaignLeadIds(email: InboundEmail): string[] {
+  const haystack = [email.inReplyTo || "", ...email.references].join(" ");
+  const ids = new Set<string>();
+
+  for (const match of haystack.matchAll(MESSAGE_ID_REGEX)) {
+    ids.add(match[1].toLowerCase());
+  }
+
+  return [...ids];
+}
+
+// Extract the bare address from a header value like "Jane Doe <jane@acme.com>"
+export function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim().toLowerCase();
+}
+
+const AUTO_REPLY_SUBJECTS = [
+  /^(auto(matic)?[\s-]?reply|autoreply|auto[\s-]?response)/i,
+  /out of (the )?office/i,
+  /\bOOO\b/,
+  /on (vacation|holiday|leave)/i,
+  /away from (the )?office/i,
+  /abwesenheitsnotiz|r[ée]ponse automatique|respuesta autom[áa]tica/i,
+  /delivery status notification|undeliverable|mail delivery (failed|subsystem)/i,
+];
+
+const AUTO_REPLY_BODIES = [
+  /i am (currently )?(out of|away from) (the )?office/i,
+  /i('m| am) (currently )?(on (vacation|holiday|leave)|travell?ing|away)/i,
+  /(limited|no) access to (my )?e-?mail/i,
+  /this is an automatic(ally generated)? (reply|response|message)/i,
+  /will (respond|reply|get back to you) (to your (e-?mail|message) )?(upon|when I) return/i,
+];
+
+// Distinguish real replies from auto-replies and out-of-office messages
+export function classifyInboundEmail(email: InboundEmail): ReplyClassification {
+  const header = (name: string) => email.headers[name.toLowerCase()]?.toLowerCase();
+
+  const autoSubmitted = header("auto-submitted");
+  if (autoSubmitted && autoSubmitted !== "no") return "auto_reply";
+
+  if (header("x-autoreply") || header("x-autorespond") || header("x-auto-response-suppress")) {
+    return "auto_reply";
+  }
+
+  const precedence = header("precedence");
+  if (precedence && ["auto_reply", "bulk", "junk", "list"].includes(precedence)) {
+    return "auto_reply";
+  }
+
+  if (AUTO_REPLY_SUBJECTS.some((pattern) => pattern.test(email.subject))) {
+    return "auto_reply";
+  }
+
+  // Only inspect the top of the body so quoted original text doesn't match
+  const opening = email.text.split(/\n>|\nOn .+wrote:/)[0].slice(0, 1000);
+  if (AUTO_REPLY_BODIES.some((pattern) => pattern.test(opening))) {
+    return "auto_reply";
+  }
+
+  return "reply";
+}
+
+// Parse header lines, unfolding continuation lines (RFC 5322 section 2.2.3)
+export function parseHeaderBlock(block: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const lines = block.replace(/\r\n/g, "\n").replace(/\n[ \t]+/g, " ").split("\n");
+
+  for (const line of lines) {
+    const separator = line.indexOf(":");
+    if (separator <= 0) continue;
+
+    const name = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+    headers[name] = headers[name] ? `${headers[name]} ${value}` : value;
+  }
+
+  return headers;
+}
+
+function splitHeadersAndBody(raw: string): { headers: Record<string, string>; body: string } {
+  const normalized = raw.replace(/\r\n/g, "\n");
+  const boundary = normalized.indexOf("\n\n");
+
+  if (boundary === -1) {
+    return { headers: parseHeaderBlock(normalized), body: "" };
+  }
+
+  return {
+    headers: parseHeaderBlock(normalized.slice(0, boundary)),
+    body: normalized.slice(boundary + 2),
+  };
+}
+
+function decodeBody(body: string, encoding: string | undefined): string {
+  switch (encoding?.toLowerCase()) {
+    case "base64":
+      return Buffer.from(body.replace(/\s+/g, ""), "base64").toString("utf-8");
+    case "quoted-printable":
+      return body
+        .replace(/=\n/g, "")
+        .replace(/=([0-9A-F]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+    default:
+      return body;
+  }
+}
+
+// Find the text/plain part of a (possibly multipart) MIME body
+function extractTextBody(headers: Record<string, string>, body: string): string {
+  const contentType = headers["content-type"] || "text/plain";
+  const boundaryMatch = contentType.match(/boundary="?([^";]+)"?/i);
+
+  if (!contentType.toLowerCase().startsWith("multipart/") || !boundaryMatch) {
+    const decoded = decodeBody(body, headers["content-transfer-encoding"]);
+    return contentType.toLowerCase().startsWith("text/html")
+      ? decoded.replace(/<[^>]+>/g, " ").replace(/\s+/g, " ").trim()
+      : decoded.trim();
+  }
+
+  const parts = body.split(`--${boundaryMatch[1]}`).slice(1);
+  let fallback = "";
+
+  for (const part of parts) {
+    if (part.startsWith("--")) break;
+
+    const { headers: partHeaders, body: partBody } = splitHeadersAndBody(part.replace(/^\n/, ""));
+    const partType = (partHeaders["content-type"] || "text/plain").toLowerCase();
+
+    if (partType.startsWith("text/plain")) {
+      return extractTextBody(partHeaders, partBody);
+    }
+    if (!fallback && (partType.startsWith("multipart/") || partType.startsWith("text/html"))) {
+      fallback = extractTextBody(partHeaders, partBody);
+    }
+  }
+
+  return fallback;
+}
+
+function splitMessageIds(value: string | undefined): string[] {
+  return value?.match(/<[^>]+>/g) || [];
+}
+
+// Parse a raw RFC 822 / MIME message
+export function parseRawEmail(raw: string): InboundEmail {
+  const { headers, body } = splitHeadersAndBody(raw);
+
+  return {
+    from: extractAddress(headers["from"] || ""),
+    to: (headers["to"] || "").split(",").map(extractAddress).filter(Boolean),
+    subject: headers["subject"] || "",
+    messageId: splitMessageIds(headers["message-id"])[0] || null,
+    inReplyTo: splitMessageIds(headers["in-reply-to"])[0] || null,
+    references: splitMessageIds(headers["references"]),
+    headers,
+    text: extractTextBody(headers, body),
+  };
+}
+
+// Normalize a JSON inbound payload (Resend inbound or similar providers)
+export function parseInboundPayload(payload: Record<string, unknown>): InboundEmail {
+  const data = (payload.data || payload) as Record<string, unknown>;
+
+  if (typeof data.raw === "string") {
+    return parseRawEmail(data.raw);
+  }
+
+  const headers: Record<string, string> = {};
+  if (Array.isArray(data.headers)) {
+    for (const header of data.headers as Array<{ name: string; value: string }>) {
+      headers[header.name.toLowerCase()] = header.value;
+    }
+  } else if (data.headers && typeof data.headers === "object") {
+    for (const [name, value] of Object.entries(data.headers as Record<string, string>)) {
+      headers[name.toLowerCase()] = String(value);
+    }
+  }
+
+  const to = Array.isArray(data.to) ? (data.to as string[]) : [String(data.to || "")];
+  const html = typeof data.html === "string" ? data.html : "";
+  const text =
+    typeof data.text === "string"
+      ? data.text
+      : html.replace(/<[^>]+>/g, " ").replace(/\s+/g, " ").trim();
+
+  return {
+    from: extractAddress(String(data.from || headers["from"] || "")),
+    to: to.map(extractAddress).filter(Boolean),
+    subject: String(data.subject || headers["subject"] || ""),
+    messageId:
+      (data.message_id as string) || splitMessageIds(headers["message-id"])[0] || null,
+    inReplyTo:
+      (data.in_reply_to as string) || splitMessageIds(headers["in-reply-to"])[0] || null,
+    references: splitMessageIds(
+      Array.isArray(data.references)
+        ? (data.references as string[]).join(" ")
+        : (data.references as string) || headers["references"]
+    ),
+    headers,
+    text,
+  };
+}
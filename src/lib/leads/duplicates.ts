@@ -0,0 +1,33 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { LeadDuplicateReason } from "@/types";
+
+export const DUPLICATE_REASON_LABELS: Record<LeadDuplicateReason, string> = {
+  email: "Same email",
+  website_name: "Same name and website",
+  phone: "Same phone",
+};
+
+// Same normalization as normalize_email() in the database
+export function normalizeEmail(email: string): string {
+  return email.replace(/\s/g, "").toLowerCase();
+}
+
+export function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+// The lead with this email, ignoring case and whitespace. Looser matches
+// (phone, name + website) are left to the duplicate review queue.
+export async function findLeadByEmail(
+  supabase: SupabaseClient,
+  email: string
+): Promise<{ id: string } | null> {
+  const { data } = await supabase
+    .from("leads")
+    .select("id")
+    .ilike("email", escapeLike(normalizeEmail(email)))
+    .limit(1)
+    .maybeSingle();
+
+  return data;
+}
@@ -0,0 +1,100 @@
+import { z } from "zod";
+
+// Query parameter prefix for custom field filters: ?custom.industry_tier=gold
+export const CUSTOM_FILTER_PREFIX = "custom.";
+
+export const VERIFICATION_FILTER_OPTIONS = [
+  { value: "valid", label: "Valid" },
+  { value: "invalid", label: "Invalid" },
+  { value: "risky", label: "Risky" },
+  { value: "unknown", label: "Unknown" },
+  { value: "pending", label: "Pending" },
+  { value: "unverified", label: "Not verified" },
+] as const;
+
+export const leadFilterSchema = z.object({
+  status: z.string().optional(),
+  source: z.string().optional(),
+  search: z.string().optional(),
+  // Comma separated; leads must have every tag
+  tags: z.string().optional(),
+  verification: z
+    .enum(["valid", "invalid", "risky", "unknown", "pending", "unverified"])
+    .optional(),
+  custom: z.record(z.string(), z.string()).default({}),
+});
+
+export type LeadFilters = z.infer<typeof leadFilterSchema>;
+
+// The subset of the Supabase filter builder the lead filters use
+interface FilterableQuery<Q> {
+  eq(column: string, value: string): Q;
+  is(column: string, value: null): Q;
+  or(filters: string): Q;
+  contains(column: string, value: string[]): Q;
+}
+
+// Read lead filters from a request's query string
+export function parseLeadFilters(searchParams: URLSearchParams): LeadFilters {
+  const custom: Record<string, string> = {};
+  searchParams.forEach((value, key) => {
+    if (key.startsWith(CUSTOM_FILTER_PREFIX) && value) {
+      custom[key.slice(CUSTOM_FILTER_PREFIX.length)] = value;
+    }
+  });
+
+  return leadFilterSchema.parse({
+    status: searchParams.get("status") || undefined,
+    source: searchParams.get("source") || undefined,
+    search: searchParams.get("search") || undefined,
+    tags: searchParams.get("tags") || undefined,
+    verification: searchParams.get("verification") || undefined,
+    custom,
+  });
+}
+
+// Write lead filters back into a query string, e.g. for an export link
+export function toLeadFilterParams(filters: Partial<LeadFilters>): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const key of ["status", "source", "search", "tags", "verification"] as const) {
+    const value = filters[key];
+    if (value) params.set(key, value);
+  }
+  for (const [name, value] of Object.entries(filters.custom || {})) {
+    if (value) params.set(`${CUSTOM_FILTER_PREFIX}${name}`, value);
+  }
+  return params;
+}
+
+// Apply lead filters to a query on the leads table
+export function applyLeadFilters<Q extends FilterableQuery<Q>>(query: Q, filters: LeadFilters): Q {
+  if (filters.status) {
+    query = query.eq("status", filters.status);
+  }
+  if (filters.source) {
+    query = query.eq("source", filters.source);
+  }
+  if (filters.search) {
+    const search = filters.search;
+    query = query.or(
+      `email.ilike.%${search}%,first_name.ilike.%${search}%,last_name.ilike.%${search}%,company_name.ilike.%${search}%`
+    );
+  }
+  if (filters.tags) {
+    const tags = filters.tags
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+    if (tags.length > 0) query = query.contains("tags", tags);
+  }
+  if (filters.verification === "unverified") {
+    query = query.is("email_verification_status", null);
+  } else if (filters.verification) {
+    query = query.eq("email_verification_status", filters.verification);
+  }
+  for (const [name, value] of Object.entries(filters.custom)) {
+    query = query.eq(`custom_fields->>${name}`, value);
+  }
+
+  return query;
+}
@@ -0,0 +1,44 @@
+import type { LeadSeniority } from "@/types";
+
+export const SENIORITY_LABELS: Record<LeadSeniority, string> = {
+  owner: "Owner",
+  founder: "Founder",
+  c_suite: "C-Suite",
+  partner: "Partner",
+  vp: "VP",
+  head: "Head",
+  director: "Director",
+  manager: "Manager",
+  senior: "Senior",
+  entry: "Entry",
+  intern: "Intern",
+};
+
+// Checked in order, so "Founder & CEO" is a founder and "VP Sales Manager" a VP
+const SENIORITY_PATTERNS: { seniority: LeadSeniority; pattern: RegExp }[] = [
+  { seniority: "founder", pattern: /\bco-?founder\b|\bfounder\b/i },
+  { seniority: "owner", pattern: /\bowner\b|\bproprietor\b/i },
+  {
+    seniority: "c_suite",
+    pattern: /\bc[a-z]?o\b|\bchief\b|\bpresident\b|\bmanaging director\b|\bgeneral manager\b/i,
+  },
+  { seniority: "partner", pattern: /\bpartner\b|\bprincipal\b/i },
+  { seniority: "vp", pattern: /\bvp\b|\bsvp\b|\bevp\b|\bvice[- ]president\b/i },
+  { seniority: "head", pattern: /\bhead of\b|\bhead\b/i },
+  { seniority: "director", pattern: /\bdirector\b/i },
+  { seniority: "manager", pattern: /\bmanager\b|\blead\b|\bsupervisor\b/i },
+  { seniority: "intern", pattern: /\bintern\b|\btrainee\b/i },
+  { seniority: "senior", pattern: /\bsenior\b|\bsr\.?\s|\bstaff\b/i },
+  { seniority: "entry", pattern: /\bjunior\b|\bjr\.?\s|\bassistant\b|\bassociate\b|\bcoordinator\b/i },
+];
+
+// A known seniority level, or null for anything else
+export function toSeniority(value: string | null | undefined): LeadSeniority | null {
+  return value && value in SENIORITY_LABELS ? (value as LeadSeniority) : null;
+}
+
+// Best-effort level from a job title ("VP of Sales" -> "vp")
+export function inferSeniority(title: string | null | undefined): LeadSeniority | null {
+  if (!title) return null;
+  return SENIORITY_PATTERNS.find(({ pattern }) => pattern.test(title))?.seniority || null;
+}
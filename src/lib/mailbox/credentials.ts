@@ -0,0 +1,48 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+// Mailbox passwords are encrypted with AES-256-GCM before they are stored.
+// MAILBOX_ENCRYPTION_KEY is 32 bytes, base64 or hex encoded
+// (e.g. `openssl rand -base64 32`)
+const PREFIX = "enc:v1:";
+
+function getKey(): Buffer {
+  const raw = process.env.MAILBOX_ENCRYPTION_KEY;
+  if (!raw) {
+    throw new Error("MAILBOX_ENCRYPTION_KEY environment variable is not set");
+  }
+
+  const key = /^[0-9a-f]{64}$/i.test(raw) ? Buffer.from(raw, "hex") : Buffer.from(raw, "base64");
+  if (key.length !== 32) {
+    throw new Error("MAILBOX_ENCRYPTION_KEY must be 32 bytes");
+  }
+  return key;
+}
+
+export function isEncryptedPassword(stored: string): boolean {
+  return stored.startsWith(PREFIX);
+}
+
+// "enc:v1:<iv>:<auth tag>:<ciphertext>", each part base64
+export function encryptMailboxPassword(password: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(password, "utf8"), cipher.final()]);
+
+  return `${PREFIX}${[iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => part.toString("base64"))
+    .join(":")}`;
+}
+
+// Passwords saved before encryption was added are returned as they are
+export function decryptMailboxPassword(stored: string): string {
+  if (!isEncryptedPassword(stored)) return stored;
+
+  const [iv, tag, ciphertext] = stored
+    .slice(PREFIX.length)
+    .split(":")
+    .map((part) => Buffer.from(part, "base64"));
+
+  const decipher = createDecipheriv("aes-256-gcm", getKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+}
@@ -0,0 +1,147 @@
+import net from "net";
+import { afterEach, describe, expect, it } from "vitest";
+import { ImapMailboxAdapter } from "./imap";
+import type { MailboxMessage } from "./index";
+
+const HEADERS = [
+  "From: Alex Peer <alex@peer.example>",
+  "Subject: Quick question",
+  "Message-ID: <wu.abc@peer.example>",
+  "X-Warmup-ID: abc",
+  "",
+  "",
+].join("\r\n");
+
+interface FakeImapServer {
+  port: number;
+  commands: string[];
+  close: () => Promise<void>;
+}
+
+// A local IMAP server that answers every command OK and records what it was
+// sent. One warmup message (UID 7) sits in every folder
+async function startFakeImapServer(capabilities: string[]): Promise<FakeImapServer> {
+  const commands: string[] = [];
+
+  const server = net.createServer((socket) => {
+    let buffer = "";
+    socket.write("* OK fake IMAP ready\r\n");
+
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+
+      let lineEnd: number;
+      while ((lineEnd = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+
+        const [tag, ...rest] = line.split(" ");
+        const command = rest.join(" ");
+        commands.push(command);
+
+        if (command === "CAPABILITY") {
+          socket.write(`* CAPABILITY IMAP4rev1 ${capabilities.join(" ")}\r\n`);
+        } else if (command.startsWith("UID SEARCH")) {
+          socket.write("* SEARCH 7\r\n");
+        } else if (command.startsWith("UID FETCH")) {
+          socket.write(
+            `* 1 FETCH (UID 7 FLAGS (\\Recent) BODY[HEADER] {${Buffer.byteLength(HEADERS)}}\r\n${HEADERS})\r\n`
+          );
+        } else if (command === "LOGOUT") {
+          socket.write("* BYE\r\n");
+        }
+
+        socket.write(`${tag} OK done\r\n`);
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  return {
+    port: (server.address() as net.AddressInfo).port,
+    commands,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+describe("ImapMailboxAdapter", () => {
+  let server: FakeImapServer | null = null;
+  let adapter: ImapMailboxAdapter | null = null;
+
+  afterEach(async () => {
+    await adapter?.close();
+    await server?.close();
+    adapter = null;
+    server = null;
+  });
+
+  async function connect(capabilities: string[]): Promise<ImapMailboxAdapter> {
+    server = await startFakeImapServer(capabilities);
+    adapter = new ImapMailboxAdapter({
+      host: "127.0.0.1",
+      port: server.port,
+      secure: false,
+      username: "me@ours.example",
+      password: 'pa"ss',
+      spam_folder: "Junk",
+    });
+    await adapter.connect();
+    return adapter;
+  }
+
+  async function findInSpam(mailbox: ImapMailboxAdapter): Promise<MailboxMessage> {
+    const [message] = await mailbox.findMessagesWithHeader("Junk", "X-Warmup-ID");
+    return message;
+  }
+
+  it("logs in and finds messages by header, skipping ones already flagged deleted", async () => {
+    const mailbox = await connect([]);
+    const messages = await mailbox.findMessagesWithHeader("INBOX", "X-Warmup-ID", true);
+
+    expect(server?.commands).toContain('LOGIN "me@ours.example" "pa\\"ss"');
+    expect(server?.commands).toContain('UID SEARCH UNDELETED UNSEEN HEADER "X-Warmup-ID" ""');
+    expect(messages).toEqual([
+      expect.objectContaining({
+        uid: "7",
+        folder: "INBOX",
+        messageId: "<wu.abc@peer.example>",
+        subject: "Quick question",
+        from: "alex@peer.example",
+        seen: false,
+      }),
+    ]);
+    expect(messages[0].headers["x-warmup-id"]).toBe("abc");
+  });
+
+  it("moves with UID MOVE when the server supports it", async () => {
+    const mailbox = await connect(["MOVE", "UIDPLUS"]);
+    await mailbox.moveToInbox(await findInSpam(mailbox));
+
+    expect(server?.commands).toContain("UID MOVE 7 INBOX");
+    expect(server?.commands).not.toContain("UID COPY 7 INBOX");
+  });
+
+  it("expunges only the copied message with UIDPLUS", async () => {
+    const mailbox = await connect(["UIDPLUS"]);
+    await mailbox.moveToInbox(await findInSpam(mailbox));
+
+    expect(server?.commands.slice(-3)).toEqual([
+      "UID COPY 7 INBOX",
+      "UID STORE 7 +FLAGS (\\Deleted)",
+      "UID EXPUNGE 7",
+    ]);
+    expect(server?.commands).not.toContain("EXPUNGE");
+  });
+
+  it("leaves the flagged original alone without UIDPLUS", async () => {
+    const mailbox = await connect([]);
+    await mailbox.moveToInbox(await findInSpam(mailbox));
+
+    expect(server?.commands.slice(-2)).toEqual([
+      "UID COPY 7 INBOX",
+      "UID STORE 7 +FLAGS (\\Deleted)",
+    ]);
+    expect(server?.commands.some((command) => command.includes("EXPUNGE"))).toBe(false);
+  });
+});
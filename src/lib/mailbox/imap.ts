@@ -0,0 +1,254 @@
+import net from "net";
+import tls from "tls";
+import { extractAddress, parseHeaderBlock } from "@/lib/inbound";
+import type { MailboxAdapter, MailboxConnection, MailboxMessage } from "./index";
+
+const COMMAND_TIMEOUT_MS = 30000;
+
+interface PendingCommand {
+  tag: string;
+  resolve: (responses: string[]) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+// Minimal IMAP4rev1 client (RFC 3501) covering what the warmup engine needs:
+// search by header, flag as seen and move between folders. Plain connections
+// (secure: false) allow pointing it at a local fake mail server.
+export class ImapMailboxAdapter implements MailboxAdapter {
+  private connection: MailboxConnection;
+  private socket: net.Socket | null = null;
+  private buffer = Buffer.alloc(0);
+  private partial = "";
+  private untagged: string[] = [];
+  private pending: PendingCommand | null = null;
+  private tagCounter = 0;
+  private selectedFolder: string | null = null;
+  private capabilities = new Set<string>();
+
+  constructor(connection: MailboxConnection) {
+    this.connection = connection;
+  }
+
+  async connect(): Promise<void> {
+    const { host, port, secure, username, password } = this.connection;
+
+    await new Promise<string[]>((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port });
+
+      socket.on("data", (chunk: Buffer) => this.onData(chunk));
+      socket.on("error", (error) => this.failPending(error));
+      socket.on("close", () => this.failPending(new Error("IMAP connection closed")));
+
+      this.socket = socket;
+      // The server greeting is answered like a command tagged "*"
+      this.pending = this.createPending("*", resolve, reject, "greeting");
+    });
+
+    await this.command(`LOGIN ${quote(username)} ${quote(password)}`);
+
+    const capability = await this.command("CAPABILITY");
+    for (const line of capability) {
+      if (line.startsWith("* CAPABILITY ")) {
+        line
+          .slice("* CAPABILITY ".length)
+          .split(" ")
+          .forEach((cap) => this.capabilities.add(cap.toUpperCase()));
+      }
+    }
+  }
+
+  async findMessagesWithHeader(
+    folder: string,
+    header: string,
+    unseenOnly = false
+  ): Promise<MailboxMessage[]> {
+    await this.select(folder);
+
+    // Originals left flagged \Deleted by moveToInbox are already handled
+    const criteria = `UNDELETED ${unseenOnly ? "UNSEEN " : ""}HEADER ${quote(header)} ""`;
+    const search = await this.command(`UID SEARCH ${criteria}`);
+    const uids = search
+      .filter((line) => line.startsWith("* SEARCH"))
+      .flatMap((line) => line.slice("* SEARCH".length).trim().split(/\s+/))
+      .filter(Boolean);
+
+    if (uids.length === 0) return [];
+
+    const fetched = await this.command(`UID FETCH ${uids.join(",")} (UID FLAGS BODY.PEEK[HEADER])`);
+
+    return fetched
+      .filter((line) => /^\* \d+ FETCH/.test(line))
+      .map((line) => this.parseFetch(line, folder))
+      .filter((message): message is MailboxMessage => !!message);
+  }
+
+  async markAsRead(message: MailboxMessage): Promise<void> {
+    await this.select(message.folder);
+    await this.command(`UID STORE ${message.uid} +FLAGS (\\Seen)`);
+  }
+
+  async moveToInbox(message: MailboxMessage): Promise<void> {
+    await this.select(message.folder);
+
+    if (this.capabilities.has("MOVE")) {
+      await this.command(`UID MOVE ${message.uid} INBOX`);
+      return;
+    }
+
+    // Servers without MOVE (RFC 6851): copy, then delete the original.
+    // A plain EXPUNGE would also purge everything else the user flagged
+    // \Deleted in that folder, so only UID EXPUNGE (RFC 4315) is used;
+    // without it the original stays flagged for the user's client to remove
+    await this.command(`UID COPY ${message.uid} INBOX`);
+    await this.command(`UID STORE ${message.uid} +FLAGS (\\Deleted)`);
+    if (this.capabilities.has("UIDPLUS")) {
+      await this.command(`UID EXPUNGE ${message.uid}`);
+    }
+  }
+
+  async close(): Promise<void> {
+    if (!this.socket) return;
+
+    try {
+      await this.command("LOGOUT");
+    } catch {
+      // The server may drop the connection before answering
+    }
+
+    this.socket.destroy();
+    this.socket = null;
+  }
+
+  private async select(folder: string): Promise<void> {
+    if (this.selectedFolder === folder) return;
+    await this.command(`SELECT ${quote(folder)}`);
+    this.selectedFolder = folder;
+  }
+
+  private command(command: string): Promise<string[]> {
+    const socket = this.socket;
+    if (!socket) {
+      return Promise.reject(new Error("IMAP client is not connected"));
+    }
+
+    const tag = `A${++this.tagCounter}`;
+    const name = command.split(" ")[0];
+
+    return new Promise((resolve, reject) => {
+      this.pending = this.createPending(tag, resolve, reject, name);
+      socket.write(`${tag} ${command}\r\n`);
+    });
+  }
+
+  private createPending(
+    tag: string,
+    resolve: (responses: string[]) => void,
+    reject: (error: Error) => void,
+    name: string
+  ): PendingCommand {
+    return {
+      tag,
+      resolve,
+      reject,
+      timer: setTimeout(
+        () => this.failPending(new Error(`IMAP ${name} timed out`)),
+        COMMAND_TIMEOUT_MS
+      ),
+    };
+  }
+
+  private failPending(error: Error): void {
+    const pending = this.pending;
+    if (!pending) return;
+
+    this.pending = null;
+    clearTimeout(pending.timer);
+    pending.reject(error);
+  }
+
+  // Split the stream into responses, inlining literals ({n} followed by n bytes)
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    while (true) {
+      const lineEnd = this.buffer.indexOf("\r\n");
+      if (lineEnd === -1) return;
+
+      const line = this.buffer.subarray(0, lineEnd).toString("utf8");
+      const literal = line.match(/\{(\d+)\}$/);
+
+      if (literal) {
+        const end = lineEnd + 2 + parseInt(literal[1]);
+        if (this.buffer.length < end) return;
+
+        this.partial += `${line}\r\n${this.buffer.subarray(lineEnd + 2, end).toString("utf8")}`;
+        this.buffer = this.buffer.subarray(end);
+        continue;
+      }
+
+      this.buffer = this.buffer.subarray(lineEnd + 2);
+      this.handleResponse(this.partial + line);
+      this.partial = "";
+    }
+  }
+
+  private handleResponse(response: string): void {
+    const pending = this.pending;
+    if (!pending) return;
+
+    if (pending.tag === "*") {
+      if (response.startsWith("* OK") || response.startsWith("* PREAUTH")) {
+        this.settle(pending, "OK", response);
+      } else if (response.startsWith("* BYE")) {
+        this.settle(pending, "BYE", response);
+      }
+      return;
+    }
+
+    if (response.startsWith(`${pending.tag} `)) {
+      const status = response.slice(pending.tag.length + 1).split(" ")[0];
+      this.settle(pending, status, response);
+    } else if (response.startsWith("* ")) {
+      this.untagged.push(response);
+    }
+  }
+
+  private settle(pending: PendingCommand, status: string, response: string): void {
+    const untagged = this.untagged;
+    this.untagged = [];
+    this.pending = null;
+    clearTimeout(pending.timer);
+
+    if (status === "OK") {
+      pending.resolve(untagged);
+    } else {
+      pending.reject(new Error(`IMAP error: ${response}`));
+    }
+  }
+
+  private parseFetch(response: string, folder: string): MailboxMessage | null {
+    const uid = response.match(/\bUID (\d+)/)?.[1];
+    if (!uid) return null;
+
+    const flags = response.match(/\bFLAGS \(([^)]*)\)/)?.[1] || "";
+    const literalStart = response.indexOf("}\r\n");
+    const headers = literalStart === -1 ? {} : parseHeaderBlock(response.slice(literalStart + 3));
+
+    return {
+      uid,
+      folder,
+      messageId: headers["message-id"] || null,
+      subject: headers["subject"] || "",
+      from: headers["from"] ? extractAddress(headers["from"]) : "",
+      seen: /\\Seen/i.test(flags),
+      headers,
+    };
+  }
+}
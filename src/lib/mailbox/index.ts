@@ -0,0 +1,61 @@
+import { ImapMailboxAdapter } from "./imap";
+
+export interface MailboxConnection {
+  host: string;
+  port: number;
+  secure: boolean;
+  username: string;
+  password: string;
+  spam_folder: string;
+}
+
+// A message found in a mailbox, identified by its folder and UID
+export interface MailboxMessage {
+  uid: string;
+  folder: string;
+  messageId: string | null;
+  subject: string;
+  from: string;
+  seen: boolean;
+  headers: Record<string, string>;
+}
+
+// Access to one of our own mailboxes, opened and closed once per warmup run
+export interface MailboxAdapter {
+  connect(): Promise<void>;
+  // Messages in a folder that carry the given header
+  findMessagesWithHeader(
+    folder: string,
+    header: string,
+    unseenOnly?: boolean
+  ): Promise<MailboxMessage[]>;
+  markAsRead(message: MailboxMessage): Promise<void>;
+  moveToInbox(message: MailboxMessage): Promise<void>;
+  close(): Promise<void>;
+}
+
+export type MailboxAdapterFactory = (connection: MailboxConnection) => MailboxAdapter;
+
+const adapters = new Map<string, MailboxAdapterFactory>([
+  ["imap", (connection) => new ImapMailboxAdapter(connection)],
+]);
+
+// Register another mailbox provider (e.g. an in-memory fake for local testing)
+export function registerMailboxAdapter(provider: string, factory: MailboxAdapterFactory): void {
+  adapters.set(provider, factory);
+}
+
+export function getMailboxProviders(): string[] {
+  return [...adapters.keys()];
+}
+
+export function createMailboxAdapter(
+  provider: string,
+  connection: MailboxConnection
+): MailboxAdapter {
+  const factory = adapters.get(provider);
+  if (!factory) {
+    throw new Error(`Unknown mailbox provider: ${provider}`);
+  }
+  return factory(connection);
+}
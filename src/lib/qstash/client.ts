@@ -1,4 +1,5 @@
 import { Client } from "@upstash/qstash";
+import type { ScraperResult } from "@/scrapers/base/scraper";
 
 // QStash client for serverless job queuing
 export const qstash = new Client({
@@ -15,7 +16,13 @@ const getBaseUrl = () => {
 };
 
 // Queue types
-export type QueueName = "email-send" | "email-verify" | "scraper-job";
+export type QueueName =
+  | "email-send"
+  | "email-verify"
+  | "scraper-job"
+  | "scraper-schedule"
+  | "website-enrich"
+  | "email-find";
 
 // Job payloads
 export interface EmailSendJob {
@@ -29,6 +36,8 @@ export interface EmailSendJob {
   subject: string;
   html: string;
   text?: string;
+  stepNumber?: number;
+  senderAccountId?: string;
 }
 
 export interface EmailVerifyJob {
@@ -36,6 +45,10 @@ export interface EmailVerifyJob {
   email: string;
 }
 
+export interface VerificationBatchJob {
+  batchId: string;
+}
+
 export interface ScraperJob {
   jobId: string;
   scraperType: string;
@@ -44,6 +57,34 @@ export interface ScraperJob {
   maxResults?: number;
 }
 
+export interface ScraperScheduleJob {
+  scheduleId: string;
+}
+
+// Either an existing lead or company to enrich, or a scraper result that had
+// a website but no email (with the company it was saved as)
+export interface WebsiteEnrichJob {
+  leadId?: string;
+  companyId?: string;
+  scraperJobId?: string;
+  source?: string;
+  result?: ScraperResult;
+}
+
+// Either an existing lead to find a personal address for, a person who
+// isn't a lead yet, or a scraper result for a person found without an email
+export interface EmailFindJob {
+  leadId?: string;
+  firstName?: string;
+  lastName?: string;
+  domain?: string;
+  companyName?: string;
+  scraperJobId?: string;
+  companyId?: string;
+  source?: string;
+  result?: ScraperResult;
+}
+
 // Queue an email to be sent
 export async function queueEmailSend(
   job: EmailSendJob,
@@ -85,6 +126,21 @@ export async function queueEmailVerify(
   });
 }
 
+// Queue the next chunk of a bulk verification batch
+export async function queueVerificationBatch(
+  job: VerificationBatchJob,
+  options?: { delay?: number }
+) {
+  const url = `${getBaseUrl()}/api/jobs/verification-batch`;
+
+  return qstash.publishJSON({
+    url,
+    body: job,
+    retries: 2,
+    delay: options?.delay,
+  });
+}
+
 // Queue scraper job
 export async function queueScraperJob(job: ScraperJob) {
   const url = `${getBaseUrl()}/api/jobs/scraper`;
@@ -96,6 +152,36 @@ export async function queueScraperJob(job: ScraperJob) {
   });
 }
 
+// Queue a website crawl for contact details
+export async function queueWebsiteEnrich(
+  job: WebsiteEnrichJob,
+  options?: { delay?: number }
+) {
+  const url = `${getBaseUrl()}/api/jobs/website-enrich`;
+
+  return qstash.publishJSON({
+    url,
+    body: job,
+    retries: 2,
+    delay: options?.delay,
+  });
+}
+
+// Queue an email-finder run for a person at a company domain
+export async function queueEmailFind(
+  job: EmailFindJob,
+  options?: { delay?: number }
+) {
+  const url = `${getBaseUrl()}/api/jobs/email-find`;
+
+  return qstash.publishJSON({
+    url,
+    body: job,
+    retries: 2,
+    delay: options?.delay,
+  });
+}
+
 // Batch queue multiple emails with delays
 export async function queueEmailBatch(
   jobs: EmailSendJob[],
@@ -132,6 +218,18 @@ export async function scheduleDailyCampaignProcess(campaignId: string) {
   });
 }
 
+// Run a recurring scraper schedule on its cron
+export async function scheduleScraperRuns(scheduleId: string, cron: string) {
+  const url = `${getBaseUrl()}/api/jobs/scraper-schedule`;
+  const job: ScraperScheduleJob = { scheduleId };
+
+  return qstash.schedules.create({
+    destination: url,
+    body: JSON.stringify(job),
+    cron,
+  });
+}
+
 // Helper to chunk array
 function chunk<T>(array: T[], size: number): T[][] {
   const chunks: T[][] = [];
@@ -1,4 +1,5 @@
 import { Redis } from "@upstash/redis";
+import { extractDomain } from "@/lib/utils";
 
 // Upstash Redis client for serverless environments
 export const redis = new Redis({
@@ -8,45 +9,61 @@ export const redis = new Redis({
 
 // Rate limiter keys
 export const RATE_LIMIT_KEYS = {
-  emailDaily: "email:daily:count",
-  emailHourly: "email:hourly:count",
+  emailDaily: (mailbox: string) => `email:${mailbox.toLowerCase()}:daily`,
+  emailHourly: (mailbox: string) => `email:${mailbox.toLowerCase()}:hourly`,
+  domainDaily: (domain: string) => `email:domain:${domain.toLowerCase()}:daily`,
   scraperDaily: (type: string) => `scraper:${type}:daily`,
   scraperHourly: (type: string) => `scraper:${type}:hourly`,
 };
 
-// Email rate limiter
-export async function canSendEmail(dailyLimit: number): Promise<boolean> {
-  const [daily, hourly] = await Promise.all([
-    redis.get<number>(RATE_LIMIT_KEYS.emailDaily),
-    redis.get<number>(RATE_LIMIT_KEYS.emailHourly),
-  ]);
+// Email rate limiter (per sending mailbox)
+export async function canSendEmail(mailbox: string, dailyLimit: number): Promise<boolean> {
+  return (await getRemainingSends(mailbox, dailyLimit)) > 0;
+}
 
+// How many more emails a mailbox can send under its daily and hourly limits
+export async function getRemainingSends(
+  mailbox: string,
+  dailyLimit: number
+): Promise<number> {
+  const { daily, hourly } = await getEmailCounts(mailbox);
   const hourlyLimit = Math.ceil(dailyLimit / 8); // 8-hour send window
 
-  return (daily || 0) < dailyLimit && (hourly || 0) < hourlyLimit;
+  return Math.max(Math.min(dailyLimit - daily, hourlyLimit - hourly), 0);
 }
 
-// Increment email counters
-export async function incrementEmailCount(): Promise<void> {
+// Increment email counters for a mailbox and its sending domain
+export async function incrementEmailCount(mailbox: string): Promise<void> {
   const pipeline = redis.pipeline();
+  const domain = extractDomain(mailbox);
 
-  pipeline.incr(RATE_LIMIT_KEYS.emailDaily);
-  pipeline.expire(RATE_LIMIT_KEYS.emailDaily, 86400); // 24 hours
+  if (domain) {
+    pipeline.incr(RATE_LIMIT_KEYS.domainDaily(domain));
+    pipeline.expire(RATE_LIMIT_KEYS.domainDaily(domain), 86400); // 24 hours
+  }
 
-  pipeline.incr(RATE_LIMIT_KEYS.emailHourly);
-  pipeline.expire(RATE_LIMIT_KEYS.emailHourly, 3600); // 1 hour
+  pipeline.incr(RATE_LIMIT_KEYS.emailDaily(mailbox));
+  pipeline.expire(RATE_LIMIT_KEYS.emailDaily(mailbox), 86400); // 24 hours
+
+  pipeline.incr(RATE_LIMIT_KEYS.emailHourly(mailbox));
+  pipeline.expire(RATE_LIMIT_KEYS.emailHourly(mailbox), 3600); // 1 hour
 
   await pipeline.exec();
 }
 
-// Get current email counts
-export async function getEmailCounts(): Promise<{
+// Emails sent today across all mailboxes on a domain
+export async function getDomainSendCount(domain: string): Promise<number> {
+  return (await redis.get<number>(RATE_LIMIT_KEYS.domainDaily(domain))) || 0;
+}
+
+// Get current email counts for a mailbox
+export async function getEmailCounts(mailbox: string): Promise<{
   daily: number;
   hourly: number;
 }> {
   const [daily, hourly] = await Promise.all([
-    redis.get<number>(RATE_LIMIT_KEYS.emailDaily),
-    redis.get<number>(RATE_LIMIT_KEYS.emailHourly),
+    redis.get<number>(RATE_LIMIT_KEYS.emailDaily(mailbox)),
+    redis.get<number>(RATE_LIMIT_KEYS.emailHourly(mailbox)),
   ]);
 
   return {
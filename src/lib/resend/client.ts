@@ -11,6 +11,7 @@ export interface SendEmailOptions {
   html: string;
   text?: string;
   campaignId?: string;
+  headers?: Record<string, string>;
   tags?: { name: string; value: string }[];
 }
 
@@ -19,6 +20,10 @@ export async function sendEmail(options: SendEmailOptions) {
     options;
 
   const fromAddress = `${fromName} <${from}>`;
+  const headers = {
+    ...(campaignId ? { "X-Campaign-ID": campaignId } : {}),
+    ...options.headers,
+  };
 
   const response = await resend.emails.send({
     from: fromAddress,
@@ -27,11 +32,7 @@ export async function sendEmail(options: SendEmailOptions) {
     subject,
     html,
     text,
-    headers: campaignId
-      ? {
-          "X-Campaign-ID": campaignId,
-        }
-      : undefined,
+    headers: Object.keys(headers).length > 0 ? headers : undefined,
     tags,
   });
 
@@ -0,0 +1,205 @@
+import type { Lead, SendTimezoneMode } from "@/types";
+
+export interface SendWindow {
+  send_window_start: string;
+  send_window_end: string;
+  send_days: number[];
+}
+
+export const TIMEZONES = [
+  { value: "America/New_York", label: "Eastern Time (ET)" },
+  { value: "America/Chicago", label: "Central Time (CT)" },
+  { value: "America/Denver", label: "Mountain Time (MT)" },
+  { value: "America/Phoenix", label: "Arizona (MST)" },
+  { value: "America/Los_Angeles", label: "Pacific Time (PT)" },
+  { value: "America/Anchorage", label: "Alaska Time (AKT)" },
+  { value: "Pacific/Honolulu", label: "Hawaii Time (HT)" },
+  { value: "Europe/London", label: "London (GMT/BST)" },
+  { value: "Europe/Berlin", label: "Central European Time (CET)" },
+  { value: "Asia/Kolkata", label: "India (IST)" },
+  { value: "Australia/Sydney", label: "Sydney (AET)" },
+  { value: "UTC", label: "UTC" },
+];
+
+export const TIMEZONE_MODES: { value: SendTimezoneMode; label: string }[] = [
+  { value: "campaign", label: "Campaign timezone" },
+  { value: "recipient", label: "Recipient's local time" },
+];
+
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Minutes since midnight and ISO weekday (1 = Monday, 7 = Sunday) in a timezone
+export function getZonedTime(
+  timeZone: string,
+  date: Date = new Date()
+): { minutes: number; day: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    hour: "2-digit",
+    minute: "2-digit",
+    weekday: "short",
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || "";
+  const weekdays = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+  return {
+    minutes: parseInt(get("hour")) * 60 + parseInt(get("minute")),
+    day: weekdays.indexOf(get("weekday")) + 1,
+  };
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+// Check whether `date` falls within the send window and send days in a timezone
+export function isWithinSendWindow(
+  window: SendWindow,
+  timeZone: string,
+  date: Date = new Date()
+): boolean {
+  const { minutes, day } = getZonedTime(timeZone, date);
+
+  if (!window.send_days.includes(day)) return false;
+
+  const start = toMinutes(window.send_window_start);
+  const end = toMinutes(window.send_window_end);
+
+  // Windows that wrap past midnight, e.g. 22:00 - 02:00
+  if (start > end) {
+    return minutes >= start || minutes <= end;
+  }
+
+  return minutes >= start && minutes <= end;
+}
+
+const US_STATE_TIMEZONES: Record<string, string> = {
+  AL: "America/Chicago", AK: "America/Anchorage", AZ: "America/Phoenix",
+  AR: "America/Chicago", CA: "America/Los_Angeles", CO: "America/Denver",
+  CT: "America/New_York", DE: "America/New_York", DC: "America/New_York",
+  FL: "America/New_York", GA: "America/New_York", HI: "Pacific/Honolulu",
+  ID: "America/Boise", IL: "America/Chicago", IN: "America/Indiana/Indianapolis",
+  IA: "America/Chicago", KS: "America/Chicago", KY: "America/New_York",
+  LA: "America/Chicago", ME: "America/New_York", MD: "America/New_York",
+  MA: "America/New_York", MI: "America/Detroit", MN: "America/Chicago",
+  MS: "America/Chicago", MO: "America/Chicago", MT: "America/Denver",
+  NE: "America/Chicago", NV: "America/Los_Angeles", NH: "America/New_York",
+  NJ: "America/New_York", NM: "America/Denver", NY: "America/New_York",
+  NC: "America/New_York", ND: "America/Chicago", OH: "America/New_York",
+  OK: "America/Chicago", OR: "America/Los_Angeles", PA: "America/New_York",
+  RI: "America/New_York", SC: "America/New_York", SD: "America/Chicago",
+  TN: "America/Chicago", TX: "America/Chicago", UT: "America/Denver",
+  VT: "America/New_York", VA: "America/New_York", WA: "America/Los_Angeles",
+  WV: "America/New_York", WI: "America/Chicago", WY: "America/Denver",
+  PR: "America/Puerto_Rico",
+};
+
+const US_STATE_NAMES: Record<string, string> = {
+  alabama: "AL", alaska: "AK", arizona: "AZ", arkansas: "AR", california: "CA",
+  colorado: "CO", connecticut: "CT", delaware: "DE", "district of columbia": "DC",
+  florida: "FL", georgia: "GA", hawaii: "HI", idaho: "ID", illinois: "IL",
+  indiana: "IN", iowa: "IA", kansas: "KS", kentucky: "KY", louisiana: "LA",
+  maine: "ME", maryland: "MD", massachusetts: "MA", michigan: "MI", minnesota: "MN",
+  mississippi: "MS", missouri: "MO", montana: "MT", nebraska: "NE", nevada: "NV",
+  "new hampshire": "NH", "new jersey": "NJ", "new mexico": "NM", "new york": "NY",
+  "north carolina": "NC", "north dakota": "ND", ohio: "OH", oklahoma: "OK",
+  oregon: "OR", pennsylvania: "PA", "rhode island": "RI", "south carolina": "SC",
+  "south dakota": "SD", tennessee: "TN", texas: "TX", utah: "UT", vermont: "VT",
+  virginia: "VA", washington: "WA", "west virginia": "WV", wisconsin: "WI",
+  wyoming: "WY", "puerto rico": "PR",
+};
+
+// Cities in states split across two timezones
+const US_CITY_TIMEZONES: Record<string, string> = {
+  "TX:el paso": "America/Denver",
+  "FL:pensacola": "America/Chicago",
+  "FL:panama city": "America/Chicago",
+  "TN:knoxville": "America/New_York",
+  "TN:chattanooga": "America/New_York",
+  "KY:bowling green": "America/Chicago",
+  "KY:paducah": "America/Chicago",
+  "IN:evansville": "America/Chicago",
+  "IN:gary": "America/Chicago",
+  "ID:coeur d'alene": "America/Los_Angeles",
+  "SD:rapid city": "America/Denver",
+  "NE:scottsbluff": "America/Denver",
+  "ND:dickinson": "America/Denver",
+  "OR:ontario": "America/Boise",
+};
+
+const CA_PROVINCE_TIMEZONES: Record<string, string> = {
+  ON: "America/Toronto", QC: "America/Toronto", BC: "America/Vancouver",
+  AB: "America/Edmonton", MB: "America/Winnipeg", SK: "America/Regina",
+  NS: "America/Halifax", NB: "America/Moncton", NL: "America/St_Johns",
+  PE: "America/Halifax", YT: "America/Whitehorse", NT: "America/Yellowknife",
+  NU: "America/Iqaluit",
+};
+
+const AU_STATE_TIMEZONES: Record<string, string> = {
+  NSW: "Australia/Sydney", VIC: "Australia/Melbourne", QLD: "Australia/Brisbane",
+  WA: "Australia/Perth", SA: "Australia/Adelaide", TAS: "Australia/Hobart",
+  ACT: "Australia/Sydney", NT: "Australia/Darwin",
+};
+
+// Countries that span a single timezone
+const COUNTRY_TIMEZONES: Record<string, string> = {
+  GB: "Europe/London", IE: "Europe/Dublin", DE: "Europe/Berlin", FR: "Europe/Paris",
+  ES: "Europe/Madrid", IT: "Europe/Rome", NL: "Europe/Amsterdam", BE: "Europe/Brussels",
+  CH: "Europe/Zurich", AT: "Europe/Vienna", SE: "Europe/Stockholm", NO: "Europe/Oslo",
+  DK: "Europe/Copenhagen", FI: "Europe/Helsinki", PL: "Europe/Warsaw", PT: "Europe/Lisbon",
+  NZ: "Pacific/Auckland", IN: "Asia/Kolkata", SG: "Asia/Singapore", JP: "Asia/Tokyo",
+  CN: "Asia/Shanghai", HK: "Asia/Hong_Kong", ZA: "Africa/Johannesburg",
+  AE: "Asia/Dubai", IL: "Asia/Jerusalem", PH: "Asia/Manila",
+};
+
+const COUNTRY_ALIASES: Record<string, string> = {
+  usa: "US", "united states": "US", "united states of america": "US", america: "US",
+  canada: "CA", australia: "AU", uk: "GB", "united kingdom": "GB", "great britain": "GB",
+  england: "GB", scotland: "GB", wales: "GB", ireland: "IE", germany: "DE",
+  france: "FR", spain: "ES", italy: "IT", netherlands: "NL", belgium: "BE",
+  switzerland: "CH", austria: "AT", sweden: "SE", norway: "NO", denmark: "DK",
+  finland: "FI", poland: "PL", portugal: "PT", "new zealand": "NZ", india: "IN",
+  singapore: "SG", japan: "JP", china: "CN", "hong kong": "HK",
+  "south africa": "ZA", "united arab emirates": "AE", uae: "AE", israel: "IL",
+  philippines: "PH",
+};
+
+function normalizeCountry(country: string | null): string {
+  const value = (country || "").trim();
+  if (!value) return "US";
+  return COUNTRY_ALIASES[value.toLowerCase()] || value.toUpperCase();
+}
+
+// Best-effort recipient timezone from lead location, or null if unknown
+export function resolveLeadTimezone(
+  lead: Pick<Lead, "city" | "state" | "country">
+): string | null {
+  const country = normalizeCountry(lead.country);
+  const state = (lead.state || "").trim();
+  const stateCode = state.toUpperCase();
+
+  if (country === "US") {
+    const code = US_STATE_TIMEZONES[stateCode]
+      ? stateCode
+      : US_STATE_NAMES[state.toLowerCase()];
+    if (!code) return null;
+
+    const city = (lead.city || "").trim().toLowerCase();
+    return US_CITY_TIMEZONES[`${code}:${city}`] || US_STATE_TIMEZONES[code];
+  }
+
+  if (country === "CA") return CA_PROVINCE_TIMEZONES[stateCode] || null;
+  if (country === "AU") return AU_STATE_TIMEZONES[stateCode] || null;
+
+  return COUNTRY_TIMEZONES[country] || null;
+}
@@ -0,0 +1,84 @@
+import type { ScoringRule, ScoringRuleType } from "@/types";
+
+// Rules are evaluated in the database by lead_score_breakdown() whenever a
+// lead is written or one of its email events changes
+export const SCORING_RULE_OPTIONS: {
+  value: ScoringRuleType;
+  label: string;
+  description: string;
+  // Rule matches when the lead's field is one of the configured values
+  takesValues?: boolean;
+}[] = [
+  { value: "verified_email", label: "Verified email", description: "Email passed verification" },
+  { value: "has_website", label: "Website", description: "Company website is known" },
+  { value: "has_phone", label: "Phone", description: "Phone number is known" },
+  { value: "has_linkedin", label: "LinkedIn", description: "LinkedIn profile is known" },
+  {
+    value: "industry",
+    label: "Industry match",
+    description: "Industry is one of your target industries",
+    takesValues: true,
+  },
+  {
+    value: "company_size",
+    label: "Company size",
+    description: "Company size is one of your target sizes",
+    takesValues: true,
+  },
+  { value: "opened", label: "Opened", description: "Opened a campaign email" },
+  { value: "clicked", label: "Clicked", description: "Clicked a link in a campaign email" },
+  { value: "replied", label: "Replied", description: "Replied to a campaign email" },
+  {
+    value: "role_address",
+    label: "Role address",
+    description: "Shared inbox such as info@ or sales@",
+  },
+  { value: "catch_all", label: "Catch-all domain", description: "Domain accepts every address" },
+  { value: "bounced", label: "Bounced", description: "An email to this lead bounced" },
+];
+
+// Keep in sync with the defaults seeded by 017_lead_scoring.sql
+export const DEFAULT_SCORING_RULES: ScoringRule[] = [
+  { type: "verified_email", enabled: true, points: 25 },
+  { type: "has_website", enabled: true, points: 15 },
+  { type: "has_phone", enabled: true, points: 5 },
+  { type: "has_linkedin", enabled: true, points: 5 },
+  { type: "industry", enabled: true, points: 15, values: [] },
+  { type: "company_size", enabled: true, points: 10, values: [] },
+  { type: "opened", enabled: true, points: 10 },
+  { type: "clicked", enabled: true, points: 15 },
+  { type: "replied", enabled: true, points: 25 },
+  { type: "role_address", enabled: true, points: -20 },
+  { type: "catch_all", enabled: true, points: -10 },
+  { type: "bounced", enabled: true, points: -50 },
+];
+
+export function getScoringRuleLabel(type: string): string {
+  return SCORING_RULE_OPTIONS.find((option) => option.value === type)?.label || type;
+}
+
+// One rule per type in the default order; saved rules override the defaults
+export function normalizeScoringRules(value: unknown): ScoringRule[] {
+  const saved = Array.isArray(value) ? (value as Partial<ScoringRule>[]) : [];
+
+  return DEFAULT_SCORING_RULES.map((rule) => {
+    const match = saved.find((item) => item && item.type === rule.type);
+    if (!match) return rule;
+
+    return {
+      ...rule,
+      enabled: match.enabled !== false,
+      points: typeof match.points === "number" ? match.points : rule.points,
+      ...(rule.values && {
+        values: Array.isArray(match.values) ? match.values.map(String) : rule.values,
+      }),
+    };
+  });
+}
+
+// Badge colour for a 0-100 score
+export function getScoreVariant(score: number): "success" | "warning" | "destructive" {
+  if (score >= 60) return "success";
+  if (score >= 30) return "warning";
+  return "destructive";
+}
@@ -0,0 +1,68 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { queueScraperJob } from "@/lib/qstash/client";
+import type { ScraperJob, ScraperType } from "@/types";
+
+// Scraper types the job runner has an implementation for
+export const RUNNABLE_SCRAPER_TYPES = [
+  "google_maps",
+  "google_search",
+  "yelp",
+  "yellowpages",
+  "apollo",
+  "linkedin_sales_nav",
+] as const satisfies readonly ScraperType[];
+
+export interface StartScraperJobInput {
+  scraperType: ScraperType;
+  query: string;
+  location?: string;
+  maxResults?: number;
+  // Saved on the job and handed to the scraper as its filters
+  searchParameters?: Record<string, unknown>;
+  // The recurring schedule this run belongs to
+  scheduleId?: string;
+}
+
+// Save a scraper job and queue it to run
+export async function startScraperJob(
+  supabase: SupabaseClient,
+  input: StartScraperJobInput
+): Promise<ScraperJob> {
+  const maxResults = input.maxResults || 100;
+
+  const { data: job, error } = await supabase
+    .from("scraper_jobs")
+    .insert({
+      scraper_type: input.scraperType,
+      search_query: input.query,
+      search_parameters: {
+        ...input.searchParameters,
+        location: input.location || null,
+        max_results: maxResults,
+      },
+      status: "pending",
+      schedule_id: input.scheduleId || null,
+    })
+    .select()
+    .single();
+
+  if (error) throw new Error(`Failed to create scraper job: ${error.message}`);
+
+  try {
+    await queueScraperJob({
+      jobId: job.id,
+      scraperType: input.scraperType,
+      query: input.query,
+      location: input.location,
+      maxResults,
+    });
+  } catch (queueError) {
+    await supabase
+      .from("scraper_jobs")
+      .update({ status: "failed", last_error: "Failed to queue job" })
+      .eq("id", job.id);
+    throw queueError;
+  }
+
+  return job;
+}
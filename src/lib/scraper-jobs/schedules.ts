@@ -0,0 +1,43 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ScraperType } from "@/types";
+
+// Sales Navigator imports replay a one-off upload, so they can't repeat
+export const SCHEDULABLE_SCRAPER_TYPES = [
+  "google_maps",
+  "google_search",
+  "yelp",
+  "yellowpages",
+  "apollo",
+] as const satisfies readonly ScraperType[];
+
+// Crons offered when saving a schedule (UTC)
+export const SCHEDULE_FREQUENCIES: { cron: string; label: string }[] = [
+  { cron: "0 6 * * *", label: "Every day" },
+  { cron: "0 6 * * 1-5", label: "Every weekday" },
+  { cron: "0 6 * * 1", label: "Every Monday" },
+  { cron: "0 6 1 * *", label: "First of the month" },
+];
+
+// Five space-separated cron fields of numbers, ranges, steps and lists
+export function isValidCron(cron: string): boolean {
+  const fields = cron.trim().split(/\s+/);
+  return fields.length === 5 && fields.every((field) => /^[\d*,\-/]+$/.test(field));
+}
+
+export function describeCron(cron: string): string {
+  return SCHEDULE_FREQUENCIES.find((frequency) => frequency.cron === cron)?.label || cron;
+}
+
+// Tag the schedule's new leads into its segment and enroll them in its
+// campaign; returns how many were added to the campaign
+export async function addScheduleLeads(
+  supabase: SupabaseClient,
+  scheduleId: string
+): Promise<number> {
+  const { data, error } = await supabase.rpc("add_schedule_leads", {
+    p_schedule_id: scheduleId,
+  });
+
+  if (error) throw new Error(`Failed to add schedule leads: ${error.message}`);
+  return data || 0;
+}
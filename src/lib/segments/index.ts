@@ -0,0 +1,85 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { SegmentEngagementEvent, SegmentFilters } from "@/types";
+
+export const ENGAGEMENT_EVENT_OPTIONS: { value: SegmentEngagementEvent; label: string }[] = [
+  { value: "sent", label: "Was sent" },
+  { value: "opened", label: "Opened" },
+  { value: "clicked", label: "Clicked" },
+  { value: "replied", label: "Replied to" },
+];
+
+const EVENT_VERBS: Record<SegmentEngagementEvent, [string, string]> = {
+  sent: ["Was emailed", "Not emailed"],
+  opened: ["Opened any campaign", "Opened no campaign"],
+  clicked: ["Clicked any campaign", "Clicked no campaign"],
+  replied: ["Replied to any campaign", "Replied to no campaign"],
+};
+
+// Leads matching the filters, evaluated by the segment_leads() SQL function.
+// Chain .select(), .order(), .range() etc. as on a table query.
+export function querySegmentLeads(
+  supabase: SupabaseClient,
+  filters: SegmentFilters,
+  options: { count?: "exact"; head?: boolean } = {}
+) {
+  return supabase.rpc("segment_leads", { p_filters: filters }, options);
+}
+
+export async function countSegmentLeads(
+  supabase: SupabaseClient,
+  filters: SegmentFilters
+): Promise<number> {
+  const { count, error } = await querySegmentLeads(supabase, filters, {
+    count: "exact",
+    head: true,
+  });
+
+  if (error) throw new Error(`Failed to count segment leads: ${error.message}`);
+  return count || 0;
+}
+
+// Add the segment's eligible leads to a campaign; returns how many were new
+export async function enrollSegmentLeads(
+  supabase: SupabaseClient,
+  campaignId: string,
+  segmentId: string
+): Promise<number> {
+  const { data, error } = await supabase.rpc("enroll_segment_leads", {
+    p_campaign_id: campaignId,
+    p_segment_id: segmentId,
+  });
+
+  if (error) throw new Error(`Failed to enroll segment leads: ${error.message}`);
+  return data || 0;
+}
+
+// One short phrase per active filter, for showing what a segment contains
+export function describeSegmentFilters(filters: SegmentFilters): string[] {
+  const parts: string[] = [];
+  const list = (values?: string[]) => (values && values.length > 0 ? values.join(", ") : null);
+
+  if (list(filters.statuses)) parts.push(`Status: ${list(filters.statuses)}`);
+  if (list(filters.sources)) parts.push(`Source: ${list(filters.sources)}`);
+  if (list(filters.industries)) parts.push(`Industry: ${list(filters.industries)}`);
+  if (list(filters.cities)) parts.push(`City: ${list(filters.cities)}`);
+  if (list(filters.states)) parts.push(`State: ${list(filters.states)}`);
+  if (list(filters.tags)) {
+    parts.push(`${filters.tags_match === "all" ? "All tags" : "Any tag"}: ${list(filters.tags)}`);
+  }
+
+  const min = filters.min_quality_score;
+  const max = filters.max_quality_score;
+  if (min != null && max != null) parts.push(`Score ${min}–${max}`);
+  else if (min != null) parts.push(`Score ≥ ${min}`);
+  else if (max != null) parts.push(`Score ≤ ${max}`);
+
+  if (list(filters.verification_statuses)) {
+    parts.push(`Verification: ${list(filters.verification_statuses)}`);
+  }
+  for (const rule of filters.engagement || []) {
+    const [did, didNot] = EVENT_VERBS[rule.event];
+    parts.push(`${rule.match === "did" ? did : didNot} in ${rule.days} days`);
+  }
+
+  return parts;
+}
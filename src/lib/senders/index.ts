@@ -0,0 +1,79 @@
+import type { DomainWarmup, SenderAccount } from "@/types";
+
+// A mailbox a campaign can send from during one processing run
+export interface Mailbox {
+  id: string | null; // null for the campaign's own from address
+  email: string;
+  fromName: string;
+  domain: string;
+  dailyLimit: number;
+  remaining: number;
+  queued: number;
+  // Shared by every mailbox on a domain that is still warming up
+  domainBudget: { remaining: number } | null;
+}
+
+type WarmupLimitFields = Pick<DomainWarmup, "status" | "current_daily_limit">;
+
+// Daily limit a warmup imposes on its domain, or null once the warmup completed
+export function getWarmupDailyLimit(warmup?: WarmupLimitFields | null): number | null {
+  if (!warmup || warmup.status === "completed") return null;
+  return warmup.current_daily_limit;
+}
+
+// A mailbox never sends more than its domain's warmup currently allows
+export function getSenderDailyLimit(
+  sender: Pick<SenderAccount, "daily_limit">,
+  warmup?: WarmupLimitFields | null
+): number {
+  const warmupLimit = getWarmupDailyLimit(warmup);
+  return warmupLimit === null ? sender.daily_limit : Math.min(sender.daily_limit, warmupLimit);
+}
+
+function hasCapacity(mailbox: Mailbox): boolean {
+  return mailbox.remaining > 0 && (!mailbox.domainBudget || mailbox.domainBudget.remaining > 0);
+}
+
+// Total sends the pool allows, counting each shared domain budget once
+export function getPoolCapacity(mailboxes: Mailbox[]): number {
+  const budgets = new Map<{ remaining: number } | null, number>();
+  for (const mailbox of mailboxes) {
+    budgets.set(mailbox.domainBudget, (budgets.get(mailbox.domainBudget) || 0) + mailbox.remaining);
+  }
+
+  let capacity = 0;
+  for (const [budget, remaining] of budgets) {
+    capacity += budget ? Math.min(budget.remaining, remaining) : remaining;
+  }
+  return capacity;
+}
+
+// Record a queued send against the mailbox and its domain
+export function consumeMailbox(mailbox: Mailbox): void {
+  mailbox.queued++;
+  mailbox.remaining--;
+  if (mailbox.domainBudget) mailbox.domainBudget.remaining--;
+}
+
+// Round-robin across mailboxes with capacity left. Follow-ups stay on the
+// mailbox that sent the earlier steps; null means skip the lead this run.
+export function pickMailbox(
+  mailboxes: Mailbox[],
+  rotation: { cursor: number },
+  senderAccountId?: string | null
+): Mailbox | null {
+  if (senderAccountId) {
+    const sticky = mailboxes.find((m) => m.id === senderAccountId);
+    if (sticky) return hasCapacity(sticky) ? sticky : null;
+  }
+
+  for (let i = 0; i < mailboxes.length; i++) {
+    const mailbox = mailboxes[(rotation.cursor + i) % mailboxes.length];
+    if (hasCapacity(mailbox)) {
+      rotation.cursor = (rotation.cursor + i + 1) % mailboxes.length;
+      return mailbox;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,112 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getDomainSendCount, getRemainingSends } from "@/lib/redis/client";
+import { getWarmupDailyLimit, type Mailbox } from "@/lib/senders";
+import { extractDomain } from "@/lib/utils";
+import type { Campaign, DomainWarmup, SenderAccount } from "@/types";
+
+// Limit for a legacy from address whose domain was never warmed up
+const DEFAULT_DAILY_LIMIT = 50;
+
+// Domain budgets keyed by domain, reused across campaigns in one processing run
+export type DomainBudgets = Map<string, { remaining: number }>;
+
+type MailboxSource = Omit<Mailbox, "remaining" | "queued" | "domainBudget"> & {
+  warmup: DomainWarmup | null;
+};
+
+// Build the rotation pool for a campaign, least recently used mailbox first.
+// Campaigns without sender accounts send from their own from address.
+export async function getCampaignMailboxes(
+  supabase: SupabaseClient,
+  campaign: Pick<Campaign, "id" | "from_email" | "from_name" | "daily_limit">,
+  budgets: DomainBudgets = new Map()
+): Promise<Mailbox[]> {
+  const { data } = await supabase
+    .from("campaign_senders")
+    .select("sender:sender_accounts(*, warmup:domain_warmup(*))")
+    .eq("campaign_id", campaign.id);
+
+  const senders = (data || [])
+    .map((row) => row.sender as unknown as SenderAccount | null)
+    .filter((sender): sender is SenderAccount => !!sender && sender.is_active)
+    .sort(
+      (a, b) =>
+        (a.last_used_at ? new Date(a.last_used_at).getTime() : 0) -
+        (b.last_used_at ? new Date(b.last_used_at).getTime() : 0)
+    );
+
+  const warmups = await getDomainWarmups(
+    supabase,
+    senders.length > 0 ? senders.map((s) => s.email) : [campaign.from_email]
+  );
+
+  let sources: MailboxSource[];
+
+  if (senders.length > 0) {
+    sources = senders.map((sender) => {
+      const domain = extractDomain(sender.email) || sender.domain;
+      return {
+        id: sender.id,
+        email: sender.email,
+        fromName: sender.from_name,
+        domain,
+        dailyLimit: sender.daily_limit,
+        // An explicitly linked warmup wins over the domain match
+        warmup: sender.warmup || warmups.get(domain) || null,
+      };
+    });
+  } else {
+    const domain = extractDomain(campaign.from_email) || "";
+    const warmup = warmups.get(domain) || null;
+    sources = [
+      {
+        id: null,
+        email: campaign.from_email,
+        fromName: campaign.from_name,
+        domain,
+        dailyLimit: warmup
+          ? campaign.daily_limit
+          : Math.min(campaign.daily_limit, DEFAULT_DAILY_LIMIT),
+        warmup,
+      },
+    ];
+  }
+
+  // One budget per warming domain, shared by its mailboxes and every campaign using it
+  for (const { domain, warmup } of sources) {
+    const warmupLimit = getWarmupDailyLimit(warmup);
+    if (warmupLimit === null || budgets.has(domain)) continue;
+
+    budgets.set(domain, {
+      remaining: Math.max(warmupLimit - (await getDomainSendCount(domain)), 0),
+    });
+  }
+
+  return Promise.all(
+    sources.map(async (source) => ({
+      id: source.id,
+      email: source.email,
+      fromName: source.fromName,
+      domain: source.domain,
+      dailyLimit: source.dailyLimit,
+      remaining: await getRemainingSends(source.email, source.dailyLimit),
+      queued: 0,
+      domainBudget: budgets.get(source.domain) || null,
+    }))
+  );
+}
+
+// Warmups for the sending domains of the given addresses, keyed by domain
+async function getDomainWarmups(
+  supabase: SupabaseClient,
+  emails: string[]
+): Promise<Map<string, DomainWarmup>> {
+  const domains = [
+    ...new Set(emails.map((email) => extractDomain(email)).filter((d): d is string => !!d)),
+  ];
+  if (domains.length === 0) return new Map();
+
+  const { data } = await supabase.from("domain_warmup").select("*").in("domain", domains);
+
+  return new Map((data || []).map((warmup: DomainWarmup) => [warmup.domain.toLowerCase(), warmup]));
+}
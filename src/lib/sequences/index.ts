@@ -0,0 +1,78 @@
+import type { CampaignLead, EmailTemplate, StepCondition } from "@/types";
+
+export interface SequenceStep {
+  step_number: number;
+  template_id: string;
+  wait_days: number;
+  condition: StepCondition;
+  template: Pick<EmailTemplate, "subject" | "body_html" | "body_text"> | null;
+}
+
+export const STEP_CONDITIONS: { value: StepCondition; label: string }[] = [
+  { value: "always", label: "Always send" },
+  { value: "no_reply", label: "If no reply" },
+  { value: "no_open", label: "If not opened" },
+  { value: "no_click", label: "If not clicked" },
+];
+
+// Resolve ordered steps for a campaign, falling back to its single template
+export function resolveCampaignSteps(campaign: {
+  template_id: string | null;
+  template?: SequenceStep["template"];
+  steps?: Array<Omit<SequenceStep, "template"> & { template?: SequenceStep["template"] }> | null;
+}): SequenceStep[] {
+  if (campaign.steps && campaign.steps.length > 0) {
+    return [...campaign.steps]
+      .sort((a, b) => a.step_number - b.step_number)
+      .map((step) => ({
+        step_number: step.step_number,
+        template_id: step.template_id,
+        wait_days: step.wait_days || 0,
+        condition: step.condition || "always",
+        template: step.template || null,
+      }));
+  }
+
+  if (!campaign.template_id) return [];
+
+  return [
+    {
+      step_number: 1,
+      template_id: campaign.template_id,
+      wait_days: 0,
+      condition: "always",
+      template: campaign.template || null,
+    },
+  ];
+}
+
+// Check whether a step's condition still holds for a campaign lead
+export function isStepConditionMet(
+  condition: StepCondition,
+  campaignLead: Pick<CampaignLead, "status" | "replied_at" | "opened_at" | "clicked_at">
+): boolean {
+  switch (condition) {
+    case "no_reply":
+      return !campaignLead.replied_at && campaignLead.status !== "replied";
+    case "no_open":
+      return !campaignLead.opened_at;
+    case "no_click":
+      return !campaignLead.clicked_at;
+    default:
+      return true;
+  }
+}
+
+// When the step after `completedStep` becomes due, or null if the sequence is done
+export function getNextSendAt(
+  steps: Pick<SequenceStep, "step_number" | "wait_days">[],
+  completedStep: number,
+  from: Date = new Date()
+): string | null {
+  const nextStep = steps.find((s) => s.step_number === completedStep + 1);
+  if (!nextStep) return null;
+
+  const next = new Date(from);
+  next.setDate(next.getDate() + (nextStep.wait_days || 0));
+  return next.toISOString();
+}
@@ -13,34 +13,339 @@ export interface TemplateVariables {
   fullName: string;
   company: string;
   industry: string;
+  jobTitle: string;
   city: string;
   state: string;
+  country: string;
+  website: string;
   email: string;
   [key: string]: string;
 }
 
-// Build variable map from lead data
+export interface TemplateError {
+  message: string;
+  line: number;
+  column: number;
+}
+
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "variable"; name: string; fallback: string | null }
+  | { type: "if"; name: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: "spin"; options: TemplateNode[][] };
+
+export const TEMPLATE_VARIABLES = [
+  "firstName",
+  "lastName",
+  "fullName",
+  "company",
+  "industry",
+  "jobTitle",
+  "city",
+  "state",
+  "country",
+  "website",
+  "email",
+];
+
+// Used when a variable is empty and the template gives no {{name|fallback}}
+const DEFAULT_FALLBACKS: Record<string, string> = {
+  firstName: "there",
+  fullName: "there",
+  company: "your company",
+  industry: "your industry",
+};
+
+// {{firstName}}, or custom.<key> / enrichment.<key> for lead JSON fields
+const VARIABLE_NAME_REGEX = /^(\w+|(custom|enrichment)\.[\w-]+)$/;
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return "";
+  return String(value).trim();
+}
+
+// Build variable map from lead data (empty strings for missing values)
 export function buildVariables(lead: Lead): TemplateVariables {
-  return {
-    firstName: lead.first_name || "there",
+  const variables: TemplateVariables = {
+    firstName: lead.first_name || "",
     lastName: lead.last_name || "",
-    fullName:
-      `${lead.first_name || ""} ${lead.last_name || ""}`.trim() || "there",
-    company: lead.company_name || "your company",
-    industry: lead.industry || "your industry",
+    fullName: `${lead.first_name || ""} ${lead.last_name || ""}`.trim(),
+    company: lead.company_name || "",
+    industry: lead.industry || "",
+    jobTitle: toText(
+      lead.job_title ??
+        lead.custom_fields?.job_title ??
+        lead.enrichment_data?.job_title ??
+        lead.enrichment_data?.title
+    ),
     city: lead.city || "",
     state: lead.state || "",
+    country: lead.country || "",
+    website: lead.company_website || "",
     email: lead.email,
   };
+
+  for (const [key, value] of Object.entries(lead.custom_fields || {})) {
+    variables[`custom.${key}`] = toText(value);
+  }
+  for (const [key, value] of Object.entries(lead.enrichment_data || {})) {
+    variables[`enrichment.${key}`] = toText(value);
+  }
+
+  return variables;
 }
 
-// Replace template variables in text
+class TemplateSyntaxError extends Error {
+  constructor(message: string, public index: number) {
+    super(message);
+  }
+}
+
+function getLocation(source: string, index: number): { line: number; column: number } {
+  const before = source.slice(0, index).split("\n");
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+// Find the "}" closing a single-brace group and whether it has a top-level "|"
+function scanBraceGroup(source: string, start: number): { close: number; hasPipe: boolean } {
+  let depth = 0;
+  let hasPipe = false;
+
+  for (let i = start; i < source.length; i++) {
+    if (source.startsWith("{{", i)) {
+      const end = source.indexOf("}}", i + 2);
+      if (end === -1) break;
+      i = end + 1;
+    } else if (source[i] === "{") {
+      depth++;
+    } else if (source[i] === "}") {
+      depth--;
+      if (depth === 0) return { close: i, hasPipe };
+    } else if (source[i] === "|" && depth === 1) {
+      hasPipe = true;
+    }
+  }
+
+  return { close: -1, hasPipe: false };
+}
+
+function validateVariableName(name: string, index: number) {
+  if (!name) {
+    throw new TemplateSyntaxError("Empty variable name", index);
+  }
+  if (!VARIABLE_NAME_REGEX.test(name)) {
+    throw new TemplateSyntaxError(`Invalid variable name "${name}"`, index);
+  }
+  if (!name.includes(".") && !TEMPLATE_VARIABLES.includes(name)) {
+    throw new TemplateSyntaxError(
+      `Unknown variable "${name}" (use custom.${name} or enrichment.${name} for lead fields)`,
+      index
+    );
+  }
+}
+
+// Parse {{variables}}, {{#if}} blocks and {spin|tax} into a node tree
+function parseNodes(source: string): TemplateNode[] {
+  let pos = 0;
+
+  // Inner text of the {{tag}} starting at `at`, if any
+  const tagAt = (at: number) =>
+    source.startsWith("{{", at) ? source.slice(at + 2, source.indexOf("}}", at)).trim() : null;
+
+  // Parse until EOF or a terminator for the current context; pos is left on the terminator
+  function parseSequence(mode: "root" | "if" | "spin" | "brace"): TemplateNode[] {
+    const nodes: TemplateNode[] = [];
+    let text = "";
+
+    const flush = () => {
+      if (text) nodes.push({ type: "text", value: text });
+      text = "";
+    };
+
+    while (pos < source.length) {
+      if (source.startsWith("{{", pos)) {
+        const tagStart = pos;
+        const end = source.indexOf("}}", pos + 2);
+        if (end === -1) {
+          throw new TemplateSyntaxError('Unclosed tag, expected "}}"', tagStart);
+        }
+
+        const inner = source.slice(pos + 2, end).trim();
+
+        if (inner === "else" || inner === "/if") {
+          if (mode !== "if") {
+            throw new TemplateSyntaxError(`Unexpected {{${inner}}} without {{#if}}`, tagStart);
+          }
+          flush();
+          return nodes;
+        }
+
+        pos = end + 2;
+        flush();
+
+        if (inner.startsWith("#if")) {
+          const name = inner.slice(3).trim();
+          validateVariableName(name, tagStart);
+
+          const then = parseSequence("if");
+          let otherwise: TemplateNode[] = [];
+
+          if (tagAt(pos) === "else") {
+            pos = source.indexOf("}}", pos) + 2;
+            otherwise = parseSequence("if");
+            if (tagAt(pos) === "else") {
+              throw new TemplateSyntaxError("Duplicate {{else}} in {{#if}} block", pos);
+            }
+          }
+
+          if (tagAt(pos) !== "/if") {
+            throw new TemplateSyntaxError(`Unclosed {{#if ${name}}} block`, tagStart);
+          }
+
+          pos = source.indexOf("}}", pos) + 2;
+          nodes.push({ type: "if", name, then, otherwise });
+        } else if (inner.startsWith("#") || inner.startsWith("/")) {
+          throw new TemplateSyntaxError(`Unknown block {{${inner}}}`, tagStart);
+        } else {
+          const separator = inner.indexOf("|");
+          const name = (separator === -1 ? inner : inner.slice(0, separator)).trim();
+          const fallback = separator === -1 ? null : inner.slice(separator + 1).trim();
+          validateVariableName(name, tagStart);
+          nodes.push({ type: "variable", name, fallback });
+        }
+      } else if (source[pos] === "{") {
+        const { close, hasPipe } = scanBraceGroup(source, pos);
+        flush();
+
+        const groupStart = pos;
+
+        if (close !== -1 && hasPipe) {
+          const options: TemplateNode[][] = [];
+          pos++;
+          for (;;) {
+            options.push(parseSequence("spin"));
+            if (pos >= source.length) {
+              throw new TemplateSyntaxError('Unclosed spintax, expected "}"', groupStart);
+            }
+            pos++;
+            if (source[pos - 1] === "}") break;
+          }
+          nodes.push({ type: "spin", options });
+        } else if (close !== -1) {
+          // Literal braces (e.g. CSS), parsed for variables inside
+          pos++;
+          nodes.push({ type: "text", value: "{" });
+          nodes.push(...parseSequence("brace"));
+          if (pos >= source.length) {
+            throw new TemplateSyntaxError('Unclosed "{"', groupStart);
+          }
+          pos++;
+          nodes.push({ type: "text", value: "}" });
+        } else {
+          text += "{";
+          pos++;
+        }
+      } else if ((mode === "spin" && (source[pos] === "|" || source[pos] === "}")) ||
+        (mode === "brace" && source[pos] === "}")) {
+        flush();
+        return nodes;
+      } else {
+        text += source[pos];
+        pos++;
+      }
+    }
+
+    flush();
+    return nodes;
+  }
+
+  const nodes = parseSequence("root");
+  if (pos < source.length) {
+    throw new TemplateSyntaxError("Unexpected template tag", pos);
+  }
+  return nodes;
+}
+
+// Check a template for syntax errors, with the 1-based line/column of the first one
+export function validateTemplate(source: string): TemplateError | null {
+  try {
+    parseNodes(source);
+    return null;
+  } catch (error) {
+    if (error instanceof TemplateSyntaxError) {
+      return { message: error.message, ...getLocation(source, error.index) };
+    }
+    throw error;
+  }
+}
+
+// Deterministic spintax choice so a lead always gets the same wording
+function hashString(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  variables: Record<string, string>,
+  seed: string,
+  spinCounter: { count: number }
+): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return node.value;
+        case "variable":
+          return (
+            variables[node.name] ||
+            (node.fallback ?? DEFAULT_FALLBACKS[node.name] ?? "")
+          );
+        case "if":
+          return renderNodes(
+            variables[node.name] ? node.then : node.otherwise,
+            variables,
+            seed,
+            spinCounter
+          );
+        case "spin": {
+          const choice = hashString(`${seed}:${spinCounter.count++}`) % node.options.length;
+          return renderNodes(node.options[choice], variables, seed, spinCounter);
+        }
+      }
+    })
+    .join("");
+}
+
+// Render a template; `seed` picks the spintax variation (e.g. the lead ID)
+export function renderTemplate(
+  source: string,
+  variables: Record<string, string>,
+  seed = ""
+): string {
+  let nodes: TemplateNode[];
+  try {
+    nodes = parseNodes(source);
+  } catch (error) {
+    if (!(error instanceof TemplateSyntaxError)) throw error;
+    // Templates saved before validation existed: fall back to flat substitution
+    return replaceVariables(source, variables);
+  }
+
+  return renderNodes(nodes, variables, seed, { count: 0 });
+}
+
+// Replace flat {{key}} template variables in text
 export function replaceVariables(
   text: string,
-  variables: TemplateVariables
+  variables: Record<string, string>
 ): string {
   return text.replace(/\{\{(\w+)\}\}/g, (match, key) => {
-    return variables[key] || match;
+    return variables[key] || DEFAULT_FALLBACKS[key] || match;
   });
 }
 
@@ -56,19 +361,43 @@ export function personalizeTemplate(
   const variables = buildVariables(lead);
 
   return {
-    subject: replaceVariables(template.subject, variables),
-    html: replaceVariables(template.body_html, variables),
+    subject: renderTemplate(template.subject, variables, `${lead.id}:subject`),
+    html: renderTemplate(template.body_html, variables, `${lead.id}:body`),
+    // Same seed as the HTML body so both versions get the same wording when they match
     text: template.body_text
-      ? replaceVariables(template.body_text, variables)
+      ? renderTemplate(template.body_text, variables, `${lead.id}:body`)
       : undefined,
   };
 }
 
-// Extract variable names from template
+function collectVariables(nodes: TemplateNode[], names: Set<string>) {
+  for (const node of nodes) {
+    if (node.type === "variable") {
+      names.add(node.name);
+    } else if (node.type === "if") {
+      names.add(node.name);
+      collectVariables(node.then, names);
+      collectVariables(node.otherwise, names);
+    } else if (node.type === "spin") {
+      node.options.forEach((option) => collectVariables(option, names));
+    }
+  }
+}
+
+// Extract variable names from template (including {{#if}} conditions)
 export function extractVariables(template: string): string[] {
-  const matches = template.match(/\{\{(\w+)\}\}/g) || [];
-  const uniqueVars = [...new Set(matches.map((m) => m.replace(/[{}]/g, "")))];
-  return uniqueVars;
+  const names = new Set<string>();
+
+  try {
+    collectVariables(parseNodes(template), names);
+  } catch (error) {
+    if (!(error instanceof TemplateSyntaxError)) throw error;
+    for (const match of template.matchAll(/\{\{\s*(?:#if\s+)?([\w.-]+)/g)) {
+      names.add(match[1]);
+    }
+  }
+
+  return [...names];
 }
 
 // Generate unsubscribe token
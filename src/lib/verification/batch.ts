@@ -0,0 +1,249 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getSettings } from "@/lib/settings";
+import type {
+  VerificationBatch,
+  VerificationBatchItemStatus,
+  VerificationBatchStatus,
+} from "@/types";
+import { verifyLeadEmail } from "./leads";
+
+// Leads verified per job invocation; SMTP probes can take seconds each
+const CHUNK_SIZE = 25;
+const CONCURRENCY = 5;
+const INSERT_CHUNK_SIZE = 1000;
+// Longer than a chunk can run; items claimed before this were left behind
+// by a chunk whose function timed out or crashed, and are claimed again
+const CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+type ProcessedStatus = Exclude<VerificationBatchItemStatus, "pending" | "processing">;
+
+export interface BatchChunkResult {
+  status: VerificationBatchStatus;
+  processed: number;
+  // Whether another chunk should be queued
+  remaining: boolean;
+  // Seconds to wait before the next chunk, when it has to wait for items
+  // another chunk claimed to finish or go stale
+  delay?: number;
+}
+
+// Create a batch for the given leads and mark them pending
+export async function createVerificationBatch(
+  supabase: SupabaseClient,
+  leadIds: string[],
+  createdBy: string | null = null
+): Promise<VerificationBatch> {
+  const { data: batch, error } = await supabase
+    .from("verification_batches")
+    .insert({ status: "pending", total_count: leadIds.length, created_by: createdBy })
+    .select()
+    .single();
+
+  if (error || !batch) {
+    throw new Error(`Failed to create verification batch: ${error?.message}`);
+  }
+
+  for (let i = 0; i < leadIds.length; i += INSERT_CHUNK_SIZE) {
+    const { error: itemsError } = await supabase.from("verification_batch_items").insert(
+      leadIds.slice(i, i + INSERT_CHUNK_SIZE).map((leadId) => ({
+        batch_id: batch.id,
+        lead_id: leadId,
+      }))
+    );
+
+    if (itemsError) {
+      await supabase.from("verification_batches").delete().eq("id", batch.id);
+      throw new Error(`Failed to add leads to verification batch: ${itemsError.message}`);
+    }
+  }
+
+  await supabase.rpc("mark_verification_batch_leads", {
+    p_batch_id: batch.id,
+    p_status: "pending",
+  });
+
+  return batch;
+}
+
+// Run fn over items with at most `limit` in flight
+async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await fn(items[next++]);
+    }
+  });
+  await Promise.all(workers);
+}
+
+async function getBatchStatus(
+  supabase: SupabaseClient,
+  batchId: string
+): Promise<VerificationBatchStatus | null> {
+  const { data } = await supabase
+    .from("verification_batches")
+    .select("status")
+    .eq("id", batchId)
+    .single();
+
+  return data?.status || null;
+}
+
+// Verify the next chunk of pending leads in a batch
+export async function processVerificationBatch(
+  supabase: SupabaseClient,
+  batchId: string
+): Promise<BatchChunkResult> {
+  const { data: batch } = await supabase
+    .from("verification_batches")
+    .select("status, started_at")
+    .eq("id", batchId)
+    .single();
+
+  if (!batch || !["pending", "running"].includes(batch.status)) {
+    return { status: batch?.status || "failed", processed: 0, remaining: false };
+  }
+
+  if (batch.status === "pending") {
+    await supabase
+      .from("verification_batches")
+      .update({ status: "running", started_at: batch.started_at || new Date().toISOString() })
+      .eq("id", batchId);
+  }
+
+  const staleBefore = new Date(Date.now() - CLAIM_TIMEOUT_MS).toISOString();
+  const claimable = `status.eq.pending,and(status.eq.processing,claimed_at.lt.${staleBefore})`;
+
+  const { data: pending } = await supabase
+    .from("verification_batch_items")
+    .select("id")
+    .eq("batch_id", batchId)
+    .or(claimable)
+    .limit(CHUNK_SIZE);
+
+  if (!pending || pending.length === 0) {
+    // Another chunk still holds some items: check back once they would be stale
+    const { count: inFlight } = await supabase
+      .from("verification_batch_items")
+      .select("*", { count: "exact", head: true })
+      .eq("batch_id", batchId)
+      .eq("status", "processing");
+
+    if (inFlight) {
+      return {
+        status: "running",
+        processed: 0,
+        remaining: true,
+        delay: Math.ceil(CLAIM_TIMEOUT_MS / 1000),
+      };
+    }
+
+    await supabase
+      .from("verification_batches")
+      .update({ status: "completed", completed_at: new Date().toISOString() })
+      .eq("id", batchId)
+      .eq("status", "running");
+    return { status: "completed", processed: 0, remaining: false };
+  }
+
+  // Claim the chunk so a duplicate delivery of this job can't verify it twice
+  const { data: claimed } = await supabase
+    .from("verification_batch_items")
+    .update({ status: "processing", claimed_at: new Date().toISOString() })
+    .in(
+      "id",
+      pending.map((item) => item.id)
+    )
+    .or(claimable)
+    .select("id, lead:leads(id, email)");
+
+  const settings = await getSettings(supabase);
+  const counts: Record<ProcessedStatus, number> = { valid: 0, invalid: 0, risky: 0, failed: 0 };
+
+  await runWithConcurrency(claimed || [], CONCURRENCY, async (item) => {
+    const lead = item.lead as unknown as { id: string; email: string } | null;
+    let itemStatus: ProcessedStatus = "failed";
+    let errorMessage: string | null = null;
+
+    if (lead) {
+      try {
+        const { result } = await verifyLeadEmail(supabase, lead.id, lead.email, settings);
+        itemStatus = result.status as ProcessedStatus;
+      } catch (error) {
+        errorMessage = error instanceof Error ? error.message : String(error);
+      }
+    } else {
+      errorMessage = "Lead no longer exists";
+    }
+
+    counts[itemStatus]++;
+    await supabase
+      .from("verification_batch_items")
+      .update({
+        status: itemStatus,
+        error_message: errorMessage,
+        processed_at: new Date().toISOString(),
+      })
+      .eq("id", item.id);
+  });
+
+  await supabase.rpc("increment_verification_batch", {
+    p_batch_id: batchId,
+    p_valid: counts.valid,
+    p_invalid: counts.invalid,
+    p_risky: counts.risky,
+    p_failed: counts.failed,
+  });
+
+  // The batch may have been cancelled while this chunk ran
+  const latestStatus = (await getBatchStatus(supabase, batchId)) || "failed";
+
+  return {
+    status: latestStatus,
+    processed: claimed?.length || 0,
+    remaining: latestStatus === "running",
+  };
+}
+
+// Stop a batch; leads it hasn't reached yet go back to unverified
+export async function cancelVerificationBatch(
+  supabase: SupabaseClient,
+  batchId: string
+): Promise<void> {
+  await supabase
+    .from("verification_batches")
+    .update({ status: "cancelled", cancelled_at: new Date().toISOString() })
+    .eq("id", batchId);
+
+  await supabase.rpc("mark_verification_batch_leads", {
+    p_batch_id: batchId,
+    p_status: null,
+  });
+}
+
+// Pick a cancelled or failed batch back up where it stopped
+export async function resumeVerificationBatch(
+  supabase: SupabaseClient,
+  batchId: string
+): Promise<void> {
+  // Items claimed by a chunk that never finished
+  await supabase
+    .from("verification_batch_items")
+    .update({ status: "pending" })
+    .eq("batch_id", batchId)
+    .eq("status", "processing");
+
+  await supabase
+    .from("verification_batches")
+    .update({ status: "pending", cancelled_at: null, completed_at: null, last_error: null })
+    .eq("id", batchId);
+
+  await supabase.rpc("mark_verification_batch_leads", {
+    p_batch_id: batchId,
+    p_status: "pending",
+  });
+}
@@ -0,0 +1,173 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AppSettings } from "@/lib/settings";
+import { extractDomain } from "@/lib/utils";
+import type { EmailVerificationReason, EmailVerificationResult } from "@/types";
+import { getCreditMonth, hasCreditsLeft } from "./credits";
+import { createVerificationResult } from "./index";
+import { getVerificationProvider } from "./providers";
+
+type CacheScope = "address" | "domain";
+
+export interface ChainVerification {
+  result: EmailVerificationResult;
+  cached: boolean;
+  providersTried: string[];
+}
+
+// Reasons that hold for every address on the domain. Only conclusive
+// verdicts are cached for the domain: a DNS lookup that timed out or failed
+// (dns_unavailable, status unknown) says nothing about the other addresses
+const DOMAIN_REASONS: EmailVerificationReason[] = [
+  "invalid_domain",
+  "no_mx_record",
+  "disposable_domain",
+  "catch_all",
+];
+
+export async function getCreditUsage(supabase: SupabaseClient): Promise<Record<string, number>> {
+  const { data } = await supabase
+    .from("verification_credit_usage")
+    .select("provider, credits_used")
+    .eq("month", getCreditMonth());
+
+  const used: Record<string, number> = {};
+  for (const row of data || []) {
+    used[row.provider] = row.credits_used;
+  }
+  return used;
+}
+
+async function getCached(
+  supabase: SupabaseClient,
+  scope: CacheScope,
+  key: string
+): Promise<EmailVerificationResult | null> {
+  const { data } = await supabase
+    .from("email_verification_cache")
+    .select("result")
+    .eq("scope", scope)
+    .eq("key", key)
+    .gt("expires_at", new Date().toISOString())
+    .maybeSingle();
+
+  return data?.result || null;
+}
+
+async function saveCached(
+  supabase: SupabaseClient,
+  scope: CacheScope,
+  key: string,
+  result: EmailVerificationResult,
+  days: number
+): Promise<void> {
+  const expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+
+  await supabase.from("email_verification_cache").upsert(
+    {
+      scope,
+      key,
+      result,
+      provider: result.provider,
+      expires_at: expiresAt.toISOString(),
+    },
+    { onConflict: "scope,key" }
+  );
+}
+
+// Reuse a cached domain verdict (dead domain, disposable, catch-all) for a new address
+function fromDomainResult(email: string, domainResult: EmailVerificationResult): EmailVerificationResult {
+  const base = createVerificationResult(email, domainResult.provider);
+  return {
+    ...base,
+    status: domainResult.status,
+    reasons: [
+      ...domainResult.reasons.filter((reason) => DOMAIN_REASONS.includes(reason)),
+      ...(base.is_role_account ? (["role_account"] as const) : []),
+    ],
+    mx_host: domainResult.mx_host,
+    is_catch_all: domainResult.is_catch_all,
+    checked_at: domainResult.checked_at,
+  };
+}
+
+// Run the configured provider chain until one gives a conclusive answer,
+// serving from the address/domain cache first and skipping providers whose
+// monthly credit budget is spent
+export async function verifyWithChain(
+  supabase: SupabaseClient,
+  email: string,
+  settings: AppSettings
+): Promise<ChainVerification> {
+  const address = email.trim().toLowerCase();
+  const domain = extractDomain(address);
+
+  const cachedAddress = await getCached(supabase, "address", address);
+  if (cachedAddress) {
+    return { result: cachedAddress, cached: true, providersTried: [] };
+  }
+
+  const cachedDomain = domain ? await getCached(supabase, "domain", domain) : null;
+  if (cachedDomain) {
+    return { result: fromDomainResult(address, cachedDomain), cached: true, providersTried: [] };
+  }
+
+  const used = await getCreditUsage(supabase);
+  const providersTried: string[] = [];
+  let result: EmailVerificationResult | null = null;
+  let spentCredits = false;
+
+  for (const name of settings.verification_providers) {
+    const provider = getVerificationProvider(name);
+    if (!provider || !provider.isConfigured()) continue;
+
+    if (!hasCreditsLeft(name, provider.creditsPerCheck, settings.verification_budgets, used)) {
+      console.log(`Skipping ${name}: monthly verification budget exhausted`);
+      continue;
+    }
+
+    try {
+      const providerResult = await provider.verify(address, { settings });
+      providersTried.push(name);
+
+      if (provider.creditsPerCheck > 0) {
+        spentCredits = true;
+        used[name] = (used[name] || 0) + provider.creditsPerCheck;
+        await supabase.rpc("increment_verification_credits", {
+          p_provider: name,
+          p_credits: provider.creditsPerCheck,
+        });
+      }
+
+      // Keep the first result's details unless a later provider does better
+      if (!result || providerResult.status !== "unknown") {
+        result = providerResult;
+      }
+      if (providerResult.status !== "unknown") break;
+    } catch (error) {
+      console.error(`${name} verification failed:`, error);
+    }
+  }
+
+  if (!result) {
+    return {
+      result: createVerificationResult(address, "none"),
+      cached: false,
+      providersTried,
+    };
+  }
+
+  // Inconclusive free checks aren't cached so they can be retried
+  if (result.status !== "unknown" || spentCredits) {
+    await saveCached(supabase, "address", address, result, settings.verification_cache_days);
+  }
+  if (
+    domain &&
+    result.status !== "unknown" &&
+    !result.reasons.includes("dns_unavailable") &&
+    result.reasons.some((reason) => DOMAIN_REASONS.includes(reason))
+  ) {
+    await saveCached(supabase, "domain", domain, result, settings.verification_cache_days);
+  }
+
+  return { result, cached: false, providersTried };
+}
@@ -0,0 +1,18 @@
+// Client-safe helpers for verification credit budgets
+
+// First day of the current month (UTC), the key credit usage is tracked under
+export function getCreditMonth(date: Date = new Date()): string {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}-01`;
+}
+
+// Providers without a budget are unlimited
+export function hasCreditsLeft(
+  provider: string,
+  credits: number,
+  budgets: Record<string, number>,
+  used: Record<string, number>
+): boolean {
+  const budget = budgets[provider];
+  if (budget === undefined || budget === null) return true;
+  return (used[provider] || 0) + credits <= budget;
+}
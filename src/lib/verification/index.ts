@@ -0,0 +1,180 @@
+import dns from "dns/promises";
+import { isValidEmail } from "@/lib/utils";
+import { probeMailbox, type SmtpProbeOptions } from "./smtp";
+import type { EmailVerificationReason, EmailVerificationResult } from "@/types";
+
+export type { SmtpProbeOptions } from "./smtp";
+
+export const DISPOSABLE_DOMAINS = new Set([
+  "10minutemail.com",
+  "20minutemail.com",
+  "discard.email",
+  "dispostable.com",
+  "emailondeck.com",
+  "fakeinbox.com",
+  "getairmail.com",
+  "getnada.com",
+  "guerrillamail.com",
+  "guerrillamail.net",
+  "maildrop.cc",
+  "mailinator.com",
+  "mailnesia.com",
+  "mintemail.com",
+  "mohmal.com",
+  "mytemp.email",
+  "sharklasers.com",
+  "spamgourmet.com",
+  "temp-mail.org",
+  "tempmail.com",
+  "tempmailo.com",
+  "tempr.email",
+  "throwaway.email",
+  "throwawaymail.com",
+  "trashmail.com",
+  "yopmail.com",
+]);
+
+// Shared inboxes that rarely belong to a decision maker
+export const ROLE_ACCOUNTS = new Set([
+  "accounts",
+  "admin",
+  "billing",
+  "careers",
+  "contact",
+  "enquiries",
+  "help",
+  "hello",
+  "hr",
+  "info",
+  "inquiries",
+  "jobs",
+  "marketing",
+  "no-reply",
+  "noreply",
+  "office",
+  "postmaster",
+  "press",
+  "sales",
+  "support",
+  "team",
+  "webmaster",
+]);
+
+// 550/551/553 mean the mailbox doesn't exist; 552 (mailbox full) and other
+// 5xx policy rejections don't say anything about the address itself
+const MAILBOX_NOT_FOUND_CODES = [550, 551, 553];
+
+export function isDisposableDomain(domain: string): boolean {
+  return DISPOSABLE_DOMAINS.has(domain.toLowerCase());
+}
+
+export function isRoleAccount(email: string): boolean {
+  const localPart = email.split("@")[0].toLowerCase().split("+")[0];
+  return ROLE_ACCOUNTS.has(localPart);
+}
+
+// Highest priority (lowest preference) MX host for a domain. Only NXDOMAIN
+// and an empty answer are conclusive; timeouts, SERVFAIL and the like come
+// back as dns_unavailable so the address can be checked again later
+export async function resolveMxHost(
+  domain: string
+): Promise<{ host: string | null; reason?: EmailVerificationReason }> {
+  try {
+    const records = await dns.resolveMx(domain);
+    if (!records || records.length === 0) {
+      return { host: null, reason: "no_mx_record" };
+    }
+    records.sort((a, b) => a.priority - b.priority);
+    return { host: records[0].exchange };
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === dns.NOTFOUND) return { host: null, reason: "invalid_domain" };
+    if (code === dns.NODATA) return { host: null, reason: "no_mx_record" };
+    return { host: null, reason: "dns_unavailable" };
+  }
+}
+
+// Empty "unknown" result with the checks that need no network access filled in
+export function createVerificationResult(email: string, provider: string): EmailVerificationResult {
+  const domain = email.split("@")[1] || "";
+  return {
+    status: "unknown",
+    reasons: [],
+    mx_host: null,
+    is_catch_all: null,
+    is_disposable: isDisposableDomain(domain),
+    is_role_account: isRoleAccount(email),
+    smtp_code: null,
+    smtp_message: null,
+    provider,
+    checked_at: new Date().toISOString(),
+  };
+}
+
+// In-house verification: syntax, disposable domains, MX lookup and an SMTP
+// RCPT TO probe with catch-all detection. Pass smtp: false to skip the probe.
+export async function verifyEmail(
+  email: string,
+  options: { smtp: SmtpProbeOptions | false }
+): Promise<EmailVerificationResult> {
+  const normalized = email.trim().toLowerCase();
+  const result = createVerificationResult(normalized, "smtp");
+
+  if (!isValidEmail(normalized)) {
+    return { ...result, status: "invalid", reasons: ["invalid_syntax"] };
+  }
+
+  if (result.is_disposable) {
+    return { ...result, status: "invalid", reasons: ["disposable_domain"] };
+  }
+
+  if (result.is_role_account) {
+    result.reasons.push("role_account");
+  }
+
+  const mx = await resolveMxHost(normalized.split("@")[1]);
+  if (!mx.host) {
+    return {
+      ...result,
+      status: mx.reason === "dns_unavailable" ? "unknown" : "invalid",
+      reasons: [...result.reasons, mx.reason!],
+    };
+  }
+  result.mx_host = mx.host;
+
+  if (!options.smtp) {
+    return result;
+  }
+
+  const probe = await probeMailbox(mx.host, normalized, options.smtp);
+  result.smtp_code = probe.reply?.code ?? null;
+  result.smtp_message = probe.reply?.message || probe.error;
+  result.is_catch_all = probe.catchAll;
+
+  if (!probe.reply) {
+    // Port 25 is often blocked outbound, or the server dropped us
+    result.reasons.push(probe.error?.includes("rejected") ? "smtp_error" : "smtp_unavailable");
+    return result;
+  }
+
+  const { code } = probe.reply;
+
+  if (code >= 200 && code < 300) {
+    if (probe.catchAll) {
+      result.status = "risky";
+      result.reasons.push("catch_all");
+    } else {
+      result.status = result.is_role_account ? "risky" : "valid";
+      result.reasons.push("accepted");
+    }
+  } else if (MAILBOX_NOT_FOUND_CODES.includes(code)) {
+    result.status = "invalid";
+    result.reasons.push("mailbox_not_found");
+  } else if (code >= 400 && code < 500) {
+    result.reasons.push("greylisted");
+  } else {
+    result.reasons.push("smtp_error");
+  }
+
+  return result;
+}
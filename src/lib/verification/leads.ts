@@ -0,0 +1,34 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AppSettings } from "@/lib/settings";
+import type { EmailVerificationResult } from "@/types";
+import { verifyWithChain, type ChainVerification } from "./chain";
+
+// Verify a lead's email and store the structured result on the lead
+export async function verifyLeadEmail(
+  supabase: SupabaseClient,
+  leadId: string,
+  email: string,
+  settings: AppSettings
+): Promise<ChainVerification> {
+  const verification = await verifyWithChain(supabase, email, settings);
+
+  // If still inconclusive, mark as risky but usable
+  const result: EmailVerificationResult =
+    verification.result.status === "unknown"
+      ? { ...verification.result, status: "risky" }
+      : verification.result;
+
+  await supabase
+    .from("leads")
+    .update({
+      email_verified: result.status === "valid",
+      email_verification_status: result.status,
+      email_verified_at: result.status === "valid" ? result.checked_at : null,
+      email_verification_provider: result.provider,
+      email_verification_result: result,
+      email_catch_all: result.is_catch_all,
+    })
+    .eq("id", leadId);
+
+  return { ...verification, result };
+}
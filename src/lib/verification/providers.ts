@@ -0,0 +1,129 @@
+import { extractDomain } from "@/lib/utils";
+import type { AppSettings } from "@/lib/settings";
+import type { EmailVerificationResult } from "@/types";
+import { createVerificationResult, verifyEmail } from "./index";
+
+export interface VerificationContext {
+  settings: AppSettings;
+}
+
+export interface VerificationProvider {
+  name: string;
+  // Credits spent per call, counted against the provider's monthly budget
+  creditsPerCheck: number;
+  isConfigured(): boolean;
+  verify(email: string, context: VerificationContext): Promise<EmailVerificationResult>;
+}
+
+// In-house syntax, MX and SMTP RCPT TO probe
+export class SmtpVerificationProvider implements VerificationProvider {
+  name = "smtp";
+  creditsPerCheck = 0;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  // Probe as the configured sender unless SMTP_PROBE_FROM overrides it
+  async verify(email: string, { settings }: VerificationContext): Promise<EmailVerificationResult> {
+    const mailFrom = process.env.SMTP_PROBE_FROM || settings.from_email;
+    return verifyEmail(email, {
+      smtp: {
+        mailFrom,
+        heloHost: process.env.SMTP_PROBE_HELO || extractDomain(mailFrom) || "localhost",
+      },
+    });
+  }
+}
+
+export class HunterVerificationProvider implements VerificationProvider {
+  name = "hunter";
+  creditsPerCheck = 1;
+
+  isConfigured(): boolean {
+    return !!process.env.HUNTER_API_KEY;
+  }
+
+  async verify(email: string): Promise<EmailVerificationResult> {
+    const response = await fetch(
+      `https://api.hunter.io/v2/email-verifier?email=${encodeURIComponent(email)}&api_key=${process.env.HUNTER_API_KEY}`
+    );
+
+    if (!response.ok) {
+      throw new Error(`Hunter API error: ${response.status}`);
+    }
+
+    const data = (await response.json()).data;
+    const result = createVerificationResult(email, this.name);
+
+    result.is_catch_all = !!data.accept_all;
+    result.is_disposable = result.is_disposable || !!data.disposable;
+    result.smtp_message = data.result || null;
+
+    if (data.accept_all) {
+      result.status = "risky";
+      result.reasons.push("catch_all");
+    } else if (data.result === "deliverable") {
+      result.status = "valid";
+      result.reasons.push("accepted");
+    } else if (data.result === "undeliverable") {
+      result.status = "invalid";
+      result.reasons.push(data.mx_records === false ? "no_mx_record" : "mailbox_not_found");
+    }
+
+    return result;
+  }
+}
+
+export class ZeroBounceVerificationProvider implements VerificationProvider {
+  name = "zerobounce";
+  creditsPerCheck = 1;
+
+  isConfigured(): boolean {
+    return !!process.env.ZEROBOUNCE_API_KEY;
+  }
+
+  async verify(email: string): Promise<EmailVerificationResult> {
+    const response = await fetch(
+      `https://api.zerobounce.net/v2/validate?api_key=${process.env.ZEROBOUNCE_API_KEY}&email=${encodeURIComponent(email)}`
+    );
+
+    if (!response.ok) {
+      throw new Error(`ZeroBounce API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const result = createVerificationResult(email, this.name);
+
+    result.mx_host = data.mx_record || null;
+    result.is_catch_all = data.status === "catch-all";
+    result.smtp_message = data.sub_status || data.status || null;
+
+    if (data.status === "valid") {
+      result.status = "valid";
+      result.reasons.push("accepted");
+    } else if (data.status === "catch-all") {
+      result.status = "risky";
+      result.reasons.push("catch_all");
+    } else if (data.status === "invalid") {
+      result.status = "invalid";
+      result.reasons.push(data.mx_found === "false" ? "no_mx_record" : "mailbox_not_found");
+    }
+
+    return result;
+  }
+}
+
+const providers = new Map<string, VerificationProvider>([
+  ["smtp", new SmtpVerificationProvider()],
+  ["hunter", new HunterVerificationProvider()],
+  ["zerobounce", new ZeroBounceVerificationProvider()],
+]);
+
+export function registerVerificationProvider(provider: VerificationProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function getVerificationProvider(name: string): VerificationProvider | undefined {
+  return providers.get(name);
+}
@@ -0,0 +1,154 @@
+import crypto from "crypto";
+import net from "net";
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+export interface SmtpProbeOptions {
+  // Name announced in EHLO; should resolve back to the probing host
+  heloHost: string;
+  mailFrom: string;
+  port?: number;
+  timeoutMs?: number;
+}
+
+export interface SmtpReply {
+  code: number;
+  message: string;
+}
+
+export interface SmtpProbeResult {
+  // Reply to RCPT TO for the address being verified, null if never reached
+  reply: SmtpReply | null;
+  // Whether the server also accepted a random address on the same domain
+  catchAll: boolean | null;
+  error: string | null;
+}
+
+// One SMTP conversation: send a command, wait for the (possibly multi-line) reply
+class SmtpSession {
+  private socket: net.Socket;
+  private buffer = "";
+  private lines: string[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null =
+    null;
+  private failure: Error | null = null;
+
+  constructor(host: string, port: number, timeoutMs: number) {
+    this.socket = net.connect({ host, port });
+    this.socket.setTimeout(timeoutMs);
+    this.socket.on("data", (chunk: Buffer) => this.onData(chunk.toString("utf8")));
+    this.socket.on("timeout", () => this.fail(new Error(`SMTP timeout after ${timeoutMs}ms`)));
+    this.socket.on("error", (error) => this.fail(error));
+    this.socket.on("close", () => this.fail(new Error("SMTP connection closed")));
+  }
+
+  read(): Promise<SmtpReply> {
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.flush();
+    });
+  }
+
+  send(command: string): Promise<SmtpReply> {
+    this.socket.write(`${command}\r\n`);
+    return this.read();
+  }
+
+  close(): void {
+    if (!this.socket.destroyed) {
+      this.socket.end("QUIT\r\n");
+      this.socket.destroy();
+    }
+  }
+
+  private onData(data: string): void {
+    this.buffer += data;
+    const parts = this.buffer.split("\r\n");
+    this.buffer = parts.pop() || "";
+    this.lines.push(...parts);
+    this.flush();
+  }
+
+  // A reply ends with a line whose 4th character is a space ("250 OK")
+  private flush(): void {
+    if (!this.waiting) return;
+
+    const last = this.lines.findIndex((line) => /^\d{3}( |$)/.test(line));
+    if (last === -1) return;
+
+    const replyLines = this.lines.splice(0, last + 1);
+    const waiting = this.waiting;
+    this.waiting = null;
+    waiting.resolve({
+      code: parseInt(replyLines[last].slice(0, 3)),
+      message: replyLines.map((line) => line.slice(4)).join(" ").trim(),
+    });
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure || error;
+    const waiting = this.waiting;
+    this.waiting = null;
+    waiting?.reject(error);
+  }
+}
+
+function isPositive(reply: SmtpReply): boolean {
+  return reply.code >= 200 && reply.code < 300;
+}
+
+// Ask the MX host whether it would accept mail for an address, without
+// sending any (EHLO, MAIL FROM, RCPT TO, QUIT). A second RCPT TO for a random
+// local part on the same domain detects catch-all servers.
+export async function probeMailbox(
+  mxHost: string,
+  email: string,
+  options: SmtpProbeOptions
+): Promise<SmtpProbeResult> {
+  const session = new SmtpSession(
+    mxHost,
+    options.port || 25,
+    options.timeoutMs || DEFAULT_TIMEOUT_MS
+  );
+  const result: SmtpProbeResult = { reply: null, catchAll: null, error: null };
+
+  try {
+    const greeting = await session.read();
+    if (!isPositive(greeting)) {
+      result.error = `Greeting rejected: ${greeting.code} ${greeting.message}`;
+      return result;
+    }
+
+    let hello = await session.send(`EHLO ${options.heloHost}`);
+    if (!isPositive(hello)) {
+      hello = await session.send(`HELO ${options.heloHost}`);
+    }
+    if (!isPositive(hello)) {
+      result.error = `HELO rejected: ${hello.code} ${hello.message}`;
+      return result;
+    }
+
+    const mailFrom = await session.send(`MAIL FROM:<${options.mailFrom}>`);
+    if (!isPositive(mailFrom)) {
+      result.error = `MAIL FROM rejected: ${mailFrom.code} ${mailFrom.message}`;
+      return result;
+    }
+
+    result.reply = await session.send(`RCPT TO:<${email}>`);
+
+    if (isPositive(result.reply)) {
+      const domain = email.split("@")[1];
+      const random = `${crypto.randomBytes(8).toString("hex")}@${domain}`;
+      const control = await session.send(`RCPT TO:<${random}>`);
+      if (isPositive(control)) result.catchAll = true;
+      else if (control.code >= 500) result.catchAll = false;
+    }
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+  } finally {
+    session.close();
+  }
+
+  return result;
+}
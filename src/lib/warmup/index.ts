@@ -0,0 +1,275 @@
+import type {
+  DomainWarmup,
+  WarmupRampConfig,
+  WarmupRampProfile,
+  WarmupRampStep,
+} from "@/types";
+
+type NamedRampProfile = Exclude<WarmupRampProfile, "custom">;
+
+export const WARMUP_PROFILES: Record<
+  NamedRampProfile,
+  { label: string; description: string; config: WarmupRampConfig }
+> = {
+  conservative: {
+    label: "Conservative",
+    description: "Slow ramp over 60 days with strict health thresholds",
+    config: {
+      schedule: [
+        { day: 1, limit: 5 },
+        { day: 3, limit: 10 },
+        { day: 5, limit: 15 },
+        { day: 7, limit: 25 },
+        { day: 10, limit: 35 },
+        { day: 14, limit: 50 },
+        { day: 18, limit: 75 },
+        { day: 21, limit: 100 },
+        { day: 25, limit: 150 },
+        { day: 28, limit: 200 },
+        { day: 32, limit: 275 },
+        { day: 35, limit: 350 },
+        { day: 40, limit: 450 },
+        { day: 45, limit: 550 },
+        { day: 50, limit: 700 },
+        { day: 55, limit: 850 },
+        { day: 60, limit: 1000 },
+      ],
+      min_deliverability_rate: 97,
+      max_bounce_rate: 1,
+      min_emails_for_health_check: 50,
+      ramp_back_percentage: 50,
+    },
+  },
+  standard: {
+    label: "Standard",
+    description: "Balanced ramp reaching 1,000/day in 45 days",
+    config: {
+      schedule: [
+        { day: 1, limit: 10 },
+        { day: 3, limit: 20 },
+        { day: 5, limit: 35 },
+        { day: 7, limit: 50 },
+        { day: 10, limit: 75 },
+        { day: 14, limit: 125 },
+        { day: 18, limit: 175 },
+        { day: 21, limit: 250 },
+        { day: 25, limit: 350 },
+        { day: 28, limit: 450 },
+        { day: 32, limit: 600 },
+        { day: 35, limit: 750 },
+        { day: 40, limit: 900 },
+        { day: 45, limit: 1000 },
+      ],
+      min_deliverability_rate: 95,
+      max_bounce_rate: 2,
+      min_emails_for_health_check: 50,
+      ramp_back_percentage: 25,
+    },
+  },
+  aggressive: {
+    label: "Aggressive",
+    description: "Fast ramp for established domains, reaching 1,000/day in 22 days",
+    config: {
+      schedule: [
+        { day: 1, limit: 20 },
+        { day: 2, limit: 40 },
+        { day: 4, limit: 75 },
+        { day: 6, limit: 125 },
+        { day: 8, limit: 200 },
+        { day: 10, limit: 300 },
+        { day: 13, limit: 450 },
+        { day: 16, limit: 600 },
+        { day: 19, limit: 800 },
+        { day: 22, limit: 1000 },
+      ],
+      min_deliverability_rate: 93,
+      max_bounce_rate: 3,
+      min_emails_for_health_check: 50,
+      ramp_back_percentage: 20,
+    },
+  },
+};
+
+export const RAMP_PROFILE_OPTIONS: { value: WarmupRampProfile; label: string }[] = [
+  ...(Object.keys(WARMUP_PROFILES) as NamedRampProfile[]).map((value) => ({
+    value,
+    label: WARMUP_PROFILES[value].label,
+  })),
+  { value: "custom", label: "Custom" },
+];
+
+// Ramp config for a warmup; custom ramps without a stored config use the standard one
+export function getRampConfig(
+  warmup: Pick<DomainWarmup, "ramp_profile" | "ramp_config">
+): WarmupRampConfig {
+  if (warmup.ramp_profile === "custom") {
+    return warmup.ramp_config || WARMUP_PROFILES.standard.config;
+  }
+  return WARMUP_PROFILES[warmup.ramp_profile]?.config || WARMUP_PROFILES.standard.config;
+}
+
+// Validate a custom ramp, returning an error message or null
+export function validateRampConfig(config: WarmupRampConfig): string | null {
+  if (config.schedule.length === 0) return "Add at least one ramp step";
+
+  for (let i = 0; i < config.schedule.length; i++) {
+    const step = config.schedule[i];
+    const previous = config.schedule[i - 1];
+
+    if (!Number.isInteger(step.day) || step.day < 1) return "Days must be whole numbers from 1";
+    if (!Number.isInteger(step.limit) || step.limit < 1) return "Limits must be at least 1";
+    if (previous && step.day <= previous.day) return "Days must increase with each step";
+    if (previous && step.limit < previous.limit) return "Limits can't decrease between steps";
+  }
+
+  if (config.min_deliverability_rate < 0 || config.min_deliverability_rate > 100) {
+    return "Minimum deliverability must be between 0 and 100%";
+  }
+  if (config.max_bounce_rate < 0 || config.max_bounce_rate > 100) {
+    return "Maximum bounce rate must be between 0 and 100%";
+  }
+  if (config.min_emails_for_health_check < 1) {
+    return "Health checks need at least 1 email";
+  }
+  if (config.ramp_back_percentage < 1 || config.ramp_back_percentage > 90) {
+    return "Ramp-back must be between 1 and 90%";
+  }
+
+  return null;
+}
+
+// Limit the ramp allows on a given day, capped at the target
+export function getExpectedLimit(
+  schedule: WarmupRampStep[],
+  day: number,
+  targetLimit: number
+): number {
+  for (let i = schedule.length - 1; i >= 0; i--) {
+    if (day >= schedule[i].day) {
+      return Math.min(schedule[i].limit, targetLimit);
+    }
+  }
+  return Math.min(schedule[0]?.limit || 10, targetLimit);
+}
+
+// Next ramp step above the current limit, so recovery climbs one step at a time
+function getNextStepLimit(
+  schedule: WarmupRampStep[],
+  currentLimit: number,
+  targetLimit: number
+): number {
+  const next = schedule.find((step) => step.limit > currentLimit);
+  return Math.min(next ? next.limit : targetLimit, targetLimit);
+}
+
+export function getDaysSinceStart(startDate: string, now: Date = new Date()): number {
+  const diffTime = Math.abs(now.getTime() - new Date(startDate).getTime());
+  return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+}
+
+export interface WarmupHealth {
+  sent: number;
+  deliverabilityRate: number;
+  bounceRate: number;
+  isHealthy: boolean;
+}
+
+// Health of the sends since the last checkpoint, or null if there are too few to judge
+export function evaluateWarmupHealth(
+  warmup: Pick<
+    DomainWarmup,
+    | "total_sent"
+    | "total_delivered"
+    | "total_bounced"
+    | "checkpoint_sent"
+    | "checkpoint_delivered"
+    | "checkpoint_bounced"
+  >,
+  config: WarmupRampConfig
+): WarmupHealth | null {
+  const sent = warmup.total_sent - (warmup.checkpoint_sent || 0);
+  if (sent < config.min_emails_for_health_check) return null;
+
+  const delivered = warmup.total_delivered - (warmup.checkpoint_delivered || 0);
+  const bounced = warmup.total_bounced - (warmup.checkpoint_bounced || 0);
+  const deliverabilityRate = (delivered / sent) * 100;
+  const bounceRate = (bounced / sent) * 100;
+
+  return {
+    sent,
+    deliverabilityRate,
+    bounceRate,
+    isHealthy:
+      deliverabilityRate >= config.min_deliverability_rate &&
+      bounceRate <= config.max_bounce_rate,
+  };
+}
+
+export type WarmupAction =
+  | "increased_limit"
+  | "ramped_back"
+  | "resumed"
+  | "holding"
+  | "completed"
+  | "no_change";
+
+export interface WarmupProgression {
+  action: WarmupAction;
+  health: WarmupHealth | null;
+  update: Partial<DomainWarmup>;
+}
+
+// Decide a warmup's next daily limit. Degraded health ramps the limit back by
+// the profile's percentage; the ramp holds until a healthy window, then climbs
+// again one step at a time.
+export function progressWarmup(warmup: DomainWarmup, now: Date = new Date()): WarmupProgression {
+  const config = getRampConfig(warmup);
+  const currentDay = getDaysSinceStart(warmup.warmup_started_at, now);
+  const expectedLimit = getExpectedLimit(config.schedule, currentDay, warmup.target_daily_limit);
+  const health = evaluateWarmupHealth(warmup, config);
+
+  const update: Partial<DomainWarmup> = { warmup_day: currentDay };
+
+  // Start a new health window once this one had enough sends to judge
+  if (health) {
+    update.checkpoint_sent = warmup.total_sent;
+    update.checkpoint_delivered = warmup.total_delivered;
+    update.checkpoint_bounced = warmup.total_bounced;
+    update.is_healthy = health.isHealthy;
+  }
+
+  if (health && !health.isHealthy) {
+    const floor = getExpectedLimit(config.schedule, 1, warmup.target_daily_limit);
+    update.current_daily_limit = Math.max(
+      floor,
+      Math.floor(warmup.current_daily_limit * (1 - config.ramp_back_percentage / 100))
+    );
+    update.ramp_back_count = (warmup.ramp_back_count || 0) + 1;
+    update.last_ramped_back_at = now.toISOString();
+    return { action: "ramped_back", health, update };
+  }
+
+  // Not enough sends since ramping back to know whether it recovered
+  if (!health && !warmup.is_healthy) {
+    return { action: "holding", health, update };
+  }
+
+  if (warmup.current_daily_limit >= warmup.target_daily_limit) {
+    update.status = "completed";
+    update.current_daily_limit = warmup.target_daily_limit;
+    return { action: "completed", health, update };
+  }
+
+  const nextLimit = Math.min(
+    expectedLimit,
+    getNextStepLimit(config.schedule, warmup.current_daily_limit, warmup.target_daily_limit)
+  );
+  const recovered = !!health && !warmup.is_healthy;
+
+  if (nextLimit > warmup.current_daily_limit) {
+    update.current_daily_limit = nextLimit;
+    return { action: recovered ? "resumed" : "increased_limit", health, update };
+  }
+
+  return { action: recovered ? "resumed" : "no_change", health, update };
+}
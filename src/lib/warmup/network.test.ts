@@ -0,0 +1,220 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { registerMailboxAdapter, type MailboxConnection, type MailboxMessage } from "@/lib/mailbox";
+import { decryptMailboxPassword, isEncryptedPassword } from "@/lib/mailbox/credentials";
+import { sendEmail } from "@/lib/resend/client";
+import { engageWarmupEmails, WARMUP_HEADER } from "./network";
+
+vi.mock("@/lib/resend/client", () => ({
+  sendEmail: vi.fn(async () => ({ data: { id: "re_reply" }, error: null })),
+}));
+
+type Row = Record<string, unknown>;
+
+// Just enough of the Supabase query builder for the warmup engine, backed by
+// in-memory tables
+function createFakeSupabase(tables: Record<string, Row[]>): SupabaseClient {
+  const from = (table: string) => {
+    const rows = (tables[table] ||= []);
+    const filters: ((row: Row) => boolean)[] = [];
+    let values: Row | null = null;
+    let single = false;
+
+    const builder = {
+      select: () => builder,
+      update: (update: Row) => {
+        values = update;
+        return builder;
+      },
+      insert: async (row: Row) => {
+        rows.push({ id: `${table}-${rows.length + 1}`, ...row });
+        return { data: null, error: null };
+      },
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      in: (column: string, list: unknown[]) => {
+        filters.push((row) => list.includes(row[column]));
+        return builder;
+      },
+      single: () => {
+        single = true;
+        return builder;
+      },
+      then: (resolve: (result: { data: unknown; error: null }) => void) => {
+        const matched = rows.filter((row) => filters.every((filter) => filter(row)));
+        if (values) matched.forEach((row) => Object.assign(row, values));
+        resolve({ data: single ? (matched[0] ?? null) : matched, error: null });
+      },
+    };
+
+    return builder;
+  };
+
+  return { from, rpc: async () => ({ data: null, error: null }) } as unknown as SupabaseClient;
+}
+
+// In-memory mailbox registered through the adapter hook
+const mailboxes = new Map<string, Map<string, MailboxMessage[]>>();
+const connections: MailboxConnection[] = [];
+
+registerMailboxAdapter("fake", (connection) => {
+  const folders = mailboxes.get(connection.username) || new Map<string, MailboxMessage[]>();
+  mailboxes.set(connection.username, folders);
+  const folder = (name: string) => folders.get(name) || [];
+
+  return {
+    connect: async () => {
+      connections.push(connection);
+    },
+    findMessagesWithHeader: async (name, header, unseenOnly) =>
+      folder(name).filter(
+        (message) => header.toLowerCase() in message.headers && !(unseenOnly && message.seen)
+      ),
+    markAsRead: async (message) => {
+      message.seen = true;
+    },
+    moveToInbox: async (message) => {
+      folders.set(message.folder, folder(message.folder).filter((m) => m !== message));
+      folders.set("INBOX", [...folder("INBOX"), { ...message, folder: "INBOX" }]);
+    },
+    close: async () => undefined,
+  };
+});
+
+function warmupMessage(folder: string, token: string): MailboxMessage {
+  return {
+    uid: token,
+    folder,
+    messageId: `<wu.${token}@peer.example>`,
+    subject: "Quick question",
+    from: "alex@peer.example",
+    seen: false,
+    headers: { [WARMUP_HEADER.toLowerCase()]: token },
+  };
+}
+
+describe("engageWarmupEmails", () => {
+  let tables: Record<string, Row[]>;
+
+  beforeEach(() => {
+    process.env.MAILBOX_ENCRYPTION_KEY = "11".repeat(32);
+    mailboxes.clear();
+    connections.length = 0;
+    vi.mocked(sendEmail).mockClear();
+
+    mailboxes.set(
+      "me@ours.example",
+      new Map([
+        ["INBOX", [warmupMessage("INBOX", "t-inbox")]],
+        ["Junk", [warmupMessage("Junk", "t-spam")]],
+      ])
+    );
+
+    const account = {
+      is_active: true,
+      warmup_enabled: true,
+      warmup_reply_rate: 100,
+    };
+    tables = {
+      sender_accounts: [
+        {
+          ...account,
+          id: "me",
+          email: "me@ours.example",
+          from_name: "Morgan Lee",
+          domain: "ours.example",
+          mailbox_provider: "fake",
+        },
+        {
+          ...account,
+          id: "peer",
+          email: "alex@peer.example",
+          from_name: "Alex Peer",
+          domain: "peer.example",
+          mailbox_provider: null,
+        },
+      ],
+      email_templates: [],
+      sender_mailbox_credentials: [
+        {
+          sender_account_id: "me",
+          host: "imap.ours.example",
+          port: 993,
+          secure: true,
+          username: "me@ours.example",
+          // Saved before passwords were encrypted
+          password: "hunter2",
+          spam_folder: "Junk",
+        },
+      ],
+      warmup_emails: ["t-inbox", "t-spam"].map((token) => ({
+        id: `email-${token}`,
+        token,
+        sender_account_id: "peer",
+        recipient_account_id: "me",
+        parent_id: null,
+        subject: "Quick question",
+        message_id: `<wu.${token}@peer.example>`,
+        landed_in: null,
+        opened_at: null,
+        replied_at: null,
+      })),
+    };
+  });
+
+  it("opens inbox messages and rescues spam ones without templates to reply with", async () => {
+    const result = await engageWarmupEmails(createFakeSupabase(tables));
+
+    expect(result).toEqual({ mailboxes: 1, opened: 2, replied: 0, rescued: 1, errors: [] });
+    expect(sendEmail).not.toHaveBeenCalled();
+
+    const folders = mailboxes.get("me@ours.example");
+    expect(folders?.get("Junk")).toEqual([]);
+    expect(folders?.get("INBOX")?.map((m) => [m.uid, m.seen])).toEqual([
+      ["t-inbox", true],
+      ["t-spam", true],
+    ]);
+
+    const [inbox, spam] = tables.warmup_emails;
+    expect(inbox).toMatchObject({ status: "opened", landed_in: "inbox" });
+    expect(inbox.rescued_at).toBeUndefined();
+    expect(spam).toMatchObject({ status: "opened", landed_in: "spam" });
+    expect(spam.rescued_at).toEqual(expect.any(String));
+  });
+
+  it("replies to first messages in the same thread when templates exist", async () => {
+    tables.email_templates.push({
+      id: "template",
+      template_type: "warm_up",
+      is_active: true,
+      subject: "Hi {{firstName}}",
+      body_html: "<p>Sounds good</p>",
+      body_text: null,
+    });
+
+    const result = await engageWarmupEmails(createFakeSupabase(tables));
+
+    expect(result.replied).toBe(2);
+    expect(sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: "alex@peer.example",
+        from: "me@ours.example",
+        subject: "Re: Quick question",
+        headers: expect.objectContaining({ "In-Reply-To": "<wu.t-spam@peer.example>" }),
+      })
+    );
+    expect(tables.warmup_emails.filter((email) => email.parent_id)).toHaveLength(2);
+  });
+
+  it("connects with the decrypted password and encrypts a legacy plaintext one", async () => {
+    await engageWarmupEmails(createFakeSupabase(tables));
+
+    expect(connections[0].password).toBe("hunter2");
+
+    const stored = tables.sender_mailbox_credentials[0].password as string;
+    expect(isEncryptedPassword(stored)).toBe(true);
+    expect(decryptMailboxPassword(stored)).toBe("hunter2");
+  });
+});
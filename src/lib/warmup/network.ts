@@ -0,0 +1,358 @@
+import crypto from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { sendEmail } from "@/lib/resend/client";
+import { renderTemplate } from "@/lib/utils/template-parser";
+import {
+  createMailboxAdapter,
+  type MailboxAdapter,
+  type MailboxConnection,
+  type MailboxMessage,
+} from "@/lib/mailbox";
+import {
+  decryptMailboxPassword,
+  encryptMailboxPassword,
+  isEncryptedPassword,
+} from "@/lib/mailbox/credentials";
+import type { EmailTemplate, SenderAccount, WarmupEmail } from "@/types";
+
+// Header that marks our warmup emails so receivers can find them
+export const WARMUP_HEADER = "X-Warmup-ID";
+
+// Runs are hourly; spread each mailbox's daily target over a working day
+const RUNS_PER_DAY = 8;
+
+type WarmupTemplate = Pick<EmailTemplate, "id" | "subject" | "body_html" | "body_text">;
+
+export interface WarmupSendResult {
+  sent: number;
+  failed: number;
+}
+
+export interface WarmupEngageResult {
+  mailboxes: number;
+  opened: number;
+  replied: number;
+  rescued: number;
+  errors: string[];
+}
+
+// Pick who receives a warmup email, preferring mailboxes on other domains
+export function pickWarmupPeer(
+  sender: SenderAccount,
+  accounts: SenderAccount[],
+  random: () => number = Math.random
+): SenderAccount | null {
+  const others = accounts.filter((account) => account.id !== sender.id);
+  const otherDomains = others.filter((account) => account.domain !== sender.domain);
+  const pool = otherDomains.length > 0 ? otherDomains : others;
+
+  return pool.length > 0 ? pool[Math.floor(random() * pool.length)] : null;
+}
+
+// How many warmup emails a mailbox sends this run
+export function getWarmupSendsThisRun(account: SenderAccount, sentToday: number): number {
+  const remaining = account.warmup_daily_target - sentToday;
+  return Math.max(Math.min(Math.ceil(account.warmup_daily_target / RUNS_PER_DAY), remaining), 0);
+}
+
+function getPeerVariables(sender: SenderAccount, recipient: SenderAccount): Record<string, string> {
+  const [firstName, ...rest] = recipient.from_name.split(" ");
+  return {
+    firstName,
+    lastName: rest.join(" "),
+    fullName: recipient.from_name,
+    email: recipient.email,
+    senderName: sender.from_name,
+    senderFirstName: sender.from_name.split(" ")[0],
+  };
+}
+
+function buildWarmupMessageId(token: string, account: SenderAccount): string {
+  return `<wu.${token}@${account.domain}>`;
+}
+
+async function sendWarmupMessage(
+  supabase: SupabaseClient,
+  sender: SenderAccount,
+  recipient: SenderAccount,
+  template: WarmupTemplate,
+  reply?: { parent: WarmupEmail; inReplyTo: string | null }
+): Promise<boolean> {
+  const token = crypto.randomUUID();
+  const messageId = buildWarmupMessageId(token, sender);
+  const variables = getPeerVariables(sender, recipient);
+
+  const subject = reply
+    ? `Re: ${reply.parent.subject.replace(/^re:\s*/i, "")}`
+    : renderTemplate(template.subject, variables, `${token}:subject`);
+  const html = renderTemplate(template.body_html || "", variables, `${token}:body`);
+  const text = template.body_text
+    ? renderTemplate(template.body_text, variables, `${token}:body`)
+    : undefined;
+
+  const headers: Record<string, string> = {
+    [WARMUP_HEADER]: token,
+    "Message-ID": messageId,
+  };
+  if (reply?.inReplyTo) {
+    headers["In-Reply-To"] = reply.inReplyTo;
+    headers["References"] = reply.inReplyTo;
+  }
+
+  const result = await sendEmail({
+    to: recipient.email,
+    from: sender.email,
+    fromName: sender.from_name,
+    subject,
+    html,
+    text,
+    headers,
+    tags: [{ name: "type", value: "warmup" }],
+  });
+
+  await supabase.from("warmup_emails").insert({
+    token,
+    sender_account_id: sender.id,
+    recipient_account_id: recipient.id,
+    template_id: template.id,
+    parent_id: reply?.parent.id || null,
+    subject,
+    message_id: messageId,
+    resend_email_id: result.data?.id || null,
+    status: result.error ? "failed" : "sent",
+    error_message: result.error?.message || null,
+  });
+
+  if (result.error) {
+    console.error(`Warmup email from ${sender.email} failed: ${result.error.message}`);
+    return false;
+  }
+
+  // Warmup volume counts towards the domain's deliverability stats
+  await supabase.rpc("increment_warmup_stat", {
+    p_domain: sender.domain,
+    p_stat_field: "total_sent",
+  });
+
+  return true;
+}
+
+async function getWarmupAccounts(supabase: SupabaseClient): Promise<SenderAccount[]> {
+  const { data } = await supabase
+    .from("sender_accounts")
+    .select("*")
+    .eq("is_active", true)
+    .eq("warmup_enabled", true);
+
+  return data || [];
+}
+
+async function getWarmupTemplates(supabase: SupabaseClient): Promise<WarmupTemplate[]> {
+  const { data } = await supabase
+    .from("email_templates")
+    .select("id, subject, body_html, body_text")
+    .eq("template_type", "warm_up")
+    .eq("is_active", true);
+
+  return data || [];
+}
+
+function pickTemplate(templates: WarmupTemplate[]): WarmupTemplate {
+  return templates[Math.floor(Math.random() * templates.length)];
+}
+
+// Send this run's share of conversational emails between warmup mailboxes
+export async function sendWarmupEmails(supabase: SupabaseClient): Promise<WarmupSendResult> {
+  const result: WarmupSendResult = { sent: 0, failed: 0 };
+
+  const accounts = await getWarmupAccounts(supabase);
+  if (accounts.length < 2) return result;
+
+  const templates = await getWarmupTemplates(supabase);
+  if (templates.length === 0) {
+    console.log("No active warm_up templates, skipping warmup sends");
+    return result;
+  }
+
+  const startOfDay = new Date();
+  startOfDay.setUTCHours(0, 0, 0, 0);
+
+  const { data: sentToday } = await supabase
+    .from("warmup_emails")
+    .select("sender_account_id")
+    .in(
+      "sender_account_id",
+      accounts.map((account) => account.id)
+    )
+    .is("parent_id", null)
+    .gte("sent_at", startOfDay.toISOString());
+
+  const sentCounts: Record<string, number> = {};
+  for (const row of sentToday || []) {
+    sentCounts[row.sender_account_id] = (sentCounts[row.sender_account_id] || 0) + 1;
+  }
+
+  for (const sender of accounts) {
+    const sends = getWarmupSendsThisRun(sender, sentCounts[sender.id] || 0);
+
+    for (let i = 0; i < sends; i++) {
+      const recipient = pickWarmupPeer(sender, accounts);
+      if (!recipient) break;
+
+      const ok = await sendWarmupMessage(supabase, sender, recipient, pickTemplate(templates));
+      if (ok) result.sent++;
+      else result.failed++;
+    }
+  }
+
+  return result;
+}
+
+async function getMailboxConnection(
+  supabase: SupabaseClient,
+  accountId: string
+): Promise<MailboxConnection | null> {
+  const { data } = await supabase
+    .from("sender_mailbox_credentials")
+    .select("host, port, secure, username, password, spam_folder")
+    .eq("sender_account_id", accountId)
+    .single();
+
+  if (!data) return null;
+
+  // Encrypt passwords saved before encryption was added
+  if (!isEncryptedPassword(data.password)) {
+    await supabase
+      .from("sender_mailbox_credentials")
+      .update({ password: encryptMailboxPassword(data.password) })
+      .eq("sender_account_id", accountId);
+  }
+
+  return { ...data, password: decryptMailboxPassword(data.password) };
+}
+
+// Open, rescue and reply to the warmup emails waiting in one mailbox
+async function engageMailbox(
+  supabase: SupabaseClient,
+  account: SenderAccount,
+  adapter: MailboxAdapter,
+  spamFolder: string,
+  accounts: SenderAccount[],
+  templates: WarmupTemplate[],
+  result: WarmupEngageResult
+): Promise<void> {
+  const messages: MailboxMessage[] = [
+    ...(await adapter.findMessagesWithHeader("INBOX", WARMUP_HEADER, true)),
+    ...(await adapter.findMessagesWithHeader(spamFolder, WARMUP_HEADER)),
+  ];
+
+  const tokens = messages
+    .map((message) => message.headers[WARMUP_HEADER.toLowerCase()])
+    .filter(Boolean);
+  if (tokens.length === 0) return;
+
+  const { data: emails } = await supabase
+    .from("warmup_emails")
+    .select("*")
+    .eq("recipient_account_id", account.id)
+    .in("token", tokens);
+
+  const emailsByToken = new Map<string, WarmupEmail>(
+    (emails || []).map((email: WarmupEmail) => [email.token, email])
+  );
+
+  for (const message of messages) {
+    const email = emailsByToken.get(message.headers[WARMUP_HEADER.toLowerCase()]);
+    if (!email) continue;
+
+    const now = new Date().toISOString();
+    const inSpam = message.folder === spamFolder;
+    const updates: Partial<WarmupEmail> = {
+      landed_in: email.landed_in || (inSpam ? "spam" : "inbox"),
+    };
+
+    // Flag before moving: the UID changes once the message leaves the folder
+    if (!message.seen) {
+      await adapter.markAsRead(message);
+      updates.opened_at = email.opened_at || now;
+      updates.status = "opened";
+      result.opened++;
+    }
+
+    if (inSpam) {
+      await adapter.moveToInbox(message);
+      updates.rescued_at = now;
+      result.rescued++;
+    }
+
+    // Reply to first messages only, so threads don't bounce back and forth.
+    // Without warm_up templates there is nothing to reply with
+    const sender = accounts.find((a) => a.id === email.sender_account_id);
+    const shouldReply =
+      templates.length > 0 &&
+      !email.parent_id &&
+      !email.replied_at &&
+      !!sender &&
+      Math.random() * 100 < account.warmup_reply_rate;
+
+    if (shouldReply && sender) {
+      const replied = await sendWarmupMessage(supabase, account, sender, pickTemplate(templates), {
+        parent: email,
+        inReplyTo: message.messageId || email.message_id,
+      });
+
+      if (replied) {
+        updates.status = "replied";
+        updates.replied_at = now;
+        result.replied++;
+      }
+    }
+
+    await supabase.from("warmup_emails").update(updates).eq("id", email.id);
+  }
+}
+
+// Receiver side: mark warmup emails read, rescue them from spam and reply to some
+export async function engageWarmupEmails(supabase: SupabaseClient): Promise<WarmupEngageResult> {
+  const result: WarmupEngageResult = {
+    mailboxes: 0,
+    opened: 0,
+    replied: 0,
+    rescued: 0,
+    errors: [],
+  };
+
+  const accounts = await getWarmupAccounts(supabase);
+  const templates = await getWarmupTemplates(supabase);
+
+  for (const account of accounts) {
+    if (!account.mailbox_provider) continue;
+
+    const connection = await getMailboxConnection(supabase, account.id);
+    if (!connection) continue;
+
+    let adapter: MailboxAdapter | null = null;
+    try {
+      adapter = createMailboxAdapter(account.mailbox_provider, connection);
+      await adapter.connect();
+      await engageMailbox(
+        supabase,
+        account,
+        adapter,
+        connection.spam_folder,
+        accounts,
+        templates,
+        result
+      );
+      result.mailboxes++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Warmup engagement failed for ${account.email}:`, message);
+      result.errors.push(`${account.email}: ${message}`);
+    } finally {
+      await adapter?.close().catch(() => undefined);
+    }
+  }
+
+  return result;
+}
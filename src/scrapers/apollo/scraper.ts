@@ -0,0 +1,190 @@
+import { toSeniority } from "@/lib/leads/seniority";
+import { BaseScraper, type ScraperConfig, type ScraperResult } from "../base/scraper";
+
+interface ApolloOrganization {
+  id?: string;
+  name?: string;
+  website_url?: string | null;
+  primary_domain?: string | null;
+  linkedin_url?: string | null;
+  industry?: string | null;
+  estimated_num_employees?: number | null;
+  phone?: string | null;
+}
+
+interface ApolloPerson {
+  id: string;
+  first_name?: string | null;
+  last_name?: string | null;
+  name?: string | null;
+  title?: string | null;
+  seniority?: string | null;
+  linkedin_url?: string | null;
+  // "email_not_unlocked@domain.com" until the person is revealed
+  email?: string | null;
+  email_status?: string | null;
+  city?: string | null;
+  state?: string | null;
+  country?: string | null;
+  organization?: ApolloOrganization | null;
+}
+
+interface ApolloSearchResponse {
+  people?: ApolloPerson[];
+  pagination?: {
+    page: number;
+    per_page: number;
+    total_entries: number;
+    total_pages: number;
+  };
+}
+
+interface ApolloMatchResponse {
+  person?: ApolloPerson | null;
+}
+
+const APOLLO_API_URL = "https://api.apollo.io/api/v1";
+const RESULTS_PER_PAGE = 100;
+
+function isLockedEmail(email: string | null | undefined): boolean {
+  return !email || /not_unlocked/i.test(email);
+}
+
+// Apollo people search. config.query is matched against names, titles and
+// companies; config.location filters by where the person is based.
+// filters.titles and filters.seniorities narrow the search further
+export class ApolloScraper extends BaseScraper {
+  private apiKey: string;
+
+  constructor() {
+    super("Apollo", { perMinute: 50, perHour: 600 });
+    this.apiKey = process.env.APOLLO_API_KEY || "";
+  }
+
+  async *scrape(config: ScraperConfig): AsyncGenerator<ScraperResult> {
+    if (!this.apiKey) {
+      throw new Error("APOLLO_API_KEY environment variable is not set");
+    }
+
+    const { query, location, maxResults = 100, filters = {}, skip = 0 } = config;
+    const titles = Array.isArray(filters.titles) ? (filters.titles as string[]) : [];
+    const seniorities = Array.isArray(filters.seniorities)
+      ? (filters.seniorities as string[])
+      : [];
+
+    // Fixed for the whole search, including resumed runs, so pages line up
+    const perPage = Math.min(RESULTS_PER_PAGE, maxResults + skip);
+    let page = Math.floor(skip / perPage) + 1;
+    let skipOnPage = skip % perPage;
+    let totalResults = 0;
+
+    while (totalResults < maxResults) {
+      await this.respectRateLimit();
+
+      const response = await this.withRetry(() =>
+        this.request<ApolloSearchResponse>("/mixed_people/search", {
+          q_keywords: query || undefined,
+          person_titles: titles.length > 0 ? titles : undefined,
+          person_seniorities: seniorities.length > 0 ? seniorities : undefined,
+          person_locations: location ? [location] : undefined,
+          page,
+          per_page: perPage,
+        })
+      );
+
+      const people = response.people || [];
+      if (people.length === 0) {
+        break; // No more results
+      }
+
+      for (const person of people.slice(skipOnPage)) {
+        if (totalResults >= maxResults) break;
+
+        const email = await this.revealEmail(person);
+        yield this.toResult(person, email);
+        totalResults++;
+      }
+
+      if (!response.pagination || page >= response.pagination.total_pages) {
+        break;
+      }
+
+      page++;
+      skipOnPage = 0;
+    }
+  }
+
+  // Search results hide emails. Only people Apollo has a verified address
+  // for are revealed, since each reveal spends a credit; the rest are left
+  // to the email finder
+  private async revealEmail(person: ApolloPerson): Promise<string | null> {
+    if (!isLockedEmail(person.email)) return person.email!;
+    if (person.email_status !== "verified") return null;
+
+    await this.respectRateLimit();
+
+    try {
+      const response = await this.withRetry(() =>
+        this.request<ApolloMatchResponse>("/people/match", {
+          id: person.id,
+          reveal_personal_emails: false,
+        })
+      );
+      const email = response.person?.email;
+      return isLockedEmail(email) ? null : email!;
+    } catch (error) {
+      console.log(`${this.name}: Failed to reveal ${person.id}:`, (error as Error).message);
+      return null;
+    }
+  }
+
+  private async request<T>(path: string, body: Record<string, unknown>): Promise<T> {
+    const res = await fetch(`${APOLLO_API_URL}${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-cache",
+        "X-Api-Key": this.apiKey,
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!res.ok) {
+      throw new Error(`Apollo API error: ${res.status}`);
+    }
+
+    return res.json() as Promise<T>;
+  }
+
+  private toResult(person: ApolloPerson, email: string | null): ScraperResult {
+    const organization = person.organization || {};
+    const website =
+      organization.website_url ||
+      (organization.primary_domain ? `https://${organization.primary_domain}` : undefined);
+
+    return {
+      email: email || undefined,
+      first_name: person.first_name || undefined,
+      last_name: person.last_name || undefined,
+      job_title: person.title || undefined,
+      seniority: toSeniority(person.seniority) || undefined,
+      linkedin_url: person.linkedin_url || undefined,
+      phone: organization.phone || undefined,
+      company_name: organization.name,
+      company_website: website,
+      company_linkedin: organization.linkedin_url || undefined,
+      company_size: organization.estimated_num_employees?.toString(),
+      industry: organization.industry || undefined,
+      category: organization.industry || undefined,
+      city: person.city || undefined,
+      state: person.state || undefined,
+      country: person.country === "United States" ? "USA" : person.country || undefined,
+      source_url: `https://app.apollo.io/#/people/${person.id}`,
+      raw_data: {
+        apollo_id: person.id,
+        apollo_organization_id: organization.id,
+        email_status: person.email_status,
+      },
+    };
+  }
+}
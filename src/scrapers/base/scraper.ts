@@ -1,10 +1,16 @@
-import type { Lead } from "@/types";
+import type { Lead, LeadSeniority } from "@/types";
 
 export interface ScraperConfig {
   query: string;
   location?: string;
   maxResults?: number;
   filters?: Record<string, unknown>;
+  // Listings an earlier attempt of the same job already processed; scrapers
+  // that can identify listings skip them
+  seenIds?: string[];
+  // Results an earlier attempt processed that had no listing id; scrapers
+  // that return results in a stable order (Apollo, imports) skip this many
+  skip?: number;
 }
 
 export interface ScraperResult {
@@ -12,14 +18,25 @@ export interface ScraperResult {
   first_name?: string;
   last_name?: string;
   phone?: string;
+  // People (Apollo, LinkedIn) rather than businesses
+  job_title?: string;
+  seniority?: LeadSeniority;
+  linkedin_url?: string;
   company_name?: string;
   company_website?: string;
+  company_linkedin?: string;
+  company_size?: string;
   industry?: string;
   city?: string;
   state?: string;
   country?: string;
   address?: string;
   source_url?: string;
+  // Business listing details, kept on the company record
+  rating?: number;
+  reviews_count?: number;
+  category?: string;
+  place_id?: string;
   raw_data?: Record<string, unknown>;
 }
 
@@ -28,6 +45,8 @@ export abstract class BaseScraper {
   protected requestsPerMinute: number;
   protected requestsPerHour: number;
   protected lastRequestTime: number = 0;
+  // Requests made so far, counted as they pass the rate limiter
+  requestsMade: number = 0;
 
   constructor(
     name: string,
@@ -51,6 +70,7 @@ export abstract class BaseScraper {
     }
 
     this.lastRequestTime = Date.now();
+    this.requestsMade++;
   }
 
   protected sleep(ms: number): Promise<void> {
@@ -65,6 +85,9 @@ export abstract class BaseScraper {
     let lastError: Error | undefined;
 
     for (let attempt = 0; attempt < maxRetries; attempt++) {
+      // The first attempt was counted by respectRateLimit
+      if (attempt > 0) this.requestsMade++;
+
       try {
         return await fn();
       } catch (error) {
@@ -89,8 +112,13 @@ export abstract class BaseScraper {
       first_name: result.first_name || null,
       last_name: result.last_name || null,
       phone: result.phone || null,
+      job_title: result.job_title || null,
+      seniority: result.seniority || null,
+      linkedin_url: result.linkedin_url || null,
       company_name: result.company_name || null,
       company_website: result.company_website || null,
+      company_linkedin: result.company_linkedin || null,
+      company_size: result.company_size || null,
       industry: result.industry || null,
       city: result.city || null,
       state: result.state || null,
@@ -0,0 +1,161 @@
+import { inferSeniority } from "@/lib/leads/seniority";
+import { BaseScraper, type ScraperConfig, type ScraperResult } from "../base/scraper";
+
+// Most contacts one export can hold; they are stored on the scraper job
+export const MAX_SALES_NAV_CONTACTS = 5000;
+
+type ExportColumn =
+  | "first_name"
+  | "last_name"
+  | "full_name"
+  | "email"
+  | "job_title"
+  | "linkedin_url"
+  | "company_name"
+  | "company_website"
+  | "company_linkedin"
+  | "company_size"
+  | "industry"
+  | "location"
+  | "phone";
+
+// Header names used by Sales Navigator export tools (Evaboot, PhantomBuster,
+// Dux-Soup, ...), compared lowercase without spaces or punctuation
+const COLUMN_ALIASES: Record<ExportColumn, string[]> = {
+  first_name: ["firstname", "first"],
+  last_name: ["lastname", "last"],
+  full_name: ["fullname", "name"],
+  email: ["email", "emailaddress", "workemail", "professionalemail"],
+  job_title: ["jobtitle", "title", "currenttitle", "position", "headline"],
+  linkedin_url: [
+    "defaultprofileurl",
+    "linkedinurl",
+    "linkedinprofileurl",
+    "personlinkedinurl",
+    "profileurl",
+    "linkedin",
+  ],
+  company_name: ["companyname", "company", "currentcompany", "organization"],
+  company_website: ["companywebsite", "website", "companydomain", "domain"],
+  company_linkedin: [
+    "regularcompanyurl",
+    "companylinkedinurl",
+    "companylinkedin",
+    "companyurl",
+  ],
+  company_size: ["companysize", "companyheadcount", "headcount", "employees"],
+  industry: ["industry", "companyindustry"],
+  location: ["location", "personlocation", "geography"],
+  phone: ["phone", "phonenumber"],
+};
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// Column index for each field; earlier aliases win when several are present
+function mapColumns(headers: string[]): Partial<Record<ExportColumn, number>> {
+  const normalized = headers.map(normalizeHeader);
+  const columns: Partial<Record<ExportColumn, number>> = {};
+
+  for (const [column, aliases] of Object.entries(COLUMN_ALIASES) as [ExportColumn, string[]][]) {
+    for (const alias of aliases) {
+      const index = normalized.indexOf(alias);
+      if (index !== -1) {
+        columns[column] = index;
+        break;
+      }
+    }
+  }
+
+  return columns;
+}
+
+// "Austin, Texas, United States" -> city, state and country
+function parseLocation(location: string): { city?: string; state?: string; country?: string } {
+  const parts = location.split(",").map((part) => part.trim()).filter(Boolean);
+  const country = parts.length >= 2 ? parts[parts.length - 1] : undefined;
+
+  return {
+    city: parts.length >= 3 ? parts[0] : undefined,
+    state: parts.length >= 3 ? parts[1] : parts.length === 2 ? parts[0] : undefined,
+    country: country === "United States" ? "USA" : country,
+  };
+}
+
+function toWebsite(value: string): string | undefined {
+  if (!value) return undefined;
+  return /^https?:\/\//i.test(value) ? value : `https://${value}`;
+}
+
+// Contacts from a Sales Navigator export (rows including the header row).
+// Rows without a name are dropped; emails are optional and found later
+export function parseSalesNavigatorExport(rows: string[][]): ScraperResult[] {
+  const [headers = [], ...records] = rows;
+  const columns = mapColumns(headers);
+
+  if (columns.first_name === undefined && columns.full_name === undefined) {
+    throw new Error("The export has no first name or full name column");
+  }
+
+  const contacts: ScraperResult[] = [];
+
+  for (const record of records) {
+    const value = (column: ExportColumn) => {
+      const index = columns[column];
+      return index === undefined ? "" : (record[index] || "").trim();
+    };
+
+    const [firstFromFull, ...restFromFull] = value("full_name").split(/\s+/);
+    const firstName = value("first_name") || firstFromFull;
+    const lastName = value("last_name") || restFromFull.join(" ");
+    if (!firstName) continue;
+
+    const jobTitle = value("job_title");
+    const email = value("email");
+
+    contacts.push({
+      email: email.includes("@") ? email : undefined,
+      first_name: firstName,
+      last_name: lastName || undefined,
+      phone: value("phone") || undefined,
+      job_title: jobTitle || undefined,
+      seniority: inferSeniority(jobTitle) || undefined,
+      linkedin_url: value("linkedin_url") || undefined,
+      company_name: value("company_name") || undefined,
+      company_website: toWebsite(value("company_website")),
+      company_linkedin: value("company_linkedin") || undefined,
+      company_size: value("company_size") || undefined,
+      industry: value("industry") || undefined,
+      ...parseLocation(value("location")),
+      source_url: value("linkedin_url") || undefined,
+    });
+
+    if (contacts.length >= MAX_SALES_NAV_CONTACTS) break;
+  }
+
+  return contacts;
+}
+
+// Replays the contacts parsed from a Sales Navigator export, stored on the
+// job as filters.contacts, through the scraper job pipeline
+export class LinkedInSalesNavImporter extends BaseScraper {
+  constructor() {
+    super("LinkedInSalesNav", { perMinute: 6000, perHour: 100000 });
+  }
+
+  async *scrape(config: ScraperConfig): AsyncGenerator<ScraperResult> {
+    const contacts = Array.isArray(config.filters?.contacts)
+      ? (config.filters.contacts as ScraperResult[])
+      : [];
+    const { maxResults = contacts.length, skip = 0 } = config;
+
+    if (contacts.length === 0) {
+      throw new Error("No Sales Navigator contacts were uploaded for this job");
+    }
+
+    for (const contact of contacts.slice(skip, skip + maxResults)) {
+      yield contact;
+    }
+  }
+}
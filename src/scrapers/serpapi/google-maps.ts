@@ -56,6 +56,7 @@ export class SerpAPIGoogleMapsScraper extends BaseScraper {
     }
 
     const { query, location, maxResults = 100 } = config;
+    const seen = new Set(config.seenIds || []);
 
     let start = 0;
     const resultsPerPage = 20;
@@ -97,6 +98,7 @@ export class SerpAPIGoogleMapsScraper extends BaseScraper {
 
         for (const result of results) {
           if (totalResults >= maxResults) break;
+          if (result.place_id && seen.has(result.place_id)) continue;
 
           const scraperResult = this.transformResult(result);
           yield scraperResult;
@@ -128,6 +130,10 @@ export class SerpAPIGoogleMapsScraper extends BaseScraper {
       state: addressParts.state,
       country: addressParts.country || "USA",
       industry: result.type || (result.types ? result.types[0] : undefined),
+      rating: result.rating,
+      reviews_count: result.reviews,
+      category: result.type || (result.types ? result.types[0] : undefined),
+      place_id: result.place_id,
       source_url: `https://www.google.com/maps/place/?q=place_id:${result.place_id}`,
       raw_data: {
         rating: result.rating,
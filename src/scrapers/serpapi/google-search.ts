@@ -115,6 +115,9 @@ export class SerpAPIGoogleSearchScraper extends BaseScraper {
             company_website: place.website,
             address: place.address,
             industry: place.type,
+            rating: place.rating,
+            reviews_count: place.reviews,
+            category: place.type,
             raw_data: {
               rating: place.rating,
               reviews: place.reviews,
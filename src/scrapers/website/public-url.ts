@@ -0,0 +1,59 @@
+import dns from "dns/promises";
+import net from "net";
+
+// Websites come from scraped listings and imported spreadsheets, so the
+// crawler must not be pointed at the app's own network: loopback, private,
+// link-local (cloud metadata), CGNAT, multicast and reserved ranges
+const BLOCKED_RANGES = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPublicIp(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as the IPv4 address
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return isPublicIp(mapped[1]);
+
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !BLOCKED_RANGES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+// Throws unless the URL is http(s) and every address its host resolves to
+// is public
+export async function assertPublicUrl(url: string): Promise<void> {
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== "http:" && protocol !== "https:") {
+    throw new Error(`Unsupported protocol: ${protocol}`);
+  }
+
+  const host = hostname.replace(/^\[|\]$/g, "");
+  const addresses = net.isIP(host)
+    ? [host]
+    : (await dns.lookup(host, { all: true })).map((entry) => entry.address);
+
+  if (addresses.length === 0 || !addresses.every(isPublicIp)) {
+    throw new Error(`${hostname} does not resolve to a public address`);
+  }
+}
@@ -0,0 +1,247 @@
+import * as cheerio from "cheerio";
+import { isRoleAccount } from "@/lib/verification";
+import { BaseScraper, type ScraperConfig, type ScraperResult } from "../base/scraper";
+import { assertPublicUrl } from "./public-url";
+
+export interface WebsiteContacts {
+  emails: string[];
+  phones: string[];
+  // Network name -> profile URL
+  social_links: Record<string, string>;
+  // Pages that were fetched successfully
+  pages: string[];
+}
+
+const SOCIAL_NETWORKS: { name: string; pattern: RegExp }[] = [
+  { name: "linkedin", pattern: /(^|\.)linkedin\.com$/ },
+  { name: "facebook", pattern: /(^|\.)facebook\.com$/ },
+  { name: "instagram", pattern: /(^|\.)instagram\.com$/ },
+  { name: "twitter", pattern: /(^|\.)(twitter|x)\.com$/ },
+  { name: "youtube", pattern: /(^|\.)youtube\.com$/ },
+  { name: "tiktok", pattern: /(^|\.)tiktok\.com$/ },
+];
+
+// Links on the homepage that usually lead to contact details
+const CONTACT_LINK_PATTERN = /contact|about|team|kontakt|impressum/i;
+
+// Addresses that look like emails but are image names or placeholders
+const IGNORED_EMAIL_PATTERN =
+  /\.(png|jpe?g|gif|svg|webp)$|@(example|domain|email|sentry)\.|^(you|your|name|user)@/i;
+
+const MAX_PAGE_BYTES = 1024 * 1024;
+const PAGE_TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 5;
+
+// Crawls a company website's homepage, contact and about pages for emails,
+// phone numbers and social profiles
+export class WebsiteContactScraper extends BaseScraper {
+  private maxPages: number;
+
+  constructor(maxPages: number = 4) {
+    super("WebsiteContacts", { perMinute: 30, perHour: 1000 });
+    this.maxPages = maxPages;
+  }
+
+  // config.query is the website URL; yields one result if any contact was found
+  async *scrape(config: ScraperConfig): AsyncGenerator<ScraperResult> {
+    const website = normalizeWebsiteUrl(config.query);
+    if (!website) return;
+
+    const contacts = await this.crawl(website);
+    if (contacts.emails.length === 0 && contacts.phones.length === 0) return;
+
+    yield {
+      email: pickContactEmail(contacts.emails, website) || undefined,
+      phone: contacts.phones[0],
+      company_website: website,
+      source_url: contacts.pages[0] || website,
+      raw_data: { ...contacts },
+    };
+  }
+
+  async crawl(websiteUrl: string): Promise<WebsiteContacts> {
+    const contacts: WebsiteContacts = { emails: [], phones: [], social_links: {}, pages: [] };
+    const website = normalizeWebsiteUrl(websiteUrl);
+    if (!website) return contacts;
+
+    const homepage = await this.fetchPage(website);
+    if (!homepage) return contacts;
+
+    const base = new URL(homepage.url);
+    const queue = [
+      ...this.findContactPages(homepage.$, base),
+      new URL("/contact", base).href,
+      new URL("/about", base).href,
+    ];
+    this.extractContacts(homepage.$, contacts);
+    contacts.pages.push(homepage.url);
+
+    const visited = new Set([stripHash(website), stripHash(homepage.url)]);
+    for (const url of queue) {
+      if (contacts.pages.length >= this.maxPages) break;
+      if (visited.has(stripHash(url))) continue;
+      visited.add(stripHash(url));
+
+      const page = await this.fetchPage(url);
+      if (!page || new URL(page.url).hostname !== base.hostname) continue;
+
+      this.extractContacts(page.$, contacts);
+      contacts.pages.push(page.url);
+    }
+
+    return contacts;
+  }
+
+  private async fetchPage(url: string): Promise<{ url: string; $: cheerio.CheerioAPI } | null> {
+    await this.respectRateLimit();
+
+    try {
+      // Redirects are followed by hand so every hop is checked
+      let current = url;
+      for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+        await assertPublicUrl(current);
+
+        const response = await fetch(current, {
+          redirect: "manual",
+          signal: AbortSignal.timeout(PAGE_TIMEOUT_MS),
+          headers: {
+            "User-Agent":
+              "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36",
+            Accept: "text/html,application/xhtml+xml",
+          },
+        });
+
+        const location = response.headers.get("location");
+        if (response.status >= 300 && response.status < 400 && location) {
+          current = new URL(location, current).href;
+          continue;
+        }
+
+        const contentType = response.headers.get("content-type") || "";
+        if (!response.ok || !contentType.includes("html")) return null;
+
+        const html = await response.text();
+        return { url: current, $: cheerio.load(html.slice(0, MAX_PAGE_BYTES)) };
+      }
+
+      throw new Error("Too many redirects");
+    } catch (error) {
+      console.log(`${this.name}: Failed to fetch ${url}:`, (error as Error).message);
+      return null;
+    }
+  }
+
+  // Same-site links that look like contact/about pages, in page order
+  private findContactPages($: cheerio.CheerioAPI, base: URL): string[] {
+    const urls: string[] = [];
+
+    $("a[href]").each((_, element) => {
+      const href = $(element).attr("href") || "";
+      const text = $(element).text();
+      if (!CONTACT_LINK_PATTERN.test(href) && !CONTACT_LINK_PATTERN.test(text)) return;
+
+      try {
+        const url = new URL(href, base);
+        if (url.hostname === base.hostname && url.protocol.startsWith("http")) {
+          urls.push(stripHash(url.href));
+        }
+      } catch {
+        // Ignore malformed links
+      }
+    });
+
+    return urls;
+  }
+
+  private extractContacts($: cheerio.CheerioAPI, contacts: WebsiteContacts): void {
+    const addEmail = (value: string | null) => {
+      const email = value?.toLowerCase().replace(/^mailto:/, "");
+      if (email && !IGNORED_EMAIL_PATTERN.test(email) && !contacts.emails.includes(email)) {
+        contacts.emails.push(email);
+      }
+    };
+    const addPhone = (value: string | null) => {
+      const phone = value ? this.cleanText(value) : null;
+      const digits = phone?.replace(/\D/g, "") || "";
+      if (
+        phone &&
+        digits.length >= 10 &&
+        !contacts.phones.some((p) => p.replace(/\D/g, "") === digits)
+      ) {
+        contacts.phones.push(phone);
+      }
+    };
+
+    $("a[href]").each((_, element) => {
+      const href = ($(element).attr("href") || "").trim();
+
+      if (href.toLowerCase().startsWith("mailto:")) {
+        addEmail(this.extractEmailFromText(safeDecode(href.slice(7).split("?")[0])));
+      } else if (href.toLowerCase().startsWith("tel:")) {
+        addPhone(this.extractPhoneFromText(safeDecode(href.slice(4))));
+      } else {
+        try {
+          const url = new URL(href);
+          const network = SOCIAL_NETWORKS.find((n) => n.pattern.test(url.hostname));
+          if (network && !contacts.social_links[network.name] && url.pathname.length > 1) {
+            contacts.social_links[network.name] = url.href;
+          }
+        } catch {
+          // Relative or malformed link
+        }
+      }
+    });
+
+    // Emails and phones written out in the page text, one text block at a time
+    // since the extractors return the first match
+    $("script, style, noscript").remove();
+    $("body")
+      .find("p, span, li, td, div, address, a, footer, h1, h2, h3, h4, h5, h6")
+      .each((_, element) => {
+        const text = $(element).clone().children().remove().end().text();
+        if (!text.trim()) return;
+
+        addEmail(this.extractEmailFromText(text));
+        addPhone(this.extractPhoneFromText(text));
+      });
+  }
+}
+
+// "acme.com" -> "https://acme.com/"; null if it isn't a usable http(s) URL
+export function normalizeWebsiteUrl(website: string): string | null {
+  const trimmed = website.trim();
+  if (!trimmed) return null;
+
+  try {
+    const url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    return url.protocol.startsWith("http") && url.hostname.includes(".") ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+// Prefer a personal address on the company's own domain, then any address
+// on its domain, then whatever was found
+export function pickContactEmail(emails: string[], website: string): string | null {
+  let domain = "";
+  try {
+    domain = new URL(website).hostname.replace(/^www\./, "");
+  } catch {
+    // Fall through with no domain preference
+  }
+
+  const onDomain = emails.filter((email) => domain && email.endsWith(`@${domain}`));
+  return onDomain.find((email) => !isRoleAccount(email)) || onDomain[0] || emails[0] || null;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function stripHash(url: string): string {
+  return url.split("#")[0];
+}
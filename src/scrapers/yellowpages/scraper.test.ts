@@ -0,0 +1,68 @@
+import { readFileSync } from "fs";
+import * as cheerio from "cheerio";
+import { describe, expect, it } from "vitest";
+import {
+  parseYellowPagesBusinessHtml,
+  parseYellowPagesSearchCard,
+  parseYellowPagesSearchHtml,
+} from "./scraper";
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), "utf8");
+}
+
+describe("parseYellowPagesSearchHtml", () => {
+  const listings = parseYellowPagesSearchHtml(fixture("search.html"));
+
+  it("only returns organic listings", () => {
+    expect(listings.map((listing) => listing.listing_id)).toEqual(["465718093", "11942355"]);
+  });
+
+  it("reads contact details, categories, rating and review count from each card", () => {
+    expect(listings[0]).toEqual({
+      company_name: "ABC Home & Commercial Services",
+      listing_id: "465718093",
+      url: "https://www.yellowpages.com/austin-tx/mip/abc-home-commercial-services-465718093",
+      phone: "(512) 837-9681",
+      company_website: "https://www.abchomeandcommercial.com",
+      street_address: "9475 E Highway 290",
+      city: "Austin",
+      state: "TX",
+      categories: ["Plumbers", "Water Heaters"],
+      rating: 4.5,
+      reviews_count: 23,
+      years_in_business: 74,
+    });
+    expect(listings[1]).toMatchObject({
+      company_name: "Daniel's Plumbing",
+      phone: "(512) 555-0188",
+      categories: ["Plumbers"],
+      rating: 5,
+      reviews_count: 1045,
+    });
+  });
+
+  it("ignores website links that point back to YellowPages", () => {
+    expect(listings[1].company_website).toBeUndefined();
+  });
+});
+
+describe("parseYellowPagesSearchCard", () => {
+  it("returns null for a paid card", () => {
+    const $ = cheerio.load(fixture("search.html"));
+
+    expect(parseYellowPagesSearchCard($, $("div.result.paid-listing").first())).toBeNull();
+  });
+});
+
+describe("parseYellowPagesBusinessHtml", () => {
+  it("reads the email, contact details and full category list", () => {
+    expect(parseYellowPagesBusinessHtml(fixture("business.html"))).toEqual({
+      email: "service@abchomeandcommercial.com",
+      phone: "(512) 837-9681",
+      company_website: "https://www.abchomeandcommercial.com",
+      categories: ["Plumbers", "Water Heaters", "Pest Control Services"],
+      years_in_business: 74,
+    });
+  });
+});
@@ -0,0 +1,271 @@
+import * as cheerio from "cheerio";
+import { BaseScraper, type ScraperConfig, type ScraperResult } from "../base/scraper";
+import { DEFAULT_USER_AGENTS } from "../google-maps/scraper";
+
+export interface YellowPagesScraperOptions {
+  // User agents, one picked per request; empty uses DEFAULT_USER_AGENTS
+  userAgents?: string[];
+  // Open each listing for the email and categories missing from its card
+  visitDetailPages?: boolean;
+}
+
+export interface YellowPagesListing {
+  company_name: string;
+  // YellowPages listing id (data-ypid), or the listing path when missing
+  listing_id: string;
+  url: string;
+  phone?: string;
+  company_website?: string;
+  street_address?: string;
+  city?: string;
+  state?: string;
+  categories: string[];
+  rating?: number;
+  reviews_count?: number;
+  years_in_business?: number;
+}
+
+export interface YellowPagesBusinessDetails {
+  email?: string;
+  phone?: string;
+  company_website?: string;
+  categories: string[];
+  years_in_business?: number;
+}
+
+const YELLOWPAGES_BASE_URL = "https://www.yellowpages.com";
+const RESULTS_PER_PAGE = 30;
+const PAGE_TIMEOUT_MS = 15000;
+
+// Star ratings are rendered as classes: "result-rating four half" -> 4.5
+const RATING_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+};
+
+// Listing ids are prefixed so they never collide with Google place ids
+export function yellowPagesListingId(id: string): string {
+  return `yellowpages:${id}`;
+}
+
+function parseRatingClass(className: string): number | undefined {
+  const classes = className.split(/\s+/);
+  const stars = classes.map((name) => RATING_WORDS[name]).find((value) => value !== undefined);
+  if (stars === undefined) return undefined;
+  return classes.includes("half") ? stars + 0.5 : stars;
+}
+
+// "Austin, TX 78701" -> { city: "Austin", state: "TX" }
+function parseLocality(locality: string): { city?: string; state?: string } {
+  const match = locality.match(/^(.+?),\s*([A-Z]{2})\b/);
+  return match ? { city: match[1].trim(), state: match[2] } : {};
+}
+
+function parseWebsite(href: string | undefined): string | undefined {
+  return href && /^https?:\/\//.test(href) ? href : undefined;
+}
+
+// One listing card from a YellowPages search results page. Paid cards give
+// null
+export function parseYellowPagesSearchCard(
+  $: cheerio.CheerioAPI,
+  card: ReturnType<cheerio.CheerioAPI>
+): YellowPagesListing | null {
+  if (card.hasClass("paid-listing")) return null;
+
+  const nameLink = card.find("a.business-name").first();
+  const name = nameLink.text().trim();
+  const path = nameLink.attr("href") || "";
+  if (!name) return null;
+
+  const ypid = card.attr("data-ypid") || card.find("[data-ypid]").first().attr("data-ypid");
+  const listingId = ypid || path.split("?")[0];
+  if (!listingId) return null;
+
+  const reviews = card.find(".ratings .count").first().text().match(/\d[\d,]*/);
+  const years = card.find(".years-in-business .count").first().text().match(/\d+/);
+
+  return {
+    company_name: name,
+    listing_id: listingId,
+    url: path ? new URL(path, YELLOWPAGES_BASE_URL).href : YELLOWPAGES_BASE_URL,
+    phone: card.find(".phones").first().text().trim() || undefined,
+    company_website: parseWebsite(card.find("a.track-visit-website").first().attr("href")),
+    street_address: card.find(".street-address").first().text().trim() || undefined,
+    ...parseLocality(card.find(".locality").first().text().trim()),
+    categories: card
+      .find(".categories a")
+      .map((_, a) => $(a).text().trim())
+      .get()
+      .filter(Boolean),
+    rating: parseRatingClass(card.find(".result-rating").first().attr("class") || ""),
+    reviews_count: reviews ? parseInt(reviews[0].replace(/,/g, ""), 10) : undefined,
+    years_in_business: years ? parseInt(years[0], 10) : undefined,
+  };
+}
+
+// Organic listings on a YellowPages search results page; the paid listings
+// above them repeat across pages and are skipped
+export function parseYellowPagesSearchHtml(html: string): YellowPagesListing[] {
+  const $ = cheerio.load(html);
+  const listings: YellowPagesListing[] = [];
+  const organic = $(".search-results.organic div.result");
+  const cards = organic.length > 0 ? organic : $("div.result");
+
+  cards.each((_, element) => {
+    const listing = parseYellowPagesSearchCard($, $(element));
+    if (listing) listings.push(listing);
+  });
+
+  return listings;
+}
+
+// Contact details from a listing's own page, which shows the business email
+// and the full category list
+export function parseYellowPagesBusinessHtml(html: string): YellowPagesBusinessDetails {
+  const $ = cheerio.load(html);
+  const email = ($("a.email-business").first().attr("href") || "").replace(/^mailto:/i, "");
+  const years = $(".years-in-business .number").first().text().match(/\d+/);
+
+  return {
+    email: email.includes("@") ? decodeURIComponent(email.split("?")[0]) : undefined,
+    phone: $("a.phone .full, a.phone").first().text().trim() || undefined,
+    company_website: parseWebsite($("a.website-link").first().attr("href")),
+    categories: $("dd.categories a, div.categories a")
+      .map((_, a) => $(a).text().trim())
+      .get()
+      .filter((category, index, all) => category && all.indexOf(category) === index),
+    years_in_business: years ? parseInt(years[0], 10) : undefined,
+  };
+}
+
+// YellowPages business search, parsed from its HTML search pages
+export class YellowPagesScraper extends BaseScraper {
+  private options: YellowPagesScraperOptions;
+
+  constructor(options: YellowPagesScraperOptions = {}) {
+    super("YellowPages", { perMinute: 10, perHour: 300 });
+    this.options = options;
+  }
+
+  async *scrape(config: ScraperConfig): AsyncGenerator<ScraperResult> {
+    const { query, location, maxResults = 100 } = config;
+    const seen = new Set(config.seenIds || []);
+    const visitDetailPages = this.options.visitDetailPages !== false;
+
+    let page = 1;
+    let totalResults = 0;
+
+    while (totalResults < maxResults) {
+      await this.respectRateLimit();
+
+      const params = new URLSearchParams({
+        search_terms: query,
+        geo_location_terms: location || "United States",
+        page: page.toString(),
+      });
+
+      const html = await this.withRetry(() =>
+        this.fetchHtml(`${YELLOWPAGES_BASE_URL}/search?${params}`)
+      );
+      const listings = parseYellowPagesSearchHtml(html);
+
+      if (listings.length === 0) {
+        break; // No more results
+      }
+
+      for (const listing of listings) {
+        if (totalResults >= maxResults) break;
+        if (seen.has(yellowPagesListingId(listing.listing_id))) continue;
+        seen.add(yellowPagesListingId(listing.listing_id));
+
+        let details: YellowPagesBusinessDetails | null = null;
+        if (visitDetailPages && listing.url !== YELLOWPAGES_BASE_URL) {
+          await this.respectRateLimit();
+          details = await this.fetchDetails(listing.url);
+        }
+
+        yield this.toResult(listing, details);
+        totalResults++;
+      }
+
+      if (listings.length < RESULTS_PER_PAGE) {
+        break; // Less than full page means no more results
+      }
+
+      page++;
+    }
+  }
+
+  private async fetchDetails(url: string): Promise<YellowPagesBusinessDetails | null> {
+    try {
+      return parseYellowPagesBusinessHtml(await this.fetchHtml(url));
+    } catch (error) {
+      console.log(`${this.name}: Failed to fetch ${url}:`, (error as Error).message);
+      return null;
+    }
+  }
+
+  private async fetchHtml(url: string): Promise<string> {
+    const userAgents = this.options.userAgents?.length
+      ? this.options.userAgents
+      : DEFAULT_USER_AGENTS;
+
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(PAGE_TIMEOUT_MS),
+      headers: {
+        "User-Agent": userAgents[Math.floor(Math.random() * userAgents.length)],
+        Accept: "text/html,application/xhtml+xml",
+        "Accept-Language": "en-US,en;q=0.9",
+      },
+    });
+
+    if (response.status === 403 || response.status === 429) {
+      throw new Error(`YellowPages blocked the request (${response.status})`);
+    }
+    if (!response.ok) {
+      throw new Error(`YellowPages error: ${response.status}`);
+    }
+
+    return response.text();
+  }
+
+  private toResult(
+    listing: YellowPagesListing,
+    details: YellowPagesBusinessDetails | null
+  ): ScraperResult {
+    const categories = details?.categories.length ? details.categories : listing.categories;
+    const category = categories[0];
+    const yearsInBusiness = listing.years_in_business ?? details?.years_in_business;
+    const locality = [listing.city, listing.state].filter(Boolean).join(", ");
+
+    return {
+      company_name: listing.company_name,
+      email: details?.email,
+      phone: listing.phone || details?.phone,
+      company_website: listing.company_website || details?.company_website,
+      address: [listing.street_address, locality].filter(Boolean).join(", ") || undefined,
+      city: listing.city,
+      state: listing.state,
+      country: "USA",
+      industry: category,
+      category,
+      rating: listing.rating,
+      reviews_count: listing.reviews_count,
+      place_id: yellowPagesListingId(listing.listing_id),
+      source_url: listing.url,
+      raw_data: {
+        yellowpages_id: listing.listing_id,
+        category,
+        categories,
+        rating: listing.rating,
+        reviews_count: listing.reviews_count,
+        years_in_business: yearsInBusiness,
+        detail_page: details !== null,
+      },
+    };
+  }
+}
@@ -0,0 +1,59 @@
+import { readFileSync } from "fs";
+import * as cheerio from "cheerio";
+import { describe, expect, it } from "vitest";
+import { parseYelpBusinessHtml, parseYelpSearchCard, parseYelpSearchHtml } from "./scraper";
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), "utf8");
+}
+
+describe("parseYelpSearchHtml", () => {
+  const listings = parseYelpSearchHtml(fixture("search.html"));
+
+  it("skips sponsored cards and repeated businesses", () => {
+    expect(listings.map((listing) => listing.alias)).toEqual([
+      "radiant-plumbing-and-air-conditioning-austin",
+      "s-and-d-plumbing-austin-2",
+    ]);
+  });
+
+  it("reads name, categories, rating and review count from each card", () => {
+    expect(listings[0]).toEqual({
+      company_name: "Radiant Plumbing & Air Conditioning",
+      alias: "radiant-plumbing-and-air-conditioning-austin",
+      url: "https://www.yelp.com/biz/radiant-plumbing-and-air-conditioning-austin",
+      categories: ["Plumbing", "Heating & Air Conditioning/HVAC"],
+      rating: 4.8,
+      reviews_count: 1200,
+    });
+    expect(listings[1]).toMatchObject({
+      company_name: "S & D Plumbing",
+      categories: ["Plumbing", "Water Heater Installation/Repair"],
+      rating: 4.5,
+      reviews_count: 87,
+    });
+  });
+});
+
+describe("parseYelpSearchCard", () => {
+  it("returns null for a sponsored card", () => {
+    const $ = cheerio.load(fixture("search.html"));
+    const sponsored = $('[data-testid="serp-ia-card"]').first();
+
+    expect(parseYelpSearchCard($, sponsored)).toBeNull();
+  });
+});
+
+describe("parseYelpBusinessHtml", () => {
+  it("reads contact details, rating and the linked website", () => {
+    expect(parseYelpBusinessHtml(fixture("business.html"))).toEqual({
+      phone: "(512) 263-1655",
+      company_website: "https://www.radiantplumbing.com/",
+      address: "2001 S Lamar Blvd, Austin, TX",
+      city: "Austin",
+      state: "TX",
+      rating: 4.8,
+      reviews_count: 1243,
+    });
+  });
+});
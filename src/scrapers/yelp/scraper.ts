@@ -0,0 +1,350 @@
+import * as cheerio from "cheerio";
+import { BaseScraper, type ScraperConfig, type ScraperResult } from "../base/scraper";
+import { DEFAULT_USER_AGENTS } from "../google-maps/scraper";
+
+export interface YelpScraperOptions {
+  // User agents, one picked per request; empty uses DEFAULT_USER_AGENTS
+  userAgents?: string[];
+  // Open each listing for its website, phone and full address
+  visitDetailPages?: boolean;
+}
+
+export interface YelpListing {
+  company_name: string;
+  // The business's Yelp alias ("joes-pizza-new-york"), from its /biz/ URL
+  alias: string;
+  url: string;
+  categories: string[];
+  rating?: number;
+  reviews_count?: number;
+  price?: string;
+  neighborhood?: string;
+  phone?: string;
+}
+
+export interface YelpBusinessDetails {
+  phone?: string;
+  company_website?: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  rating?: number;
+  reviews_count?: number;
+}
+
+interface SerpAPIYelpResult {
+  title?: string;
+  place_ids?: string[];
+  link?: string;
+  categories?: { title: string; link?: string }[];
+  price?: string;
+  rating?: number;
+  reviews?: number;
+  neighborhoods?: string;
+  phone?: string;
+  snippet?: string;
+}
+
+interface SerpAPIYelpResponse {
+  organic_results?: SerpAPIYelpResult[];
+  error?: string;
+}
+
+const YELP_BASE_URL = "https://www.yelp.com";
+const RESULTS_PER_PAGE = 10;
+const PAGE_TIMEOUT_MS = 15000;
+
+// Listing ids are prefixed so they never collide with Google place ids
+export function yelpListingId(alias: string): string {
+  return `yelp:${alias}`;
+}
+
+// "/biz/joes-pizza-new-york?osq=Pizza" -> "joes-pizza-new-york"
+function aliasFromHref(href: string): string | null {
+  const match = href.match(/\/biz\/([^/?#]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+// "1.2k reviews" -> 1200, "(87 reviews)" -> 87
+function parseReviewCount(text: string): number | undefined {
+  const match = text.match(/([\d.,]+)\s*(k)?\s*reviews?/i);
+  if (!match) return undefined;
+
+  const count = parseFloat(match[1].replace(/,/g, ""));
+  if (isNaN(count)) return undefined;
+  return Math.round(match[2] ? count * 1000 : count);
+}
+
+// One business card from a Yelp search results page. Sponsored cards link
+// through /adredir and give null
+export function parseYelpSearchCard(
+  $: cheerio.CheerioAPI,
+  card: ReturnType<cheerio.CheerioAPI>
+): YelpListing | null {
+  if (card.find('a[href*="/adredir"]').length > 0) return null;
+
+  const link = card
+    .find('a[href^="/biz/"]')
+    .filter((_, a) => $(a).text().trim() !== "")
+    .first();
+  const alias = aliasFromHref(link.attr("href") || "");
+  if (!alias) return null;
+
+  const ratingLabel = card.find('[aria-label$="star rating"]').first().attr("aria-label") || "";
+  const rating = parseFloat(ratingLabel);
+  const categories = card
+    .find('a[href*="cflt="]')
+    .map((_, a) => $(a).text().trim())
+    .get()
+    .filter(Boolean);
+  const text = card.text().replace(/\s+/g, " ");
+
+  return {
+    company_name: link.text().replace(/^\d+\.\s*/, "").trim(),
+    alias,
+    url: `${YELP_BASE_URL}/biz/${alias}`,
+    categories,
+    rating: isNaN(rating) ? undefined : rating,
+    reviews_count: parseReviewCount(text),
+  };
+}
+
+// Business cards on a Yelp search results page
+export function parseYelpSearchHtml(html: string): YelpListing[] {
+  const $ = cheerio.load(html);
+  const listings: YelpListing[] = [];
+  const seen = new Set<string>();
+
+  $('[data-testid="serp-ia-card"]').each((_, element) => {
+    const listing = parseYelpSearchCard($, $(element));
+    if (!listing || seen.has(listing.alias)) return;
+    seen.add(listing.alias);
+    listings.push(listing);
+  });
+
+  return listings;
+}
+
+// Contact details from a business page's LocalBusiness JSON-LD, plus the
+// website Yelp links through /biz_redir
+export function parseYelpBusinessHtml(html: string): YelpBusinessDetails {
+  const $ = cheerio.load(html);
+  const details: YelpBusinessDetails = {};
+
+  $('script[type="application/ld+json"]').each((_, element) => {
+    try {
+      const data = JSON.parse($(element).contents().text());
+      const business = (Array.isArray(data) ? data : [data]).find(
+        (item) => item && typeof item === "object" && item.address
+      );
+      if (!business) return;
+
+      const address = business.address;
+      details.phone = details.phone || business.telephone || undefined;
+      details.address =
+        [address.streetAddress, address.addressLocality, address.addressRegion]
+          .filter(Boolean)
+          .join(", ") || undefined;
+      details.city = address.addressLocality || undefined;
+      details.state = address.addressRegion || undefined;
+
+      const rating = parseFloat(business.aggregateRating?.ratingValue);
+      const reviews = parseInt(business.aggregateRating?.reviewCount, 10);
+      if (!isNaN(rating)) details.rating = rating;
+      if (!isNaN(reviews)) details.reviews_count = reviews;
+    } catch {
+      // Not JSON we understand
+    }
+  });
+
+  $('a[href*="/biz_redir?"]').each((_, element) => {
+    if (details.company_website) return;
+    try {
+      const target = new URL($(element).attr("href") || "", YELP_BASE_URL).searchParams.get("url");
+      if (target && /^https?:\/\//.test(target)) details.company_website = target;
+    } catch {
+      // Malformed redirect link
+    }
+  });
+
+  return details;
+}
+
+// Yelp business search. Uses SerpAPI's Yelp engine when SERPAPI_API_KEY is
+// set, otherwise fetches and parses Yelp's own search pages
+export class YelpScraper extends BaseScraper {
+  private apiKey: string;
+  private options: YelpScraperOptions;
+
+  constructor(options: YelpScraperOptions = {}) {
+    super("Yelp", { perMinute: 10, perHour: 300 });
+    this.apiKey = process.env.SERPAPI_API_KEY || "";
+    this.options = options;
+  }
+
+  async *scrape(config: ScraperConfig): AsyncGenerator<ScraperResult> {
+    const { query, location, maxResults = 100 } = config;
+    const seen = new Set(config.seenIds || []);
+    const visitDetailPages = this.options.visitDetailPages !== false;
+
+    let start = 0;
+    let totalResults = 0;
+
+    while (totalResults < maxResults) {
+      await this.respectRateLimit();
+
+      const listings = this.apiKey
+        ? await this.searchSerpAPI(query, location, start)
+        : await this.searchHtml(query, location, start);
+
+      if (listings.length === 0) {
+        break; // No more results
+      }
+
+      for (const listing of listings) {
+        if (totalResults >= maxResults) break;
+        if (seen.has(yelpListingId(listing.alias))) continue;
+        seen.add(yelpListingId(listing.alias));
+
+        let details: YelpBusinessDetails | null = null;
+        if (visitDetailPages) {
+          await this.respectRateLimit();
+          details = await this.fetchDetails(listing.url);
+        }
+
+        yield this.toResult(listing, details);
+        totalResults++;
+      }
+
+      if (listings.length < RESULTS_PER_PAGE) {
+        break; // Less than full page means no more results
+      }
+
+      start += RESULTS_PER_PAGE;
+    }
+  }
+
+  private async searchSerpAPI(
+    query: string,
+    location: string | undefined,
+    start: number
+  ): Promise<YelpListing[]> {
+    const params = new URLSearchParams({
+      engine: "yelp",
+      find_desc: query,
+      find_loc: location || "United States",
+      start: start.toString(),
+      api_key: this.apiKey,
+    });
+
+    const response = await this.withRetry(async () => {
+      const res = await fetch(`https://serpapi.com/search?${params}`);
+      if (!res.ok) {
+        throw new Error(`SerpAPI error: ${res.status}`);
+      }
+      return res.json() as Promise<SerpAPIYelpResponse>;
+    });
+
+    if (response.error) {
+      // SerpAPI reports an empty page as an error
+      if (/hasn't returned any results/i.test(response.error)) return [];
+      throw new Error(`SerpAPI error: ${response.error}`);
+    }
+
+    return (response.organic_results || []).flatMap((result) => {
+      const alias = result.place_ids?.[1] || aliasFromHref(result.link || "");
+      if (!result.title || !alias) return [];
+
+      return [
+        {
+          company_name: result.title,
+          alias,
+          url: `${YELP_BASE_URL}/biz/${alias}`,
+          categories: (result.categories || []).map((category) => category.title),
+          rating: result.rating,
+          reviews_count: result.reviews,
+          price: result.price,
+          neighborhood: result.neighborhoods,
+          phone: result.phone,
+        },
+      ];
+    });
+  }
+
+  private async searchHtml(
+    query: string,
+    location: string | undefined,
+    start: number
+  ): Promise<YelpListing[]> {
+    const params = new URLSearchParams({ find_desc: query, start: start.toString() });
+    if (location) params.set("find_loc", location);
+
+    const html = await this.withRetry(() => this.fetchHtml(`${YELP_BASE_URL}/search?${params}`));
+    return parseYelpSearchHtml(html);
+  }
+
+  private async fetchDetails(url: string): Promise<YelpBusinessDetails | null> {
+    try {
+      return parseYelpBusinessHtml(await this.fetchHtml(url));
+    } catch (error) {
+      console.log(`${this.name}: Failed to fetch ${url}:`, (error as Error).message);
+      return null;
+    }
+  }
+
+  private async fetchHtml(url: string): Promise<string> {
+    const userAgents = this.options.userAgents?.length
+      ? this.options.userAgents
+      : DEFAULT_USER_AGENTS;
+
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(PAGE_TIMEOUT_MS),
+      headers: {
+        "User-Agent": userAgents[Math.floor(Math.random() * userAgents.length)],
+        Accept: "text/html,application/xhtml+xml",
+        "Accept-Language": "en-US,en;q=0.9",
+      },
+    });
+
+    if (response.status === 403 || response.status === 429) {
+      throw new Error(`Yelp blocked the request (${response.status})`);
+    }
+    if (!response.ok) {
+      throw new Error(`Yelp error: ${response.status}`);
+    }
+
+    return response.text();
+  }
+
+  private toResult(listing: YelpListing, details: YelpBusinessDetails | null): ScraperResult {
+    const rating = details?.rating ?? listing.rating;
+    const reviewsCount = details?.reviews_count ?? listing.reviews_count;
+    const category = listing.categories[0];
+
+    return {
+      company_name: listing.company_name,
+      phone: details?.phone || listing.phone,
+      company_website: details?.company_website,
+      address: details?.address,
+      city: details?.city,
+      state: details?.state,
+      country: "USA",
+      industry: category,
+      category,
+      rating,
+      reviews_count: reviewsCount,
+      place_id: yelpListingId(listing.alias),
+      source_url: listing.url,
+      raw_data: {
+        yelp_alias: listing.alias,
+        category,
+        categories: listing.categories,
+        rating,
+        reviews_count: reviewsCount,
+        price: listing.price,
+        neighborhood: listing.neighborhood,
+        detail_page: details !== null,
+      },
+    };
+  }
+}
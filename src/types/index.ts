@@ -13,6 +13,7 @@ export type LeadSource =
   | 'google_maps'
   | 'yellowpages'
   | 'yelp'
+  | 'apollo'
   | 'manual'
   | 'import';
 
@@ -23,6 +24,58 @@ export type EmailVerificationStatus =
   | 'risky'
   | 'unknown';
 
+export type EmailVerificationReason =
+  | 'accepted'
+  | 'invalid_syntax'
+  | 'disposable_domain'
+  | 'role_account'
+  | 'no_mx_record'
+  | 'invalid_domain'
+  | 'dns_unavailable'
+  | 'mailbox_not_found'
+  | 'catch_all'
+  | 'greylisted'
+  | 'smtp_unavailable'
+  | 'smtp_error';
+
+export interface EmailVerificationResult {
+  status: Exclude<EmailVerificationStatus, 'pending'>;
+  reasons: EmailVerificationReason[];
+  mx_host: string | null;
+  is_catch_all: boolean | null;
+  is_disposable: boolean;
+  is_role_account: boolean;
+  smtp_code: number | null;
+  smtp_message: string | null;
+  provider: string;
+  checked_at: string;
+}
+
+export type EmailPattern =
+  | 'first.last'
+  | 'flast'
+  | 'first'
+  | 'firstlast'
+  | 'f.last'
+  | 'first_last'
+  | 'firstl'
+  | 'last.first'
+  | 'last';
+
+// Apollo's seniority levels; LinkedIn contacts get one inferred from their title
+export type LeadSeniority =
+  | 'owner'
+  | 'founder'
+  | 'c_suite'
+  | 'partner'
+  | 'vp'
+  | 'head'
+  | 'director'
+  | 'manager'
+  | 'senior'
+  | 'entry'
+  | 'intern';
+
 export interface Lead {
   id: string;
   email: string;
@@ -30,9 +83,12 @@ export interface Lead {
   last_name: string | null;
   phone: string | null;
   linkedin_url: string | null;
+  job_title: string | null;
+  seniority: LeadSeniority | null;
   company_name: string | null;
   company_website: string | null;
   company_linkedin: string | null;
+  company_id: string | null;
   industry: string | null;
   company_size: string | null;
   estimated_revenue: string | null;
@@ -42,13 +98,20 @@ export interface Lead {
   address: string | null;
   status: LeadStatus;
   quality_score: number | null;
+  score_breakdown: LeadScoreItem[] | null;
+  scored_at: string | null;
   email_verified: boolean;
   email_verification_status: EmailVerificationStatus | null;
   email_verified_at: string | null;
   email_verification_provider: string | null;
+  email_verification_result: EmailVerificationResult | null;
+  email_catch_all: boolean | null;
+  email_confidence: number | null;
+  email_pattern: EmailPattern | null;
   source: LeadSource;
   source_url: string | null;
   scraper_job_id: string | null;
+  import_id: string | null;
   enrichment_data: Record<string, unknown>;
   custom_fields: Record<string, unknown>;
   notes: string | null;
@@ -57,6 +120,30 @@ export interface Lead {
   updated_at: string;
 }
 
+// Company Types
+export interface Company {
+  id: string;
+  name: string;
+  website: string | null;
+  domain: string | null;
+  phone: string | null;
+  address: string | null;
+  city: string | null;
+  state: string | null;
+  country: string;
+  rating: number | null;
+  reviews_count: number | null;
+  category: string | null;
+  source: string;
+  source_url: string | null;
+  place_id: string | null;
+  scraper_job_id: string | null;
+  enrichment_data: Record<string, unknown>;
+  raw_data: Record<string, unknown>;
+  created_at: string;
+  updated_at: string;
+}
+
 // Campaign Types
 export type CampaignStatus =
   | 'draft'
@@ -66,6 +153,8 @@ export type CampaignStatus =
   | 'completed'
   | 'cancelled';
 
+export type SendTimezoneMode = 'campaign' | 'recipient';
+
 export interface Campaign {
   id: string;
   name: string;
@@ -82,8 +171,11 @@ export interface Campaign {
   send_window_start: string;
   send_window_end: string;
   send_days: number[];
+  timezone: string | null;
+  timezone_mode: SendTimezoneMode;
   delay_between_sends: number;
   target_filters: Record<string, unknown>;
+  segment_id: string | null;
   total_leads: number;
   sent_count: number;
   delivered_count: number;
@@ -92,11 +184,33 @@ export interface Campaign {
   replied_count: number;
   bounced_count: number;
   unsubscribed_count: number;
+  is_ab_test: boolean;
+  ab_variants: AbTestConfig | null;
   created_at: string;
   updated_at: string;
   created_by: string | null;
 }
 
+// A/B Test Types
+export type AbWinnerMetric = 'open' | 'click' | 'reply';
+
+export interface AbVariant {
+  id: string;
+  subject: string;
+  body_html: string | null;
+}
+
+export interface AbTestConfig {
+  variants: AbVariant[];
+  test_percentage: number;
+  sample_size: number;
+  wait_hours: number;
+  winner_metric: AbWinnerMetric;
+  winner_variant: string | null;
+  winner_selected_at: string | null;
+  winner_confidence: number | null;
+}
+
 // Campaign Lead Types
 export type CampaignLeadStatus =
   | 'pending'
@@ -129,11 +243,35 @@ export interface CampaignLead {
   resend_email_id: string | null;
   personalized_subject: string | null;
   personalized_body: string | null;
+  message_id: string | null;
+  variant: string | null;
+  sender_account_id: string | null;
+  current_step: number;
+  next_send_at: string | null;
   created_at: string;
   updated_at: string;
   lead?: Lead;
 }
 
+// Campaign Sequence Types
+export type StepCondition =
+  | 'always'
+  | 'no_reply'
+  | 'no_open'
+  | 'no_click';
+
+export interface CampaignStep {
+  id: string;
+  campaign_id: string;
+  step_number: number;
+  template_id: string;
+  wait_days: number;
+  condition: StepCondition;
+  created_at: string;
+  updated_at: string;
+  template?: EmailTemplate;
+}
+
 // Email Template Types
 export type TemplateType = 'campaign' | 'follow_up' | 'warm_up';
 
@@ -158,8 +296,11 @@ export type ScraperType =
   | 'linkedin_search'
   | 'linkedin_company'
   | 'google_maps'
+  | 'google_search'
   | 'yellowpages'
-  | 'yelp';
+  | 'yelp'
+  | 'apollo'
+  | 'linkedin_sales_nav';
 
 export type ScraperJobStatus =
   | 'pending'
@@ -168,6 +309,24 @@ export type ScraperJobStatus =
   | 'failed'
   | 'cancelled';
 
+// Progress a re-delivered or retried scraper job resumes from
+export interface ScraperCheckpoint {
+  // Listing ids (Google Maps place ids) already processed
+  seen_ids?: string[];
+  // Results without a listing id already processed
+  offset?: number;
+}
+
+// One failed result, or the error that stopped the job
+export interface ScraperErrorEntry {
+  message: string;
+  timestamp: string;
+  // Business or person the result was for
+  listing?: string;
+  source_url?: string;
+  fatal?: boolean;
+}
+
 export interface ScraperJob {
   id: string;
   scraper_type: ScraperType;
@@ -179,16 +338,198 @@ export interface ScraperJob {
   leads_created: number;
   leads_updated: number;
   errors_count: number;
+  // Results without an email handed to website enrichment or the email
+  // finder, and leads they produced
+  enrichment_queued: number;
+  leads_enriched: number;
+  // Businesses upserted into companies, with or without an email
+  companies_found: number;
   started_at: string | null;
   completed_at: string | null;
   last_error: string | null;
-  error_log: Array<{ message: string; timestamp: string }>;
+  error_log: ScraperErrorEntry[];
   requests_made: number;
+  checkpoint: ScraperCheckpoint;
+  // Set for runs started by a recurring schedule
+  schedule_id: string | null;
+  created_at: string;
+  updated_at: string;
+  created_by: string | null;
+}
+
+// A scraper configuration run on a cron; each run is a ScraperJob
+export interface ScraperSchedule {
+  id: string;
+  name: string;
+  scraper_type: ScraperType;
+  search_query: string;
+  location: string | null;
+  max_results: number;
+  search_parameters: Record<string, unknown>;
+  cron: string;
+  is_active: boolean;
+  qstash_schedule_id: string | null;
+  // New leads from each run are tagged into the segment and enrolled in
+  // the campaign
+  segment_id: string | null;
+  campaign_id: string | null;
+  leads_added_at: string;
+  last_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+  created_by: string | null;
+}
+
+// Verification Batch Types
+export type VerificationBatchStatus =
+  | 'pending'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export type VerificationBatchItemStatus =
+  | 'pending'
+  | 'processing'
+  | 'valid'
+  | 'invalid'
+  | 'risky'
+  | 'failed';
+
+export interface VerificationBatch {
+  id: string;
+  status: VerificationBatchStatus;
+  total_count: number;
+  processed_count: number;
+  valid_count: number;
+  invalid_count: number;
+  risky_count: number;
+  failed_count: number;
+  started_at: string | null;
+  completed_at: string | null;
+  cancelled_at: string | null;
+  last_error: string | null;
   created_at: string;
   updated_at: string;
   created_by: string | null;
 }
 
+// Lead Duplicate Types
+export type LeadDuplicateReason = 'email' | 'website_name' | 'phone';
+
+export type LeadDuplicateStatus = 'pending' | 'dismissed';
+
+// Two leads that look like the same person, waiting for review
+export interface LeadDuplicate {
+  id: string;
+  lead_id: string;
+  duplicate_lead_id: string;
+  reasons: LeadDuplicateReason[];
+  status: LeadDuplicateStatus;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+// Lead Scoring Types
+export type ScoringRuleType =
+  | 'verified_email'
+  | 'has_website'
+  | 'has_phone'
+  | 'has_linkedin'
+  | 'industry'
+  | 'company_size'
+  | 'opened'
+  | 'clicked'
+  | 'replied'
+  | 'role_address'
+  | 'catch_all'
+  | 'bounced';
+
+export interface ScoringRule {
+  type: ScoringRuleType;
+  enabled: boolean;
+  // Negative points are a penalty
+  points: number;
+  // Industries or company sizes that match, for the rules that take a list
+  values?: string[];
+}
+
+// One matched rule in a lead's score
+export interface LeadScoreItem {
+  rule: ScoringRuleType;
+  points: number;
+}
+
+// Segment Types
+export type SegmentEngagementEvent = 'sent' | 'opened' | 'clicked' | 'replied';
+
+export interface SegmentEngagementRule {
+  event: SegmentEngagementEvent;
+  // 'did_not' matches leads with no such event in the window
+  match: 'did' | 'did_not';
+  days: number;
+}
+
+// Empty lists and missing values don't filter
+export interface SegmentFilters {
+  statuses?: LeadStatus[];
+  sources?: LeadSource[];
+  industries?: string[];
+  cities?: string[];
+  states?: string[];
+  tags?: string[];
+  tags_match?: 'any' | 'all';
+  min_quality_score?: number | null;
+  max_quality_score?: number | null;
+  verification_statuses?: (EmailVerificationStatus | 'unverified')[];
+  engagement?: SegmentEngagementRule[];
+}
+
+export interface Segment {
+  id: string;
+  name: string;
+  description: string | null;
+  filters: SegmentFilters;
+  created_at: string;
+  updated_at: string;
+  created_by: string | null;
+}
+
+// Lead Import Types
+export type LeadImportStatus = 'processing' | 'completed' | 'failed';
+
+export type LeadImportDedupeStrategy = 'skip' | 'update' | 'merge';
+
+export interface LeadImport {
+  id: string;
+  file_name: string;
+  file_type: 'csv' | 'xlsx';
+  status: LeadImportStatus;
+  dedupe_strategy: LeadImportDedupeStrategy;
+  column_mapping: Record<string, string>;
+  tags: string[];
+  headers: string[];
+  total_rows: number;
+  created_count: number;
+  updated_count: number;
+  skipped_count: number;
+  rejected_count: number;
+  last_error: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  created_by: string | null;
+}
+
+export interface LeadImportRejection {
+  id: string;
+  import_id: string;
+  row_number: number;
+  row_values: string[];
+  errors: string[];
+  created_at: string;
+}
+
 // Email Event Types
 export type EmailEventType =
   | 'sent'
@@ -197,7 +538,9 @@ export type EmailEventType =
   | 'clicked'
   | 'bounced'
   | 'complained'
-  | 'unsubscribed';
+  | 'unsubscribed'
+  | 'replied'
+  | 'auto_replied';
 
 export interface EmailEvent {
   id: string;
@@ -208,6 +551,8 @@ export interface EmailEvent {
   clicked_url: string | null;
   ip_address: string | null;
   user_agent: string | null;
+  step_number: number | null;
+  variant: string | null;
   created_at: string;
 }
 
@@ -225,6 +570,20 @@ export interface Unsubscribe {
 
 // Domain Warmup Types
 export type WarmupStatus = 'active' | 'paused' | 'completed';
+export type WarmupRampProfile = 'conservative' | 'standard' | 'aggressive' | 'custom';
+
+export interface WarmupRampStep {
+  day: number;
+  limit: number;
+}
+
+export interface WarmupRampConfig {
+  schedule: WarmupRampStep[];
+  min_deliverability_rate: number;
+  max_bounce_rate: number;
+  min_emails_for_health_check: number;
+  ramp_back_percentage: number;
+}
 
 export interface DomainWarmup {
   id: string;
@@ -239,6 +598,57 @@ export interface DomainWarmup {
   deliverability_rate: number | null;
   is_healthy: boolean;
   status: WarmupStatus;
+  ramp_profile: WarmupRampProfile;
+  ramp_config: WarmupRampConfig | null;
+  checkpoint_sent: number;
+  checkpoint_delivered: number;
+  checkpoint_bounced: number;
+  ramp_back_count: number;
+  last_ramped_back_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Sender Account Types
+export interface SenderAccount {
+  id: string;
+  email: string;
+  from_name: string;
+  domain: string;
+  daily_limit: number;
+  warmup_id: string | null;
+  is_active: boolean;
+  total_sent: number;
+  last_used_at: string | null;
+  warmup_enabled: boolean;
+  warmup_daily_target: number;
+  warmup_reply_rate: number;
+  mailbox_provider: string | null;
+  created_at: string;
+  updated_at: string;
+  warmup?: DomainWarmup | null;
+}
+
+// Warmup Network Types
+export type WarmupEmailStatus = 'sent' | 'opened' | 'replied' | 'failed';
+
+export interface WarmupEmail {
+  id: string;
+  token: string;
+  sender_account_id: string;
+  recipient_account_id: string;
+  template_id: string | null;
+  parent_id: string | null;
+  subject: string;
+  message_id: string | null;
+  resend_email_id: string | null;
+  status: WarmupEmailStatus;
+  landed_in: 'inbox' | 'spam' | null;
+  error_message: string | null;
+  sent_at: string;
+  opened_at: string | null;
+  replied_at: string | null;
+  rescued_at: string | null;
   created_at: string;
   updated_at: string;
 }
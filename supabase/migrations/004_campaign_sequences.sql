@@ -0,0 +1,69 @@
+-- ============================================
+-- CAMPAIGN STEPS (Multi-step sequences)
+-- ============================================
+CREATE TABLE campaign_steps (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    campaign_id UUID REFERENCES campaigns(id) ON DELETE CASCADE NOT NULL,
+    step_number INTEGER NOT NULL CHECK (step_number >= 1),
+    template_id UUID REFERENCES email_templates(id) NOT NULL,
+    wait_days INTEGER DEFAULT 0 CHECK (wait_days >= 0),
+    condition VARCHAR(50) DEFAULT 'always',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT unique_campaign_step UNIQUE(campaign_id, step_number)
+);
+
+CREATE INDEX idx_campaign_steps_campaign ON campaign_steps(campaign_id);
+
+CREATE TRIGGER campaign_steps_updated_at BEFORE UPDATE ON campaign_steps
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Track sequence progress per campaign lead
+ALTER TABLE campaign_leads
+ADD COLUMN IF NOT EXISTS current_step INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS next_send_at TIMESTAMPTZ;
+
+CREATE INDEX idx_campaign_leads_next_send ON campaign_leads(next_send_at)
+    WHERE next_send_at IS NOT NULL;
+
+-- Record which step an event belongs to
+ALTER TABLE email_events
+ADD COLUMN IF NOT EXISTS step_number INTEGER;
+
+-- Backfill: every existing campaign gets its template as step 1
+INSERT INTO campaign_steps (campaign_id, step_number, template_id, wait_days, condition)
+SELECT id, 1, template_id, 0, 'always'
+FROM campaigns
+WHERE template_id IS NOT NULL
+ON CONFLICT (campaign_id, step_number) DO NOTHING;
+
+-- Leads that already received the single email have completed step 1
+UPDATE campaign_leads
+SET current_step = 1
+WHERE sent_at IS NOT NULL;
+
+-- ============================================
+-- CAMPAIGN STEPS POLICIES
+-- ============================================
+ALTER TABLE campaign_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view all campaign_steps"
+    ON campaign_steps FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can insert campaign_steps"
+    ON campaign_steps FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update campaign_steps"
+    ON campaign_steps FOR UPDATE
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can delete campaign_steps"
+    ON campaign_steps FOR DELETE
+    TO authenticated
+    USING (true);
@@ -0,0 +1,13 @@
+-- ============================================
+-- INBOUND REPLY DETECTION
+-- ============================================
+
+-- Message-ID of the most recent email sent to each campaign lead, used to
+-- match inbound replies via In-Reply-To / References headers
+ALTER TABLE campaign_leads
+ADD COLUMN IF NOT EXISTS message_id VARCHAR(255);
+
+CREATE INDEX idx_campaign_leads_message_id ON campaign_leads(message_id)
+    WHERE message_id IS NOT NULL;
+
+-- Inbound messages are recorded in email_events as 'replied' or 'auto_replied'
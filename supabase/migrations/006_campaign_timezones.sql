@@ -0,0 +1,10 @@
+-- ============================================
+-- TIMEZONE-AWARE SEND WINDOWS
+-- ============================================
+
+-- Timezone the send window is evaluated in (NULL = schedule.timezone setting).
+-- 'recipient' mode evaluates the window in each lead's local timezone instead.
+ALTER TABLE campaigns
+ADD COLUMN IF NOT EXISTS timezone VARCHAR(100),
+ADD COLUMN IF NOT EXISTS timezone_mode VARCHAR(20) DEFAULT 'campaign'
+    CHECK (timezone_mode IN ('campaign', 'recipient'));
@@ -0,0 +1,15 @@
+-- ============================================
+-- A/B TESTING
+-- ============================================
+-- Variants and winner state live in campaigns.ab_variants (JSONB).
+-- Each campaign lead records the variant it received so opens, clicks and
+-- replies can be attributed per variant.
+
+ALTER TABLE campaign_leads
+ADD COLUMN IF NOT EXISTS variant VARCHAR(10);
+
+CREATE INDEX idx_campaign_leads_variant ON campaign_leads(campaign_id, variant)
+    WHERE variant IS NOT NULL;
+
+ALTER TABLE email_events
+ADD COLUMN IF NOT EXISTS variant VARCHAR(10);
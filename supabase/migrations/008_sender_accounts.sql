@@ -0,0 +1,97 @@
+-- ============================================
+-- SENDER ACCOUNTS (Sending mailboxes)
+-- ============================================
+CREATE TABLE sender_accounts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    email VARCHAR(255) NOT NULL UNIQUE,
+    from_name VARCHAR(255) NOT NULL,
+    domain VARCHAR(255) NOT NULL,
+    daily_limit INTEGER DEFAULT 50 CHECK (daily_limit > 0),
+    warmup_id UUID REFERENCES domain_warmup(id) ON DELETE SET NULL,
+    is_active BOOLEAN DEFAULT TRUE,
+    total_sent INTEGER DEFAULT 0,
+    last_used_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_sender_accounts_domain ON sender_accounts(domain);
+
+CREATE TRIGGER sender_accounts_updated_at BEFORE UPDATE ON sender_accounts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================
+-- CAMPAIGN SENDERS (Mailboxes a campaign rotates across)
+-- ============================================
+CREATE TABLE campaign_senders (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    campaign_id UUID REFERENCES campaigns(id) ON DELETE CASCADE NOT NULL,
+    sender_account_id UUID REFERENCES sender_accounts(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT unique_campaign_sender UNIQUE(campaign_id, sender_account_id)
+);
+
+CREATE INDEX idx_campaign_senders_campaign ON campaign_senders(campaign_id);
+
+-- Mailbox that sent to each campaign lead (follow-ups reuse it)
+ALTER TABLE campaign_leads
+ADD COLUMN IF NOT EXISTS sender_account_id UUID REFERENCES sender_accounts(id) ON DELETE SET NULL;
+
+-- ============================================
+-- RPC FUNCTIONS
+-- ============================================
+
+-- Record a send from a mailbox
+CREATE OR REPLACE FUNCTION increment_sender_sent(
+    p_sender_account_id UUID
+)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE sender_accounts
+    SET total_sent = total_sent + 1,
+        last_used_at = NOW()
+    WHERE id = p_sender_account_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- SENDER ACCOUNTS POLICIES
+-- ============================================
+ALTER TABLE sender_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE campaign_senders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view all sender_accounts"
+    ON sender_accounts FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can insert sender_accounts"
+    ON sender_accounts FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update sender_accounts"
+    ON sender_accounts FOR UPDATE
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can delete sender_accounts"
+    ON sender_accounts FOR DELETE
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can view all campaign_senders"
+    ON campaign_senders FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can insert campaign_senders"
+    ON campaign_senders FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can delete campaign_senders"
+    ON campaign_senders FOR DELETE
+    TO authenticated
+    USING (true);
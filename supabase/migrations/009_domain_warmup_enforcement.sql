@@ -0,0 +1,29 @@
+-- ============================================
+-- DOMAIN WARMUP ENFORCEMENT
+-- ============================================
+
+-- One warmup per sending domain
+CREATE UNIQUE INDEX IF NOT EXISTS idx_domain_warmup_domain ON domain_warmup(LOWER(domain));
+
+-- ============================================
+-- RPC FUNCTIONS
+-- ============================================
+
+-- Increment warmup stat (total_sent, total_delivered, total_bounced) for a sending domain
+CREATE OR REPLACE FUNCTION increment_warmup_stat(
+    p_domain TEXT,
+    p_stat_field TEXT
+)
+RETURNS VOID AS $$
+BEGIN
+    EXECUTE format(
+        'UPDATE domain_warmup SET %I = %I + 1 WHERE LOWER(domain) = LOWER($1)',
+        p_stat_field, p_stat_field
+    ) USING p_domain;
+
+    UPDATE domain_warmup
+    SET deliverability_rate = ROUND(total_delivered::DECIMAL / total_sent * 100, 2)
+    WHERE LOWER(domain) = LOWER(p_domain)
+      AND total_sent > 0;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,18 @@
+-- ============================================
+-- WARMUP RAMP PROFILES
+-- ============================================
+ALTER TABLE domain_warmup
+ADD COLUMN IF NOT EXISTS ramp_profile VARCHAR(20) DEFAULT 'standard'
+    CHECK (ramp_profile IN ('conservative', 'standard', 'aggressive', 'custom')),
+ADD COLUMN IF NOT EXISTS ramp_config JSONB,
+-- Totals at the last health check; health is judged on sends since then
+ADD COLUMN IF NOT EXISTS checkpoint_sent INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS checkpoint_delivered INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS checkpoint_bounced INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS ramp_back_count INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_ramped_back_at TIMESTAMPTZ;
+
+-- Domains paused by the old health check ramp back instead
+UPDATE domain_warmup
+SET status = 'active'
+WHERE status = 'paused' AND is_healthy = FALSE;
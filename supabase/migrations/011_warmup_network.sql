@@ -0,0 +1,62 @@
+-- ============================================
+-- WARMUP NETWORK (Peer-to-peer warmup between our mailboxes)
+-- ============================================
+ALTER TABLE sender_accounts
+ADD COLUMN IF NOT EXISTS warmup_enabled BOOLEAN DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS warmup_daily_target INTEGER DEFAULT 5 CHECK (warmup_daily_target > 0),
+ADD COLUMN IF NOT EXISTS warmup_reply_rate INTEGER DEFAULT 30 CHECK (warmup_reply_rate BETWEEN 0 AND 100),
+ADD COLUMN IF NOT EXISTS mailbox_provider VARCHAR(50);
+
+-- Mailbox credentials have no policies, so only the service role can read or write them
+CREATE TABLE sender_mailbox_credentials (
+    sender_account_id UUID PRIMARY KEY REFERENCES sender_accounts(id) ON DELETE CASCADE,
+    host VARCHAR(255) NOT NULL,
+    port INTEGER DEFAULT 993,
+    secure BOOLEAN DEFAULT TRUE,
+    username VARCHAR(255) NOT NULL,
+    password TEXT NOT NULL,
+    spam_folder VARCHAR(255) DEFAULT 'Spam',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TRIGGER sender_mailbox_credentials_updated_at BEFORE UPDATE ON sender_mailbox_credentials
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE TABLE warmup_emails (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    token VARCHAR(64) NOT NULL UNIQUE,
+    sender_account_id UUID REFERENCES sender_accounts(id) ON DELETE CASCADE NOT NULL,
+    recipient_account_id UUID REFERENCES sender_accounts(id) ON DELETE CASCADE NOT NULL,
+    template_id UUID REFERENCES email_templates(id) ON DELETE SET NULL,
+    parent_id UUID REFERENCES warmup_emails(id) ON DELETE CASCADE,
+    subject VARCHAR(500) NOT NULL,
+    message_id VARCHAR(255),
+    resend_email_id VARCHAR(255),
+    status VARCHAR(50) DEFAULT 'sent' CHECK (status IN ('sent', 'opened', 'replied', 'failed')),
+    landed_in VARCHAR(20) CHECK (landed_in IN ('inbox', 'spam')),
+    error_message TEXT,
+    sent_at TIMESTAMPTZ DEFAULT NOW(),
+    opened_at TIMESTAMPTZ,
+    replied_at TIMESTAMPTZ,
+    rescued_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_warmup_emails_sender ON warmup_emails(sender_account_id, sent_at);
+CREATE INDEX idx_warmup_emails_recipient ON warmup_emails(recipient_account_id, status);
+
+CREATE TRIGGER warmup_emails_updated_at BEFORE UPDATE ON warmup_emails
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================
+-- WARMUP NETWORK POLICIES
+-- ============================================
+ALTER TABLE sender_mailbox_credentials ENABLE ROW LEVEL SECURITY;
+ALTER TABLE warmup_emails ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view all warmup_emails"
+    ON warmup_emails FOR SELECT
+    TO authenticated
+    USING (true);
@@ -0,0 +1,15 @@
+-- ============================================
+-- STRUCTURED EMAIL VERIFICATION RESULTS
+-- ============================================
+
+-- Full verifier output (reason codes, MX host, catch-all/disposable/role
+-- flags, SMTP response) alongside the summary email_verification_status
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS email_verification_result JSONB;
+
+-- Catch-all domains accept every address, so these leads stay risky
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS email_catch_all BOOLEAN;
+
+CREATE INDEX idx_leads_email_catch_all ON leads(email_catch_all)
+    WHERE email_catch_all = TRUE;
@@ -0,0 +1,82 @@
+-- ============================================
+-- VERIFICATION RESULT CACHE
+-- ============================================
+
+-- Address results (scope 'address', key = email) and domain-level facts
+-- (scope 'domain', key = domain: invalid domain, catch-all, MX host) so
+-- re-verifying doesn't spend provider credits
+CREATE TABLE email_verification_cache (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    scope VARCHAR(20) NOT NULL CHECK (scope IN ('address', 'domain')),
+    key VARCHAR(255) NOT NULL,
+    result JSONB NOT NULL,
+    provider VARCHAR(50) NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(scope, key)
+);
+
+CREATE INDEX idx_email_verification_cache_expires ON email_verification_cache(expires_at);
+
+CREATE TRIGGER email_verification_cache_updated_at BEFORE UPDATE ON email_verification_cache
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================
+-- VERIFICATION CREDIT USAGE
+-- ============================================
+
+-- Credits spent per provider per calendar month (month = first day, UTC)
+CREATE TABLE verification_credit_usage (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    provider VARCHAR(50) NOT NULL,
+    month DATE NOT NULL,
+    credits_used INTEGER DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(provider, month)
+);
+
+CREATE TRIGGER verification_credit_usage_updated_at BEFORE UPDATE ON verification_credit_usage
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE OR REPLACE FUNCTION increment_verification_credits(
+    p_provider TEXT,
+    p_credits INTEGER
+)
+RETURNS VOID AS $$
+BEGIN
+    INSERT INTO verification_credit_usage (provider, month, credits_used)
+    VALUES (p_provider, date_trunc('month', NOW() AT TIME ZONE 'UTC')::DATE, p_credits)
+    ON CONFLICT (provider, month)
+    DO UPDATE SET credits_used = verification_credit_usage.credits_used + p_credits;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Default provider chain: free SMTP probe first, then paid providers
+INSERT INTO settings (key, value, description) VALUES
+    ('verification.providers', '["smtp", "hunter", "zerobounce"]', 'Email verification providers, tried in order'),
+    ('verification.cache_days', '30', 'Days a verification result is reused before re-checking'),
+    ('verification.monthly_budgets', '{}', 'Monthly credit budget per paid verification provider')
+ON CONFLICT (key) DO NOTHING;
+
+-- ============================================
+-- VERIFICATION POLICIES
+-- ============================================
+ALTER TABLE email_verification_cache ENABLE ROW LEVEL SECURITY;
+ALTER TABLE verification_credit_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view all email_verification_cache"
+    ON email_verification_cache FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can delete email_verification_cache"
+    ON email_verification_cache FOR DELETE
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can view all verification_credit_usage"
+    ON verification_credit_usage FOR SELECT
+    TO authenticated
+    USING (true);
@@ -0,0 +1,98 @@
+-- ============================================
+-- VERIFICATION BATCHES
+-- ============================================
+
+-- One bulk verification run, processed in chunks by /api/jobs/verification-batch
+CREATE TABLE verification_batches (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    status VARCHAR(50) DEFAULT 'pending'
+        CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
+    total_count INTEGER DEFAULT 0,
+    processed_count INTEGER DEFAULT 0,
+    valid_count INTEGER DEFAULT 0,
+    invalid_count INTEGER DEFAULT 0,
+    risky_count INTEGER DEFAULT 0,
+    failed_count INTEGER DEFAULT 0,
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ,
+    cancelled_at TIMESTAMPTZ,
+    last_error TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    created_by UUID
+);
+
+CREATE INDEX idx_verification_batches_status ON verification_batches(status);
+
+CREATE TRIGGER verification_batches_updated_at BEFORE UPDATE ON verification_batches
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Leads in a batch; pending items are what's left to do when a batch resumes
+CREATE TABLE verification_batch_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    batch_id UUID REFERENCES verification_batches(id) ON DELETE CASCADE NOT NULL,
+    lead_id UUID REFERENCES leads(id) ON DELETE CASCADE NOT NULL,
+    status VARCHAR(50) DEFAULT 'pending'
+        CHECK (status IN ('pending', 'processing', 'valid', 'invalid', 'risky', 'failed')),
+    error_message TEXT,
+    processed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(batch_id, lead_id)
+);
+
+CREATE INDEX idx_verification_batch_items_status ON verification_batch_items(batch_id, status);
+
+CREATE OR REPLACE FUNCTION increment_verification_batch(
+    p_batch_id UUID,
+    p_valid INTEGER,
+    p_invalid INTEGER,
+    p_risky INTEGER,
+    p_failed INTEGER
+)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE verification_batches
+    SET processed_count = processed_count + p_valid + p_invalid + p_risky + p_failed,
+        valid_count = valid_count + p_valid,
+        invalid_count = invalid_count + p_invalid,
+        risky_count = risky_count + p_risky,
+        failed_count = failed_count + p_failed
+    WHERE id = p_batch_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Set email_verification_status ('pending', or NULL to release) on the leads
+-- a batch has not processed yet
+CREATE OR REPLACE FUNCTION mark_verification_batch_leads(
+    p_batch_id UUID,
+    p_status TEXT
+)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE leads
+    SET email_verification_status = p_status
+    WHERE id IN (
+        SELECT lead_id FROM verification_batch_items
+        WHERE batch_id = p_batch_id
+          AND status IN ('pending', 'processing')
+    )
+    -- Releasing only touches leads that are still waiting
+    AND (p_status IS NOT NULL OR email_verification_status = 'pending');
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- VERIFICATION BATCH POLICIES
+-- ============================================
+ALTER TABLE verification_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE verification_batch_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view all verification_batches"
+    ON verification_batches FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can view all verification_batch_items"
+    ON verification_batch_items FOR SELECT
+    TO authenticated
+    USING (true);
@@ -0,0 +1,83 @@
+-- ============================================
+-- LEAD IMPORTS
+-- ============================================
+
+-- One CSV/XLSX upload processed by /api/leads/import
+CREATE TABLE lead_imports (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    file_name VARCHAR(255) NOT NULL,
+    file_type VARCHAR(10) NOT NULL CHECK (file_type IN ('csv', 'xlsx')),
+    status VARCHAR(50) DEFAULT 'processing'
+        CHECK (status IN ('processing', 'completed', 'failed')),
+    dedupe_strategy VARCHAR(20) DEFAULT 'skip'
+        CHECK (dedupe_strategy IN ('skip', 'update', 'merge')),
+    -- File column -> lead field, or "custom:<name>" for custom_fields
+    column_mapping JSONB DEFAULT '{}',
+    tags TEXT[] DEFAULT '{}',
+    headers TEXT[] DEFAULT '{}',
+    total_rows INTEGER DEFAULT 0,
+    created_count INTEGER DEFAULT 0,
+    updated_count INTEGER DEFAULT 0,
+    skipped_count INTEGER DEFAULT 0,
+    rejected_count INTEGER DEFAULT 0,
+    last_error TEXT,
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    created_by UUID
+);
+
+CREATE INDEX idx_lead_imports_created_at ON lead_imports(created_at DESC);
+
+CREATE TRIGGER lead_imports_updated_at BEFORE UPDATE ON lead_imports
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Rows that failed validation, kept with their original values so they can
+-- be downloaded, fixed and re-imported
+CREATE TABLE lead_import_rejections (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    import_id UUID REFERENCES lead_imports(id) ON DELETE CASCADE NOT NULL,
+    row_number INTEGER NOT NULL,
+    row_values TEXT[] NOT NULL,
+    errors TEXT[] NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_lead_import_rejections_import ON lead_import_rejections(import_id, row_number);
+
+-- Leads created by an import point back at it
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS import_id UUID REFERENCES lead_imports(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_leads_import_id ON leads(import_id) WHERE import_id IS NOT NULL;
+
+-- ============================================
+-- LEAD IMPORT POLICIES
+-- ============================================
+ALTER TABLE lead_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lead_import_rejections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view all lead_imports"
+    ON lead_imports FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can insert lead_imports"
+    ON lead_imports FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update lead_imports"
+    ON lead_imports FOR UPDATE
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can view all lead_import_rejections"
+    ON lead_import_rejections FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can insert lead_import_rejections"
+    ON lead_import_rejections FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
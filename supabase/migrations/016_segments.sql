@@ -0,0 +1,144 @@
+-- ============================================
+-- SAVED SEGMENTS
+-- ============================================
+
+-- A reusable lead filter. See SegmentFilters in src/types for the shape of
+-- `filters`; segment_leads() turns it into a query
+CREATE TABLE segments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    filters JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    created_by UUID
+);
+
+CREATE TRIGGER segments_updated_at BEFORE UPDATE ON segments
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- A campaign's audience: matching leads are enrolled whenever the campaign
+-- is processed, so new leads that match are picked up automatically
+ALTER TABLE campaigns
+ADD COLUMN IF NOT EXISTS segment_id UUID REFERENCES segments(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_campaigns_segment ON campaigns(segment_id) WHERE segment_id IS NOT NULL;
+
+-- JSON string array -> lower-cased TEXT[] ('{}' when missing)
+CREATE OR REPLACE FUNCTION segment_filter_values(p_filters JSONB, p_key TEXT)
+RETURNS TEXT[] AS $$
+    SELECT COALESCE(ARRAY(
+        SELECT lower(value)
+        FROM jsonb_array_elements_text(
+            CASE WHEN jsonb_typeof(p_filters->p_key) = 'array' THEN p_filters->p_key ELSE '[]' END
+        ) AS value
+    ), '{}');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Leads matching a segment filter definition. Empty lists and missing keys
+-- don't filter; every engagement rule must hold
+CREATE OR REPLACE FUNCTION segment_leads(p_filters JSONB)
+RETURNS SETOF leads AS $$
+    SELECT l.*
+    FROM leads l
+    WHERE (cardinality(segment_filter_values(p_filters, 'statuses')) = 0
+           OR lower(l.status) = ANY(segment_filter_values(p_filters, 'statuses')))
+      AND (cardinality(segment_filter_values(p_filters, 'sources')) = 0
+           OR lower(l.source) = ANY(segment_filter_values(p_filters, 'sources')))
+      AND (cardinality(segment_filter_values(p_filters, 'industries')) = 0
+           OR lower(l.industry) = ANY(segment_filter_values(p_filters, 'industries')))
+      AND (cardinality(segment_filter_values(p_filters, 'cities')) = 0
+           OR lower(l.city) = ANY(segment_filter_values(p_filters, 'cities')))
+      AND (cardinality(segment_filter_values(p_filters, 'states')) = 0
+           OR lower(l.state) = ANY(segment_filter_values(p_filters, 'states')))
+      AND (cardinality(segment_filter_values(p_filters, 'tags')) = 0
+           OR CASE WHEN p_filters->>'tags_match' = 'all'
+                   THEN ARRAY(SELECT lower(t) FROM unnest(l.tags) t) @> segment_filter_values(p_filters, 'tags')
+                   ELSE ARRAY(SELECT lower(t) FROM unnest(l.tags) t) && segment_filter_values(p_filters, 'tags')
+              END)
+      AND (p_filters->>'min_quality_score' IS NULL
+           OR l.quality_score >= (p_filters->>'min_quality_score')::INTEGER)
+      AND (p_filters->>'max_quality_score' IS NULL
+           OR l.quality_score <= (p_filters->>'max_quality_score')::INTEGER)
+      AND (cardinality(segment_filter_values(p_filters, 'verification_statuses')) = 0
+           OR COALESCE(l.email_verification_status, 'unverified')
+              = ANY(segment_filter_values(p_filters, 'verification_statuses')))
+      AND NOT EXISTS (
+          SELECT 1
+          FROM jsonb_array_elements(
+              CASE WHEN jsonb_typeof(p_filters->'engagement') = 'array'
+                   THEN p_filters->'engagement' ELSE '[]' END
+          ) AS rule
+          WHERE EXISTS (
+              SELECT 1
+              FROM campaign_leads cl
+              WHERE cl.lead_id = l.id
+                AND CASE rule->>'event'
+                        WHEN 'sent' THEN cl.sent_at
+                        WHEN 'opened' THEN cl.opened_at
+                        WHEN 'clicked' THEN cl.clicked_at
+                        WHEN 'replied' THEN cl.replied_at
+                    END >= NOW() - make_interval(days => COALESCE((rule->>'days')::INTEGER, 30))
+          ) <> (COALESCE(rule->>'match', 'did') = 'did')
+      );
+$$ LANGUAGE sql STABLE;
+
+-- Enroll a segment's leads into a campaign, skipping leads that are already
+-- in it, unsubscribed or bounced. Returns how many were added. Since 026 the
+-- token behind each sent email's unsubscribe link lives in
+-- unsubscribe_tokens rather than unsubscribes, so leads emailed after it
+-- still enroll in engagement segments.
+CREATE OR REPLACE FUNCTION enroll_segment_leads(p_campaign_id UUID, p_segment_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    v_filters JSONB;
+    v_added INTEGER;
+BEGIN
+    SELECT filters INTO v_filters FROM segments WHERE id = p_segment_id;
+    IF v_filters IS NULL THEN
+        RETURN 0;
+    END IF;
+
+    INSERT INTO campaign_leads (campaign_id, lead_id, status)
+    SELECT p_campaign_id, l.id, 'pending'
+    FROM segment_leads(v_filters) l
+    WHERE l.status NOT IN ('unsubscribed', 'bounced')
+      AND NOT EXISTS (SELECT 1 FROM unsubscribes u WHERE u.email = l.email)
+    ON CONFLICT (campaign_id, lead_id) DO NOTHING;
+
+    GET DIAGNOSTICS v_added = ROW_COUNT;
+
+    IF v_added > 0 THEN
+        UPDATE campaigns
+        SET total_leads = (SELECT COUNT(*) FROM campaign_leads WHERE campaign_id = p_campaign_id)
+        WHERE id = p_campaign_id;
+    END IF;
+
+    RETURN v_added;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- SEGMENT POLICIES
+-- ============================================
+ALTER TABLE segments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view all segments"
+    ON segments FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can insert segments"
+    ON segments FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update segments"
+    ON segments FOR UPDATE
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can delete segments"
+    ON segments FOR DELETE
+    TO authenticated
+    USING (true);
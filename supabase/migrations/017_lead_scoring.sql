@@ -0,0 +1,160 @@
+-- ============================================
+-- LEAD SCORING
+-- ============================================
+
+-- Which scoring rules matched and the points each one gave; quality_score is
+-- their sum, clamped to 0-100
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS score_breakdown JSONB;
+
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS scored_at TIMESTAMPTZ;
+
+-- Default rules; see ScoringRule in src/types for the shape. Negative points
+-- are penalties
+INSERT INTO settings (key, value, description) VALUES
+    ('scoring.rules', '[
+        {"type": "verified_email", "enabled": true, "points": 25},
+        {"type": "has_website", "enabled": true, "points": 15},
+        {"type": "has_phone", "enabled": true, "points": 5},
+        {"type": "has_linkedin", "enabled": true, "points": 5},
+        {"type": "industry", "enabled": true, "points": 15, "values": []},
+        {"type": "company_size", "enabled": true, "points": 10, "values": []},
+        {"type": "opened", "enabled": true, "points": 10},
+        {"type": "clicked", "enabled": true, "points": 15},
+        {"type": "replied", "enabled": true, "points": 25},
+        {"type": "role_address", "enabled": true, "points": -20},
+        {"type": "catch_all", "enabled": true, "points": -10},
+        {"type": "bounced", "enabled": true, "points": -50}
+    ]', 'Lead scoring rules used to compute quality_score')
+ON CONFLICT (key) DO NOTHING;
+
+-- Whether any of the lead's campaign emails had this event
+CREATE OR REPLACE FUNCTION lead_has_email_event(p_lead_id UUID, p_event_type TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM email_events e
+        JOIN campaign_leads cl ON cl.id = e.campaign_lead_id
+        WHERE cl.lead_id = p_lead_id
+          AND e.event_type = p_event_type
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Rules that match the lead, as [{"rule": type, "points": n}]. NULL when no
+-- rules are configured, so quality_score is left as it was
+CREATE OR REPLACE FUNCTION lead_score_breakdown(p_lead leads)
+RETURNS JSONB AS $$
+DECLARE
+    v_rules JSONB;
+    v_rule JSONB;
+    v_matched BOOLEAN;
+    v_breakdown JSONB := '[]';
+BEGIN
+    SELECT value INTO v_rules FROM settings WHERE key = 'scoring.rules';
+    IF v_rules IS NULL OR jsonb_typeof(v_rules) <> 'array' THEN
+        RETURN NULL;
+    END IF;
+
+    FOR v_rule IN SELECT * FROM jsonb_array_elements(v_rules) LOOP
+        CONTINUE WHEN COALESCE((v_rule->>'enabled')::BOOLEAN, TRUE) = FALSE;
+
+        v_matched := CASE v_rule->>'type'
+            WHEN 'verified_email' THEN
+                COALESCE(p_lead.email_verified, FALSE) OR p_lead.email_verification_status = 'valid'
+            WHEN 'has_website' THEN COALESCE(btrim(p_lead.company_website), '') <> ''
+            WHEN 'has_phone' THEN COALESCE(btrim(p_lead.phone), '') <> ''
+            WHEN 'has_linkedin' THEN COALESCE(btrim(p_lead.linkedin_url), '') <> ''
+            WHEN 'industry' THEN
+                lower(p_lead.industry) = ANY(segment_filter_values(v_rule, 'values'))
+            WHEN 'company_size' THEN
+                lower(p_lead.company_size) = ANY(segment_filter_values(v_rule, 'values'))
+            WHEN 'opened' THEN lead_has_email_event(p_lead.id, 'opened')
+            WHEN 'clicked' THEN lead_has_email_event(p_lead.id, 'clicked')
+            WHEN 'replied' THEN lead_has_email_event(p_lead.id, 'replied')
+            -- Same shared inboxes as ROLE_ACCOUNTS in src/lib/verification
+            WHEN 'role_address' THEN
+                COALESCE((p_lead.email_verification_result->>'is_role_account')::BOOLEAN, FALSE)
+                OR split_part(split_part(lower(p_lead.email), '@', 1), '+', 1) = ANY(ARRAY[
+                    'accounts', 'admin', 'billing', 'careers', 'contact', 'enquiries', 'help',
+                    'hello', 'hr', 'info', 'inquiries', 'jobs', 'marketing', 'no-reply',
+                    'noreply', 'office', 'postmaster', 'press', 'sales', 'support', 'team',
+                    'webmaster'
+                ])
+            WHEN 'catch_all' THEN COALESCE(p_lead.email_catch_all, FALSE)
+            WHEN 'bounced' THEN
+                p_lead.status = 'bounced' OR lead_has_email_event(p_lead.id, 'bounced')
+            ELSE FALSE
+        END;
+
+        IF COALESCE(v_matched, FALSE) THEN
+            v_breakdown := v_breakdown || jsonb_build_array(jsonb_build_object(
+                'rule', v_rule->>'type',
+                'points', COALESCE((v_rule->>'points')::INTEGER, 0)
+            ));
+        END IF;
+    END LOOP;
+
+    RETURN v_breakdown;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Score every lead as it is written
+CREATE OR REPLACE FUNCTION score_lead()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_breakdown JSONB;
+BEGIN
+    v_breakdown := lead_score_breakdown(NEW);
+    IF v_breakdown IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    NEW.score_breakdown := v_breakdown;
+    NEW.quality_score := LEAST(GREATEST((
+        SELECT COALESCE(SUM((item->>'points')::INTEGER), 0)
+        FROM jsonb_array_elements(v_breakdown) AS item
+    ), 0), 100);
+    NEW.scored_at := NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER leads_score BEFORE INSERT OR UPDATE ON leads
+    FOR EACH ROW EXECUTE FUNCTION score_lead();
+
+-- Engagement changes a lead's score, so re-save the lead to re-run score_lead()
+CREATE OR REPLACE FUNCTION rescore_lead_on_email_event()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_campaign_lead_id UUID;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        v_campaign_lead_id := OLD.campaign_lead_id;
+    ELSE
+        v_campaign_lead_id := NEW.campaign_lead_id;
+    END IF;
+
+    UPDATE leads
+    SET scored_at = NOW()
+    WHERE id = (SELECT lead_id FROM campaign_leads WHERE id = v_campaign_lead_id);
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER email_events_rescore_lead
+    AFTER INSERT OR UPDATE OR DELETE ON email_events
+    FOR EACH ROW EXECUTE FUNCTION rescore_lead_on_email_event();
+
+-- Re-score every lead, e.g. after the rules change. Returns how many were scored
+CREATE OR REPLACE FUNCTION rescore_leads()
+RETURNS INTEGER AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    UPDATE leads SET scored_at = NOW() WHERE id IS NOT NULL;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
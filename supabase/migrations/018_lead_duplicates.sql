@@ -0,0 +1,232 @@
+-- ============================================
+-- DUPLICATE DETECTION AND MERGING
+-- ============================================
+
+-- Normalized keys that two leads for the same person tend to share
+
+CREATE OR REPLACE FUNCTION normalize_email(p_email TEXT)
+RETURNS TEXT AS $$
+    SELECT NULLIF(regexp_replace(lower(p_email), '\s', '', 'g'), '');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Last 10 digits, so "+1 (555) 010-2030" and "555.010.2030" match. Numbers
+-- too short to identify anyone are ignored
+CREATE OR REPLACE FUNCTION normalize_phone(p_phone TEXT)
+RETURNS TEXT AS $$
+    SELECT CASE
+        WHEN length(regexp_replace(p_phone, '\D', '', 'g')) >= 7
+        THEN right(regexp_replace(p_phone, '\D', '', 'g'), 10)
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- "https://www.Acme.com/about" -> "acme.com"
+CREATE OR REPLACE FUNCTION website_domain(p_url TEXT)
+RETURNS TEXT AS $$
+    SELECT NULLIF(regexp_replace(
+        split_part(split_part(regexp_replace(lower(btrim(p_url)), '^[a-z]+://', ''), '/', 1), ':', 1),
+        '^www\.', ''
+    ), '');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION lead_full_name(p_first_name TEXT, p_last_name TEXT)
+RETURNS TEXT AS $$
+    SELECT NULLIF(regexp_replace(lower(btrim(concat_ws(' ', p_first_name, p_last_name))), '\s+', ' ', 'g'), '');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE INDEX idx_leads_normalized_email ON leads(normalize_email(email));
+CREATE INDEX idx_leads_normalized_phone ON leads(normalize_phone(phone));
+CREATE INDEX idx_leads_website_domain ON leads(website_domain(company_website));
+
+-- Review queue: a pair of leads that look like the same person. The pair is
+-- stored once, lowest id first. Dismissed pairs are never queued again
+CREATE TABLE lead_duplicates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    lead_id UUID REFERENCES leads(id) ON DELETE CASCADE NOT NULL,
+    duplicate_lead_id UUID REFERENCES leads(id) ON DELETE CASCADE NOT NULL,
+    -- Which keys matched: email, website_name, phone
+    reasons TEXT[] NOT NULL DEFAULT '{}',
+    status VARCHAR(50) DEFAULT 'pending'
+        CHECK (status IN ('pending', 'dismissed')),
+    resolved_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(lead_id, duplicate_lead_id),
+    CHECK (lead_id < duplicate_lead_id)
+);
+
+CREATE INDEX idx_lead_duplicates_status ON lead_duplicates(status, created_at DESC);
+CREATE INDEX idx_lead_duplicates_duplicate ON lead_duplicates(duplicate_lead_id);
+
+-- Queue every lead that matches this one. Pending pairs that no longer match
+-- are dropped. Returns how many pairs are queued for the lead
+CREATE OR REPLACE FUNCTION detect_lead_duplicates(p_lead_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    v_lead leads;
+    v_count INTEGER;
+BEGIN
+    SELECT * INTO v_lead FROM leads WHERE id = p_lead_id;
+    IF NOT FOUND THEN
+        RETURN 0;
+    END IF;
+
+    DELETE FROM lead_duplicates
+    WHERE status = 'pending'
+      AND (lead_id = p_lead_id OR duplicate_lead_id = p_lead_id);
+
+    WITH matches AS (
+        SELECT id, 'email' AS reason
+        FROM leads
+        WHERE normalize_email(email) = normalize_email(v_lead.email)
+        UNION ALL
+        SELECT id, 'website_name'
+        FROM leads
+        WHERE website_domain(company_website) = website_domain(v_lead.company_website)
+          AND lead_full_name(first_name, last_name) = lead_full_name(v_lead.first_name, v_lead.last_name)
+        UNION ALL
+        SELECT id, 'phone'
+        FROM leads
+        WHERE normalize_phone(phone) = normalize_phone(v_lead.phone)
+    )
+    INSERT INTO lead_duplicates (lead_id, duplicate_lead_id, reasons)
+    SELECT LEAST(p_lead_id, id), GREATEST(p_lead_id, id), array_agg(DISTINCT reason)
+    FROM matches
+    WHERE id <> p_lead_id
+    GROUP BY id
+    ON CONFLICT (lead_id, duplicate_lead_id) DO NOTHING;
+
+    SELECT COUNT(*) INTO v_count
+    FROM lead_duplicates
+    WHERE status = 'pending'
+      AND (lead_id = p_lead_id OR duplicate_lead_id = p_lead_id);
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION detect_lead_duplicates_on_write()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM detect_lead_duplicates(NEW.id);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER leads_detect_duplicates
+    AFTER INSERT OR UPDATE OF email, phone, company_website, first_name, last_name ON leads
+    FOR EACH ROW EXECUTE FUNCTION detect_lead_duplicates_on_write();
+
+-- Check every lead, e.g. for leads added before detection existed. Returns
+-- the number of pending pairs
+CREATE OR REPLACE FUNCTION scan_lead_duplicates()
+RETURNS INTEGER AS $$
+DECLARE
+    v_lead_id UUID;
+    v_count INTEGER;
+BEGIN
+    FOR v_lead_id IN SELECT id FROM leads LOOP
+        PERFORM detect_lead_duplicates(v_lead_id);
+    END LOOP;
+
+    SELECT COUNT(*) INTO v_count FROM lead_duplicates WHERE status = 'pending';
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Fold the duplicate into the survivor and delete it. The survivor keeps its
+-- own values and gains whatever the duplicate knew that it didn't; campaign
+-- history and unsubscribes move over so nothing is sent twice
+CREATE OR REPLACE FUNCTION merge_leads(p_survivor_id UUID, p_duplicate_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    IF p_survivor_id = p_duplicate_id THEN
+        RAISE EXCEPTION 'Cannot merge a lead into itself';
+    END IF;
+
+    PERFORM 1 FROM leads WHERE id IN (p_survivor_id, p_duplicate_id) FOR UPDATE;
+    IF NOT EXISTS (SELECT 1 FROM leads WHERE id = p_survivor_id)
+       OR NOT EXISTS (SELECT 1 FROM leads WHERE id = p_duplicate_id) THEN
+        RAISE EXCEPTION 'Lead not found';
+    END IF;
+
+    UPDATE leads l
+    SET first_name = COALESCE(NULLIF(btrim(l.first_name), ''), d.first_name),
+        last_name = COALESCE(NULLIF(btrim(l.last_name), ''), d.last_name),
+        phone = COALESCE(NULLIF(btrim(l.phone), ''), d.phone),
+        linkedin_url = COALESCE(NULLIF(btrim(l.linkedin_url), ''), d.linkedin_url),
+        company_name = COALESCE(NULLIF(btrim(l.company_name), ''), d.company_name),
+        company_website = COALESCE(NULLIF(btrim(l.company_website), ''), d.company_website),
+        company_linkedin = COALESCE(NULLIF(btrim(l.company_linkedin), ''), d.company_linkedin),
+        industry = COALESCE(NULLIF(btrim(l.industry), ''), d.industry),
+        company_size = COALESCE(NULLIF(btrim(l.company_size), ''), d.company_size),
+        estimated_revenue = COALESCE(NULLIF(btrim(l.estimated_revenue), ''), d.estimated_revenue),
+        city = COALESCE(NULLIF(btrim(l.city), ''), d.city),
+        state = COALESCE(NULLIF(btrim(l.state), ''), d.state),
+        country = COALESCE(NULLIF(btrim(l.country), ''), d.country),
+        address = COALESCE(NULLIF(btrim(l.address), ''), d.address),
+        source_url = COALESCE(NULLIF(btrim(l.source_url), ''), d.source_url),
+        -- An opt-out on either lead must survive the merge
+        status = CASE WHEN d.status = 'unsubscribed' THEN 'unsubscribed' ELSE l.status END,
+        tags = ARRAY(
+            SELECT DISTINCT tag FROM unnest(COALESCE(l.tags, '{}') || COALESCE(d.tags, '{}')) AS tag
+        ),
+        custom_fields = COALESCE(d.custom_fields, '{}') || COALESCE(l.custom_fields, '{}'),
+        enrichment_data = COALESCE(d.enrichment_data, '{}') || COALESCE(l.enrichment_data, '{}'),
+        notes = NULLIF(concat_ws(E'\n\n', NULLIF(btrim(l.notes), ''), NULLIF(btrim(d.notes), '')), '')
+    FROM leads d
+    WHERE l.id = p_survivor_id
+      AND d.id = p_duplicate_id;
+
+    -- Campaigns both leads are in keep the survivor's enrollment, which takes
+    -- over the duplicate's email events
+    UPDATE email_events e
+    SET campaign_lead_id = sc.id
+    FROM campaign_leads dc
+    JOIN campaign_leads sc ON sc.campaign_id = dc.campaign_id AND sc.lead_id = p_survivor_id
+    WHERE dc.lead_id = p_duplicate_id
+      AND e.campaign_lead_id = dc.id;
+
+    WITH removed AS (
+        DELETE FROM campaign_leads dc
+        WHERE dc.lead_id = p_duplicate_id
+          AND EXISTS (
+              SELECT 1 FROM campaign_leads sc
+              WHERE sc.campaign_id = dc.campaign_id AND sc.lead_id = p_survivor_id
+          )
+        RETURNING dc.campaign_id
+    )
+    UPDATE campaigns c
+    SET total_leads = (SELECT COUNT(*) FROM campaign_leads WHERE campaign_id = c.id)
+    WHERE c.id IN (SELECT campaign_id FROM removed);
+
+    UPDATE campaign_leads SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+    UPDATE unsubscribes SET lead_id = p_survivor_id WHERE lead_id = p_duplicate_id;
+
+    -- Queue entries for the duplicate go with it (ON DELETE CASCADE)
+    DELETE FROM leads WHERE id = p_duplicate_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- LEAD DUPLICATE POLICIES
+-- ============================================
+ALTER TABLE lead_duplicates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view all lead_duplicates"
+    ON lead_duplicates FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can insert lead_duplicates"
+    ON lead_duplicates FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update lead_duplicates"
+    ON lead_duplicates FOR UPDATE
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can delete lead_duplicates"
+    ON lead_duplicates FOR DELETE
+    TO authenticated
+    USING (true);
@@ -0,0 +1,26 @@
+-- ============================================
+-- WEBSITE CONTACT ENRICHMENT
+-- ============================================
+
+-- Scraper results with a website but no email are handed to
+-- /api/jobs/website-enrich, which becomes a lead if the site lists an email.
+-- Kept apart from leads_created because those jobs finish after the scraper
+ALTER TABLE scraper_jobs
+ADD COLUMN IF NOT EXISTS enrichment_queued INTEGER DEFAULT 0;
+
+ALTER TABLE scraper_jobs
+ADD COLUMN IF NOT EXISTS leads_enriched INTEGER DEFAULT 0;
+
+-- Increment a scraper job counter from concurrent jobs
+CREATE OR REPLACE FUNCTION increment_scraper_job_stat(
+    p_job_id UUID,
+    p_stat_field TEXT
+)
+RETURNS VOID AS $$
+BEGIN
+    EXECUTE format(
+        'UPDATE scraper_jobs SET %I = COALESCE(%I, 0) + 1 WHERE id = $1',
+        p_stat_field, p_stat_field
+    ) USING p_job_id;
+END;
+$$ LANGUAGE plpgsql;
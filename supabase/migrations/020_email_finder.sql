@@ -0,0 +1,15 @@
+-- ============================================
+-- EMAIL FINDER
+-- ============================================
+
+-- Addresses guessed from a name and company domain (first.last@, flast@,
+-- ...) record how sure the finder was and which pattern produced them.
+-- 90+ means the mailbox was confirmed; lower scores are best guesses on
+-- catch-all or unreachable domains, based on the pattern other verified
+-- leads at the domain use.
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS email_confidence INTEGER
+    CHECK (email_confidence >= 0 AND email_confidence <= 100);
+
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS email_pattern VARCHAR(50);
@@ -0,0 +1,202 @@
+-- ============================================
+-- COMPANIES
+-- ============================================
+
+-- Businesses found by the scrapers, whether or not they came with an email.
+-- Leads link to their company, so a business without an email can be
+-- enriched later and a company's contacts can be viewed together
+CREATE TABLE companies (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL,
+    website VARCHAR(500),
+    -- "https://www.acme.com/about" -> "acme.com"; one company per domain
+    domain TEXT GENERATED ALWAYS AS (website_domain(website)) STORED,
+    phone VARCHAR(50),
+    address TEXT,
+    city VARCHAR(100),
+    state VARCHAR(100),
+    country VARCHAR(100) DEFAULT 'USA',
+    rating NUMERIC(2, 1),
+    reviews_count INTEGER,
+    category VARCHAR(100),
+
+    -- Source Tracking
+    source VARCHAR(50) NOT NULL,
+    source_url TEXT,
+    -- Google Maps place id, when the source has one
+    place_id VARCHAR(255),
+    scraper_job_id UUID REFERENCES scraper_jobs(id) ON DELETE SET NULL,
+
+    enrichment_data JSONB DEFAULT '{}',
+    raw_data JSONB DEFAULT '{}',
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_companies_domain ON companies(domain);
+CREATE UNIQUE INDEX idx_companies_place_id ON companies(place_id);
+CREATE INDEX idx_companies_name_phone ON companies(lower(name), normalize_phone(phone));
+CREATE INDEX idx_companies_created_at ON companies(created_at DESC);
+
+CREATE TRIGGER companies_updated_at BEFORE UPDATE ON companies
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS company_id UUID REFERENCES companies(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_leads_company_id ON leads(company_id);
+
+-- Companies a scraper job found, with or without an email
+ALTER TABLE scraper_jobs
+ADD COLUMN IF NOT EXISTS companies_found INTEGER DEFAULT 0;
+
+-- Insert a scraped business, or fill in the company it matches: same place
+-- id, then same website domain, then same name and phone. Fresh ratings and
+-- review counts replace old ones; other fields are only filled when empty
+CREATE OR REPLACE FUNCTION upsert_company(p_company JSONB)
+RETURNS TABLE (company_id UUID, created BOOLEAN) AS $$
+DECLARE
+    v_id UUID;
+    v_name TEXT := NULLIF(btrim(p_company->>'name'), '');
+    v_website TEXT := NULLIF(btrim(p_company->>'website'), '');
+    v_phone TEXT := NULLIF(btrim(p_company->>'phone'), '');
+    v_place_id TEXT := NULLIF(btrim(p_company->>'place_id'), '');
+BEGIN
+    IF v_name IS NULL THEN
+        RAISE EXCEPTION 'Company name is required';
+    END IF;
+
+    FOR attempt IN 1..2 LOOP
+        SELECT c.id INTO v_id
+        FROM companies c
+        WHERE (v_place_id IS NOT NULL AND c.place_id = v_place_id)
+           OR (website_domain(v_website) IS NOT NULL AND c.domain = website_domain(v_website))
+           OR (normalize_phone(v_phone) IS NOT NULL
+               AND lower(c.name) = lower(v_name)
+               AND normalize_phone(c.phone) = normalize_phone(v_phone))
+        ORDER BY (c.place_id = v_place_id) IS TRUE DESC,
+                 (c.domain = website_domain(v_website)) IS TRUE DESC
+        LIMIT 1;
+
+        IF v_id IS NOT NULL THEN
+            UPDATE companies c
+            SET website = COALESCE(c.website, v_website),
+                phone = COALESCE(c.phone, v_phone),
+                address = COALESCE(c.address, NULLIF(p_company->>'address', '')),
+                city = COALESCE(c.city, NULLIF(p_company->>'city', '')),
+                state = COALESCE(c.state, NULLIF(p_company->>'state', '')),
+                category = COALESCE(c.category, NULLIF(p_company->>'category', '')),
+                place_id = COALESCE(c.place_id, v_place_id),
+                source_url = COALESCE(c.source_url, NULLIF(p_company->>'source_url', '')),
+                rating = COALESCE((p_company->>'rating')::NUMERIC, c.rating),
+                reviews_count = COALESCE((p_company->>'reviews_count')::INTEGER, c.reviews_count),
+                raw_data = COALESCE(c.raw_data, '{}') || COALESCE(p_company->'raw_data', '{}')
+            WHERE c.id = v_id;
+
+            RETURN QUERY SELECT v_id, FALSE;
+            RETURN;
+        END IF;
+
+        BEGIN
+            INSERT INTO companies (
+                name, website, phone, address, city, state, country, rating,
+                reviews_count, category, source, source_url, place_id,
+                scraper_job_id, raw_data
+            )
+            VALUES (
+                v_name,
+                v_website,
+                v_phone,
+                NULLIF(p_company->>'address', ''),
+                NULLIF(p_company->>'city', ''),
+                NULLIF(p_company->>'state', ''),
+                COALESCE(NULLIF(p_company->>'country', ''), 'USA'),
+                (p_company->>'rating')::NUMERIC,
+                (p_company->>'reviews_count')::INTEGER,
+                NULLIF(p_company->>'category', ''),
+                COALESCE(NULLIF(p_company->>'source', ''), 'manual'),
+                NULLIF(p_company->>'source_url', ''),
+                v_place_id,
+                (p_company->>'scraper_job_id')::UUID,
+                COALESCE(p_company->'raw_data', '{}')
+            )
+            RETURNING id INTO v_id;
+
+            RETURN QUERY SELECT v_id, TRUE;
+            RETURN;
+        EXCEPTION WHEN unique_violation THEN
+            -- Another job inserted the same company first; match it instead
+            v_id := NULL;
+        END;
+    END LOOP;
+
+    RAISE EXCEPTION 'Could not upsert company %', v_name;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Leads written without a company (imports, manual adds, merges) are linked
+-- to the company on their website's domain, if there is one
+CREATE OR REPLACE FUNCTION link_lead_company()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.company_id IS NULL AND website_domain(NEW.company_website) IS NOT NULL THEN
+        SELECT id INTO NEW.company_id
+        FROM companies
+        WHERE domain = website_domain(NEW.company_website);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER leads_link_company
+    BEFORE INSERT OR UPDATE OF company_website ON leads
+    FOR EACH ROW EXECUTE FUNCTION link_lead_company();
+
+-- Existing leads with a website become companies
+INSERT INTO companies (name, website, phone, city, state, country, category, source, created_at)
+SELECT DISTINCT ON (website_domain(company_website))
+    COALESCE(NULLIF(btrim(company_name), ''), website_domain(company_website)),
+    company_website,
+    phone,
+    city,
+    state,
+    country,
+    industry,
+    source,
+    created_at
+FROM leads
+WHERE website_domain(company_website) IS NOT NULL
+ORDER BY website_domain(company_website), created_at
+ON CONFLICT DO NOTHING;
+
+UPDATE leads l
+SET company_id = c.id
+FROM companies c
+WHERE l.company_id IS NULL
+  AND c.domain = website_domain(l.company_website);
+
+-- ============================================
+-- COMPANY POLICIES
+-- ============================================
+ALTER TABLE companies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view all companies"
+    ON companies FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can insert companies"
+    ON companies FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update companies"
+    ON companies FOR UPDATE
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can delete companies"
+    ON companies FOR DELETE
+    TO authenticated
+    USING (true);
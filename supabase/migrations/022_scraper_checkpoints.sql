@@ -0,0 +1,16 @@
+-- ============================================
+-- RESUMABLE SCRAPER JOBS
+-- ============================================
+
+-- Listings a job has already processed. When the function times out and
+-- QStash re-delivers the job, it skips these and keeps its counters instead
+-- of starting over. Shape: {"seen_ids": ["ChIJ...", ...]}
+ALTER TABLE scraper_jobs
+ADD COLUMN IF NOT EXISTS checkpoint JSONB DEFAULT '{}';
+
+-- Browser session settings for the Playwright scrapers
+INSERT INTO settings (key, value, description) VALUES
+    ('scraper.proxies', '[]', 'Proxy URLs rotated between scraper browser sessions'),
+    ('scraper.user_agents', '[]', 'User agents rotated between scraper browser sessions (empty uses built-in ones)'),
+    ('scraper.detail_pages', 'true', 'Open each Google Maps listing for website, hours, rating and category')
+ON CONFLICT (key) DO NOTHING;
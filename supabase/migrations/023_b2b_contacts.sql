@@ -0,0 +1,24 @@
+-- ============================================
+-- B2B CONTACTS (APOLLO, LINKEDIN SALES NAVIGATOR)
+-- ============================================
+
+-- People found through Apollo or a Sales Navigator export come with a role.
+-- Seniority uses Apollo's levels (owner, founder, c_suite, partner, vp,
+-- head, director, manager, senior, entry, intern); for LinkedIn contacts it
+-- is inferred from the job title
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS job_title VARCHAR(255);
+
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS seniority VARCHAR(50);
+
+CREATE INDEX idx_leads_seniority ON leads(seniority);
+
+-- Titles were kept in custom fields or enrichment data until now
+UPDATE leads
+SET job_title = left(COALESCE(
+        NULLIF(btrim(custom_fields->>'job_title'), ''),
+        NULLIF(btrim(enrichment_data->>'job_title'), ''),
+        NULLIF(btrim(enrichment_data->>'title'), '')
+    ), 255)
+WHERE job_title IS NULL;
@@ -0,0 +1,8 @@
+-- ============================================
+-- LIVE SCRAPER JOB PROGRESS
+-- ============================================
+
+-- The actors page follows running jobs through Supabase realtime instead of
+-- polling. Cancelling sets status = 'cancelled'; the running job checks for
+-- it between results and stops
+ALTER PUBLICATION supabase_realtime ADD TABLE scraper_jobs;
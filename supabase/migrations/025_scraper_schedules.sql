@@ -0,0 +1,137 @@
+-- ============================================
+-- RECURRING SCRAPER SCHEDULES
+-- ============================================
+
+-- A saved scraper configuration that QStash runs on a cron. Each run is a
+-- regular scraper job linked back through scraper_jobs.schedule_id
+CREATE TABLE scraper_schedules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL,
+    scraper_type VARCHAR(50) NOT NULL,
+    search_query TEXT NOT NULL,
+    location VARCHAR(255),
+    max_results INTEGER NOT NULL DEFAULT 100,
+    -- Extra scraper filters, e.g. Apollo job titles
+    search_parameters JSONB DEFAULT '{}',
+    cron VARCHAR(100) NOT NULL,
+    is_active BOOLEAN DEFAULT TRUE,
+    qstash_schedule_id VARCHAR(255),
+
+    -- Where new leads from each run go. A segment is a saved filter, so
+    -- leads join it by taking on the tags it filters on
+    segment_id UUID REFERENCES segments(id) ON DELETE SET NULL,
+    campaign_id UUID REFERENCES campaigns(id) ON DELETE SET NULL,
+    -- Leads created before this were already tagged and enrolled
+    leads_added_at TIMESTAMPTZ DEFAULT NOW(),
+
+    last_run_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    created_by UUID
+);
+
+CREATE TRIGGER scraper_schedules_updated_at BEFORE UPDATE ON scraper_schedules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE scraper_jobs
+ADD COLUMN IF NOT EXISTS schedule_id UUID REFERENCES scraper_schedules(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_scraper_jobs_schedule ON scraper_jobs(schedule_id, created_at DESC)
+    WHERE schedule_id IS NOT NULL;
+
+-- Tag and enroll the leads a schedule's runs created since it last did so,
+-- including leads website enrichment or the email finder added after a run
+-- finished. Returns how many leads were added to the campaign.
+CREATE OR REPLACE FUNCTION add_schedule_leads(p_schedule_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    v_schedule scraper_schedules%ROWTYPE;
+    v_filters JSONB;
+    v_tags TEXT[];
+    v_lead_ids UUID[];
+    v_now TIMESTAMPTZ := NOW();
+    v_added INTEGER := 0;
+BEGIN
+    SELECT * INTO v_schedule FROM scraper_schedules WHERE id = p_schedule_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN 0;
+    END IF;
+
+    v_lead_ids := ARRAY(
+        SELECT l.id
+        FROM leads l
+        JOIN scraper_jobs j ON j.id = l.scraper_job_id
+        WHERE j.schedule_id = p_schedule_id
+          AND l.created_at >= v_schedule.leads_added_at
+          AND l.created_at < v_now
+    );
+
+    IF v_schedule.segment_id IS NOT NULL THEN
+        SELECT filters INTO v_filters FROM segments WHERE id = v_schedule.segment_id;
+        v_tags := ARRAY(
+            SELECT jsonb_array_elements_text(
+                CASE WHEN jsonb_typeof(v_filters->'tags') = 'array' THEN v_filters->'tags' ELSE '[]' END
+            )
+        );
+
+        -- One of the tags is enough unless the segment needs all of them
+        IF COALESCE(v_filters->>'tags_match', 'any') <> 'all' THEN
+            v_tags := v_tags[1:1];
+        END IF;
+
+        IF cardinality(v_tags) > 0 THEN
+            UPDATE leads l
+            SET tags = ARRAY(SELECT DISTINCT unnest(COALESCE(l.tags, '{}') || v_tags))
+            WHERE l.id = ANY(v_lead_ids)
+              AND NOT COALESCE(l.tags, '{}') @> v_tags;
+        END IF;
+    END IF;
+
+    IF v_schedule.campaign_id IS NOT NULL THEN
+        INSERT INTO campaign_leads (campaign_id, lead_id, status)
+        SELECT v_schedule.campaign_id, l.id, 'pending'
+        FROM leads l
+        WHERE l.id = ANY(v_lead_ids)
+          AND l.status NOT IN ('unsubscribed', 'bounced')
+          AND NOT EXISTS (SELECT 1 FROM unsubscribes u WHERE u.email = l.email)
+        ON CONFLICT (campaign_id, lead_id) DO NOTHING;
+
+        GET DIAGNOSTICS v_added = ROW_COUNT;
+
+        IF v_added > 0 THEN
+            UPDATE campaigns
+            SET total_leads = (SELECT COUNT(*) FROM campaign_leads WHERE campaign_id = v_schedule.campaign_id)
+            WHERE id = v_schedule.campaign_id;
+        END IF;
+    END IF;
+
+    UPDATE scraper_schedules SET leads_added_at = v_now WHERE id = p_schedule_id;
+
+    RETURN v_added;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- SCRAPER SCHEDULE POLICIES
+-- ============================================
+ALTER TABLE scraper_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view all scraper schedules"
+    ON scraper_schedules FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can insert scraper schedules"
+    ON scraper_schedules FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update scraper schedules"
+    ON scraper_schedules FOR UPDATE
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can delete scraper schedules"
+    ON scraper_schedules FOR DELETE
+    TO authenticated
+    USING (true);
@@ -0,0 +1,37 @@
+-- ============================================
+-- UNSUBSCRIBE TOKENS
+-- ============================================
+
+-- The token behind each sent email's unsubscribe link. These used to be
+-- written to unsubscribes on the first send, which made every emailed
+-- address look opted out: follow-up steps were skipped and segment
+-- enrollment dropped anyone already contacted. From now on only addresses
+-- that actually opt out (link used, complaint, manual) go in unsubscribes
+CREATE TABLE unsubscribe_tokens (
+    token VARCHAR(255) PRIMARY KEY,
+    email VARCHAR(255) NOT NULL,
+    lead_id UUID REFERENCES leads(id) ON DELETE CASCADE,
+    campaign_id UUID REFERENCES campaigns(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_unsubscribe_tokens_email ON unsubscribe_tokens(email);
+
+-- Copy the tokens of rows written by sends so their links keep working.
+-- The rows themselves stay: clicking one of those links only showed "Already
+-- Unsubscribed" and recorded nothing, so a real opt-out can't be told apart
+-- from an unused token. Addresses emailed before this stay opted out
+INSERT INTO unsubscribe_tokens (token, email, lead_id, campaign_id, created_at)
+SELECT token, email, lead_id, campaign_id, created_at
+FROM unsubscribes
+WHERE source = 'link'
+ON CONFLICT (token) DO NOTHING;
+
+-- Only the service role (sending jobs and the unsubscribe page) reads
+-- tokens; team members can look them up for support
+ALTER TABLE unsubscribe_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view all unsubscribe tokens"
+    ON unsubscribe_tokens FOR SELECT
+    TO authenticated
+    USING (true);
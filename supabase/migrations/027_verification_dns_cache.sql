@@ -0,0 +1,11 @@
+-- ============================================
+-- DROP UNRELIABLE DEAD-DOMAIN VERDICTS
+-- ============================================
+
+-- The in-house check used to report any DNS failure (timeout, SERVFAIL,
+-- refused) as invalid_domain, and that verdict was cached for the whole
+-- domain. Those entries can't be told apart from real NXDOMAIN answers, so
+-- they are dropped and the domains are looked up again on the next check
+DELETE FROM email_verification_cache
+WHERE provider = 'smtp'
+  AND result->'reasons' ? 'invalid_domain';
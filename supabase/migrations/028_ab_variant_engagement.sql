@@ -0,0 +1,22 @@
+-- ============================================
+-- A/B VARIANT ENGAGEMENT FROM STEP 1 ONLY
+-- ============================================
+
+-- Leads that opened, clicked or replied to each variant's first email.
+-- campaign_leads.opened_at etc. also record engagement with follow-up steps,
+-- which are the same for every variant, so the winner is picked from step 1
+-- events instead
+CREATE OR REPLACE FUNCTION ab_variant_engagement(p_campaign_id UUID)
+RETURNS TABLE (variant VARCHAR, event_type VARCHAR, leads BIGINT) AS $$
+    SELECT e.variant, e.event_type, COUNT(DISTINCT e.campaign_lead_id)
+    FROM email_events e
+    JOIN campaign_leads cl ON cl.id = e.campaign_lead_id
+    WHERE cl.campaign_id = p_campaign_id
+      AND e.step_number = 1
+      AND e.variant IS NOT NULL
+      AND e.event_type IN ('opened', 'clicked', 'replied')
+    GROUP BY e.variant, e.event_type;
+$$ LANGUAGE sql STABLE;
+
+CREATE INDEX IF NOT EXISTS idx_email_events_step_variant
+    ON email_events(campaign_lead_id, step_number, variant);
@@ -0,0 +1,16 @@
+-- ============================================
+-- ENCRYPTED MAILBOX CREDENTIALS
+-- ============================================
+
+-- Passwords are encrypted by the app (AES-256-GCM, key from the
+-- MAILBOX_ENCRYPTION_KEY env var) and stored as "enc:v1:..."; rows saved
+-- before this are encrypted the next time the warmup network reads them.
+-- RLS is enabled with no policies, so only the service role can read or
+-- write this table
+COMMENT ON TABLE sender_mailbox_credentials IS
+    'IMAP/SMTP logins for the warmup network. Service role only (RLS enabled, no policies).';
+
+COMMENT ON COLUMN sender_mailbox_credentials.password IS
+    'AES-256-GCM encrypted by the app with MAILBOX_ENCRYPTION_KEY ("enc:v1:<iv>:<tag>:<ciphertext>").';
+
+REVOKE ALL ON sender_mailbox_credentials FROM anon, authenticated;
@@ -0,0 +1,14 @@
+-- ============================================
+-- RECLAIM STALLED VERIFICATION BATCH ITEMS
+-- ============================================
+
+-- When a chunk claimed items. A chunk whose function timed out or crashed
+-- leaves its items 'processing'; the next chunk claims them again once the
+-- claim is older than the chunk timeout, so the batch can still complete
+ALTER TABLE verification_batch_items
+ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ;
+
+-- Items already stuck are reclaimable right away
+UPDATE verification_batch_items
+SET claimed_at = created_at
+WHERE status = 'processing' AND claimed_at IS NULL;
@@ -0,0 +1,13 @@
+-- ============================================
+-- MERGE LEADS AS OWNER
+-- ============================================
+
+-- merge_leads is called with the signed-in user's session, and row level
+-- security gives authenticated no UPDATE on email_events or unsubscribes.
+-- Those updates matched nothing, so deleting the duplicate's enrollment and
+-- the duplicate itself then failed on their foreign keys. The function runs
+-- as its owner instead; only signed-in users and the service role can call it
+ALTER FUNCTION merge_leads(UUID, UUID) SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION merge_leads(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION merge_leads(UUID, UUID) TO authenticated, service_role;
@@ -0,0 +1,35 @@
+-- ============================================
+-- KEEP SUPPLIED QUALITY SCORES
+-- ============================================
+
+-- score_lead() overwrote quality_score on every write, so scores mapped in
+-- an import or set by hand were silently replaced. A score given on insert,
+-- or changed by an update, is kept and its breakdown cleared (the lead page
+-- shows it as imported). The next write that leaves the score alone, such
+-- as an engagement event or rescore_leads(), computes it from the rules again
+CREATE OR REPLACE FUNCTION score_lead()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_breakdown JSONB;
+BEGIN
+    IF (TG_OP = 'INSERT' AND NEW.quality_score IS NOT NULL)
+       OR (TG_OP = 'UPDATE' AND NEW.quality_score IS DISTINCT FROM OLD.quality_score) THEN
+        NEW.score_breakdown := NULL;
+        NEW.scored_at := NULL;
+        RETURN NEW;
+    END IF;
+
+    v_breakdown := lead_score_breakdown(NEW);
+    IF v_breakdown IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    NEW.score_breakdown := v_breakdown;
+    NEW.quality_score := LEAST(GREATEST((
+        SELECT COALESCE(SUM((item->>'points')::INTEGER), 0)
+        FROM jsonb_array_elements(v_breakdown) AS item
+    ), 0), 100);
+    NEW.scored_at := NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
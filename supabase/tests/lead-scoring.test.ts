@@ -0,0 +1,101 @@
+import type { PGlite } from "@electric-sql/pglite";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createTestDatabase, DATABASE_TIMEOUT_MS } from "./db";
+
+interface ScoredLead {
+  quality_score: number | null;
+  score_breakdown: { rule: string; points: number }[] | null;
+}
+
+describe("score_lead", () => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+  }, DATABASE_TIMEOUT_MS);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  // Each test runs in a transaction that is rolled back afterwards
+  beforeEach(async () => {
+    await db.exec("BEGIN");
+  });
+
+  afterEach(async () => {
+    await db.exec("ROLLBACK");
+  });
+
+  async function insertLead(qualityScore: number | null = null): Promise<string> {
+    const { rows } = await db.query<{ id: string }>(
+      `INSERT INTO leads (email, company_website, phone, source, quality_score)
+       VALUES ('sam@acme.com', 'https://acme.com', '555-010-2030', 'import', $1)
+       RETURNING id`,
+      [qualityScore]
+    );
+    return rows[0].id;
+  }
+
+  async function getLead(id: string): Promise<ScoredLead> {
+    const { rows } = await db.query<ScoredLead>(
+      "SELECT quality_score, score_breakdown FROM leads WHERE id = $1",
+      [id]
+    );
+    return rows[0];
+  }
+
+  it("scores a new lead from the default rules", async () => {
+    const id = await insertLead();
+
+    expect(await getLead(id)).toEqual({
+      quality_score: 20,
+      score_breakdown: [
+        { rule: "has_website", points: 15 },
+        { rule: "has_phone", points: 5 },
+      ],
+    });
+  });
+
+  it("keeps a score supplied on insert, as imports do", async () => {
+    const id = await insertLead(80);
+
+    expect(await getLead(id)).toEqual({ quality_score: 80, score_breakdown: null });
+  });
+
+  it("keeps a score changed by an update", async () => {
+    const id = await insertLead();
+    await db.query("UPDATE leads SET quality_score = 65, city = 'Austin' WHERE id = $1", [id]);
+
+    expect(await getLead(id)).toEqual({ quality_score: 65, score_breakdown: null });
+  });
+
+  it("recomputes when an update or an email event leaves the score alone", async () => {
+    const id = await insertLead(80);
+    await db.query("UPDATE leads SET linkedin_url = 'https://linkedin.com/in/sam' WHERE id = $1", [
+      id,
+    ]);
+    expect((await getLead(id)).quality_score).toBe(25);
+
+    const { rows } = await db.query<{ id: string }>(
+      `INSERT INTO email_templates (name, subject, body_html) VALUES ('Intro', 'Hi', '<p>Hi</p>')
+       RETURNING id`
+    );
+    await db.query(
+      `WITH campaign AS (
+           INSERT INTO campaigns (name, template_id, from_name, from_email)
+           VALUES ('Launch', $1, 'Sales', 'sales@example.com')
+           RETURNING id
+       ), enrollment AS (
+           INSERT INTO campaign_leads (campaign_id, lead_id)
+           SELECT id, $2 FROM campaign
+           RETURNING id
+       )
+       INSERT INTO email_events (campaign_lead_id, event_type)
+       SELECT id, 'opened' FROM enrollment`,
+      [rows[0].id, id]
+    );
+
+    expect((await getLead(id)).quality_score).toBe(35);
+  });
+});
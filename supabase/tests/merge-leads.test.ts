@@ -0,0 +1,124 @@
+import type { PGlite } from "@electric-sql/pglite";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { asAuthenticated, createTestDatabase, DATABASE_TIMEOUT_MS } from "./db";
+
+async function insert(db: PGlite, sql: string, params: unknown[] = []): Promise<string> {
+  const { rows } = await db.query<{ id: string }>(`${sql} RETURNING id`, params);
+  return rows[0].id;
+}
+
+describe("merge_leads", () => {
+  let db: PGlite;
+  let survivorId: string;
+  let duplicateId: string;
+  let sharedCampaignId: string;
+  let otherCampaignId: string;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+  }, DATABASE_TIMEOUT_MS);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  // Each test runs in a transaction that is rolled back afterwards
+  beforeEach(async () => {
+    await db.exec("BEGIN");
+
+    const templateId = await insert(
+      db,
+      "INSERT INTO email_templates (name, subject, body_html) VALUES ('Intro', 'Hi', '<p>Hi</p>')"
+    );
+    const createCampaign = (name: string) =>
+      insert(
+        db,
+        `INSERT INTO campaigns (name, template_id, from_name, from_email)
+         VALUES ($1, $2, 'Sales', 'sales@example.com')`,
+        [name, templateId]
+      );
+    sharedCampaignId = await createCampaign("Shared");
+    otherCampaignId = await createCampaign("Duplicate only");
+
+    survivorId = await insert(
+      db,
+      "INSERT INTO leads (email, first_name, source) VALUES ('jane@acme.com', 'Jane', 'manual')"
+    );
+    duplicateId = await insert(
+      db,
+      "INSERT INTO leads (email, phone, source) VALUES ('Jane@Acme.com', '555-010-2030', 'import')"
+    );
+  });
+
+  afterEach(async () => {
+    await db.exec("ROLLBACK");
+  });
+
+  async function enroll(campaignId: string, leadId: string): Promise<string> {
+    return insert(db, "INSERT INTO campaign_leads (campaign_id, lead_id) VALUES ($1, $2)", [
+      campaignId,
+      leadId,
+    ]);
+  }
+
+  async function merge() {
+    await asAuthenticated(db, () =>
+      db.query("SELECT merge_leads($1, $2)", [survivorId, duplicateId])
+    );
+  }
+
+  it("moves the duplicate's unsubscribe to the survivor", async () => {
+    await db.query(
+      `INSERT INTO unsubscribes (email, lead_id, token, source)
+       VALUES ('Jane@Acme.com', $1, 'token-1', 'manual')`,
+      [duplicateId]
+    );
+
+    await merge();
+
+    const { rows } = await db.query<{ lead_id: string }>("SELECT lead_id FROM unsubscribes");
+    expect(rows).toEqual([{ lead_id: survivorId }]);
+  });
+
+  it("keeps the survivor's enrollment in a shared campaign with both leads' events", async () => {
+    const survivorEnrollment = await enroll(sharedCampaignId, survivorId);
+    const duplicateEnrollment = await enroll(sharedCampaignId, duplicateId);
+    await db.query(
+      "INSERT INTO email_events (campaign_lead_id, event_type) VALUES ($1, 'opened'), ($2, 'clicked')",
+      [survivorEnrollment, duplicateEnrollment]
+    );
+
+    await merge();
+
+    const { rows: enrollments } = await db.query<{ id: string }>(
+      "SELECT id FROM campaign_leads WHERE campaign_id = $1",
+      [sharedCampaignId]
+    );
+    expect(enrollments).toEqual([{ id: survivorEnrollment }]);
+
+    const { rows: events } = await db.query<{ campaign_lead_id: string; event_type: string }>(
+      "SELECT campaign_lead_id, event_type FROM email_events ORDER BY event_type"
+    );
+    expect(events).toEqual([
+      { campaign_lead_id: survivorEnrollment, event_type: "clicked" },
+      { campaign_lead_id: survivorEnrollment, event_type: "opened" },
+    ]);
+  });
+
+  it("moves the duplicate's other campaigns and fills the survivor's empty fields", async () => {
+    const duplicateEnrollment = await enroll(otherCampaignId, duplicateId);
+
+    await merge();
+
+    const { rows: enrollments } = await db.query<{ lead_id: string }>(
+      "SELECT lead_id FROM campaign_leads WHERE id = $1",
+      [duplicateEnrollment]
+    );
+    expect(enrollments).toEqual([{ lead_id: survivorId }]);
+
+    const { rows: leads } = await db.query<{ id: string; first_name: string; phone: string }>(
+      "SELECT id, first_name, phone FROM leads"
+    );
+    expect(leads).toEqual([{ id: survivorId, first_name: "Jane", phone: "555-010-2030" }]);
+  });
+});
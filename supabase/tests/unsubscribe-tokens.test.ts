@@ -0,0 +1,45 @@
+import type { PGlite } from "@electric-sql/pglite";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { applyMigration, createTestDatabase, DATABASE_TIMEOUT_MS } from "./db";
+
+describe("026_unsubscribe_tokens", () => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = await createTestDatabase({ before: "026" });
+
+    // Before 026 every send wrote its token to unsubscribes, and a click on
+    // the link left the lead's status alone
+    const { rows } = await db.query<{ id: string }>(
+      "INSERT INTO leads (email, source) VALUES ('sam@acme.com', 'manual') RETURNING id"
+    );
+    await db.query(
+      `INSERT INTO unsubscribes (email, lead_id, token, source) VALUES
+         ('sam@acme.com', $1, 'send-token', 'link'),
+         ('pat@acme.com', NULL, 'manual-token', 'manual')`,
+      [rows[0].id]
+    );
+
+    await applyMigration(db, "026");
+  }, DATABASE_TIMEOUT_MS);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it("keeps existing unsubscribes, since a clicked link can't be told apart from an unused one", async () => {
+    const { rows } = await db.query<{ email: string }>(
+      "SELECT email FROM unsubscribes ORDER BY email"
+    );
+
+    expect(rows).toEqual([{ email: "pat@acme.com" }, { email: "sam@acme.com" }]);
+  });
+
+  it("copies the tokens written by sends so old links keep working", async () => {
+    const { rows } = await db.query<{ token: string; email: string }>(
+      "SELECT token, email FROM unsubscribe_tokens"
+    );
+
+    expect(rows).toEqual([{ token: "send-token", email: "sam@acme.com" }]);
+  });
+});